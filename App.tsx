@@ -3,13 +3,15 @@ import WelcomePage from './components/auth/WelcomePage';
 import AuthFlow from './components/auth/AuthFlow';
 import TechnicianPortal from './components/technician/TechnicianPortal';
 import CustomerPortal from './components/customer/CustomerPortal';
+import AdminPortal from './components/admin/AdminPortal';
 import { AppProvider } from './contexts/AppContext';
-import { auth } from './services/firebase';
-import { signOut } from 'firebase/auth';
-import { SpinnerIcon } from './components/common/icons';
+import { NotificationProvider } from './contexts/NotificationContext';
+import { CatalogProvider } from './contexts/CatalogContext';
+import { authBackend } from './services/backend';
+import { SpinnerIcon, LogoutIcon } from './components/common/icons';
 import { useAuth } from './contexts/AuthContext'; // NEW: Import our custom hook
 
-type AuthRoute = 'welcome' | 'technician' | 'customer';
+type AuthRoute = 'welcome' | 'technician' | 'customer' | 'admin';
 
 const App: React.FC = () => {
   // NEW: Get all user and loading info from our centralized AuthContext.
@@ -21,7 +23,7 @@ const App: React.FC = () => {
   // UPDATED: The handleLogout function is now much simpler.
   const handleLogout = useCallback(async () => {
     try {
-      await signOut(auth);
+      await authBackend.signOut();
       // The AuthContext will detect the sign-out and update the state automatically.
       // We just reset the navigation route for when the user is logged out.
       setAuthRoute('welcome');
@@ -51,11 +53,28 @@ const App: React.FC = () => {
 
     // Step 2: If a userProfile exists, they are logged in. Render the correct portal based on their role.
     if (userProfile) {
+      // Suspended users keep their account but can't reach any portal.
+      if (userProfile.suspended) {
+        return (
+          <div className="min-h-screen bg-slate-100 flex justify-center items-center p-4">
+            <div className="bg-white p-8 rounded-2xl shadow-xl max-w-md text-center">
+              <h2 className="text-2xl font-bold text-slate-800">Account Suspended</h2>
+              <p className="mt-2 text-slate-600">Your account has been suspended by our operations team. Please contact support if you think this is a mistake.</p>
+              <button onClick={handleLogout} className="mt-6 inline-flex items-center font-semibold text-red-600 hover:text-red-700">
+                <LogoutIcon className="w-5 h-5 mr-2" /> Logout
+              </button>
+            </div>
+          </div>
+        );
+      }
+
        switch (userProfile.role) {
         case 'technician':
           return <TechnicianPortal onLogout={handleLogout} />;
         case 'customer':
           return <CustomerPortal onLogout={handleLogout} />;
+        case 'admin':
+          return <AdminPortal onLogout={handleLogout} />;
         default:
           // This is a safety net in case a user has a profile but an invalid role.
           console.error("App.tsx: User profile has an invalid role:", userProfile.role);
@@ -70,6 +89,8 @@ const App: React.FC = () => {
             return <AuthFlow userType="technician" onBack={handleBackToWelcome} />;
         case 'customer':
              return <AuthFlow userType="customer" onBack={handleBackToWelcome} />;
+        case 'admin':
+             return <AuthFlow userType="admin" onBack={handleBackToWelcome} />;
         case 'welcome':
         default:
             return <WelcomePage onSelectRole={handleRoleSelect} />;
@@ -78,9 +99,13 @@ const App: React.FC = () => {
 
   return (
     // AppProvider remains for handling app data (requests, messages etc.)
-    <AppProvider>
-      {renderApp()}
-    </AppProvider>
+    <CatalogProvider>
+      <AppProvider>
+        <NotificationProvider>
+          {renderApp()}
+        </NotificationProvider>
+      </AppProvider>
+    </CatalogProvider>
   )
 };
 
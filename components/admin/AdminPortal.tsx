@@ -0,0 +1,122 @@
+import React, { useState, useCallback, useEffect } from 'react';
+import Sidebar, { NavItemType, View } from '@/components/common/Sidebar';
+import Header from '@/components/common/Header';
+import RequestsOverview from '@/components/admin/RequestsOverview';
+import UsersView from '@/components/admin/UsersView';
+import CategoryCatalogView from '@/components/admin/CategoryCatalogView';
+import AvatarUpload from '@/components/common/AvatarUpload';
+import ChangeEmailForm from '@/components/common/ChangeEmailForm';
+import { Notification, UserProfile } from '@/shared/types';
+import { ClipboardDocumentListIcon, UserGroupIcon, WrenchScrewdriverIcon, ProfileIcon, SpinnerIcon } from '@/components/common/icons';
+import { useAuth } from '@/contexts/AuthContext';
+import { useNotifications } from '@/contexts/NotificationContext';
+import { userRepository } from '@/services/repositories';
+
+interface AdminPortalProps {
+    onLogout: () => void;
+}
+
+const ADMIN_NAV_ITEMS: NavItemType[] = [
+    { view: 'dashboard', label: 'Requests', icon: ClipboardDocumentListIcon },
+    { view: 'users', label: 'Users', icon: UserGroupIcon },
+    { view: 'categories', label: 'Categories', icon: WrenchScrewdriverIcon },
+    { view: 'profile', label: 'Profile', icon: ProfileIcon }
+];
+
+const AdminProfileView: React.FC<{ userProfile: UserProfile }> = ({ userProfile }) => (
+    <div className="p-8">
+        <h2 className="text-2xl font-bold text-gray-800 mb-6">My Profile</h2>
+        <div className="bg-white p-8 rounded-xl shadow-sm max-w-2xl mx-auto flex items-center">
+            <AvatarUpload className="w-24 h-24 rounded-full border-4 border-indigo-500" />
+            <div className="ml-6">
+                <h3 className="text-3xl font-bold text-gray-800">{userProfile.fullName}</h3>
+                <p className="text-gray-500">Operations Staff</p>
+            </div>
+        </div>
+        <div className="bg-white p-8 rounded-xl shadow-sm max-w-2xl mx-auto mt-6">
+            <h4 className="text-lg font-semibold text-gray-700 mb-4">Email Address</h4>
+            <ChangeEmailForm />
+        </div>
+    </div>
+);
+
+const AdminPortal: React.FC<AdminPortalProps> = ({ onLogout }) => {
+    const { userProfile } = useAuth();
+    const [activeView, setActiveView] = useState<View>('dashboard');
+    const [isSidebarCollapsed, setIsSidebarCollapsed] = useState(false);
+    const [users, setUsers] = useState<UserProfile[]>([]);
+    const { notifications, markAsRead, markAllAsRead } = useNotifications();
+    const [focusRequestId, setFocusRequestId] = useState<string | null>(null);
+
+    // Both the user list and the assignment picker need everyone, so listen once here.
+    useEffect(() => {
+        const unsubscribe = userRepository.subscribeAll(setUsers, (error) => {
+            console.error("Error in users listener (AdminPortal.tsx):", error);
+        });
+        return () => unsubscribe();
+    }, []);
+
+    const handleNotificationClick = useCallback((notification: Notification) => {
+        if (!notification.read) markAsRead(notification.id);
+        if (notification.link?.requestId) {
+            setFocusRequestId(notification.link.requestId);
+            setActiveView('dashboard');
+        }
+    }, [markAsRead]);
+
+    if (!userProfile) {
+        return (
+            <div className="h-screen flex justify-center items-center bg-slate-50">
+                <SpinnerIcon className="w-10 h-10 text-indigo-600 animate-spin" />
+            </div>
+        );
+    }
+
+    const technicians = users.filter(user => user.role === 'technician');
+
+    const renderView = () => {
+        switch (activeView) {
+            case 'users':
+                return <UsersView users={users} />;
+            case 'categories':
+                return <CategoryCatalogView />;
+            case 'profile':
+                return <AdminProfileView userProfile={userProfile} />;
+            case 'dashboard':
+            default:
+                return <RequestsOverview
+                    technicians={technicians}
+                    focusRequestId={focusRequestId}
+                    onFocusHandled={() => setFocusRequestId(null)}
+                />;
+        }
+    };
+
+    return (
+        <div className="h-screen flex bg-slate-50 overflow-hidden">
+            <Sidebar
+                activeView={activeView}
+                setActiveView={setActiveView}
+                isCollapsed={isSidebarCollapsed}
+                onToggle={() => setIsSidebarCollapsed(prev => !prev)}
+                navItems={ADMIN_NAV_ITEMS}
+                portalName="Operations"
+            />
+            <main className="flex-1 flex flex-col overflow-y-auto">
+                <Header
+                    userProfile={userProfile}
+                    notifications={notifications}
+                    onClearNotifications={markAllAsRead}
+                    onNotificationClick={handleNotificationClick}
+                    onLogout={onLogout}
+                    setActiveView={setActiveView}
+                />
+                <div className="flex-1 main-content-bg animate-fade-in" key={activeView}>
+                    {renderView()}
+                </div>
+            </main>
+        </div>
+    );
+};
+
+export default AdminPortal;
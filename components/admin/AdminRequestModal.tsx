@@ -0,0 +1,238 @@
+import React, { useState, useMemo } from 'react';
+import { ServiceRequest, RequestStatus, UserProfile } from '@/shared/types';
+import { CloseIcon, SpinnerIcon } from '@/components/common/icons';
+import { useAppContext } from '@/contexts/AppContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { RequestTransitionError, canTransition, getAttentionReason } from '@/shared/requestLifecycle';
+import RequestTimeline from '@/components/common/RequestTimeline';
+import InvoiceHistory from '@/components/common/InvoiceHistory';
+import { useCatalog } from '@/contexts/CatalogContext';
+import { getRequestCategoryId } from '@/shared/categories';
+import { formatRequestTime, getRequestTimeZone } from '@/shared/timeZones';
+import { formatMoney, parseMoney, subtractMoney } from '@/shared/money';
+import { getCreditedAmount, getInvoiceLabel } from '@/shared/invoices';
+import { ESTIMATE_STATUS_LABELS } from '@/shared/estimates';
+
+interface AdminRequestModalProps {
+  request: ServiceRequest;
+  technicians: UserProfile[];
+  onClose: () => void;
+}
+
+const DetailRow: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <div className="flex justify-between py-2 border-b border-slate-100 text-sm">
+    <span className="text-slate-500">{label}</span>
+    <span className="font-medium text-slate-800 text-right">{children}</span>
+  </div>
+);
+
+/**
+ * Lets staff reassign a job, unstick its status, settle its invoice or credit a paid one,
+ * with the full history alongside.
+ */
+const AdminRequestModal: React.FC<AdminRequestModalProps> = ({ request, technicians, onClose }) => {
+  const { userProfile } = useAuth();
+  const { handleAssignTechnician, handleUpdateStatus, handleResolvePayment, handleIssueCreditNote } = useAppContext();
+  const { getCategoryName } = useCatalog();
+  const [showAllTechnicians, setShowAllTechnicians] = useState(false);
+  const [selectedTechnicianUid, setSelectedTechnicianUid] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [creditAmount, setCreditAmount] = useState('');
+  const [creditReason, setCreditReason] = useState('');
+
+  const actor = userProfile ? { uid: userProfile.uid, role: userProfile.role } : null;
+  const attentionReason = getAttentionReason(request);
+
+  // Qualified, active technicians first; staff can widen the list for unusual jobs.
+  const technicianOptions = useMemo(() => technicians
+    .filter(technician => !technician.suspended && technician.uid !== request.assignedTechnicianUid)
+    .filter(technician => showAllTechnicians || technician.skills?.includes(getRequestCategoryId(request))),
+    [technicians, request, showAllTechnicians]);
+
+  const canAssign = !!actor && canTransition(request, RequestStatus.ACCEPTED, actor);
+  const canComplete = !!actor && canTransition(request, RequestStatus.COMPLETED, actor);
+  const canCancel = !!actor && canTransition(request, RequestStatus.CANCELLED, actor);
+  const hasUnpaidInvoice = request.paymentStatus === 'pending' && !!request.invoice;
+  // A paid invoice can only be corrected with credit notes, up to what it came to.
+  const creditable = request.paymentStatus === 'paid' && request.invoice
+    ? subtractMoney(request.invoice.total, getCreditedAmount(request.invoice, request.creditNotes))
+    : null;
+
+  // Keep the modal open either way; the list behind it updates live.
+  const runAction = async (action: () => Promise<void>) => {
+    setActionError(null);
+    setIsWorking(true);
+    try {
+      await action();
+      setSelectedTechnicianUid('');
+    } catch (e) {
+      setActionError(e instanceof RequestTransitionError ? e.message : 'Something went wrong. Please try again.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleCreditNote = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!creditable) return;
+    const amount = parseMoney(creditAmount, creditable.currency);
+    if (!amount) {
+      setActionError("The credit amount isn't a valid amount. Use a number like 25 or 25.50.");
+      return;
+    }
+    runAction(async () => {
+      await handleIssueCreditNote(request.id, amount, creditReason);
+      setCreditAmount('');
+      setCreditReason('');
+    });
+  };
+
+  const handleCancel = () => {
+    if (!window.confirm('Cancel this job for both the customer and the technician?')) return;
+    runAction(() => handleUpdateStatus(request.id, RequestStatus.CANCELLED));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex justify-center items-center z-50 p-4 animate-fade-in" role="dialog" aria-modal="true" aria-labelledby="admin-request-modal-title">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-3xl max-h-[90vh] flex flex-col animate-scale-in">
+        <header className="p-6 border-b border-gray-200 flex justify-between items-center">
+          <div>
+            <h2 id="admin-request-modal-title" className="text-2xl font-bold text-gray-800">{request.serviceCategory} for {request.customerName}</h2>
+            <p className="text-sm text-slate-500">Request {request.id}</p>
+          </div>
+          <button type="button" aria-label="Close" onClick={onClose} className="p-2 rounded-full hover:bg-gray-200 transition-colors">
+            <CloseIcon className="w-6 h-6 text-gray-600" />
+          </button>
+        </header>
+
+        <main className="p-6 flex-grow overflow-y-auto grid grid-cols-1 md:grid-cols-2 gap-8">
+          <div className="space-y-6">
+            {attentionReason && (
+              <p className="text-sm font-medium text-orange-800 bg-orange-50 border border-orange-200 p-3 rounded-lg">{attentionReason}</p>
+            )}
+            <div>
+              <DetailRow label="Status">{request.status}</DetailRow>
+              {request.serviceSubcategoryId && <DetailRow label="Type of job">{getCategoryName(request.serviceSubcategoryId)}</DetailRow>}
+              <DetailRow label="Appointment">{formatRequestTime(request)}</DetailRow>
+              <DetailRow label="Location">{request.location}</DetailRow>
+              <DetailRow label="Urgency">{request.urgency}</DetailRow>
+              <DetailRow label="Technician">{request.technicianName || 'Unassigned'}</DetailRow>
+              {request.estimate && (
+                <DetailRow label="Estimate">{formatMoney(request.estimate.total)} · {ESTIMATE_STATUS_LABELS[request.estimate.status].toLowerCase()}</DetailRow>
+              )}
+              <DetailRow label="Payment">
+                {request.invoice ? `${request.invoice.number ?? 'Unnumbered'} · ${formatMoney(request.invoice.total)} · ${request.paymentStatus}` : 'No invoice'}
+              </DetailRow>
+            </div>
+            <InvoiceHistory request={request} />
+            <p className="text-sm text-slate-600 bg-slate-50 p-3 rounded-lg">{request.description}</p>
+
+            {canAssign && (
+              <div>
+                <h3 className="font-semibold text-slate-700 mb-2">{request.assignedTechnicianUid ? 'Reassign' : 'Assign'} technician</h3>
+                <div className="flex space-x-2">
+                  <select
+                    aria-label="Technician"
+                    value={selectedTechnicianUid}
+                    onChange={(e) => setSelectedTechnicianUid(e.target.value)}
+                    className="flex-grow border border-slate-300 rounded-lg p-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                  >
+                    <option value="">Choose a technician…</option>
+                    {technicianOptions.map(technician => (
+                      <option key={technician.uid} value={technician.uid}>
+                        {technician.fullName}{technician.averageRating ? ` (${technician.averageRating.toFixed(1)}★)` : ''}
+                      </option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={() => runAction(() => handleAssignTechnician(request.id, selectedTechnicianUid))}
+                    disabled={!selectedTechnicianUid || isWorking}
+                    className="font-semibold text-white bg-indigo-600 py-2 px-4 rounded-lg hover:bg-indigo-700 transition-colors disabled:bg-slate-400"
+                  >
+                    Assign
+                  </button>
+                </div>
+                <label className="mt-2 flex items-center text-xs text-slate-500">
+                  <input type="checkbox" checked={showAllTechnicians} onChange={(e) => setShowAllTechnicians(e.target.checked)} className="mr-2" />
+                  Include technicians without the {request.serviceCategory} skill
+                </label>
+              </div>
+            )}
+
+            {(canComplete || canCancel || hasUnpaidInvoice) && (
+              <div>
+                <h3 className="font-semibold text-slate-700 mb-2">Fix this request</h3>
+                <div className="flex flex-wrap gap-2">
+                  {canComplete && (
+                    <button onClick={() => runAction(() => handleUpdateStatus(request.id, RequestStatus.COMPLETED))} disabled={isWorking} className="text-sm font-semibold text-white bg-green-600 py-2 px-3 rounded-lg hover:bg-green-700 transition-colors disabled:bg-slate-400">
+                      Mark Completed
+                    </button>
+                  )}
+                  {hasUnpaidInvoice && (
+                    <>
+                      <button onClick={() => runAction(() => handleResolvePayment(request.id, 'paid'))} disabled={isWorking} className="text-sm font-semibold text-white bg-green-600 py-2 px-3 rounded-lg hover:bg-green-700 transition-colors disabled:bg-slate-400">
+                        Record Payment
+                      </button>
+                      <button onClick={() => runAction(() => handleResolvePayment(request.id, 'void'))} disabled={isWorking} className="text-sm font-semibold text-slate-700 bg-slate-200 py-2 px-3 rounded-lg hover:bg-slate-300 transition-colors disabled:opacity-50">
+                        Withdraw Invoice
+                      </button>
+                    </>
+                  )}
+                  {canCancel && (
+                    <button onClick={handleCancel} disabled={isWorking} className="text-sm font-semibold text-white bg-red-600 py-2 px-3 rounded-lg hover:bg-red-700 transition-colors disabled:bg-slate-400">
+                      Cancel Job
+                    </button>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {creditable && creditable.amount > 0 && (
+              <form onSubmit={handleCreditNote}>
+                <h3 className="font-semibold text-slate-700 mb-1">Credit {getInvoiceLabel(request.invoice!).toLowerCase()}</h3>
+                <p className="text-xs text-slate-500 mb-2">Paid invoices can't be changed. Issue a credit note of up to {formatMoney(creditable)} instead.</p>
+                <div className="flex flex-wrap gap-2">
+                  <input
+                    type="text"
+                    inputMode="decimal"
+                    aria-label="Credit amount"
+                    placeholder="0.00"
+                    value={creditAmount}
+                    onChange={(e) => setCreditAmount(e.target.value)}
+                    className="w-24 border border-slate-300 rounded-lg p-2 text-sm text-right focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                    required
+                  />
+                  <input
+                    type="text"
+                    aria-label="Reason for the credit"
+                    placeholder="Reason, e.g. Goodwill refund"
+                    value={creditReason}
+                    onChange={(e) => setCreditReason(e.target.value)}
+                    className="flex-grow border border-slate-300 rounded-lg p-2 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                    required
+                  />
+                  <button type="submit" disabled={isWorking} className="text-sm font-semibold text-slate-700 bg-slate-200 py-2 px-3 rounded-lg hover:bg-slate-300 transition-colors disabled:opacity-50">
+                    Issue Credit Note
+                  </button>
+                </div>
+              </form>
+            )}
+
+            {isWorking && <SpinnerIcon className="w-5 h-5 text-indigo-600 animate-spin" />}
+            {actionError && (
+              <p role="alert" className="text-sm font-medium text-red-700 bg-red-50 border border-red-200 p-3 rounded-lg">{actionError}</p>
+            )}
+          </div>
+
+          <div>
+            <h3 className="font-semibold text-slate-700 mb-3">History</h3>
+            <RequestTimeline requestId={request.id} timeZone={getRequestTimeZone(request)} />
+          </div>
+        </main>
+      </div>
+    </div>
+  );
+};
+
+export default AdminRequestModal;
@@ -0,0 +1,237 @@
+import React, { useState } from 'react';
+import { ServiceCategory } from '@/shared/types';
+import { PlusIcon, SpinnerIcon, PencilIcon, CheckIcon } from '@/components/common/icons';
+import { categoryRepository } from '@/services/repositories';
+import { migrateLegacyCategories, CategoryMigrationResult } from '@/services/categoryMigration';
+import { useCatalog } from '@/contexts/CatalogContext';
+import { DEFAULT_JOB_DURATION_MINUTES, DEFAULT_SERVICE_CATEGORIES } from '@/shared/constants';
+import { getSubcategories, getTopLevelCategories } from '@/shared/categories';
+
+const DEFAULT_ICON = '🛠️';
+
+const inputClassName = 'border border-slate-300 rounded-lg p-2 focus:outline-none focus:ring-2 focus:ring-indigo-500';
+
+const toSynonymList = (text: string) => text.split(',').map(synonym => synonym.trim()).filter(Boolean);
+
+// Job lengths staff can pick from. Zero means "same as the parent category" or the default.
+const JOB_LENGTHS = [0, 30, 60, 90, 120, 180, 240, 480];
+
+const formatJobLength = (minutes: number) =>
+  minutes >= 60 ? `${minutes / 60} hour${minutes === 60 ? '' : 's'}` : `${minutes} minutes`;
+
+const JobLengthSelect: React.FC<{ value: number; onChange: (minutes: number) => void; isSubcategory: boolean; className?: string }> = ({ value, onChange, isSubcategory, className = '' }) => (
+  <select value={value} onChange={(e) => onChange(Number(e.target.value))} aria-label="Job length" className={`${inputClassName} bg-white ${className}`}>
+    {JOB_LENGTHS.map(minutes => (
+      <option key={minutes} value={minutes}>
+        {minutes === 0 ? (isSubcategory ? 'Same as parent' : `Default (${formatJobLength(DEFAULT_JOB_DURATION_MINUTES)})`) : formatJobLength(minutes)}
+      </option>
+    ))}
+  </select>
+);
+
+/**
+ * One category or subcategory, with inline editing of its name, icon, synonyms and job length.
+ */
+const CategoryRow: React.FC<{
+  category: ServiceCategory;
+  isSaving: boolean;
+  run: (action: () => Promise<unknown>) => Promise<boolean>;
+}> = ({ category, isSaving, run }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [name, setName] = useState(category.name);
+  const [icon, setIcon] = useState(category.icon);
+  const [synonyms, setSynonyms] = useState(category.synonyms.join(', '));
+  const [durationMinutes, setDurationMinutes] = useState(category.durationMinutes || 0);
+
+  const startEditing = () => {
+    setName(category.name);
+    setIcon(category.icon);
+    setSynonyms(category.synonyms.join(', '));
+    setDurationMinutes(category.durationMinutes || 0);
+    setIsEditing(true);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    const saved = await run(() => categoryRepository.update(category.id, {
+      name: name.trim(),
+      icon: icon.trim() || DEFAULT_ICON,
+      synonyms: toSynonymList(synonyms),
+      durationMinutes,
+    }));
+    if (saved) setIsEditing(false);
+  };
+
+  if (isEditing) {
+    return (
+      <form onSubmit={handleSave} className="flex flex-wrap items-center gap-2 py-3">
+        <input value={icon} onChange={(e) => setIcon(e.target.value)} aria-label="Icon" className={`${inputClassName} w-14 text-center`} />
+        <input value={name} onChange={(e) => setName(e.target.value)} aria-label="Name" className={`${inputClassName} flex-grow`} />
+        <input value={synonyms} onChange={(e) => setSynonyms(e.target.value)} aria-label="Synonyms" placeholder="Synonyms, separated by commas" className={`${inputClassName} flex-grow`} />
+        <JobLengthSelect value={durationMinutes} onChange={setDurationMinutes} isSubcategory={!!category.parentId} />
+        <div className="flex space-x-2 ml-auto">
+          <button type="button" onClick={() => setIsEditing(false)} className="text-sm font-semibold text-slate-600 py-1.5 px-3 rounded-lg hover:bg-slate-100">Cancel</button>
+          <button type="submit" disabled={isSaving || !name.trim()} className="flex items-center text-sm font-semibold text-white bg-green-600 py-1.5 px-3 rounded-lg hover:bg-green-700 disabled:bg-slate-400">
+            <CheckIcon className="w-4 h-4 mr-1" /> Save
+          </button>
+        </div>
+      </form>
+    );
+  }
+
+  return (
+    <div className="flex items-center justify-between py-3">
+      <div className="min-w-0">
+        <p className={`font-medium ${category.active ? 'text-slate-800' : 'text-slate-400 line-through'}`}>
+          <span aria-hidden="true" className="mr-2">{category.icon}</span>{category.name}
+        </p>
+        {category.synonyms.length > 0 && <p className="text-xs text-slate-500 truncate">Also found by: {category.synonyms.join(', ')}</p>}
+        {!!category.durationMinutes && <p className="text-xs text-slate-500">Jobs take {formatJobLength(category.durationMinutes)}</p>}
+      </div>
+      <div className="flex items-center space-x-3 flex-shrink-0 ml-4">
+        <button onClick={startEditing} aria-label={`Edit ${category.name}`} className="p-1 text-slate-500 hover:text-indigo-600">
+          <PencilIcon className="w-4 h-4" />
+        </button>
+        <button
+          onClick={() => run(() => categoryRepository.setActive(category.id, !category.active))}
+          disabled={isSaving}
+          className="text-sm font-semibold text-indigo-600 hover:text-indigo-800 disabled:opacity-50"
+        >
+          {category.active ? 'Retire' : 'Restore'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Lets staff manage the service categories customers book and technicians sign up for:
+ * names, icons, the synonyms search matches on, how long jobs take, and subcategories.
+ * Retired categories stay on existing requests and skills, but aren't offered for new ones.
+ */
+const CategoryCatalogView: React.FC = () => {
+  const { categories, isUsingDefaults } = useCatalog();
+  const [newName, setNewName] = useState('');
+  const [newIcon, setNewIcon] = useState('');
+  const [newSynonyms, setNewSynonyms] = useState('');
+  const [newParentId, setNewParentId] = useState('');
+  const [newDuration, setNewDuration] = useState(0);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [migrationResult, setMigrationResult] = useState<CategoryMigrationResult | null>(null);
+
+  const run = async (action: () => Promise<unknown>) => {
+    setError(null);
+    setIsSaving(true);
+    try {
+      await action();
+      return true;
+    } catch (err: any) {
+      console.error("Error updating category catalog (CategoryCatalogView.tsx):", err);
+      setError(err.message || 'Could not update the catalog. Please try again.');
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newName.trim()) return;
+    run(async () => {
+      await categoryRepository.create({
+        name: newName,
+        icon: newIcon.trim() || DEFAULT_ICON,
+        synonyms: toSynonymList(newSynonyms),
+        parentId: newParentId || null,
+        durationMinutes: newDuration,
+      });
+      setNewName('');
+      setNewIcon('');
+      setNewSynonyms('');
+    });
+  };
+
+  const handleMigrate = () => run(async () => {
+    setMigrationResult(await migrateLegacyCategories(categories));
+  });
+
+  const topLevelCategories = getTopLevelCategories(categories);
+
+  return (
+    <div className="p-8">
+      <h2 className="text-2xl font-bold text-gray-800 mb-6">Service Categories</h2>
+      <div className="bg-white p-8 rounded-xl shadow-sm max-w-2xl">
+        {isUsingDefaults ? (
+          <div className="text-center">
+            <p className="text-slate-600">The catalog hasn't been set up yet, so the built-in categories are being offered.</p>
+            <button
+              onClick={() => run(() => categoryRepository.importDefaults(DEFAULT_SERVICE_CATEGORIES))}
+              disabled={isSaving}
+              className="mt-4 font-semibold text-white bg-indigo-600 py-2 px-5 rounded-lg hover:bg-indigo-700 transition-colors disabled:bg-slate-400"
+            >
+              Start from the built-in categories
+            </button>
+          </div>
+        ) : (
+          <>
+            <form onSubmit={handleAdd} className="grid grid-cols-[3.5rem_1fr_auto] gap-2 mb-6">
+              <input value={newIcon} onChange={(e) => setNewIcon(e.target.value)} placeholder={DEFAULT_ICON} aria-label="Icon" className={`${inputClassName} text-center`} />
+              <input
+                type="text"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                placeholder="New category name"
+                aria-label="New category name"
+                className={inputClassName}
+              />
+              <button type="submit" disabled={isSaving || !newName.trim()} className="flex items-center font-semibold text-white bg-indigo-600 py-2 px-4 rounded-lg hover:bg-indigo-700 transition-colors disabled:bg-slate-400">
+                {isSaving ? <SpinnerIcon className="w-5 h-5 mr-2 animate-spin" /> : <PlusIcon className="w-5 h-5 mr-2" />} Add
+              </button>
+              <select value={newParentId} onChange={(e) => setNewParentId(e.target.value)} aria-label="Parent category" className={`${inputClassName} col-span-2 bg-white`}>
+                <option value="">Top-level category</option>
+                {topLevelCategories.map(category => <option key={category.id} value={category.id}>Subcategory of {category.name}</option>)}
+              </select>
+              <JobLengthSelect value={newDuration} onChange={setNewDuration} isSubcategory={!!newParentId} />
+              <input value={newSynonyms} onChange={(e) => setNewSynonyms(e.target.value)} placeholder="Synonyms, separated by commas" aria-label="Synonyms" className={`${inputClassName} col-span-3`} />
+            </form>
+            <ul className="divide-y divide-slate-100">
+              {topLevelCategories.map(category => (
+                <li key={category.id}>
+                  <CategoryRow category={category} isSaving={isSaving} run={run} />
+                  <div className="pl-8 divide-y divide-slate-50">
+                    {getSubcategories(categories, category.id).map(subcategory => (
+                      <CategoryRow key={subcategory.id} category={subcategory} isSaving={isSaving} run={run} />
+                    ))}
+                  </div>
+                </li>
+              ))}
+            </ul>
+
+            <div className="mt-8 pt-6 border-t border-slate-200">
+              <h3 className="font-semibold text-slate-700">Older records</h3>
+              <p className="text-sm text-slate-500 mt-1">Skills and requests saved before the catalog had ids hold free text such as "plumbing". Match them to catalog categories by name or synonym.</p>
+              <button
+                onClick={handleMigrate}
+                disabled={isSaving}
+                className="mt-3 text-sm font-semibold text-indigo-700 bg-indigo-50 py-2 px-4 rounded-lg hover:bg-indigo-100 disabled:opacity-50"
+              >
+                Update older records
+              </button>
+              {migrationResult && (
+                <p role="status" className="mt-3 text-sm text-slate-600 bg-slate-50 p-3 rounded-lg">
+                  Updated {migrationResult.updatedTechnicians} technician(s) and {migrationResult.updatedRequests} request(s).
+                  {migrationResult.unmatched.length > 0 && ` No match for: ${migrationResult.unmatched.join(', ')}. Add these as synonyms and run it again.`}
+                </p>
+              )}
+            </div>
+          </>
+        )}
+        {error && <p role="alert" className="mt-4 text-sm font-medium text-red-700 bg-red-50 p-3 rounded-lg">{error}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default CategoryCatalogView;
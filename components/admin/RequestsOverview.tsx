@@ -0,0 +1,194 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { ServiceRequest, RequestStatus, UserProfile } from '@/shared/types';
+import { SearchIcon, ClipboardDocumentListIcon, BoltIcon, WrenchScrewdriverIcon, ReceiptPercentIcon } from '@/components/common/icons';
+import { useAppContext } from '@/contexts/AppContext';
+import { getAttentionReason } from '@/shared/requestLifecycle';
+import AdminRequestModal from './AdminRequestModal';
+import { formatRequestTime } from '@/shared/timeZones';
+import { formatMoney } from '@/shared/money';
+import { migrateLegacyInvoices, InvoiceMigrationResult } from '@/services/invoiceMigration';
+
+type StatusFilter = 'all' | 'attention' | 'unpaid' | RequestStatus;
+
+const STATUS_STYLES: Partial<Record<RequestStatus, string>> = {
+  [RequestStatus.PENDING]: 'bg-slate-200 text-slate-800',
+  [RequestStatus.ACCEPTED]: 'bg-blue-100 text-blue-800',
+  [RequestStatus.IN_PROGRESS]: 'bg-blue-100 text-blue-800',
+  [RequestStatus.COMPLETED]: 'bg-green-100 text-green-800',
+  [RequestStatus.CANCELLED]: 'bg-slate-200 text-slate-600',
+  [RequestStatus.NO_TECHNICIAN_AVAILABLE]: 'bg-orange-100 text-orange-800',
+};
+
+const StatCard: React.FC<{ title: string; value: number; icon: React.ReactNode; color: string; onClick: () => void }> = ({ title, value, icon, color, onClick }) => (
+  <button onClick={onClick} className="bg-white p-5 rounded-2xl shadow-sm flex items-center border border-slate-200/80 text-left hover:border-indigo-300 transition-colors">
+    <div className={`w-12 h-12 rounded-lg flex items-center justify-center mr-4 ${color}`}>
+      {icon}
+    </div>
+    <div>
+      <p className="text-slate-500 font-medium">{title}</p>
+      <p className="text-3xl font-bold text-slate-800">{value}</p>
+    </div>
+  </button>
+);
+
+/**
+ * Every request on the platform, with filters for the ones staff need to act on.
+ */
+const RequestsOverview: React.FC<{
+  technicians: UserProfile[];
+  focusRequestId?: string | null;
+  onFocusHandled?: () => void;
+}> = ({ technicians, focusRequestId, onFocusHandled }) => {
+  const { requests } = useAppContext();
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
+  const [searchTerm, setSearchTerm] = useState('');
+  const [selectedRequestId, setSelectedRequestId] = useState<string | null>(null);
+  const [isMigrating, setIsMigrating] = useState(false);
+  const [migrationError, setMigrationError] = useState<string | null>(null);
+  const [migrationResult, setMigrationResult] = useState<InvoiceMigrationResult | null>(null);
+
+  useEffect(() => {
+    if (focusRequestId) {
+      setSelectedRequestId(focusRequestId);
+      onFocusHandled?.();
+    }
+  }, [focusRequestId]);
+
+  const attentionCount = useMemo(() => requests.filter(request => getAttentionReason(request)).length, [requests]);
+
+  const filteredRequests = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase();
+    return requests
+      .filter(request => {
+        if (statusFilter === 'attention') return !!getAttentionReason(request);
+        if (statusFilter === 'unpaid') return request.paymentStatus === 'pending';
+        return statusFilter === 'all' || request.status === statusFilter;
+      })
+      .filter(request => !term || [request.id, request.customerName, request.technicianName, request.serviceCategory, request.location]
+        .some(value => value?.toLowerCase().includes(term)));
+  }, [requests, statusFilter, searchTerm]);
+
+  // Look the request up live so the modal reflects changes as they land.
+  const selectedRequest = requests.find(request => request.id === selectedRequestId) || null;
+
+  const countByStatus = (status: RequestStatus) => requests.filter(request => request.status === status).length;
+
+  const handleMigrateInvoices = async () => {
+    setMigrationError(null);
+    setIsMigrating(true);
+    try {
+      setMigrationResult(await migrateLegacyInvoices());
+    } catch (err) {
+      console.error("Error migrating invoices (RequestsOverview.tsx):", err);
+      setMigrationError('Could not update older invoices. Please try again.');
+    } finally {
+      setIsMigrating(false);
+    }
+  };
+
+  return (
+    <div className="p-8">
+      <h2 className="text-2xl font-bold text-gray-800 mb-6">All Requests</h2>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
+        <StatCard title="On the Board" value={countByStatus(RequestStatus.PENDING)} icon={<ClipboardDocumentListIcon className="w-6 h-6 text-slate-700" />} color="bg-slate-100" onClick={() => setStatusFilter(RequestStatus.PENDING)} />
+        <StatCard title="In Progress" value={countByStatus(RequestStatus.IN_PROGRESS)} icon={<WrenchScrewdriverIcon className="w-6 h-6 text-blue-700" />} color="bg-blue-100" onClick={() => setStatusFilter(RequestStatus.IN_PROGRESS)} />
+        <StatCard title="Unpaid Invoices" value={requests.filter(request => request.paymentStatus === 'pending').length} icon={<ReceiptPercentIcon className="w-6 h-6 text-yellow-700" />} color="bg-yellow-100" onClick={() => setStatusFilter('unpaid')} />
+        <StatCard title="Needs Attention" value={attentionCount} icon={<BoltIcon className="w-6 h-6 text-orange-700" />} color="bg-orange-100" onClick={() => setStatusFilter('attention')} />
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 mb-4">
+        <div className="relative">
+          <SearchIcon className="w-5 h-5 text-slate-400 absolute left-3 top-1/2 -translate-y-1/2" />
+          <input
+            type="text"
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            placeholder="Search customer, technician, category…"
+            className="bg-white border border-slate-200 rounded-full py-2 pl-10 pr-4 w-80 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+        </div>
+        <select
+          aria-label="Filter by status"
+          value={statusFilter}
+          onChange={(e) => setStatusFilter(e.target.value as StatusFilter)}
+          className="bg-white border border-slate-200 rounded-lg py-2 px-3 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+        >
+          <option value="all">All statuses</option>
+          <option value="attention">Needs attention</option>
+          <option value="unpaid">Unpaid invoices</option>
+          {Object.values(RequestStatus).filter(status => status !== RequestStatus.DECLINED).map(status => (
+            <option key={status} value={status}>{status}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="bg-white rounded-xl shadow-sm overflow-x-auto">
+        <table className="w-full text-sm text-left">
+          <thead className="bg-slate-50 text-slate-500 uppercase text-xs">
+            <tr>
+              <th className="px-4 py-3">Customer</th>
+              <th className="px-4 py-3">Category</th>
+              <th className="px-4 py-3">Appointment</th>
+              <th className="px-4 py-3">Technician</th>
+              <th className="px-4 py-3">Status</th>
+              <th className="px-4 py-3">Payment</th>
+            </tr>
+          </thead>
+          <tbody>
+            {filteredRequests.map((request: ServiceRequest) => {
+              const attentionReason = getAttentionReason(request);
+              return (
+                <tr key={request.id} onClick={() => setSelectedRequestId(request.id)} className="border-t border-slate-100 hover:bg-indigo-50 cursor-pointer">
+                  <td className="px-4 py-3 font-medium text-slate-800">{request.customerName}</td>
+                  <td className="px-4 py-3">{request.serviceCategory}</td>
+                  <td className="px-4 py-3">{formatRequestTime(request, { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}</td>
+                  <td className="px-4 py-3">{request.technicianName || <span className="text-slate-400">Unassigned</span>}</td>
+                  <td className="px-4 py-3">
+                    <span className={`px-2.5 py-1 text-xs font-semibold rounded-full ${STATUS_STYLES[request.status] || 'bg-slate-200 text-slate-800'}`}>{request.status}</span>
+                    {attentionReason && <span title={attentionReason} className="ml-2 text-orange-600 font-bold">!</span>}
+                  </td>
+                  <td className="px-4 py-3 capitalize">
+                    {request.paymentStatus === 'none' ? '—' : request.paymentStatus}
+                    {request.invoice && <span className="block text-xs text-slate-500">{request.invoice.number ? `${request.invoice.number} · ` : ''}{formatMoney(request.invoice.total)}</span>}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        {filteredRequests.length === 0 && (
+          <p className="text-center text-slate-500 py-10">No requests match these filters.</p>
+        )}
+      </div>
+
+      <div className="mt-8 bg-white p-6 rounded-xl shadow-sm max-w-2xl">
+        <h3 className="font-semibold text-slate-700">Older invoices</h3>
+        <p className="text-sm text-slate-500 mt-1">Invoices issued before amounts were stored in whole cents hold dollar amounts that can pick up rounding errors. They already display correctly; this saves them in the new format, keeping every total as it was issued.</p>
+        <button
+          onClick={handleMigrateInvoices}
+          disabled={isMigrating}
+          className="mt-3 text-sm font-semibold text-indigo-700 bg-indigo-50 py-2 px-4 rounded-lg hover:bg-indigo-100 disabled:opacity-50"
+        >
+          Update older invoices
+        </button>
+        {migrationResult && (
+          <p role="status" className="mt-3 text-sm text-slate-600 bg-slate-50 p-3 rounded-lg">
+            Updated {migrationResult.updatedInvoices} invoice(s).
+          </p>
+        )}
+        {migrationError && <p role="alert" className="mt-3 text-sm font-medium text-red-700 bg-red-50 p-3 rounded-lg">{migrationError}</p>}
+      </div>
+
+      {selectedRequest && (
+        <AdminRequestModal
+          request={selectedRequest}
+          technicians={technicians}
+          onClose={() => setSelectedRequestId(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default RequestsOverview;
@@ -0,0 +1,144 @@
+import React, { useState, useMemo } from 'react';
+import { UserProfile, UserRole } from '@/shared/types';
+import { SearchIcon, StarIcon } from '@/components/common/icons';
+import { userRepository } from '@/services/repositories';
+import { useAuth } from '@/contexts/AuthContext';
+import { useCatalog } from '@/contexts/CatalogContext';
+
+type RoleFilter = 'all' | UserRole;
+
+const ROLE_STYLES: Record<UserRole, string> = {
+  customer: 'bg-green-100 text-green-800',
+  technician: 'bg-blue-100 text-blue-800',
+  admin: 'bg-purple-100 text-purple-800',
+};
+
+/**
+ * Lists everyone on the platform and lets staff suspend or reinstate them. Suspended
+ * users can still sign in, but only see a notice, and technicians stop being offered
+ * new jobs.
+ */
+const UsersView: React.FC<{ users: UserProfile[] }> = ({ users }) => {
+  const { userProfile } = useAuth();
+  const { getCategoryName } = useCatalog();
+  const [roleFilter, setRoleFilter] = useState<RoleFilter>('all');
+  const [searchTerm, setSearchTerm] = useState('');
+  const [updatingUid, setUpdatingUid] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const filteredUsers = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase();
+    return users
+      .filter(user => roleFilter === 'all' || user.role === roleFilter)
+      .filter(user => !term || user.fullName.toLowerCase().includes(term) || user.email.toLowerCase().includes(term));
+  }, [users, roleFilter, searchTerm]);
+
+  const toggleSuspended = async (user: UserProfile) => {
+    const suspend = !user.suspended;
+    if (suspend && !window.confirm(`Suspend ${user.fullName}? They won't be able to use the portal until reinstated.`)) return;
+
+    setError(null);
+    setUpdatingUid(user.uid);
+    try {
+      await userRepository.setSuspended(user.uid, suspend);
+    } catch (err) {
+      console.error("Error updating suspension (UsersView.tsx):", err);
+      setError(`Could not ${suspend ? 'suspend' : 'reinstate'} ${user.fullName}. Please try again.`);
+    } finally {
+      setUpdatingUid(null);
+    }
+  };
+
+  return (
+    <div className="p-8">
+      <h2 className="text-2xl font-bold text-gray-800 mb-6">Users</h2>
+
+      <div className="flex flex-wrap items-center gap-4 mb-4">
+        <div className="relative">
+          <SearchIcon className="w-5 h-5 text-slate-400 absolute left-3 top-1/2 -translate-y-1/2" />
+          <input
+            type="text"
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            placeholder="Search name or email…"
+            className="bg-white border border-slate-200 rounded-full py-2 pl-10 pr-4 w-72 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          />
+        </div>
+        <div className="flex bg-slate-200 rounded-lg p-1">
+          {(['all', 'customer', 'technician', 'admin'] as RoleFilter[]).map(role => (
+            <button
+              key={role}
+              onClick={() => setRoleFilter(role)}
+              className={`px-3 py-1 text-sm font-semibold rounded-md capitalize transition-colors ${roleFilter === role ? 'bg-white text-indigo-700 shadow-sm' : 'text-slate-600 hover:text-slate-800'}`}
+            >
+              {role === 'all' ? 'Everyone' : `${role}s`}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {error && <p role="alert" className="mb-4 text-sm font-medium text-red-700 bg-red-50 border border-red-200 p-3 rounded-lg">{error}</p>}
+
+      <div className="bg-white rounded-xl shadow-sm overflow-x-auto">
+        <table className="w-full text-sm text-left">
+          <thead className="bg-slate-50 text-slate-500 uppercase text-xs">
+            <tr>
+              <th className="px-4 py-3">Name</th>
+              <th className="px-4 py-3">Role</th>
+              <th className="px-4 py-3">Skills</th>
+              <th className="px-4 py-3">Rating</th>
+              <th className="px-4 py-3">Status</th>
+              <th className="px-4 py-3" />
+            </tr>
+          </thead>
+          <tbody>
+            {filteredUsers.map(user => (
+              <tr key={user.uid} className="border-t border-slate-100">
+                <td className="px-4 py-3">
+                  <div className="flex items-center">
+                    <img src={user.avatarUrl} alt={user.fullName} className="w-9 h-9 rounded-full mr-3 object-cover" />
+                    <div>
+                      <p className="font-medium text-slate-800">{user.fullName}</p>
+                      <p className="text-xs text-slate-500">{user.email}</p>
+                    </div>
+                  </div>
+                </td>
+                <td className="px-4 py-3">
+                  <span className={`px-2.5 py-1 text-xs font-semibold rounded-full capitalize ${ROLE_STYLES[user.role]}`}>{user.role}</span>
+                </td>
+                <td className="px-4 py-3 text-slate-600">{user.skills?.map(getCategoryName).join(', ') || '—'}</td>
+                <td className="px-4 py-3">
+                  {user.ratingCount ? (
+                    <span className="flex items-center"><StarIcon className="w-4 h-4 text-yellow-400 mr-1" />{user.averageRating?.toFixed(1)} ({user.ratingCount})</span>
+                  ) : '—'}
+                </td>
+                <td className="px-4 py-3">
+                  {user.suspended
+                    ? <span className="px-2.5 py-1 text-xs font-semibold rounded-full bg-red-100 text-red-800">Suspended</span>
+                    : <span className="text-slate-500">Active</span>}
+                </td>
+                <td className="px-4 py-3 text-right">
+                  {/* Staff accounts are managed outside the portal. */}
+                  {user.role !== 'admin' && user.uid !== userProfile?.uid && (
+                    <button
+                      onClick={() => toggleSuspended(user)}
+                      disabled={updatingUid === user.uid}
+                      className={`text-sm font-semibold py-1.5 px-3 rounded-lg transition-colors disabled:opacity-50 ${user.suspended ? 'text-green-700 bg-green-50 hover:bg-green-100' : 'text-red-700 bg-red-50 hover:bg-red-100'}`}
+                    >
+                      {user.suspended ? 'Reinstate' : 'Suspend'}
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {filteredUsers.length === 0 && (
+          <p className="text-center text-slate-500 py-10">No users match these filters.</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default UsersView;
@@ -1,14 +1,12 @@
 import React, { useState } from 'react';
-import { auth, db } from '../../services/firebase';
-// UPDATED: Import the sendPasswordResetEmail function
-import { createUserWithEmailAndPassword, signInWithEmailAndPassword, sendPasswordResetEmail } from 'firebase/auth';
-import { doc, setDoc, serverTimestamp } from 'firebase/firestore';
-import { TECHNICIAN_SKILLS_OPTIONS } from '../../shared/constants';
+import { authBackend } from '@/services/backend';
+import { userRepository } from '@/services/repositories';
+import SkillPicker from '@/components/common/SkillPicker';
 import { MailIcon, LockClosedIcon, UserIcon, ArrowLeftIcon, SpinnerIcon, WrenchScrewdriverIcon, CheckCircleIcon, EyeIcon, EyeSlashIcon } from '../common/icons';
 
 // UPDATED: Add a new 'forgot' mode
 type AuthMode = 'login' | 'signup' | 'forgot';
-type UserRole = 'technician' | 'customer';
+type UserRole = 'technician' | 'customer' | 'admin';
 
 interface AuthFlowProps {
   userType: UserRole;
@@ -28,12 +26,9 @@ const AuthFlow: React.FC<AuthFlowProps> = ({ userType, onBack }) => {
 
   const isLogin = mode === 'login';
   const isForgot = mode === 'forgot'; // NEW: Helper for the new mode
-  const roleName = userType.charAt(0).toUpperCase() + userType.slice(1);
-
-  const handleSkillsChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
-    const selectedOptions = Array.from(e.target.selectedOptions, option => option.value);
-    setSkills(selectedOptions);
-  };
+  const roleName = userType === 'admin' ? 'Staff' : userType.charAt(0).toUpperCase() + userType.slice(1);
+  // Staff accounts are created by the operations team, never through sign-up.
+  const canSignUp = userType !== 'admin';
 
   const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
@@ -43,29 +38,32 @@ const AuthFlow: React.FC<AuthFlowProps> = ({ userType, onBack }) => {
 
     try {
       if (isLogin) {
-        await signInWithEmailAndPassword(auth, email, password);
+        await authBackend.signIn(email, password);
       } else if (isForgot) { // NEW: Handle the password reset logic
         if (!email) {
           setError("Please enter your email address.");
           setLoading(false);
           return;
         }
-        await sendPasswordResetEmail(auth, email);
+        await authBackend.sendPasswordReset(email);
         setMessage("Password reset email sent! Please check your inbox and spam folder.");
       } else { // Signup logic
-        const userCredential = await createUserWithEmailAndPassword(auth, email, password);
-        const user = userCredential.user;
+        if (userType === 'technician' && skills.length === 0) {
+          setError("Please choose at least one type of job you can take.");
+          setLoading(false);
+          return;
+        }
+        const user = await authBackend.signUp(email, password);
 
         try {
-          await setDoc(doc(db, "users", user.uid), {
+          await userRepository.create({
             uid: user.uid,
             fullName: fullName,
-            email: user.email,
+            email: user.email!,
             role: userType,
             //avatarUrl: `https://picsum.photos/seed/${user.uid}/100/100`,
             avatarUrl: `data:image/svg+xml;base64,PHN2ZyB4bWxucz0iaHR0cDovL3d3dy53My5vcmcvMjAwMC9zdmciIHZpZXdCb3g9IjAgMCAyNCAyNCIgZmlsbD0iY3VycmVudENvbG9yIiBjbGFzcz0idy02IGgtNiI+CiAgPHBhdGggZmlsbC1ydWxlPSJldmVub2RkIiBkPSJNMTguNzUgMTkuMTI1YTUuMjUgNS4yNSAwIDAgMC0xMC41IDBWMTJBNi43NSA2Ljc1IDAgMCAwIDEyIDIuMjVDMTUuNzQyIDIuMjUgMTguNzUgNS4yNTggMTguNzUgOXYxMC4xMjV6TTguMjUgMTIuNzVhMy43NSAzLjc1IDAgMCAxIDcuNSAwVi43NWEzLjc1IDMuNzUgMCAwIDEtMy43NSAzLjc1QzkuOTk4IDQuNSA4LjI1IDYuMjQ4IDguMjUgOS43NXYzem0tLjAxIDYuMzdhNi43NSA2Ljc1IDAgMCAxIDYuNzYgMEMxOC4xNjIgMTkuMTIgMTkuNSA3LjY2MiAxOS41IDUuMjVoLTE1YzAgMi40MTIgMS4zMzggMTMuOTEyIDQuMjYgMEM4LjI0IDE5LjEyIDguMjUgMTkuMTIgOC4yNCAxOS4xMnptMTAuNTIgMi4yNGEuNzUuNzUgMCAwIDAtLjQ3IDEuMzEzbC0uMDM4LjAxN2E1Ljk4IDUuOTggMCAwIDEtOC41MDQgMGwtLjAzOC0uMDE3YS43NS43NSAwIDAgMC0uNDctMS4zMTJjLTIuODQ2LS4wNDMtNS4yMTUtMi4xMS01LjkyLTYuNjNhLjUuNSAwIDAgMSAuNDk4LS41NTZoMjAuMjYyYS41LjUgMCAwIDEgLjQ5OC41NTZjLS43MDUgNC41Mi0zLjA3NCA2LjU4Ny01LjkyIDYuNjN6IiBjbGlwLXJ1bGU9ImV2ZW5vZGQiIC8+Cjwvc3ZnPgo=`,
-            skills: userType === 'technician' ? skills : null,
-            createdAt: serverTimestamp()
+            ...(userType === 'technician' ? { skills } : {}),
           });
         } catch (dbError) {
           console.error("Error creating user document in AuthFlow.tsx: ", dbError);
@@ -108,7 +106,7 @@ const AuthFlow: React.FC<AuthFlowProps> = ({ userType, onBack }) => {
 
       <div className="w-full max-w-md bg-white p-8 md:p-12 rounded-2xl shadow-xl">
         <div className="text-center mb-8">
-          <div className={`inline-block px-4 py-1.5 rounded-full text-sm font-semibold ${userType === 'technician' ? 'bg-blue-100 text-blue-800' : 'bg-green-100 text-green-800'}`}>
+          <div className={`inline-block px-4 py-1.5 rounded-full text-sm font-semibold ${userType === 'technician' ? 'bg-blue-100 text-blue-800' : userType === 'admin' ? 'bg-purple-100 text-purple-800' : 'bg-green-100 text-green-800'}`}>
             {roleName} Portal
           </div>
           <h2 className="mt-4 text-3xl font-bold text-gray-800">{getTitle()}</h2>
@@ -132,13 +130,11 @@ const AuthFlow: React.FC<AuthFlowProps> = ({ userType, onBack }) => {
                   <input type="text" placeholder="Full Name" required value={fullName} onChange={(e) => setFullName(e.target.value)} className="w-full bg-gray-50 border border-gray-300 rounded-lg py-3 pl-12 pr-4 text-gray-900 placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-blue-500 transition-all" />
                 </div>
                 {userType === 'technician' && (
-                  <div className="relative">
-                    <WrenchScrewdriverIcon className="w-5 h-5 text-gray-400 absolute left-4 top-1/2 -translate-y-1/2" />
-                    <label htmlFor="skills-select" className="sr-only">Select your skills</label>
-                    <select id="skills-select" multiple value={skills} onChange={handleSkillsChange} className="w-full bg-gray-50 border border-gray-300 rounded-lg py-3 pl-12 pr-4 text-gray-900 focus:outline-none focus:ring-2 focus:ring-blue-500 transition-all">
-                      {TECHNICIAN_SKILLS_OPTIONS.map((skill: string) => (<option key={skill} value={skill}>{skill}</option>))}
-                    </select>
-                    <p className="text-xs text-gray-500 mt-1 pl-1">Hold Ctrl/Cmd to select multiple skills.</p>
+                  <div>
+                    <p className="flex items-center text-sm font-medium text-gray-700 mb-2">
+                      <WrenchScrewdriverIcon className="w-5 h-5 text-gray-400 mr-2" /> Which jobs can you take?
+                    </p>
+                    <SkillPicker value={skills} onChange={setSkills} />
                   </div>
                 )}
               </>
@@ -189,6 +185,7 @@ const AuthFlow: React.FC<AuthFlowProps> = ({ userType, onBack }) => {
           </form>
         )}
 
+        {(canSignUp || !isLogin) && (
         <div className="mt-8 text-center">
           <p className="text-gray-600">
             {isLogin ? "Don't have an account?" : 'Already have an account?'}
@@ -204,6 +201,7 @@ const AuthFlow: React.FC<AuthFlowProps> = ({ userType, onBack }) => {
             )}
           </p>
         </div>
+        )}
       </div>
     </div>
   );
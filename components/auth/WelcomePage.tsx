@@ -10,7 +10,7 @@ import {
   CheckIcon
 } from '../common/icons';
 
-type UserRole = 'technician' | 'customer';
+type UserRole = 'technician' | 'customer' | 'admin';
 
 interface WelcomePageProps {
   onSelectRole: (role: UserRole) => void;
@@ -227,6 +227,7 @@ const WelcomePage: React.FC<WelcomePageProps> = ({ onSelectRole }) => {
 
       <footer className="text-center py-8 text-gray-500/80">
         <p>&copy; 2025 E-Service Portal. All Rights Reserved.</p>
+        <button onClick={() => onSelectRole('admin')} className="mt-2 text-sm underline hover:text-gray-700">Staff sign in</button>
       </footer>
     </div>
   );
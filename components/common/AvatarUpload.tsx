@@ -0,0 +1,61 @@
+import React, { useRef, useState } from 'react';
+import { SpinnerIcon } from './icons';
+import { createAvatarDataUrl } from '@/services/images';
+import { useAuth } from '@/contexts/AuthContext';
+
+/**
+ * The signed-in user's avatar with a "Change Photo" button. The chosen image is
+ * resized in the browser and saved straight away.
+ */
+const AvatarUpload: React.FC<{ className?: string }> = ({ className = 'w-20 h-20 rounded-full' }) => {
+  const { userProfile, updateProfile } = useAuth();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!userProfile) return null;
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Allow picking the same file again after an error.
+    e.target.value = '';
+    if (!file) return;
+
+    setIsUploading(true);
+    setError(null);
+    try {
+      const avatarUrl = await createAvatarDataUrl(file);
+      await updateProfile({ avatarUrl });
+    } catch (err: any) {
+      console.error("Error uploading avatar:", err);
+      setError(err.message || 'Could not update your photo. Please try again.');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center space-x-6">
+      <div className="relative flex-shrink-0">
+        <img src={userProfile.avatarUrl} alt={userProfile.fullName} className={`${className} object-cover`} />
+        {isUploading && (
+          <div className="absolute inset-0 rounded-full bg-white/70 flex items-center justify-center">
+            <SpinnerIcon className="w-6 h-6 text-indigo-600 animate-spin" />
+          </div>
+        )}
+      </div>
+      <div>
+        <input ref={inputRef} type="file" accept="image/*" className="hidden" aria-label="Upload a new profile photo" onChange={handleFileChange} />
+        <button type="button" onClick={() => inputRef.current?.click()} disabled={isUploading}
+          className="font-semibold text-white bg-indigo-600 py-2 px-4 rounded-lg hover:bg-indigo-700 transition-colors text-sm disabled:bg-slate-400 disabled:cursor-not-allowed"
+        >
+          {isUploading ? 'Uploading...' : 'Change Photo'}
+        </button>
+        <p className="text-xs text-slate-500 mt-2">JPG, GIF or PNG. Resized to fit automatically.</p>
+        {error && <p className="text-xs font-medium text-red-700 mt-1">{error}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default AvatarUpload;
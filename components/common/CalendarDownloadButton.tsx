@@ -0,0 +1,29 @@
+import React from 'react';
+import { ServiceRequest } from '@/shared/types';
+import { CalendarIcon } from '@/components/common/icons';
+import { downloadCalendar } from '@/services/calendarExport';
+import { CalendarEventOptions } from '@/shared/icalendar';
+
+/**
+ * Downloads one or more appointments as an .ics file. Disabled when there's nothing to add.
+ */
+const CalendarDownloadButton: React.FC<{
+    requests: ServiceRequest[];
+    name: string;
+    viewer: CalendarEventOptions['viewer'];
+    // The zone the jobs are shown in; defaults to the first job's.
+    timeZone?: string;
+    label?: string;
+    className?: string;
+}> = ({ requests, name, viewer, timeZone, label = 'Add to calendar', className = '' }) => (
+    <button
+        type="button"
+        onClick={() => downloadCalendar(requests, name, viewer, timeZone)}
+        disabled={requests.length === 0}
+        className={`flex items-center justify-center text-sm font-semibold text-indigo-600 hover:text-indigo-800 disabled:text-slate-400 disabled:cursor-not-allowed ${className}`}
+    >
+        <CalendarIcon className="w-4 h-4 mr-1.5" /> {label}
+    </button>
+);
+
+export default CalendarDownloadButton;
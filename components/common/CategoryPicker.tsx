@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { ServiceCategory } from '@/shared/types';
+import { SearchIcon, CloseIcon } from '@/components/common/icons';
+import { useCatalog } from '@/contexts/CatalogContext';
+import { getRootCategory, getSubcategories, getTopLevelCategories, searchCategories } from '@/shared/categories';
+
+export interface CategorySelection {
+  categoryId: string;
+  subcategoryId?: string;
+}
+
+interface CategoryPickerProps {
+  id?: string;
+  value: CategorySelection | null;
+  onChange: (selection: CategorySelection | null) => void;
+}
+
+/**
+ * Lets a customer choose what kind of job they need, by browsing the top-level categories
+ * or searching names and synonyms ("leak" finds Plumbing). Once a category is chosen they
+ * can optionally narrow it down to a subcategory.
+ */
+const CategoryPicker: React.FC<CategoryPickerProps> = ({ id = 'service-category', value, onChange }) => {
+  const { activeCategories, getCategory } = useCatalog();
+  const [searchTerm, setSearchTerm] = useState('');
+
+  const select = (category: ServiceCategory) => {
+    const root = getRootCategory(activeCategories, category);
+    onChange(root.id === category.id ? { categoryId: root.id } : { categoryId: root.id, subcategoryId: category.id });
+    setSearchTerm('');
+  };
+
+  const selectedCategory = value ? getCategory(value.categoryId) : undefined;
+
+  if (value && selectedCategory) {
+    const subcategories = getSubcategories(activeCategories, selectedCategory.id);
+    return (
+      <div>
+        <span className="block text-sm font-medium text-slate-700 mb-1">Service Category</span>
+        <div className="flex items-center justify-between bg-indigo-50 border border-indigo-200 rounded-lg px-3 py-2">
+          <span className="font-semibold text-indigo-800"><span aria-hidden="true" className="mr-2">{selectedCategory.icon}</span>{selectedCategory.name}</span>
+          <button type="button" aria-label="Choose a different category" onClick={() => onChange(null)} className="p-1 rounded-full text-indigo-600 hover:bg-indigo-100">
+            <CloseIcon className="w-4 h-4" />
+          </button>
+        </div>
+        {subcategories.length > 0 && (
+          <div className="mt-2">
+            <p className="text-xs text-slate-500 mb-1">Narrow it down (optional)</p>
+            <div className="flex flex-wrap gap-2">
+              {subcategories.map(subcategory => {
+                const isSelected = value.subcategoryId === subcategory.id;
+                return (
+                  <button
+                    key={subcategory.id}
+                    type="button"
+                    aria-pressed={isSelected}
+                    onClick={() => onChange(isSelected ? { categoryId: selectedCategory.id } : { categoryId: selectedCategory.id, subcategoryId: subcategory.id })}
+                    className={`text-sm px-3 py-1 rounded-full border transition-colors ${isSelected ? 'bg-indigo-600 border-indigo-600 text-white' : 'bg-white border-slate-300 text-slate-700 hover:border-indigo-400'}`}
+                  >
+                    {subcategory.name}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  const results = searchTerm.trim() ? searchCategories(activeCategories, searchTerm) : getTopLevelCategories(activeCategories);
+
+  return (
+    <div>
+      <label htmlFor={id} className="block text-sm font-medium text-slate-700 mb-1">Service Category</label>
+      <div className="relative">
+        <SearchIcon className="w-5 h-5 text-slate-400 absolute left-3 top-1/2 -translate-y-1/2" />
+        <input
+          id={id}
+          type="text"
+          value={searchTerm}
+          onChange={(e) => setSearchTerm(e.target.value)}
+          placeholder="Search, e.g. leak, wiring, lawn"
+          autoComplete="off"
+          className="w-full bg-white text-slate-900 border-slate-300 rounded-lg shadow-sm pl-10 focus:ring-indigo-500 focus:border-indigo-500 placeholder:text-slate-400"
+        />
+      </div>
+      <div className="mt-2 grid grid-cols-2 gap-2 max-h-48 overflow-y-auto">
+        {results.map(category => {
+          const parent = category.parentId ? getCategory(category.parentId) : undefined;
+          return (
+            <button
+              key={category.id}
+              type="button"
+              onClick={() => select(category)}
+              className="flex items-center text-left text-sm px-3 py-2 rounded-lg border border-slate-200 bg-white hover:border-indigo-400 hover:bg-indigo-50 transition-colors"
+            >
+              <span aria-hidden="true" className="mr-2 text-lg">{category.icon}</span>
+              <span>
+                <span className="block font-medium text-slate-800">{category.name}</span>
+                {parent && <span className="block text-xs text-slate-500">{parent.name}</span>}
+              </span>
+            </button>
+          );
+        })}
+      </div>
+      {results.length === 0 && (
+        <p className="mt-2 text-sm text-slate-500">No categories match "{searchTerm.trim()}". Try another word, or choose Other.</p>
+      )}
+    </div>
+  );
+};
+
+export default CategoryPicker;
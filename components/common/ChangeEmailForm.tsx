@@ -0,0 +1,71 @@
+import React, { useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+
+/**
+ * Lets the signed-in user move their account to a new email address. Firebase sends a
+ * verification link to the new address; the profile switches over once it's clicked.
+ */
+const ChangeEmailForm: React.FC = () => {
+  const { userProfile, requestEmailChange } = useAuth();
+  const [newEmail, setNewEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  if (!userProfile) return null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (newEmail.trim().toLowerCase() === userProfile.email.toLowerCase()) {
+      setError('That is already your email address.');
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    setMessage(null);
+    try {
+      await requestEmailChange(newEmail.trim(), password);
+      setMessage(`We've sent a verification link to ${newEmail.trim()}. Your email will change once you click it.`);
+      setNewEmail('');
+      setPassword('');
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <p className="text-sm text-slate-600">
+        Current email: <span className="font-semibold text-slate-800">{userProfile.email}</span>
+      </p>
+      {userProfile.pendingEmail && (
+        <p className="text-sm text-yellow-800 bg-yellow-50 p-3 rounded-lg">
+          Waiting for you to verify <span className="font-semibold">{userProfile.pendingEmail}</span>. Check that inbox for the link.
+        </p>
+      )}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="newEmail" className="block text-sm font-medium text-slate-700 mb-1">New Email Address</label>
+          <input id="newEmail" type="email" required value={newEmail} onChange={(e) => setNewEmail(e.target.value)} className="w-full bg-slate-50 border-slate-300 rounded-lg shadow-sm focus:ring-indigo-500 focus:border-indigo-500 placeholder:text-slate-400 text-slate-900" />
+        </div>
+        <div>
+          <label htmlFor="currentPassword" className="block text-sm font-medium text-slate-700 mb-1">Current Password</label>
+          <input id="currentPassword" type="password" required autoComplete="current-password" value={password} onChange={(e) => setPassword(e.target.value)} className="w-full bg-slate-50 border-slate-300 rounded-lg shadow-sm focus:ring-indigo-500 focus:border-indigo-500 placeholder:text-slate-400 text-slate-900" />
+        </div>
+      </div>
+      {error && <p className="text-sm font-medium text-red-700 bg-red-50 p-3 rounded-lg">{error}</p>}
+      {message && <p className="text-sm font-medium text-green-700 bg-green-50 p-3 rounded-lg">{message}</p>}
+      <div className="flex justify-end">
+        <button type="submit" disabled={isSaving || !newEmail || !password} className="font-semibold text-white bg-indigo-600 py-2 px-5 rounded-lg hover:bg-indigo-700 transition-colors disabled:bg-slate-400 disabled:cursor-not-allowed">
+          {isSaving ? 'Sending...' : 'Send Verification Link'}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default ChangeEmailForm;
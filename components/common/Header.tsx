@@ -1,33 +1,30 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { Notification } from '../../shared/types'; // UPDATED: TechnicianProfile is no longer needed here
-import { BellIcon, SearchIcon, ChevronDownIcon, LogoutIcon } from './icons';
+import { SearchIcon, ChevronDownIcon, LogoutIcon } from './icons';
+import NotificationBell from './NotificationBell';
 import { UserProfile } from '@/contexts/AuthContext'; // NEW: Import UserProfile type
+import { useCatalog } from '@/contexts/CatalogContext';
 
 // UPDATED: The props interface is changed to accept the dynamic userProfile
 interface HeaderProps {
   userProfile: UserProfile | null;
   notifications: Notification[];
   onClearNotifications: () => void;
+  onNotificationClick: (notification: Notification) => void;
   onLogout: () => void;
   setActiveView: (view: 'dashboard' | 'schedule' | 'messages' | 'profile') => void;
 }
 
-const Header: React.FC<HeaderProps> = ({ userProfile, notifications, onClearNotifications, onLogout, setActiveView }) => {
+const Header: React.FC<HeaderProps> = ({ userProfile, notifications, onClearNotifications, onNotificationClick, onLogout, setActiveView }) => {
   const [isDropdownOpen, setIsDropdownOpen] = useState(false);
-  const [isNotificationsOpen, setIsNotificationsOpen] = useState(false);
   const dropdownRef = useRef<HTMLDivElement>(null);
-  const notificationsRef = useRef<HTMLDivElement>(null);
-
-  const hasUnread = notifications.some(n => !n.read);
+  const { getCategoryName } = useCatalog();
 
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
       if (dropdownRef.current && !dropdownRef.current.contains(event.target as Node)) {
         setIsDropdownOpen(false);
       }
-      if (notificationsRef.current && !notificationsRef.current.contains(event.target as Node)) {
-        setIsNotificationsOpen(false);
-      }
     };
     document.addEventListener('mousedown', handleClickOutside);
     return () => document.removeEventListener('mousedown', handleClickOutside);
@@ -38,6 +35,8 @@ const Header: React.FC<HeaderProps> = ({ userProfile, notifications, onClearNoti
     return null;
   }
 
+  const skillNames = userProfile.skills?.map(getCategoryName).join(', ');
+
   return (
     <header className="bg-white/70 backdrop-blur-md sticky top-0 z-30 border-b border-slate-200/80 px-6 py-4 flex items-center justify-between flex-shrink-0">
       <div>
@@ -54,35 +53,11 @@ const Header: React.FC<HeaderProps> = ({ userProfile, notifications, onClearNoti
             className="bg-white border border-slate-200 rounded-full py-2 pl-10 pr-4 w-64 focus:outline-none focus:ring-2 focus:ring-indigo-500 transition-all"
           />
         </div>
-        <div className="relative" ref={notificationsRef}>
-            <button onClick={() => setIsNotificationsOpen(!isNotificationsOpen)} className="relative p-2 rounded-full hover:bg-slate-100 transition-colors">
-                <BellIcon className="w-6 h-6 text-slate-600" />
-                {hasUnread && <span className="absolute top-1 right-1 block h-2.5 w-2.5 rounded-full bg-red-500 ring-2 ring-white"></span>}
-            </button>
-            {isNotificationsOpen && (
-                 <div className="absolute right-0 mt-2 w-80 bg-white rounded-lg shadow-xl z-20 animate-scale-in">
-                    <div className="p-3 font-semibold text-slate-800 border-b">Notifications</div>
-                    <div className="py-1 max-h-80 overflow-y-auto">
-                        {notifications.map(notif => (
-                            <div key={notif.id} className={`p-3 text-sm flex items-start hover:bg-slate-50 ${!notif.read ? 'bg-indigo-50' : ''}`}>
-                                {!notif.read && <span className="w-2 h-2 bg-indigo-500 rounded-full mr-3 mt-1.5 flex-shrink-0"></span>}
-                                <div className={notif.read ? 'pl-5' : ''}>
-                                    <p className="text-slate-700">{notif.message}</p>
-                                    <p className="text-xs text-slate-400 mt-1">{notif.timestamp}</p>
-                                </div>
-                            </div>
-                        ))}
-                    </div>
-                    {hasUnread && (
-                        <div className="p-2 border-t">
-                            <button onClick={() => { onClearNotifications(); setIsNotificationsOpen(false); }} className="w-full text-center text-sm font-medium text-indigo-600 hover:bg-indigo-50 rounded-md py-1.5">
-                                Mark all as read
-                            </button>
-                        </div>
-                    )}
-                </div>
-            )}
-        </div>
+        <NotificationBell
+          notifications={notifications}
+          onSelect={onNotificationClick}
+          onMarkAllAsRead={onClearNotifications}
+        />
         <div className="relative" ref={dropdownRef}>
           <button onClick={() => setIsDropdownOpen(!isDropdownOpen)} className="flex items-center p-2 rounded-lg hover:bg-slate-100 transition-colors">
             {/* UPDATED: Use dynamic avatarUrl and fullName */}
@@ -90,7 +65,7 @@ const Header: React.FC<HeaderProps> = ({ userProfile, notifications, onClearNoti
             <div className="ml-3 text-left">
               <p className="font-semibold text-slate-800">{userProfile.fullName}</p>
               {/* UPDATED: Use dynamic skills array */}
-              <p className="text-sm text-slate-500 truncate w-32" title={userProfile.skills?.join(', ')}>{userProfile.skills?.join(', ')}</p>
+              <p className="text-sm text-slate-500 truncate w-32" title={skillNames}>{skillNames}</p>
             </div>
             <ChevronDownIcon className={`w-5 h-5 text-slate-500 ml-2 transition-transform ${isDropdownOpen ? 'rotate-180' : ''}`} />
           </button>
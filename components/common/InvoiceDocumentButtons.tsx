@@ -0,0 +1,40 @@
+import React from 'react';
+import { Invoice, ServiceRequest } from '@/shared/types';
+import { ArrowDownTrayIcon, PrinterIcon } from '@/components/common/icons';
+import { buildInvoiceDocument, InvoiceDocument, InvoiceDocumentKind } from '@/shared/invoiceDocument';
+import { downloadInvoicePdf, printInvoiceDocument } from '@/services/invoiceExport';
+
+/**
+ * Prints an invoice, receipt or estimate, or downloads it as a PDF. The document is built
+ * when a button is pressed, so it always reflects what's on screen.
+ */
+const InvoiceDocumentButtons: React.FC<{
+    request: ServiceRequest;
+    // A function while the invoice is still being edited on a form; it returns null if
+    // the form can't be read yet.
+    invoice: Invoice | (() => Invoice | null);
+    kind: InvoiceDocumentKind;
+    draft?: boolean;
+    label?: string;
+    className?: string;
+}> = ({ request, invoice, kind, draft = false, label, className = '' }) => {
+    const withDocument = (render: (invoiceDocument: InvoiceDocument) => void) => () => {
+        const current = typeof invoice === 'function' ? invoice() : invoice;
+        if (current) render(buildInvoiceDocument(request, current, kind, { draft }));
+    };
+    const name = label || (kind === 'receipt' ? 'receipt' : kind);
+    const buttonClassName = 'flex items-center text-xs font-semibold text-indigo-600 hover:text-indigo-800';
+
+    return (
+        <div className={`flex items-center gap-3 ${className}`}>
+            <button type="button" onClick={withDocument(printInvoiceDocument)} className={buttonClassName}>
+                <PrinterIcon className="w-4 h-4 mr-1" /> Print {name}
+            </button>
+            <button type="button" onClick={withDocument(downloadInvoicePdf)} className={buttonClassName}>
+                <ArrowDownTrayIcon className="w-4 h-4 mr-1" /> Download PDF
+            </button>
+        </div>
+    );
+};
+
+export default InvoiceDocumentButtons;
@@ -0,0 +1,58 @@
+import React from 'react';
+import { ServiceRequest } from '@/shared/types';
+import { formatMoney } from '@/shared/money';
+
+const formatIssued = (issuedDate: string) => new Date(issuedDate).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+
+/**
+ * The invoices a request has had before its current one and the credit notes issued
+ * against them. Issued invoices are never edited, so this is where every correction shows.
+ * Renders nothing for a request that has had neither.
+ */
+const InvoiceHistory: React.FC<{
+  request: Pick<ServiceRequest, 'previousInvoices' | 'creditNotes'>;
+  className?: string;
+}> = ({ request, className = '' }) => {
+  const previousInvoices = request.previousInvoices || [];
+  const creditNotes = request.creditNotes || [];
+  if (previousInvoices.length === 0 && creditNotes.length === 0) return null;
+
+  return (
+    <div className={`text-xs text-slate-600 space-y-2 ${className}`}>
+      {previousInvoices.length > 0 && (
+        <div>
+          <p className="font-semibold text-slate-700">Previous invoices</p>
+          <ul className="space-y-0.5">
+            {previousInvoices.map((invoice, index) => (
+              <li key={invoice.number || index} className="flex justify-between gap-4">
+                <span>
+                  <span className="line-through">{invoice.number || 'Unnumbered invoice'}</span> · issued {formatIssued(invoice.issuedDate)}
+                  {invoice.creditedBy && <> · cancelled by {invoice.creditedBy}</>}
+                </span>
+                <span className="font-medium">{formatMoney(invoice.total)}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {creditNotes.length > 0 && (
+        <div>
+          <p className="font-semibold text-slate-700">Credit notes</p>
+          <ul className="space-y-0.5">
+            {creditNotes.map(note => (
+              <li key={note.number} className="flex justify-between gap-4">
+                <span>
+                  {note.number} · against {note.invoiceNumber || 'an unnumbered invoice'} · {formatIssued(note.issuedDate)}
+                  <span className="block text-slate-500">{note.reason}</span>
+                </span>
+                <span className="font-medium text-green-700">−{formatMoney(note.amount)}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default InvoiceHistory;
@@ -0,0 +1,78 @@
+import React from 'react';
+import { Estimate, InvoiceBreakdown, InvoiceItem } from '@/shared/types';
+import { describeDiscount, describeTax, getItemType, getLineAmount, INVOICE_ITEM_TYPE_LABELS } from '@/shared/invoices';
+import { formatMoney, subtractMoney } from '@/shared/money';
+
+/**
+ * An invoice's lines and how they add up: subtotal, discount, tax per item type and
+ * total. The technician's form, the payment screen and the customer's request card all
+ * show invoices through this, so they read the same everywhere. Given the approved
+ * estimate, it also shows how far the total moved from it.
+ */
+const InvoiceSummary: React.FC<{
+  items: InvoiceItem[];
+  breakdown: InvoiceBreakdown;
+  // The form already lists the lines as inputs, so it shows only the totals.
+  showItems?: boolean;
+  totalLabel?: string;
+  estimate?: Estimate;
+  className?: string;
+}> = ({ items, breakdown, showItems = true, totalLabel = 'Total', estimate, className = '' }) => {
+  const difference = estimate && subtractMoney(breakdown.total, estimate.total);
+  return (
+    <div className={`text-sm text-slate-700 ${className}`}>
+      {showItems && (
+        <ul className="space-y-1">
+          {items.map((item, index) => (
+            <li key={index} className="flex justify-between gap-4">
+              <span>
+                {item.description}
+                {item.unitPrice !== undefined && (
+                  <span className="block text-xs text-slate-500">
+                    {INVOICE_ITEM_TYPE_LABELS[getItemType(item)]} · {item.quantity ?? 1} × {formatMoney(item.unitPrice)}
+                  </span>
+                )}
+              </span>
+              <span className="font-medium">{formatMoney(getLineAmount(item))}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+      <dl className={`space-y-1 ${showItems ? 'border-t border-slate-200 mt-3 pt-3' : ''}`}>
+        {(breakdown.discountTotal.amount > 0 || breakdown.taxTotal.amount > 0) && (
+          <div className="flex justify-between">
+            <dt>Subtotal</dt>
+            <dd>{formatMoney(breakdown.subtotal)}</dd>
+          </div>
+        )}
+        {breakdown.discount && breakdown.discountTotal.amount > 0 && (
+          <div className="flex justify-between text-green-700">
+            <dt>{describeDiscount(breakdown.discount)}</dt>
+            <dd>−{formatMoney(breakdown.discountTotal)}</dd>
+          </div>
+        )}
+        {breakdown.taxes.map(line => (
+          <div key={line.type} className="flex justify-between text-slate-600">
+            <dt>{describeTax(line)}</dt>
+            <dd>{formatMoney(line.amount)}</dd>
+          </div>
+        ))}
+        <div className="flex justify-between font-bold text-slate-900 text-base">
+          <dt>{totalLabel}</dt>
+          <dd>{formatMoney(breakdown.total)}</dd>
+        </div>
+        {estimate && difference && (
+          <div className={`flex justify-between text-xs font-medium ${difference.amount === 0 ? 'text-slate-500' : 'text-amber-800'}`}>
+            <dt>Approved estimate {formatMoney(estimate.total)}</dt>
+            <dd>
+              {difference.amount === 0 ? 'No change'
+                : `${difference.amount > 0 ? '+' : '−'}${formatMoney({ ...difference, amount: Math.abs(difference.amount) })}`}
+            </dd>
+          </div>
+        )}
+      </dl>
+    </div>
+  );
+};
+
+export default InvoiceSummary;
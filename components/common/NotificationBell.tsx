@@ -0,0 +1,84 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Notification } from '@/shared/types';
+import { BellIcon } from './icons';
+
+interface NotificationBellProps {
+  notifications: Notification[];
+  onSelect: (notification: Notification) => void;
+  onMarkAllAsRead: () => void;
+}
+
+const formatTimeAgo = (date?: Date): string => {
+  if (!date) return 'just now';
+  const minutes = Math.floor((Date.now() - date.getTime()) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  return date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+};
+
+/**
+ * The bell and dropdown shown in both portal headers. Clicking a notification hands it
+ * to `onSelect`, which marks it read and navigates to whatever it links to.
+ */
+const NotificationBell: React.FC<NotificationBellProps> = ({ notifications, onSelect, onMarkAllAsRead }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const unreadCount = notifications.filter(n => !n.read).length;
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button aria-label="Notifications" onClick={() => setIsOpen(!isOpen)} className="relative p-2 rounded-full hover:bg-slate-100 transition-colors">
+        <BellIcon className="w-6 h-6 text-slate-600" />
+        {unreadCount > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[1.25rem] h-5 px-1 rounded-full bg-red-500 ring-2 ring-white text-white text-xs font-bold flex items-center justify-center">
+            {unreadCount > 9 ? '9+' : unreadCount}
+          </span>
+        )}
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-80 bg-white rounded-lg shadow-xl z-20 animate-scale-in">
+          <div className="p-3 font-semibold text-slate-800 border-b">Notifications</div>
+          <div className="py-1 max-h-80 overflow-y-auto">
+            {notifications.length === 0 ? (
+              <p className="p-4 text-sm text-center text-slate-500">You're all caught up.</p>
+            ) : notifications.map(notif => (
+              <button
+                key={notif.id}
+                onClick={() => { onSelect(notif); setIsOpen(false); }}
+                className={`w-full text-left p-3 text-sm flex items-start hover:bg-slate-50 ${!notif.read ? 'bg-indigo-50' : ''}`}
+              >
+                {!notif.read && <span className="w-2 h-2 bg-indigo-500 rounded-full mr-3 mt-1.5 flex-shrink-0"></span>}
+                <div className={notif.read ? 'pl-5' : ''}>
+                  <p className="text-slate-700">{notif.message}</p>
+                  <p className="text-xs text-slate-400 mt-1">{formatTimeAgo(notif.timestamp?.toDate())}</p>
+                </div>
+              </button>
+            ))}
+          </div>
+          {unreadCount > 0 && (
+            <div className="p-2 border-t">
+              <button onClick={() => { onMarkAllAsRead(); setIsOpen(false); }} className="w-full text-center text-sm font-medium text-indigo-600 hover:bg-indigo-50 rounded-md py-1.5">
+                Mark all as read
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default NotificationBell;
@@ -0,0 +1,111 @@
+import React, { useState, useEffect } from 'react';
+import { requestRepository } from '@/services/repositories';
+import { RequestHistoryEntry, RequestHistoryAction, HistoryChange, EstimateStatus } from '@/shared/types';
+import { formatAppointment } from '@/shared/timeZones';
+import { formatMoney, isMoney, toMoney } from '@/shared/money';
+import { ESTIMATE_STATUS_LABELS } from '@/shared/estimates';
+import { DEFAULT_CURRENCY } from '@/shared/constants';
+import { SpinnerIcon } from './icons';
+
+const ACTION_LABELS: Record<RequestHistoryAction, string> = {
+  'created': 'created the request',
+  'accepted': 'accepted the job',
+  'declined': 'declined the job',
+  'status-changed': 'updated the status',
+  'cancelled': 'cancelled the request',
+  'rescheduled': 'rescheduled the appointment',
+  'invoice-created': 'issued an invoice',
+  'payment': 'paid the invoice',
+  'rating': 'left a rating',
+  'assigned': 'assigned the job',
+  'invoice-voided': 'withdrew the invoice',
+  'offered': 'passed the job on after the offer expired',
+  'escalated': 'escalated the unanswered emergency',
+  'estimate-sent': 'sent an estimate',
+  'estimate-responded': 'answered the estimate',
+  'invoice-revised': 'replaced the invoice with a revised one',
+  'credit-note-issued': 'issued a credit note',
+};
+
+const ACTION_DOT_STYLES: Partial<Record<RequestHistoryAction, string>> = {
+  'accepted': 'bg-green-500',
+  'cancelled': 'bg-red-500',
+  'declined': 'bg-slate-400',
+  'payment': 'bg-green-500',
+  'rating': 'bg-yellow-400',
+  'assigned': 'bg-green-500',
+  'invoice-voided': 'bg-slate-400',
+  'escalated': 'bg-red-500',
+  'credit-note-issued': 'bg-slate-400',
+};
+
+// Values are stored raw, so make the common ones readable.
+const formatValue = (field: string, value: unknown, timeZone: string): string => {
+  if (value === null || value === undefined) return '—';
+  if (field === 'dateTime' && typeof value === 'string') return formatAppointment(value, timeZone, { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+  if (field.endsWith('.number')) return String(value);
+  // Entries written before amounts were Money hold plain dollars.
+  if (field.startsWith('invoice.') || field === 'estimate.total' || field === 'creditNote.amount') return formatMoney(isMoney(value) ? value : toMoney(Number(value), DEFAULT_CURRENCY));
+  if (field === 'estimate.status') return ESTIMATE_STATUS_LABELS[value as EstimateStatus] || String(value);
+  if (Array.isArray(value)) return `${value.length}`;
+  if (typeof value === 'object' && 'stars' in value) return `${value.stars}★`;
+  return String(value);
+};
+
+// Declines list technician uids, which mean nothing to the reader.
+const isDisplayableChange = (change: HistoryChange) => change.field !== 'declinedBy' && change.field !== 'assignedTechnicianUid';
+
+/**
+ * A read-only timeline of everything that has happened to a service request,
+ * streamed live from its history. Appointment times read in `timeZone`, the job's zone.
+ */
+const RequestTimeline: React.FC<{ requestId: string; timeZone: string }> = ({ requestId, timeZone }) => {
+  const [entries, setEntries] = useState<RequestHistoryEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    setIsLoading(true);
+    const unsubscribe = requestRepository.subscribeHistory(requestId, (history) => {
+      setEntries(history);
+      setIsLoading(false);
+    }, (error) => {
+      console.error("Error in request history listener (RequestTimeline.tsx):", error);
+      setIsLoading(false);
+    });
+    return () => unsubscribe();
+  }, [requestId]);
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-4">
+        <SpinnerIcon className="w-6 h-6 text-indigo-600 animate-spin" />
+      </div>
+    );
+  }
+
+  if (entries.length === 0) {
+    return <p className="text-sm text-slate-500">No history recorded for this request yet.</p>;
+  }
+
+  return (
+    <ol className="relative border-l-2 border-slate-200 ml-2 space-y-4">
+      {entries.map(entry => (
+        <li key={entry.id} className="ml-4">
+          <span className={`absolute -left-[7px] mt-1.5 w-3 h-3 rounded-full ring-2 ring-white ${ACTION_DOT_STYLES[entry.action] || 'bg-indigo-500'}`} />
+          <p className="text-sm text-slate-700">
+            <span className="font-semibold">{entry.actorName}</span>
+            <span className="text-slate-400"> ({entry.actorRole})</span> {ACTION_LABELS[entry.action] || entry.action}
+          </p>
+          {entry.changes.filter(isDisplayableChange).map(change => (
+            <p key={change.field} className="text-xs text-slate-500">
+              {change.field}: {formatValue(change.field, change.before, timeZone)} → <span className="font-medium text-slate-700">{formatValue(change.field, change.after, timeZone)}</span>
+            </p>
+          ))}
+          <p className="text-xs text-slate-400 mt-0.5">{entry.timestamp?.toDate().toLocaleString() || 'saving...'}</p>
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+export default RequestTimeline;
@@ -1,7 +1,7 @@
 import React from 'react';
 import { DashboardIcon, CalendarIcon, ChatIcon, ProfileIcon, ChevronDoubleLeftIcon, ClipboardDocumentListIcon } from './icons';
 
-export type View = 'dashboard' | 'schedule' | 'messages' | 'profile' | 'requests';
+export type View = 'dashboard' | 'schedule' | 'messages' | 'profile' | 'requests' | 'users' | 'categories';
 
 export interface NavItemType {
     view: View;
@@ -0,0 +1,43 @@
+import React from 'react';
+import { CheckIcon } from '@/components/common/icons';
+import { useCatalog } from '@/contexts/CatalogContext';
+import { getTopLevelCategories } from '@/shared/categories';
+
+interface SkillPickerProps {
+  // Category ids.
+  value: string[];
+  onChange: (skills: string[]) => void;
+}
+
+/**
+ * Toggles for the top-level categories a technician can take jobs in. Retired
+ * categories the technician already has stay visible so they can be removed.
+ */
+const SkillPicker: React.FC<SkillPickerProps> = ({ value, onChange }) => {
+  const { categories } = useCatalog();
+  const options = getTopLevelCategories(categories).filter(category => category.active || value.includes(category.id));
+
+  const toggle = (id: string) => onChange(value.includes(id) ? value.filter(skill => skill !== id) : [...value, id]);
+
+  return (
+    <div role="group" aria-label="Skills" className="flex flex-wrap gap-2">
+      {options.map(category => {
+        const isSelected = value.includes(category.id);
+        return (
+          <button
+            key={category.id}
+            type="button"
+            aria-pressed={isSelected}
+            onClick={() => toggle(category.id)}
+            className={`flex items-center text-sm font-medium px-3 py-1.5 rounded-full border transition-colors ${isSelected ? 'bg-indigo-600 border-indigo-600 text-white' : 'bg-white border-gray-300 text-gray-700 hover:border-indigo-400'}`}
+          >
+            {isSelected ? <CheckIcon className="w-4 h-4 mr-1" /> : <span aria-hidden="true" className="mr-1">{category.icon}</span>}
+            {category.name}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+export default SkillPicker;
@@ -0,0 +1,134 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { CalendarIcon, ChevronLeftIcon, ChevronRightIcon, SpinnerIcon } from './icons';
+import { getAvailableSlots, AvailabilityOptions } from '@/services/availability';
+import { getDeviceTimeZone } from '@/shared/timeZones';
+
+interface SlotPickerProps {
+  serviceCategoryId: string;
+  selectedDate: Date | null;
+  selectedTime: string | null;
+  onDateChange: (date: Date) => void;
+  onTimeChange: (slot: string | null) => void;
+  availabilityOptions?: AvailabilityOptions;
+}
+
+const daysOfWeek = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * A month calendar plus the open time slots for the chosen day, as offered to customers
+ * when booking or rescheduling a request.
+ */
+const SlotPicker: React.FC<SlotPickerProps> = ({ serviceCategoryId, selectedDate, selectedTime, onDateChange, onTimeChange, availabilityOptions = {} }) => {
+  const [displayDate, setDisplayDate] = useState(selectedDate || new Date());
+  const [availableSlots, setAvailableSlots] = useState<string[]>([]);
+  const [isLoadingSlots, setIsLoadingSlots] = useState(false);
+  const { technicianUid, excludeRequestId, durationMinutes, timeZone, address } = availabilityOptions;
+  // Addresses arrive as new objects on every render, so compare them by content.
+  const addressKey = address ? JSON.stringify(address) : '';
+
+  useEffect(() => {
+    // Reset slots if the category or date is cleared
+    if (!serviceCategoryId || !selectedDate) {
+      setAvailableSlots([]);
+      return;
+    }
+
+    setIsLoadingSlots(true);
+    // Clear previously selected time when date or category changes
+    onTimeChange(null);
+
+    getAvailableSlots(serviceCategoryId, selectedDate, { technicianUid, excludeRequestId, durationMinutes, timeZone, address })
+      .then(slots => {
+        setAvailableSlots(slots);
+      })
+      .catch(error => {
+        console.error("Error checking availability:", error);
+        setAvailableSlots([]); // Ensure we show no slots on error
+      })
+      .finally(() => {
+        setIsLoadingSlots(false);
+      });
+  }, [serviceCategoryId, selectedDate, technicianUid, excludeRequestId, durationMinutes, timeZone, addressKey]);
+
+  const calendarDays = useMemo(() => {
+    const year = displayDate.getFullYear();
+    const month = displayDate.getMonth();
+    const firstDayOfMonth = new Date(year, month, 1).getDay();
+    const daysInMonth = new Date(year, month + 1, 0).getDate();
+
+    const days: (Date | null)[] = Array.from({ length: firstDayOfMonth }, () => null);
+    for (let day = 1; day <= daysInMonth; day++) {
+      days.push(new Date(year, month, day));
+    }
+    return days;
+  }, [displayDate]);
+
+  const handleDateSelect = (date: Date) => {
+    if (date < new Date(new Date().toDateString())) return;
+    onDateChange(date);
+    onTimeChange(null);
+  };
+
+  return (
+    <div className="bg-slate-50 p-5 rounded-lg border border-slate-200">
+      <h3 className="text-lg font-bold text-slate-800 mb-4 flex items-center"><CalendarIcon className="w-6 h-6 mr-2 text-indigo-600" /> Select Date & Time</h3>
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <button type="button" aria-label="Previous month" onClick={() => setDisplayDate(d => new Date(d.getFullYear(), d.getMonth() - 1, 1))} className="p-2 rounded-full hover:bg-slate-200"><ChevronLeftIcon className="w-5 h-5" /></button>
+          <p className="font-semibold text-slate-700">{new Intl.DateTimeFormat('en-US', { month: 'long', year: 'numeric' }).format(displayDate)}</p>
+          <button type="button" aria-label="Next month" onClick={() => setDisplayDate(d => new Date(d.getFullYear(), d.getMonth() + 1, 1))} className="p-2 rounded-full hover:bg-slate-200"><ChevronRightIcon className="w-5 h-5" /></button>
+        </div>
+        <div className="grid grid-cols-7 gap-1 text-center text-sm">
+          {daysOfWeek.map(day => <div key={day} className="font-medium text-slate-500">{day}</div>)}
+          {calendarDays.map((day, index) => {
+            if (!day) return <div key={index} />;
+            const isToday = day.toDateString() === new Date().toDateString();
+            const isSelected = selectedDate && day.toDateString() === selectedDate.toDateString();
+            const isPast = day < new Date(new Date().toDateString());
+            return (
+              <div key={index} className="flex justify-center items-center">
+                <button type="button" aria-label={`Select date ${day.getDate()}`} disabled={isPast} onClick={() => handleDateSelect(day)} className={`w-9 h-9 rounded-full transition-colors
+                     ${isPast ? 'text-slate-300 cursor-not-allowed' : 'hover:bg-indigo-100'}
+                     ${isSelected ? 'bg-indigo-600 text-white font-bold' : ''}
+                     ${!isSelected && isToday ? 'bg-teal-400 text-white' : ''}
+                     ${!isSelected && !isToday ? 'text-slate-700' : ''}
+                   `}>{day.getDate()}</button>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+      {selectedDate && serviceCategoryId ? (
+        <div className="mt-4 animate-fade-in">
+          <h4 className="font-semibold text-slate-700 mb-2">Available Slots for {selectedDate.toLocaleDateString(undefined, { month: 'long', day: 'numeric' })}:</h4>
+          {timeZone && timeZone !== getDeviceTimeZone() && (
+            <p className="text-xs text-slate-500 mb-2">Times are local to the service location ({timeZone}).</p>
+          )}
+          {isLoadingSlots ? (
+            <div className="flex items-center justify-center h-24">
+              <SpinnerIcon className="w-8 h-8 text-indigo-600 animate-spin" />
+            </div>
+          ) : availableSlots.length > 0 ? (
+            <div className="grid grid-cols-2 gap-2">
+              {availableSlots.map(slot => (
+                <button type="button" key={slot} onClick={() => onTimeChange(slot)}
+                  className={`p-2 rounded-lg text-sm font-medium border-2 transition-all ${selectedTime === slot ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-slate-700 border-slate-300 hover:border-indigo-500'}`}
+                >{slot}</button>
+              ))}
+            </div>
+          ) : (
+            <div className="text-center p-4 bg-slate-100 rounded-lg">
+              <p className="text-sm font-medium text-slate-600">Sorry, no technicians are available on this day. Please select another date or service.</p>
+            </div>
+          )}
+        </div>
+      ) : selectedDate && (
+        <div className="mt-4 text-center p-4 bg-slate-100 rounded-lg">
+          <p className="text-sm font-medium text-slate-600">Please select a service category to see availability.</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SlotPicker;
@@ -0,0 +1,93 @@
+import React, { useEffect, useState } from 'react';
+import { ServiceAddress, UserProfile } from '@/shared/types';
+import { SpinnerIcon, StarIcon } from '@/components/common/icons';
+import { useCatalog } from '@/contexts/CatalogContext';
+import { findCoveringTechnicians } from '@/services/availability';
+
+interface TechnicianPickerProps {
+  serviceCategoryId: string;
+  // Where the job is; only technicians who work there are listed.
+  address?: ServiceAddress;
+  // The chosen technician's uid, or null for whoever is available.
+  value: string | null;
+  onChange: (technicianUid: string | null) => void;
+}
+
+/**
+ * Lets a customer ask for a technician they know, from those qualified for the chosen
+ * category who cover the address, best rated first. A choice that doesn't suit a newly
+ * chosen category or address is cleared.
+ */
+const TechnicianPicker: React.FC<TechnicianPickerProps> = ({ serviceCategoryId, address, value, onChange }) => {
+  const { getCategoryName } = useCatalog();
+  const [technicians, setTechnicians] = useState<UserProfile[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  // Addresses arrive as new objects on every render, so compare them by content.
+  const addressKey = address ? JSON.stringify(address) : '';
+
+  useEffect(() => {
+    if (!serviceCategoryId) {
+      setTechnicians([]);
+      return;
+    }
+
+    let isCurrent = true;
+    setIsLoading(true);
+    findCoveringTechnicians(serviceCategoryId, address)
+      .then(found => {
+        if (!isCurrent) return;
+        setTechnicians([...found].sort((a, b) => (b.averageRating || 0) - (a.averageRating || 0) || a.fullName.localeCompare(b.fullName)));
+        if (value && !found.some(technician => technician.uid === value)) onChange(null);
+      })
+      .catch(error => {
+        console.error("Error loading technicians (TechnicianPicker.tsx):", error);
+        if (isCurrent) setTechnicians([]);
+      })
+      .finally(() => {
+        if (isCurrent) setIsLoading(false);
+      });
+    return () => { isCurrent = false; };
+  }, [serviceCategoryId, addressKey]);
+
+  if (!serviceCategoryId) return null;
+
+  const optionClassName = (isSelected: boolean) =>
+    `w-full flex items-center text-left p-2 rounded-lg border transition-colors ${isSelected ? 'border-indigo-500 bg-indigo-50' : 'border-slate-200 hover:bg-slate-50'}`;
+
+  return (
+    <div>
+      <span className="block text-sm font-medium text-slate-700 mb-1">Technician (optional)</span>
+      {isLoading ? (
+        <div className="flex justify-center py-3">
+          <SpinnerIcon className="w-5 h-5 text-indigo-600 animate-spin" />
+        </div>
+      ) : (
+        <div role="radiogroup" aria-label="Technician" className="space-y-2 max-h-56 overflow-y-auto">
+          <button type="button" role="radio" aria-checked={value === null} onClick={() => onChange(null)} className={optionClassName(value === null)}>
+            <span className="text-sm font-medium text-slate-700">Any available technician</span>
+          </button>
+          {technicians.map(technician => (
+            <button key={technician.uid} type="button" role="radio" aria-checked={value === technician.uid} onClick={() => onChange(technician.uid)} className={optionClassName(value === technician.uid)}>
+              <img src={technician.avatarUrl} alt="" className="w-10 h-10 rounded-full mr-3 border" />
+              <div className="min-w-0">
+                <p className="text-sm font-semibold text-slate-800">{technician.fullName}</p>
+                <p className="flex items-center text-xs text-slate-500">
+                  <StarIcon className="w-3.5 h-3.5 mr-0.5 text-yellow-400" />
+                  {technician.ratingCount ? `${(technician.averageRating || 0).toFixed(1)} (${technician.ratingCount} rating${technician.ratingCount === 1 ? '' : 's'})` : 'No ratings yet'}
+                </p>
+                <div className="flex flex-wrap gap-1 mt-1">
+                  {(technician.skills || []).map(skill => (
+                    <span key={skill} className="text-xs font-medium bg-blue-100 text-blue-800 px-2 py-0.5 rounded-full">{getCategoryName(skill)}</span>
+                  ))}
+                </div>
+              </div>
+            </button>
+          ))}
+          {technicians.length === 0 && <p className="text-sm text-slate-500">No technicians offer this service here yet.</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TechnicianPicker;
@@ -1,7 +1,19 @@
-import React, { useMemo } from 'react';
+import React, { useMemo, useState, useEffect, useRef } from 'react';
 import { ServiceRequest, RequestStatus, Urgency } from '@/shared/types';
 import { PlusIcon, WrenchScrewdriverIcon, CalendarIcon, CreditCardIcon, StarIcon, CheckBadgeIcon, UserGroupIcon } from '@/components/common/icons';
-import { useAppContext } from '@/contexts/AppContext';
+import { EstimateResponse, useAppContext } from '@/contexts/AppContext';
+import { getChangePolicy, RequestTransitionError } from '@/shared/requestLifecycle';
+import RequestTimeline from '@/components/common/RequestTimeline';
+import { useCatalog } from '@/contexts/CatalogContext';
+import CalendarDownloadButton from '@/components/common/CalendarDownloadButton';
+import { getUpcomingCalendarRequests } from '@/shared/icalendar';
+import { formatRequestTime, getRequestTimeZone } from '@/shared/timeZones';
+import { getInvoiceBreakdown, getInvoiceLabel } from '@/shared/invoices';
+import { ESTIMATE_STATUS_LABELS, getApprovedEstimate } from '@/shared/estimates';
+import { formatMoney } from '@/shared/money';
+import InvoiceSummary from '@/components/common/InvoiceSummary';
+import InvoiceHistory from '@/components/common/InvoiceHistory';
+import InvoiceDocumentButtons from '@/components/common/InvoiceDocumentButtons';
 // ... other imports ...
 
 // --- NEW REUSABLE COMPONENT ---
@@ -36,6 +48,8 @@ const StatusBadge: React.FC<{ status: RequestStatus; paymentStatus: ServiceReque
             [RequestStatus.ACCEPTED]: { text: 'Accepted', style: 'bg-blue-100 text-blue-800' },
             [RequestStatus.IN_PROGRESS]: { text: 'In Progress', style: 'bg-blue-100 text-blue-800' },
             [RequestStatus.DECLINED]: { text: 'Declined', style: 'bg-red-100 text-red-800' },
+            [RequestStatus.CANCELLED]: { text: 'Cancelled', style: 'bg-slate-200 text-slate-600' },
+            [RequestStatus.NO_TECHNICIAN_AVAILABLE]: { text: 'No Technician Available', style: 'bg-orange-100 text-orange-800' },
         };
 
         return statusStyles[status] || { text: status, style: 'bg-slate-200 text-slate-800' };
@@ -51,7 +65,9 @@ const TechnicianInfo: React.FC<{
     name: string;
     avatar: string;
     skills: string[];
-}> = ({ name, avatar, skills }) => (
+}> = ({ name, avatar, skills }) => {
+    const { getCategoryName } = useCatalog();
+    return (
     <div className="mt-4 pt-4 border-t border-slate-200">
         <p className="text-xs font-semibold text-slate-500 mb-2 uppercase">Your Technician</p>
         <div className="flex items-center">
@@ -61,14 +77,100 @@ const TechnicianInfo: React.FC<{
                 <div className="flex flex-wrap gap-1 mt-1">
                     {skills.map(skill => (
                         <span key={skill} className="text-xs font-medium bg-blue-100 text-blue-800 px-2 py-0.5 rounded-full">
-                            {skill}
+                            {getCategoryName(skill)}
                         </span>
                     ))}
                 </div>
             </div>
         </div>
     </div>
-);
+    );
+};
+/**
+ * The technician's estimate for an accepted job. While it waits for an answer the
+ * customer can approve it, which lets work start, reject it, or ask for changes.
+ */
+const EstimatePanel: React.FC<{ request: ServiceRequest }> = ({ request }) => {
+    const { handleRespondToEstimate } = useAppContext();
+    const estimate = request.estimate!;
+    const isAwaitingAnswer = estimate.status === 'sent' && request.status === RequestStatus.ACCEPTED;
+    const [showDetails, setShowDetails] = useState(isAwaitingAnswer);
+    // The answer that needs a note before it's sent.
+    const [pendingResponse, setPendingResponse] = useState<'rejected' | 'changes-requested' | null>(null);
+    const [note, setNote] = useState('');
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const respond = async (response: EstimateResponse) => {
+        setError(null);
+        setIsSaving(true);
+        try {
+            await handleRespondToEstimate(request.id, response, note);
+            setPendingResponse(null);
+            setNote('');
+        } catch (e) {
+            setError(e instanceof RequestTransitionError ? e.message : 'Your answer could not be sent. Please try again.');
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div className={`mt-4 p-3 rounded-lg border ${isAwaitingAnswer ? 'bg-indigo-50 border-indigo-200' : 'bg-slate-50 border-slate-200'}`}>
+            <div className="flex items-center justify-between">
+                <p className="text-sm font-semibold text-slate-800">Estimate · {formatMoney(estimate.total)}</p>
+                <span className="text-xs font-semibold text-slate-600">{ESTIMATE_STATUS_LABELS[estimate.status]}</span>
+            </div>
+            <button onClick={() => setShowDetails(prev => !prev)} className="mt-1 text-xs font-semibold text-indigo-600 hover:text-indigo-800">
+                {showDetails ? 'Hide details' : 'View details'}
+            </button>
+            {showDetails && (
+                <InvoiceSummary items={estimate.items} breakdown={estimate} className="mt-2 animate-fade-in" />
+            )}
+            {isAwaitingAnswer && !pendingResponse && (
+                <div className="mt-3 flex flex-wrap gap-2">
+                    <button onClick={() => respond('approved')} disabled={isSaving} className="flex-1 px-3 py-1.5 text-sm font-semibold text-white bg-green-600 rounded-lg hover:bg-green-700 active:scale-95 transition-all disabled:opacity-60">
+                        Approve
+                    </button>
+                    <button onClick={() => setPendingResponse('changes-requested')} disabled={isSaving} className="flex-1 px-3 py-1.5 text-sm font-semibold text-indigo-600 bg-white border border-indigo-200 rounded-lg hover:bg-indigo-100 active:scale-95 transition-all disabled:opacity-60">
+                        Ask for Changes
+                    </button>
+                    <button onClick={() => setPendingResponse('rejected')} disabled={isSaving} className="flex-1 px-3 py-1.5 text-sm font-semibold text-red-700 bg-red-100 rounded-lg hover:bg-red-200 active:scale-95 transition-all disabled:opacity-60">
+                        Reject
+                    </button>
+                </div>
+            )}
+            {isAwaitingAnswer && pendingResponse && (
+                <div className="mt-3 space-y-2">
+                    <textarea
+                        rows={2}
+                        value={note}
+                        onChange={(e) => setNote(e.target.value)}
+                        placeholder={pendingResponse === 'rejected' ? 'Why are you rejecting it? (optional)' : 'What would you like changed?'}
+                        className="w-full text-sm border border-slate-300 rounded-md px-2 py-1.5 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                    />
+                    <div className="flex gap-2">
+                        <button
+                            onClick={() => respond(pendingResponse)}
+                            disabled={isSaving || (pendingResponse === 'changes-requested' && !note.trim())}
+                            className="flex-1 px-3 py-1.5 text-sm font-semibold text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 active:scale-95 transition-all disabled:bg-slate-400"
+                        >
+                            {pendingResponse === 'rejected' ? 'Reject Estimate' : 'Send Request'}
+                        </button>
+                        <button onClick={() => setPendingResponse(null)} disabled={isSaving} className="px-3 py-1.5 text-sm font-semibold text-slate-700 bg-slate-200 rounded-lg hover:bg-slate-300">
+                            Back
+                        </button>
+                    </div>
+                </div>
+            )}
+            {!isAwaitingAnswer && estimate.status !== 'approved' && request.status === RequestStatus.ACCEPTED && (
+                <p className="mt-2 text-xs text-slate-500">Your technician will send a revised estimate. You can also cancel the request below.</p>
+            )}
+            {error && <p role="alert" className="mt-2 text-xs font-medium text-red-700 bg-red-50 p-2 rounded-lg">{error}</p>}
+        </div>
+    );
+};
+
 /**
  * A card component that displays the details of a single service request
  * and provides relevant actions for the customer.
@@ -77,8 +179,34 @@ const RequestCard: React.FC<{
     request: ServiceRequest,
     onPay: (request: ServiceRequest) => void;
     onRate: (request: ServiceRequest) => void;
-}> = ({ request, onPay, onRate }) => {
-    const { handleUpdateStatus } = useAppContext();
+    onReschedule: (request: ServiceRequest) => void;
+    onBookAgain: (request: ServiceRequest) => void;
+    isFocused?: boolean;
+}> = ({ request, onPay, onRate, onReschedule, onBookAgain, isFocused }) => {
+    const { handleCancelRequest } = useAppContext();
+    const [actionError, setActionError] = useState<string | null>(null);
+    const [showHistory, setShowHistory] = useState(false);
+    const [showInvoice, setShowInvoice] = useState(false);
+    const cardRef = useRef<HTMLDivElement>(null);
+    const changePolicy = getChangePolicy(request);
+
+    // A notification pointed here: bring the card into view with its latest history open.
+    useEffect(() => {
+        if (isFocused) {
+            setShowHistory(true);
+            cardRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+        }
+    }, [isFocused]);
+
+    const handleCancel = async () => {
+        if (!window.confirm(`${changePolicy.message}\n\nCancel this request?`)) return;
+        setActionError(null);
+        try {
+            await handleCancelRequest(request.id);
+        } catch (e) {
+            setActionError(e instanceof RequestTransitionError ? e.message : 'The request could not be cancelled. Please try again.');
+        }
+    };
 
     const urgencyBorderColor: Record<Urgency, string> = {
         [Urgency.EMERGENCY]: 'border-l-red-500',
@@ -87,14 +215,11 @@ const RequestCard: React.FC<{
     };
 
     const renderFooter = () => {
-        if (request.status === RequestStatus.ACCEPTED || request.status === RequestStatus.IN_PROGRESS) {
+        if (request.status === RequestStatus.NO_TECHNICIAN_AVAILABLE) {
             return (
-                <button
-                    onClick={() => handleUpdateStatus(request.id, RequestStatus.COMPLETED)}
-                    className="w-full flex items-center justify-center bg-indigo-600 text-white font-semibold py-2.5 px-4 rounded-lg hover:bg-indigo-700 active:scale-95 transition-all"
-                >
-                    <CheckBadgeIcon className="w-5 h-5 mr-2" /> Mark as Completed
-                </button>
+                <p className="text-sm font-medium text-orange-800 bg-orange-50 p-3 rounded-lg">
+                    Sorry, no technician was able to take this job. Please submit a new request for another date.
+                </p>
             );
         }
 
@@ -129,14 +254,42 @@ const RequestCard: React.FC<{
             }
         }
 
-        return (
-            <div className="text-sm text-slate-500 font-medium flex items-center">
-                <CalendarIcon className="w-4 h-4 mr-2 text-slate-400" />
-                {new Date(request.dateTime).toLocaleString(undefined, {
-                    month: 'short', day: 'numeric', year: 'numeric', hour: 'numeric', minute: '2-digit'
-                })}
+        const scheduledFor = (
+            <div className="flex items-center justify-between">
+                <div className="text-sm text-slate-500 font-medium flex items-center">
+                    <CalendarIcon className="w-4 h-4 mr-2 text-slate-400" />
+                    {request.asSoonAsPossible
+                        ? `As soon as possible · requested ${formatRequestTime(request, { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}`
+                        : formatRequestTime(request)}
+                </div>
+                <CalendarDownloadButton requests={[request]} name={request.serviceCategory} viewer="customer" label="Add to calendar" className="text-xs" />
             </div>
         );
+
+        if (changePolicy.allowed) {
+            return (
+                <div className="space-y-3">
+                    {scheduledFor}
+                    <div className="flex space-x-2">
+                        <button
+                            onClick={() => onReschedule(request)}
+                            className="flex-1 px-3.5 py-1.5 text-sm font-semibold text-indigo-600 bg-indigo-100 rounded-lg hover:bg-indigo-200 active:scale-95 transition-all"
+                        >
+                            Reschedule
+                        </button>
+                        <button
+                            onClick={handleCancel}
+                            className="flex-1 px-3.5 py-1.5 text-sm font-semibold text-red-700 bg-red-100 rounded-lg hover:bg-red-200 active:scale-95 transition-all"
+                        >
+                            Cancel
+                        </button>
+                    </div>
+                    {actionError && <p className="text-xs font-medium text-red-700 bg-red-50 p-2 rounded-lg">{actionError}</p>}
+                </div>
+            );
+        }
+
+        return scheduledFor;
     };
 
     const showTechnicianDetails =
@@ -146,13 +299,22 @@ const RequestCard: React.FC<{
             request.status === RequestStatus.COMPLETED);
 
     return (
-        <div className={`bg-white rounded-xl shadow-sm border border-slate-200 flex flex-col animate-fade-in-up hover:shadow-md hover:-translate-y-0.5 transition-all border-l-4 ${urgencyBorderColor[request.urgency]}`}>
+        <div ref={cardRef} className={`bg-white rounded-xl shadow-sm border border-slate-200 flex flex-col animate-fade-in-up hover:shadow-md hover:-translate-y-0.5 transition-all border-l-4 ${urgencyBorderColor[request.urgency]} ${isFocused ? 'ring-2 ring-indigo-500 ring-offset-2' : ''}`}>
             <div className="p-5 flex-grow">
                 <div className="flex justify-between items-start mb-3">
                     <span className="text-md font-bold text-slate-800">{request.serviceCategory}</span>
                     <StatusBadge status={request.status} paymentStatus={request.paymentStatus} />
                 </div>
                 <p className="text-slate-600 text-sm mb-4 line-clamp-3">{request.description}</p>
+                {request.status === RequestStatus.PENDING && request.dispatch && (
+                    <p className="text-xs font-medium text-indigo-700 bg-indigo-50 px-2 py-1 rounded-md inline-block mb-4">
+                        {!request.dispatch.offer
+                            ? 'Posted for any available technician to accept.'
+                            : request.dispatch.preferred
+                                ? `Waiting for ${request.dispatch.offer.technicianName} to accept…`
+                                : 'Offering your job to the best-matched technician…'}
+                    </p>
+                )}
 
                 {/* --- NEW LOGIC TO RENDER THE TECHNICIAN INFO --- */}
                 {showTechnicianDetails && (
@@ -162,7 +324,43 @@ const RequestCard: React.FC<{
                         skills={request.technicianSkills!}
                     />
                 )}
+                {request.status === RequestStatus.COMPLETED && request.assignedTechnicianUid && (
+                    <button onClick={() => onBookAgain(request)} className="mt-3 text-xs font-semibold text-indigo-600 hover:text-indigo-800">
+                        Book {request.technicianName || 'this technician'} again
+                    </button>
+                )}
                 {/* ----------------------------------------------- */}
+                {request.estimate && !request.invoice && <EstimatePanel request={request} />}
+                {request.invoice && (
+                    <div className="mt-4">
+                        <button onClick={() => setShowInvoice(prev => !prev)} className="text-xs font-semibold text-indigo-600 hover:text-indigo-800">
+                            {showInvoice ? 'Hide invoice' : `View ${getInvoiceLabel(request.invoice).toLowerCase()} (${formatMoney(request.invoice.total)})`}
+                        </button>
+                        {showInvoice && (
+                            <div className="mt-3 bg-slate-50 p-3 rounded-lg border border-slate-200 animate-fade-in">
+                                {request.invoice.revises && <p className="text-xs text-slate-500 mb-2">Replaces invoice {request.invoice.revises}</p>}
+                                <InvoiceSummary items={request.invoice.items} breakdown={getInvoiceBreakdown(request.invoice)} estimate={getApprovedEstimate(request)} />
+                                <InvoiceHistory request={request} className="mt-3 pt-3 border-t border-slate-200" />
+                                <div className="mt-3 pt-3 border-t border-slate-200 space-y-2">
+                                    <InvoiceDocumentButtons request={request} invoice={request.invoice} kind="invoice" />
+                                    {request.paymentStatus === 'paid' && <InvoiceDocumentButtons request={request} invoice={request.invoice} kind="receipt" />}
+                                </div>
+                            </div>
+                        )}
+                    </div>
+                )}
+                {/* A withdrawn invoice stays on record until its replacement arrives. */}
+                {!request.invoice && <InvoiceHistory request={request} className="mt-4" />}
+                <div className="mt-4">
+                    <button onClick={() => setShowHistory(prev => !prev)} className="text-xs font-semibold text-indigo-600 hover:text-indigo-800">
+                        {showHistory ? 'Hide history' : 'View history'}
+                    </button>
+                    {showHistory && (
+                        <div className="mt-3 animate-fade-in">
+                            <RequestTimeline requestId={request.id} timeZone={getRequestTimeZone(request)} />
+                        </div>
+                    )}
+                </div>
             </div>
             <div className="p-4 bg-slate-50/70 border-t border-slate-100">
                 {renderFooter()}
@@ -185,10 +383,13 @@ const EmptyState = () => (
 /**
  * A memoized list of request cards to prevent unnecessary re-renders.
  */
-const MemoizedRequestList = React.memo(({ requests, onPay, onRate }: {
+const MemoizedRequestList = React.memo(({ requests, onPay, onRate, onReschedule, onBookAgain, focusRequestId }: {
     requests: ServiceRequest[];
     onPay: (request: ServiceRequest) => void;
     onRate: (request: ServiceRequest) => void;
+    onReschedule: (request: ServiceRequest) => void;
+    onBookAgain: (request: ServiceRequest) => void;
+    focusRequestId?: string | null;
 }) => (
     <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
         {requests.map((request, index) => (
@@ -197,6 +398,9 @@ const MemoizedRequestList = React.memo(({ requests, onPay, onRate }: {
                     request={request}
                     onPay={onPay}
                     onRate={onRate}
+                    onReschedule={onReschedule}
+                    onBookAgain={onBookAgain}
+                    isFocused={request.id === focusRequestId}
                 />
             </div>
         ))}
@@ -211,24 +415,32 @@ interface MyRequestsViewProps {
     onNewRequestClick: () => void;
     onPay: (request: ServiceRequest) => void;
     onRate: (request: ServiceRequest) => void;
+    onReschedule: (request: ServiceRequest) => void;
+    // Starts a new request for the same service, place and technician as a past one.
+    onBookAgain: (request: ServiceRequest) => void;
+    // The request to highlight, e.g. when arriving from a notification.
+    focusRequestId?: string | null;
 }
 
-const MyRequestsView: React.FC<MyRequestsViewProps> = ({ customerRequests, onNewRequestClick, onPay, onRate }) => {
+const MyRequestsView: React.FC<MyRequestsViewProps> = ({ customerRequests, onNewRequestClick, onPay, onRate, onReschedule, onBookAgain, focusRequestId }) => {
     return (
         <div className="p-8">
             <div className="flex justify-between items-center mb-8 animate-fade-in">
                 <h2 className="text-3xl font-bold text-slate-800">My Service Requests</h2>
-                <button
-                    onClick={onNewRequestClick}
-                    className="flex items-center justify-center bg-indigo-600 text-white font-semibold py-3 px-5 rounded-lg hover:bg-indigo-700 active:scale-95 transition-all shadow-md hover:shadow-lg focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
-                >
-                    <PlusIcon className="w-5 h-5 mr-2" />
-                    New Request
-                </button>
+                <div className="flex items-center space-x-4">
+                    <CalendarDownloadButton requests={getUpcomingCalendarRequests(customerRequests)} name="My appointments" viewer="customer" label="Export all to calendar" />
+                    <button
+                        onClick={onNewRequestClick}
+                        className="flex items-center justify-center bg-indigo-600 text-white font-semibold py-3 px-5 rounded-lg hover:bg-indigo-700 active:scale-95 transition-all shadow-md hover:shadow-lg focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+                    >
+                        <PlusIcon className="w-5 h-5 mr-2" />
+                        New Request
+                    </button>
+                </div>
             </div>
 
             {customerRequests.length > 0 ? (
-                <MemoizedRequestList requests={customerRequests} onPay={onPay} onRate={onRate} />
+                <MemoizedRequestList requests={customerRequests} onPay={onPay} onRate={onRate} onReschedule={onReschedule} onBookAgain={onBookAgain} focusRequestId={focusRequestId} />
             ) : (
                 <EmptyState />
             )}
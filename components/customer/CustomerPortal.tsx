@@ -1,10 +1,12 @@
 import React, { useState, useCallback, useMemo, useEffect, useRef } from 'react';
-import { ServiceRequest, Conversation, Message, Rating } from '@/shared/types';
+import { ServiceRequest, Conversation, Message, Rating, Notification } from '@/shared/types';
 import MyRequestsView from '@/components/customer/CustomerDashboard';
-import NewRequestModal from '@/components/modals/NewRequestModal';
+import NewRequestModal, { NewRequestDraft } from '@/components/modals/NewRequestModal';
 import PaymentModal from '@/components/modals/PaymentModal';
 import RatingModal from '@/components/modals/RatingModal';
+import RescheduleModal from '@/components/modals/RescheduleModal';
 import Sidebar, { NavItemType, View } from '@/components/common/Sidebar';
+import NotificationBell from '@/components/common/NotificationBell';
 import {
     LogoutIcon,
     ChevronDownIcon,
@@ -15,10 +17,13 @@ import {
     CheckIcon,
     SpinnerIcon
 } from '@/components/common/icons';
-import { useAppContext } from '@/contexts/AppContext';
-import { useAuth, UserProfile } from '@/contexts/AuthContext';
-import { doc, addDoc, collection, serverTimestamp, updateDoc, query, orderBy, onSnapshot } from 'firebase/firestore';
-import { db } from '@/services/firebase';
+import { NewRequestOptions, useAppContext } from '@/contexts/AppContext';
+import { useAuth, UserProfile, ProfileUpdate } from '@/contexts/AuthContext';
+import AvatarUpload from '@/components/common/AvatarUpload';
+import ChangeEmailForm from '@/components/common/ChangeEmailForm';
+import { useNotifications } from '@/contexts/NotificationContext';
+import { conversationRepository } from '@/services/repositories';
+import { getRequestCategoryId } from '@/shared/categories';
 
 const CUSTOMER_NAV_ITEMS: NavItemType[] = [
     { view: 'requests', label: 'My Requests', icon: ClipboardDocumentListIcon },
@@ -31,7 +36,10 @@ const CUSTOMER_NAV_ITEMS: NavItemType[] = [
 const CustomerHeader: React.FC<{
     onLogout: () => void;
     userProfile: UserProfile;
-}> = React.memo(({ onLogout, userProfile }) => {
+    notifications: Notification[];
+    onNotificationClick: (notification: Notification) => void;
+    onMarkAllAsRead: () => void;
+}> = React.memo(({ onLogout, userProfile, notifications, onNotificationClick, onMarkAllAsRead }) => {
     const [isDropdownOpen, setIsDropdownOpen] = useState(false);
     const dropdownRef = useRef<HTMLDivElement>(null);
 
@@ -51,30 +59,37 @@ const CustomerHeader: React.FC<{
                 <h2 className="text-2xl font-bold text-slate-800">Hi, {userProfile.fullName.split(' ')[0]}!</h2>
                 <p className="text-slate-500">Welcome to your customer portal.</p>
             </div>
-            <div className="relative" ref={dropdownRef}>
-                <button
-                    aria-label="Toggle user menu"
-                    onClick={() => setIsDropdownOpen(!isDropdownOpen)}
-                    className="flex items-center p-2 rounded-lg hover:bg-slate-100 transition-colors"
-                >
-                    <img src={userProfile.avatarUrl} alt={`${userProfile.fullName}'s avatar`} className="w-12 h-12 rounded-full border-2 border-indigo-500" />
-                    <div className="ml-3 text-left">
-                        <p className="font-semibold text-slate-800">{userProfile.fullName}</p>
-                        <p className="text-sm text-slate-500">{userProfile.email}</p>
-                    </div>
-                    <ChevronDownIcon className={`w-5 h-5 text-slate-500 ml-2 transition-transform ${isDropdownOpen ? 'rotate-180' : ''}`} />
-                </button>
-                {isDropdownOpen && (
-                    <div className="absolute right-0 mt-2 w-48 bg-white rounded-lg shadow-xl z-20 animate-scale-in py-1">
-                        <button
-                            onClick={onLogout}
-                            className="w-full text-left flex items-center px-4 py-2 text-sm text-red-600 hover:bg-red-50"
-                        >
-                            <LogoutIcon className="w-5 h-5 mr-2" />
-                            Logout
-                        </button>
-                    </div>
-                )}
+            <div className="flex items-center space-x-6">
+                <NotificationBell
+                    notifications={notifications}
+                    onSelect={onNotificationClick}
+                    onMarkAllAsRead={onMarkAllAsRead}
+                />
+                <div className="relative" ref={dropdownRef}>
+                    <button
+                        aria-label="Toggle user menu"
+                        onClick={() => setIsDropdownOpen(!isDropdownOpen)}
+                        className="flex items-center p-2 rounded-lg hover:bg-slate-100 transition-colors"
+                    >
+                        <img src={userProfile.avatarUrl} alt={`${userProfile.fullName}'s avatar`} className="w-12 h-12 rounded-full border-2 border-indigo-500" />
+                        <div className="ml-3 text-left">
+                            <p className="font-semibold text-slate-800">{userProfile.fullName}</p>
+                            <p className="text-sm text-slate-500">{userProfile.email}</p>
+                        </div>
+                        <ChevronDownIcon className={`w-5 h-5 text-slate-500 ml-2 transition-transform ${isDropdownOpen ? 'rotate-180' : ''}`} />
+                    </button>
+                    {isDropdownOpen && (
+                        <div className="absolute right-0 mt-2 w-48 bg-white rounded-lg shadow-xl z-20 animate-scale-in py-1">
+                            <button
+                                onClick={onLogout}
+                                className="w-full text-left flex items-center px-4 py-2 text-sm text-red-600 hover:bg-red-50"
+                            >
+                                <LogoutIcon className="w-5 h-5 mr-2" />
+                                Logout
+                            </button>
+                        </div>
+                    )}
+                </div>
             </div>
         </header>
     );
@@ -83,10 +98,10 @@ const CustomerHeader: React.FC<{
 
 // --- REPLACE THE ENTIRE CustomerMessagesView COMPONENT ---
 
-const CustomerMessagesView: React.FC = () => {
+const CustomerMessagesView: React.FC<{ focusConversationId?: string | null; onFocusHandled?: () => void }> = ({ focusConversationId, onFocusHandled }) => {
     const { userProfile } = useAuth();
     // This is the key: we get the conversations directly from the AppContext
-    const { conversations } = useAppContext();
+    const { conversations, handleSendMessage: sendMessage } = useAppContext();
     const [selectedConvId, setSelectedConvId] = useState<string | null>(null);
     const [messages, setMessages] = useState<Message[]>([]);
     const [newMessage, setNewMessage] = useState('');
@@ -99,20 +114,23 @@ const CustomerMessagesView: React.FC = () => {
         }
     }, [conversations, selectedConvId]);
 
+    // Jump to the conversation a notification pointed at.
+    useEffect(() => {
+        if (focusConversationId) {
+            setSelectedConvId(focusConversationId);
+            onFocusHandled?.();
+        }
+    }, [focusConversationId]);
+
     // This hook fetches messages for the selected conversation (this logic is correct)
     useEffect(() => {
         if (!selectedConvId) {
             setMessages([]);
             return;
         }
-        const messagesQuery = query(
-            collection(db, 'conversations', selectedConvId, 'messages'),
-            orderBy('timestamp', 'asc')
-        );
-        const unsubscribe = onSnapshot(messagesQuery, (snapshot) => {
-            const messagesData = snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as Message));
+        const unsubscribe = conversationRepository.subscribeMessages(selectedConvId, (messagesData) => {
             setMessages(messagesData);
-        });
+        }, (error) => console.error("Error in messages listener:", error));
         return () => unsubscribe();
     }, [selectedConvId]);
 
@@ -129,19 +147,8 @@ const CustomerMessagesView: React.FC = () => {
         e.preventDefault();
         if (!newMessage.trim() || !selectedConvId || !userProfile) return;
 
-        const messagesCollectionRef = collection(db, 'conversations', selectedConvId, 'messages');
-
         try {
-            await addDoc(messagesCollection - Ref, {
-                senderUid: userProfile.uid,
-                text: newMessage,
-                timestamp: serverTimestamp(),
-            });
-            const conversationDocRef = doc(db, 'conversations', selectedConvId);
-            await updateDoc(conversationDocRef, {
-                lastMessageText: newMessage,
-                updatedAt: serverTimestamp(),
-            });
+            await sendMessage(selectedConvId, newMessage);
             setNewMessage('');
         } catch (error) {
             console.error("Error sending message:", error);
@@ -250,48 +257,67 @@ const CustomerMessagesView: React.FC = () => {
 
 // --- END OF REPLACEMENT ---
 
+const FormInput: React.FC<React.InputHTMLAttributes<HTMLInputElement> & { label: string }> = ({ label, id, ...props }) => (
+    <div>
+        <label htmlFor={id} className="block text-sm font-medium text-slate-700 mb-1">{label}</label>
+        <input id={id} {...props} className="w-full bg-slate-50 border-slate-300 rounded-lg shadow-sm focus:ring-indigo-500 focus:border-indigo-500 placeholder:text-slate-400 text-slate-900" />
+    </div>
+);
+
 const CustomerProfileView: React.FC<{
     userProfile: UserProfile;
-    onUpdate: (profileData: Partial<UserProfile>) => void;
+    onUpdate: (profileData: ProfileUpdate) => Promise<void>;
 }> = ({ userProfile, onUpdate }) => {
-    const [formData, setFormData] = useState({ fullName: userProfile.fullName, email: userProfile.email });
+    const [formData, setFormData] = useState({ fullName: userProfile.fullName });
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [saved, setSaved] = useState(false);
 
-    const handleSave = (e: React.FormEvent) => {
+    const handleSave = async (e: React.FormEvent) => {
         e.preventDefault();
-        onUpdate(formData);
+        if (!formData.fullName.trim()) {
+            setError('Please enter your name.');
+            return;
+        }
+        setIsSaving(true);
+        setError(null);
+        setSaved(false);
+        try {
+            await onUpdate({ fullName: formData.fullName.trim() });
+            setSaved(true);
+        } catch (err) {
+            console.error("Error updating profile:", err);
+            setError('Could not save your profile. Please try again.');
+        } finally {
+            setIsSaving(false);
+        }
     };
 
-    const FormInput: React.FC<React.InputHTMLAttributes<HTMLInputElement> & { label: string }> = ({ label, id, ...props }) => (
-        <div>
-            <label htmlFor={id} className="block text-sm font-medium text-slate-700 mb-1">{label}</label>
-            <input id={id} {...props} className="w-full bg-slate-50 border-slate-300 rounded-lg shadow-sm focus:ring-indigo-500 focus:border-indigo-500 placeholder:text-slate-400 text-slate-900" />
-        </div>
-    );
-
     return (
         <div className="p-8">
             <h2 className="text-3xl font-bold text-slate-800 mb-6">My Profile</h2>
             <form onSubmit={handleSave}>
                 <div className="bg-white p-8 rounded-xl shadow-sm border border-slate-200">
                     <h3 className="text-xl font-bold text-slate-800 mb-6 border-b border-slate-200 pb-4">Personal Information</h3>
-                    <div className="flex items-center space-x-6 mb-6">
-                        <img src={userProfile.avatarUrl} alt={userProfile.fullName} className="w-20 h-20 rounded-full" />
-                        <div>
-                            <button type="button" className="font-semibold text-white bg-indigo-600 py-2 px-4 rounded-lg hover:bg-indigo-700 transition-colors text-sm disabled:bg-slate-400 disabled:cursor-not-allowed" disabled>Change Photo</button>
-                            <p className="text-xs text-slate-500 mt-2">JPG, GIF or PNG. 1MB max.</p>
-                        </div>
+                    <div className="mb-6">
+                        <AvatarUpload />
                     </div>
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                        <FormInput label="Full Name" id="fullName" type="text" value={formData.fullName} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setFormData({ ...formData, fullName: e.target.value })} />
-                        <FormInput label="Email Address" id="email" type="email" value={formData.email} onChange={(e: React.ChangeEvent<HTMLInputElement>) => setFormData({ ...formData, email: e.target.value })} />
+                        <FormInput label="Full Name" id="fullName" type="text" value={formData.fullName} onChange={(e: React.ChangeEvent<HTMLInputElement>) => { setFormData({ ...formData, fullName: e.target.value }); setSaved(false); }} />
                     </div>
+                    {error && <p className="mt-6 text-sm font-medium text-red-700 bg-red-50 p-3 rounded-lg">{error}</p>}
+                    {saved && <p className="mt-6 text-sm font-medium text-green-700 bg-green-50 p-3 rounded-lg">Your profile has been updated.</p>}
                 </div>
                 <div className="mt-8 flex justify-end">
-                    <button type="submit" className="flex items-center font-semibold text-white bg-indigo-600 py-3 px-6 rounded-lg hover:bg-indigo-700 active:scale-95 transition-all shadow-md hover:shadow-lg">
-                        <CheckIcon className="w-5 h-5 mr-2" /> Save Changes
+                    <button type="submit" disabled={isSaving} className="flex items-center font-semibold text-white bg-indigo-600 py-3 px-6 rounded-lg hover:bg-indigo-700 active:scale-95 transition-all shadow-md hover:shadow-lg disabled:bg-slate-400">
+                        {isSaving ? <SpinnerIcon className="w-5 h-5 mr-2 animate-spin" /> : <CheckIcon className="w-5 h-5 mr-2" />} Save Changes
                     </button>
                 </div>
             </form>
+            <div className="mt-8 bg-white p-8 rounded-xl shadow-sm border border-slate-200">
+                <h3 className="text-xl font-bold text-slate-800 mb-6 border-b border-slate-200 pb-4">Email Address</h3>
+                <ChangeEmailForm />
+            </div>
         </div>
     );
 };
@@ -303,13 +329,29 @@ interface CustomerPortalProps {
 }
 
 const CustomerPortal: React.FC<CustomerPortalProps> = ({ onLogout }) => {
-    const { userProfile } = useAuth();
+    const { userProfile, updateProfile } = useAuth();
     const { requests, handleNewRequest, handleMarkAsPaid, handleAddRating } = useAppContext();
     const [activeView, setActiveView] = useState<View>('requests');
     const [isSidebarCollapsed, setIsSidebarCollapsed] = useState(false);
-    const [isNewRequestModalOpen, setIsNewRequestModalOpen] = useState(false);
+    // Set while the new request modal is open; empty for a request from scratch.
+    const [newRequestDraft, setNewRequestDraft] = useState<NewRequestDraft | null>(null);
     const [paymentRequest, setPaymentRequest] = useState<ServiceRequest | null>(null);
     const [ratingRequest, setRatingRequest] = useState<ServiceRequest | null>(null);
+    const [rescheduleRequest, setRescheduleRequest] = useState<ServiceRequest | null>(null);
+    const { notifications, markAsRead, markAllAsRead } = useNotifications();
+    const [focusRequestId, setFocusRequestId] = useState<string | null>(null);
+    const [focusConversationId, setFocusConversationId] = useState<string | null>(null);
+
+    const handleNotificationClick = useCallback((notification: Notification) => {
+        if (!notification.read) markAsRead(notification.id);
+        if (notification.link?.conversationId && !notification.link.requestId) {
+            setFocusConversationId(notification.link.conversationId);
+            setActiveView('messages');
+        } else if (notification.link?.requestId) {
+            setFocusRequestId(notification.link.requestId);
+            setActiveView('requests');
+        }
+    }, [markAsRead]);
 
     const customerRequests = useMemo(() =>
         userProfile ? requests.filter((r: ServiceRequest) => r.customerId === userProfile.uid) // <-- UPDATED
@@ -317,7 +359,7 @@ const CustomerPortal: React.FC<CustomerPortalProps> = ({ onLogout }) => {
         [requests, userProfile]
     );
 
-    const handleNewRequestSubmit = useCallback((newRequestData: Omit<ServiceRequest, 'id' | 'customerName' | 'customerAvatar' | 'status' | 'paymentStatus' | 'customerId' | 'assignedTechnicianUid'>) => {
+    const handleNewRequestSubmit = useCallback(async (newRequestData: Omit<ServiceRequest, 'id' | 'customerName' | 'customerAvatar' | 'status' | 'paymentStatus' | 'customerId' | 'assignedTechnicianUid'>, options: NewRequestOptions) => {
         if (userProfile) {
             const requestPayload: any = {
                 ...newRequestData,
@@ -330,27 +372,38 @@ const CustomerPortal: React.FC<CustomerPortalProps> = ({ onLogout }) => {
                 requestPayload.photo = newRequestData.photo;
             }
 
-            handleNewRequest(requestPayload);
+            await handleNewRequest(requestPayload, options);
         }
     }, [userProfile, handleNewRequest]);
 
-    const handleUpdateProfile = useCallback((updatedProfileData: Partial<UserProfile>) => {
-        console.log("Profile updated with:", updatedProfileData);
+    const handleBookAgain = useCallback((request: ServiceRequest) => {
+        setNewRequestDraft({
+            category: { categoryId: getRequestCategoryId(request), ...(request.serviceSubcategoryId ? { subcategoryId: request.serviceSubcategoryId } : {}) },
+            // Requests from before addresses were structured only have the one line to go on.
+            address: request.address || { line1: request.location, city: '', postalCode: '' },
+            timeZone: request.timeZone,
+            preferredTechnicianUid: request.assignedTechnicianUid || undefined,
+        });
     }, []);
 
-    const handlePaymentSubmit = useCallback(() => {
+    const handlePaymentSubmit = useCallback(async () => {
         if (paymentRequest) {
-            handleMarkAsPaid(paymentRequest.id);
-            setTimeout(() => {
-                setRatingRequest(requests.find((r: ServiceRequest) => r.id === paymentRequest.id) || null);
-                setPaymentRequest(null);
-            }, 1800);
+            await handleMarkAsPaid(paymentRequest.id);
         }
-    }, [paymentRequest, requests, handleMarkAsPaid]);
+    }, [paymentRequest, handleMarkAsPaid]);
 
-    const handleRatingSubmit = useCallback((rating: Rating) => {
+    // Once the customer has paid and is done with their receipt, ask them to rate the job.
+    const handlePaymentClose = useCallback(() => {
+        const paidRequest = paymentRequest && requests.find((r: ServiceRequest) => r.id === paymentRequest.id);
+        if (paidRequest?.paymentStatus === 'paid' && !paidRequest.customerRating) {
+            setRatingRequest(paidRequest);
+        }
+        setPaymentRequest(null);
+    }, [paymentRequest, requests]);
+
+    const handleRatingSubmit = useCallback(async (rating: Rating) => {
         if (ratingRequest) {
-            handleAddRating(ratingRequest.id, 'customer', rating);
+            await handleAddRating(ratingRequest.id, 'customer', rating);
             setRatingRequest(null);
         }
     }, [ratingRequest, handleAddRating]);
@@ -368,14 +421,17 @@ const CustomerPortal: React.FC<CustomerPortalProps> = ({ onLogout }) => {
             case 'requests':
                 return <MyRequestsView
                     customerRequests={customerRequests}
-                    onNewRequestClick={() => setIsNewRequestModalOpen(true)}
+                    onNewRequestClick={() => setNewRequestDraft({})}
                     onPay={setPaymentRequest}
                     onRate={setRatingRequest}
+                    onReschedule={setRescheduleRequest}
+                    onBookAgain={handleBookAgain}
+                    focusRequestId={focusRequestId}
                 />;
             case 'messages':
-                return <CustomerMessagesView />;
+                return <CustomerMessagesView focusConversationId={focusConversationId} onFocusHandled={() => setFocusConversationId(null)} />;
             case 'profile':
-                return <CustomerProfileView userProfile={userProfile} onUpdate={handleUpdateProfile} />;
+                return <CustomerProfileView userProfile={userProfile} onUpdate={updateProfile} />;
             default:
                 return null;
         }
@@ -395,24 +451,34 @@ const CustomerPortal: React.FC<CustomerPortalProps> = ({ onLogout }) => {
                 <CustomerHeader
                     onLogout={onLogout}
                     userProfile={userProfile}
+                    notifications={notifications}
+                    onNotificationClick={handleNotificationClick}
+                    onMarkAllAsRead={markAllAsRead}
                 />
                 <div className="flex-1 main-content-bg animate-fade-in" key={activeView}>
                     {renderView()}
                 </div>
             </main>
-            {isNewRequestModalOpen && (
+            {newRequestDraft && (
                 <NewRequestModal
-                    onClose={() => setIsNewRequestModalOpen(false)}
+                    draft={newRequestDraft}
+                    onClose={() => setNewRequestDraft(null)}
                     onSubmit={handleNewRequestSubmit}
                 />
             )}
             {paymentRequest && (
                 <PaymentModal
                     request={paymentRequest}
-                    onClose={() => setPaymentRequest(null)}
+                    onClose={handlePaymentClose}
                     onSubmit={handlePaymentSubmit}
                 />
             )}
+            {rescheduleRequest && (
+                <RescheduleModal
+                    request={rescheduleRequest}
+                    onClose={() => setRescheduleRequest(null)}
+                />
+            )}
             {ratingRequest && (
                 <RatingModal
                     title="Rate Your Technician"
@@ -1,49 +1,141 @@
 import React from 'react';
-import { ServiceRequest, InvoiceItem, Invoice } from '@/shared/types';
+import { ServiceRequest, InvoiceItem, InvoiceBreakdown, InvoiceDiscount, InvoiceItemType, Money, Urgency } from '@/shared/types';
+import { DEFAULT_CURRENCY, EMERGENCY_SURCHARGE } from '@/shared/constants';
+import { calculateInvoice, getInvoiceLabel, getItemType, getLineAmount, INVOICE_ITEM_TYPE_LABELS, INVOICE_ITEM_TYPES, toInvoiceItem } from '@/shared/invoices';
+import { formatMoney, getMinorUnitDigits, parseMoney, toMajor } from '@/shared/money';
+import { compareToEstimate, getApprovedEstimate, LineChange } from '@/shared/estimates';
 import { CloseIcon, ReceiptPercentIcon, PlusIcon, TrashIcon } from '@/components/common/icons';
+import InvoiceSummary from '@/components/common/InvoiceSummary';
+import InvoiceDocumentButtons from '@/components/common/InvoiceDocumentButtons';
+import { formatRequestTime } from '@/shared/timeZones';
+
+const inputClassName = 'w-full bg-slate-100 border-slate-300 rounded-lg shadow-sm focus:ring-indigo-500 focus:border-indigo-500 text-slate-900';
+const invalidClassName = 'ring-2 ring-red-400';
+const differsClassName = 'p-2 -mx-2 bg-amber-50 ring-1 ring-amber-200';
+const ITEM_GRID = 'grid grid-cols-[1fr_110px_70px_100px_80px_40px] gap-x-3 items-center';
+
+// A line as it's typed. The unit price stays text until it's read with parseMoney, so a
+// half-typed "12." isn't rounded away and nothing passes through floating point.
+interface ItemDraft {
+    description: string;
+    type: InvoiceItemType;
+    quantity: number;
+    unitPrice: string;
+}
+
+interface DiscountDraft {
+    kind: InvoiceDiscount['kind'];
+    value: string;
+    description: string;
+}
+
+const toAmountText = (money: Money) => toMajor(money).toFixed(getMinorUnitDigits(money.currency));
+
+const toDraft = (item: InvoiceItem): ItemDraft => ({
+    description: item.description,
+    type: getItemType(item),
+    quantity: item.quantity ?? 1,
+    unitPrice: toAmountText(item.unitPrice || item.cost),
+});
+
+const toDiscountDraft = (discount: InvoiceDiscount | null | undefined): DiscountDraft | null => !discount ? null : {
+    kind: discount.kind,
+    value: discount.kind === 'percentage' ? String(discount.percent) : toAmountText(discount.amount),
+    description: discount.description || '',
+};
+
+// The line to invoice, or null while its unit price isn't a valid amount.
+const readItem = (draft: ItemDraft): InvoiceItem | null => {
+    const unitPrice = parseMoney(draft.unitPrice, DEFAULT_CURRENCY);
+    if (!unitPrice || unitPrice.amount < 0) return null;
+    return toInvoiceItem({ description: draft.description, type: draft.type, quantity: draft.quantity, unitPrice });
+};
+
+// The discount to apply, null for none, or undefined while its value isn't valid.
+const readDiscount = (draft: DiscountDraft | null): InvoiceDiscount | null | undefined => {
+    if (!draft) return null;
+    const description = draft.description.trim() ? { description: draft.description.trim() } : {};
+    if (draft.kind === 'percentage') {
+        const percent = Number(draft.value || 0);
+        return Number.isFinite(percent) && percent >= 0 && percent <= 100 ? { kind: 'percentage', percent, ...description } : undefined;
+    }
+    const amount = parseMoney(draft.value || '0', DEFAULT_CURRENCY);
+    return amount && amount.amount >= 0 ? { kind: 'fixed', amount, ...description } : undefined;
+};
 
 // --- Reusable Sub-components ---
 
 /**
  * Renders a single row in the invoice for an item, including input fields and a remove button.
+ * When invoicing against an approved estimate, lines that differ from it are highlighted.
  */
 const InvoiceItemRow: React.FC<{
-    item: InvoiceItem;
+    item: ItemDraft;
+    // The line as read from `item`; null while its unit price isn't a valid amount.
+    line: InvoiceItem | null;
     index: number;
-    onItemChange: (index: number, field: keyof InvoiceItem, value: string | number) => void;
+    onItemChange: (index: number, changes: Partial<ItemDraft>) => void;
     onRemove: (index: number) => void;
     canRemove: boolean;
-}> = ({ item, index, onItemChange, onRemove, canRemove }) => (
-    <div className="grid grid-cols-[1fr_100px_40px] gap-x-4 items-center">
-        <input
-            type="text"
-            aria-label={`Item ${index + 1} description`}
-            placeholder="e.g., Replacement Part"
-            value={item.description}
-            onChange={(e) => onItemChange(index, 'description', e.target.value)}
-            className="w-full bg-slate-100 border-slate-300 rounded-lg shadow-sm focus:ring-indigo-500 focus:border-indigo-500 text-slate-900"
-            required
-        />
-        <input
-            type="number"
-            aria-label={`Item ${index + 1} cost`}
-            placeholder="0.00"
-            value={item.cost || ''}
-            onChange={(e) => onItemChange(index, 'cost', e.target.value)}
-            className="w-full bg-slate-100 border-slate-300 rounded-lg shadow-sm focus:ring-indigo-500 focus:border-indigo-500 text-slate-900 text-right"
-            required
-            min="0"
-            step="0.01"
-        />
-        <button
-            type="button"
-            aria-label={`Remove item ${index + 1}`}
-            onClick={() => onRemove(index)}
-            className="text-slate-400 hover:text-red-600 p-2 rounded-full hover:bg-red-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
-            disabled={!canRemove}
-        >
-            <TrashIcon className="w-5 h-5" />
-        </button>
+    change?: LineChange;
+    estimated?: Money;
+}> = ({ item, line, index, onItemChange, onRemove, canRemove, change = 'unchanged', estimated }) => (
+    <div className={`rounded-lg ${change === 'unchanged' ? '' : differsClassName}`}>
+        <div className={ITEM_GRID}>
+            <input
+                type="text"
+                aria-label={`Item ${index + 1} description`}
+                placeholder="e.g., Replacement Part"
+                value={item.description}
+                onChange={(e) => onItemChange(index, { description: e.target.value })}
+                className={inputClassName}
+                required
+            />
+            <select
+                aria-label={`Item ${index + 1} type`}
+                value={item.type}
+                onChange={(e) => onItemChange(index, { type: e.target.value as InvoiceItemType })}
+                className={inputClassName}
+            >
+                {INVOICE_ITEM_TYPES.map(type => <option key={type} value={type}>{INVOICE_ITEM_TYPE_LABELS[type]}</option>)}
+            </select>
+            <input
+                type="number"
+                aria-label={`Item ${index + 1} quantity`}
+                value={item.quantity || ''}
+                onChange={(e) => onItemChange(index, { quantity: Math.max(0, Number(e.target.value) || 0) })}
+                className={`${inputClassName} text-right`}
+                required
+                min="0.25"
+                step="0.25"
+            />
+            <input
+                type="text"
+                inputMode="decimal"
+                aria-label={`Item ${index + 1} unit price`}
+                aria-invalid={!line}
+                placeholder="0.00"
+                value={item.unitPrice}
+                onChange={(e) => onItemChange(index, { unitPrice: e.target.value })}
+                className={`${inputClassName} text-right ${line ? '' : invalidClassName}`}
+                required
+            />
+            <span className="text-right font-medium text-slate-700">{line ? formatMoney(line.cost) : '—'}</span>
+            <button
+                type="button"
+                aria-label={`Remove item ${index + 1}`}
+                onClick={() => onRemove(index)}
+                className="text-slate-400 hover:text-red-600 p-2 rounded-full hover:bg-red-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                disabled={!canRemove}
+            >
+                <TrashIcon className="w-5 h-5" />
+            </button>
+        </div>
+        {change !== 'unchanged' && (
+            <p className="text-xs font-medium text-amber-800 mt-1">
+                {change === 'added' ? 'Not on the approved estimate' : `Estimated at ${estimated ? formatMoney(estimated) : '—'}`}
+            </p>
+        )}
     </div>
 );
 
@@ -52,31 +144,54 @@ const InvoiceItemRow: React.FC<{
 
 interface InvoiceModalProps {
     request: ServiceRequest;
+    // An estimate is priced on the same lines as an invoice, before work starts. A revision
+    // replaces the request's unpaid invoice and needs a reason.
+    kind?: 'invoice' | 'estimate' | 'revision';
     onClose: () => void;
-    onSubmit: (invoice: Omit<Invoice, 'issuedDate'>) => void;
+    onSubmit: (priced: { items: InvoiceItem[] } & InvoiceBreakdown, reason: string) => void;
 }
 
-const InvoiceModal: React.FC<InvoiceModalProps> = ({ request, onClose, onSubmit }) => {
-    const [items, setItems] = React.useState<InvoiceItem[]>([
-        { description: 'Service Labor', cost: 100 },
+const InvoiceModal: React.FC<InvoiceModalProps> = ({ request, kind = 'invoice', onClose, onSubmit }) => {
+    // The approved estimate an invoice starts from and is compared against.
+    const approvedEstimate = kind === 'estimate' ? undefined : getApprovedEstimate(request);
+    // A revised estimate starts from the last one sent, and a revised invoice from the invoice.
+    const startFrom = kind === 'estimate' ? request.estimate : kind === 'revision' ? request.invoice : approvedEstimate;
+    const [items, setItems] = React.useState<ItemDraft[]>(() => startFrom ? startFrom.items.map(toDraft) : [
+        { description: 'Service Labor', type: 'labour', quantity: 1, unitPrice: '100.00' },
+        ...(request.urgency === Urgency.EMERGENCY ? [toDraft(EMERGENCY_SURCHARGE)] : []),
     ]);
+    const [discountDraft, setDiscountDraft] = React.useState<DiscountDraft | null>(() => toDiscountDraft(startFrom?.discount));
+    const [reason, setReason] = React.useState('');
+    const [error, setError] = React.useState<string | null>(null);
 
-    const total = React.useMemo(() => {
-        return items.reduce((sum, item) => sum + (Number(item.cost) || 0), 0);
-    }, [items]);
+    const lines = React.useMemo(() => items.map(readItem), [items]);
+    const discount = React.useMemo(() => readDiscount(discountDraft), [discountDraft]);
+    // Lines and discounts that can't be read yet are left out of the totals until they can.
+    const readLines = React.useMemo(() => lines.filter((line): line is InvoiceItem => !!line), [lines]);
+    const breakdown = React.useMemo(() => calculateInvoice(readLines, discount || null, DEFAULT_CURRENCY), [readLines, discount]);
+    const comparison = React.useMemo(
+        () => approvedEstimate && compareToEstimate(readLines, breakdown.total, approvedEstimate),
+        [approvedEstimate, readLines, breakdown],
+    );
+    // The comparison covers the lines that can be read; match it back to the rows.
+    const lineComparisons = React.useMemo(() => {
+        let readIndex = 0;
+        return lines.map(line => line ? comparison?.lines[readIndex++] : undefined);
+    }, [lines, comparison]);
+    const documentName = kind === 'estimate' ? 'estimate' : 'invoice';
 
-    const handleItemChange = (index: number, field: keyof InvoiceItem, value: string | number) => {
-        const newItems = [...items];
-        if (field === 'cost') {
-            newItems[index][field] = Number(value) >= 0 ? Number(value) : 0;
-        } else {
-            newItems[index][field] = value as string;
-        }
-        setItems(newItems);
+    const handleItemChange = (index: number, changes: Partial<ItemDraft>) => {
+        setError(null);
+        setItems(items.map((item, i) => i === index ? { ...item, ...changes } : item));
     };
 
     const addItem = () => {
-        setItems([...items, { description: '', cost: 0 }]);
+        setItems([...items, { description: '', type: 'parts', quantity: 1, unitPrice: '' }]);
+    };
+
+    const handleDiscountChange = (changes: Partial<DiscountDraft>) => {
+        setError(null);
+        setDiscountDraft(discountDraft && { ...discountDraft, ...changes });
     };
 
     const removeItem = (index: number) => {
@@ -85,22 +200,59 @@ const InvoiceModal: React.FC<InvoiceModalProps> = ({ request, onClose, onSubmit
         }
     };
 
+    // What's wrong with the lines or the discount, or null if they're ready to send.
+    const getPricingError = (): string | null => {
+        const index = lines.findIndex(line => !line);
+        if (index !== -1) {
+            return `Item ${index + 1}'s unit price isn't a valid amount. Use a number like 45 or 45.50.`;
+        }
+        if (readLines.some(item => !item.description || !item.quantity || item.cost.amount <= 0)) {
+            return `Please ensure all ${documentName} items have a description, a quantity and a price.`;
+        }
+        if (discount === undefined) {
+            return discountDraft?.kind === 'percentage'
+                ? 'A percentage discount must be between 0 and 100.'
+                : "The discount isn't a valid amount. Use a number like 25 or 25.50.";
+        }
+        return null;
+    };
+
+    // The form as it stands, for printing a draft.
+    const getDraftInvoice = () => {
+        const pricingError = getPricingError();
+        if (pricingError) {
+            setError(pricingError);
+            return null;
+        }
+        return { items: readLines, ...breakdown, issuedDate: new Date().toISOString() };
+    };
+
     const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
-        if (items.some(item => !item.description || item.cost <= 0)) {
-            alert('Please ensure all invoice items have a valid description and cost.');
+        const pricingError = getPricingError();
+        if (pricingError) {
+            setError(pricingError);
+            return;
+        }
+        if (kind === 'revision' && !reason.trim()) {
+            setError('Please say why the invoice is being revised. The customer will see this.');
             return;
         }
-        onSubmit({ items, total });
+        onSubmit({ items: readLines, ...breakdown }, reason.trim());
     };
 
     return (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex justify-center items-center z-50 p-4 animate-fade-in" role="dialog" aria-modal="true" aria-labelledby="invoice-modal-title">
-            <form onSubmit={handleSubmit} className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl max-h-[90vh] flex flex-col animate-scale-in">
+            <form onSubmit={handleSubmit} className="bg-white rounded-2xl shadow-2xl w-full max-w-3xl max-h-[90vh] flex flex-col animate-scale-in">
                 <header className="p-6 border-b border-gray-200 flex justify-between items-center">
                     <div className="flex items-center">
                         <ReceiptPercentIcon className="w-7 h-7 text-indigo-600 mr-3" />
-                        <h2 id="invoice-modal-title" className="text-2xl font-bold text-gray-800">Create Invoice for {request.id}</h2>
+                        <div>
+                            <h2 id="invoice-modal-title" className="text-2xl font-bold text-gray-800">
+                                {kind === 'estimate' ? `${request.estimate ? 'Revise' : 'Send'} Estimate` : kind === 'revision' && request.invoice ? `Revise ${getInvoiceLabel(request.invoice)}` : 'Create Invoice'}
+                            </h2>
+                            <p className="text-sm text-gray-500">{request.serviceCategory} for {request.customerName} · {formatRequestTime(request)}</p>
+                        </div>
                     </div>
                     <button type="button" aria-label="Close" onClick={onClose} className="p-2 rounded-full hover:bg-gray-200 transition-colors">
                         <CloseIcon className="w-6 h-6 text-gray-600" />
@@ -108,9 +260,27 @@ const InvoiceModal: React.FC<InvoiceModalProps> = ({ request, onClose, onSubmit
                 </header>
 
                 <main className="p-6 flex-grow overflow-y-auto space-y-4">
-                    <div className="grid grid-cols-[1fr_100px_40px] gap-x-4 mb-2 px-2">
+                    {kind === 'estimate' && request.estimate?.customerNote && (
+                        <p className="text-sm text-amber-900 bg-amber-50 p-3 rounded-lg">
+                            <span className="font-semibold">{request.customerName} {request.estimate.status === 'rejected' ? 'rejected the last estimate' : 'asked for changes'}:</span> {request.estimate.customerNote}
+                        </p>
+                    )}
+                    {kind === 'revision' && request.invoice && (
+                        <p className="text-sm text-slate-600">
+                            The {formatMoney(request.invoice.total)} invoice can't be edited once issued. Sending this cancels it with a credit note and issues a new invoice with the next number; both stay on record.
+                        </p>
+                    )}
+                    {kind === 'invoice' && approvedEstimate && (
+                        <p className="text-sm text-slate-600">
+                            Started from the estimate {request.customerName} approved. Lines that differ from it are highlighted.
+                        </p>
+                    )}
+                    <div className={`${ITEM_GRID} mb-2 px-2`}>
                         <label className="font-semibold text-slate-600 text-sm">Description</label>
-                        <label className="font-semibold text-slate-600 text-sm text-right">Cost ($)</label>
+                        <label className="font-semibold text-slate-600 text-sm">Type</label>
+                        <label className="font-semibold text-slate-600 text-sm text-right">Qty</label>
+                        <label className="font-semibold text-slate-600 text-sm text-right">Unit price</label>
+                        <label className="font-semibold text-slate-600 text-sm text-right">Amount</label>
                         <span className="sr-only">Actions</span>
                     </div>
 
@@ -118,24 +288,87 @@ const InvoiceModal: React.FC<InvoiceModalProps> = ({ request, onClose, onSubmit
                         <InvoiceItemRow
                             key={index}
                             item={item}
+                            line={lines[index]}
                             index={index}
                             onItemChange={handleItemChange}
                             onRemove={removeItem}
                             canRemove={items.length > 1}
+                            change={lineComparisons[index]?.change}
+                            estimated={lineComparisons[index]?.estimated}
                         />
                     ))}
                     <button type="button" onClick={addItem} className="flex items-center text-sm font-semibold text-indigo-600 hover:text-indigo-800 mt-2">
                         <PlusIcon className="w-5 h-5 mr-1" /> Add Item
                     </button>
-                </main>
+                    {comparison && comparison.removed.length > 0 && (
+                        <p className="text-sm font-medium text-amber-800 bg-amber-50 p-3 rounded-lg">
+                            On the estimate but not this invoice: {comparison.removed.map(item => `${item.description} (${formatMoney(getLineAmount(item))})`).join(', ')}
+                        </p>
+                    )}
 
-                <footer className="p-6 bg-gray-50 border-t border-gray-200 rounded-b-2xl flex justify-between items-center">
-                    <div>
-                        <span className="text-lg font-semibold text-slate-600">Total:</span>
-                        <span className="text-2xl font-bold text-slate-900 ml-2">${total.toFixed(2)}</span>
+                    <div className="pt-4 border-t border-gray-200 flex flex-wrap items-end gap-3">
+                        <label className="text-sm">
+                            <span className="block font-semibold text-slate-600 mb-1">Discount</span>
+                            <select
+                                value={discountDraft?.kind || 'none'}
+                                onChange={(e) => {
+                                    setError(null);
+                                    setDiscountDraft(e.target.value === 'none' ? null : { value: '', description: '', ...discountDraft, kind: e.target.value as DiscountDraft['kind'] });
+                                }}
+                                className={inputClassName}
+                            >
+                                <option value="none">None</option>
+                                <option value="percentage">Percentage</option>
+                                <option value="fixed">Fixed amount</option>
+                            </select>
+                        </label>
+                        {discountDraft && (
+                            <>
+                                <label className="text-sm w-28">
+                                    <span className="block font-semibold text-slate-600 mb-1">{discountDraft.kind === 'percentage' ? 'Percent off' : 'Amount off'}</span>
+                                    <input
+                                        type="text"
+                                        inputMode="decimal"
+                                        aria-invalid={discount === undefined}
+                                        value={discountDraft.value}
+                                        onChange={(e) => handleDiscountChange({ value: e.target.value })}
+                                        className={`${inputClassName} text-right ${discount === undefined ? invalidClassName : ''}`}
+                                    />
+                                </label>
+                                <label className="text-sm flex-1 min-w-[10rem]">
+                                    <span className="block font-semibold text-slate-600 mb-1">Reason (optional)</span>
+                                    <input
+                                        type="text"
+                                        value={discountDraft.description}
+                                        onChange={(e) => handleDiscountChange({ description: e.target.value })}
+                                        placeholder="e.g., Returning customer"
+                                        className={inputClassName}
+                                    />
+                                </label>
+                            </>
+                        )}
                     </div>
+                    {kind === 'revision' && (
+                        <label className="block text-sm">
+                            <span className="block font-semibold text-slate-600 mb-1">Reason for the revision</span>
+                            <input
+                                type="text"
+                                value={reason}
+                                onChange={(e) => { setError(null); setReason(e.target.value); }}
+                                placeholder="e.g., Parts were charged twice"
+                                className={inputClassName}
+                                required
+                            />
+                        </label>
+                    )}
+                    {error && <p role="alert" className="text-sm font-medium text-red-700 bg-red-50 p-3 rounded-lg">{error}</p>}
+                </main>
+
+                <footer className="p-6 bg-gray-50 border-t border-gray-200 rounded-b-2xl flex justify-between items-end gap-6">
+                    <InvoiceSummary items={readLines} breakdown={breakdown} showItems={false} estimate={approvedEstimate} className="flex-1 max-w-xs" />
+                    <InvoiceDocumentButtons request={request} invoice={getDraftInvoice} kind={kind === 'estimate' ? 'estimate' : 'invoice'} draft label="draft" className="flex-col items-start gap-1" />
                     <button type="submit" className="px-6 py-2.5 rounded-lg font-semibold text-white bg-indigo-600 hover:bg-indigo-700 active:scale-95 transition-all">
-                        Send Invoice to Customer
+                        {kind === 'estimate' ? 'Send Estimate for Approval' : kind === 'revision' ? 'Send Revised Invoice' : 'Send Invoice to Customer'}
                     </button>
                 </footer>
             </form>
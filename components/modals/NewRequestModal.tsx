@@ -1,9 +1,18 @@
-import React, { useState, useMemo, useEffect } from 'react';
-import { ServiceRequest, Urgency } from '@/shared/types';
-import { CloseIcon, ChevronLeftIcon, ChevronRightIcon, CalendarIcon, CameraIcon, XCircleIcon, SpinnerIcon } from '@/components/common/icons';
-
-import { db } from '@/services/firebase';
-import { collection, query, where, getDocs } from 'firebase/firestore';
+import React, { useEffect, useState } from 'react';
+import { ServiceAddress, ServiceRequest, Urgency } from '@/shared/types';
+import { BoltIcon, CloseIcon, CameraIcon, XCircleIcon } from '@/components/common/icons';
+import SlotPicker from '@/components/common/SlotPicker';
+import CategoryPicker, { CategorySelection } from '@/components/common/CategoryPicker';
+import TechnicianPicker from '@/components/common/TechnicianPicker';
+import { slotToDateTime } from '@/services/availability';
+import { geocodeAddress } from '@/services/geocoding';
+import { formatAddress } from '@/shared/serviceArea';
+import { formatMoney } from '@/shared/money';
+import { useCatalog } from '@/contexts/CatalogContext';
+import { getJobDuration } from '@/shared/categories';
+import { getDeviceTimeZone, getTimeZoneOptions } from '@/shared/timeZones';
+import { NewRequestOptions } from '@/contexts/AppContext';
+import { EMERGENCY_DISPATCH_OFFER_MINUTES, EMERGENCY_SURCHARGE, PREFERRED_TECHNICIAN_OFFER_MINUTES } from '@/shared/constants';
 
 
 const FormInput: React.FC<React.InputHTMLAttributes<HTMLInputElement> & { label: string }> = ({ label, id, ...props }) => (
@@ -37,151 +46,63 @@ const formatDateForFirestore = (date: Date): string => {
     return `${year}-${month}-${day}`;
 };
 
-// PASTE THIS FINAL, CORRECTED VERSION OF THE FUNCTION
-async function getAvailableSlots(serviceCategory: string, date: Date): Promise<string[]> {
-    const allPossibleSlots = ['09:00 - 11:00', '11:00 - 13:00', '13:00 - 15:00', '15:00 - 17:00'];
-    
-    // Timezone-safe date formatting
-    const year = date.getFullYear();
-    const month = String(date.getMonth() + 1).padStart(2, '0');
-    const day = String(date.getDate()).padStart(2, '0');
-    const formattedDate = `${year}-${month}-${day}`;
-
-    // 1. Find all technicians qualified for the job.
-    const usersRef = collection(db, 'users');
-    const techQuery = query(usersRef, where("skills", "array-contains", serviceCategory), where("role", "==", "technician"));
-    const techSnapshot = await getDocs(techQuery);
-    const qualifiedTechUids = techSnapshot.docs.map(doc => doc.id);
-
-    if (qualifiedTechUids.length === 0) {
-        return []; // No technicians have this skill
-    }
-
-    // This object will track which technicians are busy for each specific time slot.
-    const busyTechniciansBySlot: { [slot: string]: Set<string> } = {
-        [allPossibleSlots[0]]: new Set(),
-        [allPossibleSlots[1]]: new Set(),
-        [allPossibleSlots[2]]: new Set(),
-        [allPossibleSlots[3]]: new Set(),
-    };
-
-    // A) Check jobs they have already accepted (using non-mutating date copies).
-    const startOfDay = new Date(date);
-    startOfDay.setHours(0, 0, 0, 0);
-    const endOfDay = new Date(date);
-    endOfDay.setHours(23, 59, 59, 999);
-    
-    const requestsRef = collection(db, 'requests');
-    if (qualifiedTechUids.length > 0) {
-        const acceptedJobsQuery = query(
-            requestsRef,
-            where("assignedTechnicianUid", "in", qualifiedTechUids),
-            where("dateTime", ">=", startOfDay.toISOString()),
-            where("dateTime", "<=", endOfDay.toISOString())
-        );
-        const jobsSnapshot = await getDocs(acceptedJobsQuery);
-        jobsSnapshot.forEach(doc => {
-            const request = doc.data() as ServiceRequest;
-            const jobHour = new Date(request.dateTime).getHours();
-            if (jobHour >= 9 && jobHour < 11) busyTechniciansBySlot[allPossibleSlots[0]].add(request.assignedTechnicianUid!);
-            if (jobHour >= 11 && jobHour < 13) busyTechniciansBySlot[allPossibleSlots[1]].add(request.assignedTechnicianUid!);
-            if (jobHour >= 13 && jobHour < 15) busyTechniciansBySlot[allPossibleSlots[2]].add(request.assignedTechnicianUid!);
-            if (jobHour >= 15 && jobHour < 17) busyTechniciansBySlot[allPossibleSlots[3]].add(request.assignedTechnicianUid!);
-        });
-    }
-
-    // B) Check their manually blocked-off schedules.
-    if (qualifiedTechUids.length > 0) {
-        const schedulesRef = collection(db, 'technicianSchedules');
-        const scheduleQuery = query(schedulesRef, where("technicianUid", "in", qualifiedTechUids), where("date", "==", formattedDate));
-        const scheduleSnapshot = await getDocs(scheduleQuery);
-        scheduleSnapshot.forEach(doc => {
-            const schedule = doc.data();
-            if (schedule.unavailableSlots) {
-                schedule.unavailableSlots.forEach((slot: string) => {
-                    if (busyTechniciansBySlot[slot]) {
-                        busyTechniciansBySlot[slot].add(schedule.technicianUid);
-                    }
-                });
-            }
-        });
-    }
-
-    // 3. A slot is available if at least one qualified technician is free.
-    const finalAvailableSlots = allPossibleSlots.filter(slot => {
-        const totalQualified = qualifiedTechUids.length;
-        const totalBusy = busyTechniciansBySlot[slot].size;
-        return totalQualified > totalBusy;
-    });
+// --- Main Modal Component ---
 
-    return finalAvailableSlots;
+// What a new request starts from, e.g. a past job being booked again.
+export interface NewRequestDraft {
+  category?: CategorySelection;
+  address?: Pick<ServiceAddress, 'line1' | 'city' | 'postalCode'>;
+  timeZone?: string;
+  preferredTechnicianUid?: string;
 }
-// --- Main Modal Component ---
 
 interface NewRequestModalProps {
+  draft?: NewRequestDraft;
   onClose: () => void;
-  onSubmit: (newRequest: Omit<ServiceRequest, 'id' | 'customerName' | 'customerAvatar' | 'status'>) => void;
+  onSubmit: (newRequest: Omit<ServiceRequest, 'id' | 'customerName' | 'customerAvatar' | 'status'>, options: NewRequestOptions) => Promise<void>;
 }
 
-const timeSlots = ['09:00 - 11:00', '11:00 - 13:00', '13:00 - 15:00', '15:00 - 17:00'];
-const daysOfWeek = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
-
-const NewRequestModal: React.FC<NewRequestModalProps> = ({ onClose, onSubmit }) => {
-  const [serviceCategory, setServiceCategory] = useState('');
+const NewRequestModal: React.FC<NewRequestModalProps> = ({ draft = {}, onClose, onSubmit }) => {
+  const { categories, getCategory } = useCatalog();
+  const [category, setCategory] = useState<CategorySelection | null>(draft.category || null);
   const [description, setDescription] = useState('');
-  const [location, setLocation] = useState('');
+  const [line1, setLine1] = useState(draft.address?.line1 || '');
+  const [city, setCity] = useState(draft.address?.city || '');
+  const [postalCode, setPostalCode] = useState(draft.address?.postalCode || '');
+  // The address once placed by the geocoder, so only technicians who work there are offered.
+  const [placedAddress, setPlacedAddress] = useState<ServiceAddress | undefined>(undefined);
+  // Appointment times read in the zone of the service location, which is usually where the customer is.
+  const [timeZone, setTimeZone] = useState(() => draft.timeZone || getDeviceTimeZone());
+  const [preferredTechnicianUid, setPreferredTechnicianUid] = useState<string | null>(draft.preferredTechnicianUid || null);
   const [urgency, setUrgency] = useState<Urgency>(Urgency.NORMAL);
   const [photo, setPhoto] = useState<string | null>(null);
-  const [displayDate, setDisplayDate] = useState(new Date());
   const [selectedDate, setSelectedDate] = useState<Date | null>(null);
   const [selectedTime, setSelectedTime] = useState<string | null>(null);
-  // --- PASTE THE TWO NEW LINES HERE ---
-  const [availableSlots, setAvailableSlots] = useState<string[]>([]);
-  const [isLoadingSlots, setIsLoadingSlots] = useState(false);
-
-  // --- This is the corrected version ---
-  useEffect(() => {
-    // Reset slots if the category or date is cleared
-    if (!serviceCategory || !selectedDate) {
-      setAvailableSlots([]);
-      return;
-    }
-
-    setIsLoadingSlots(true);
-    // Clear previously selected time when date or category changes
-    setSelectedTime(null);
+  const [autoDispatch, setAutoDispatch] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
 
-    getAvailableSlots(serviceCategory, selectedDate)
-      .then(slots => {
-        setAvailableSlots(slots);
-      })
-      .catch(error => {
-        console.error("Error checking availability:", error);
-        setAvailableSlots([]); // Ensure we show no slots on error
-      })
-      .finally(() => {
-        setIsLoadingSlots(false);
-      });
-  }, [serviceCategory, selectedDate]); // This array tells React to re-run the effect ONLY when these two variables change
+  const durationMinutes = category ? getJobDuration(categories, category.categoryId, category.subcategoryId) : undefined;
+  // Emergencies skip the slot calendar: the first technician to accept comes as soon as they can.
+  const isAsap = urgency === Urgency.EMERGENCY;
+  const hasTime = isAsap || (!!selectedDate && !!selectedTime);
+  const hasAddress = !!line1.trim() && !!city.trim() && !!postalCode.trim();
 
-  const calendarDays = useMemo(() => {
-    const year = displayDate.getFullYear();
-    const month = displayDate.getMonth();
-    const firstDayOfMonth = new Date(year, month, 1).getDay();
-    const daysInMonth = new Date(year, month + 1, 0).getDate();
-
-    const days: (Date | null)[] = Array.from({ length: firstDayOfMonth }, () => null);
-    for (let day = 1; day <= daysInMonth; day++) {
-      days.push(new Date(year, month, day));
-    }
-    return days;
-  }, [displayDate]);
+  // Place the address once the customer stops typing.
+  useEffect(() => {
+    setPlacedAddress(undefined);
+    if (!hasAddress) return;
 
-  const handleDateSelect = (date: Date) => {
-    if (date < new Date(new Date().toDateString())) return;
-    setSelectedDate(date);
-    setSelectedTime(null);
-  };
+    let isCurrent = true;
+    const timeoutId = setTimeout(() => {
+      geocodeAddress({ line1: line1.trim(), city: city.trim(), postalCode: postalCode.trim() })
+        .then(address => { if (isCurrent) setPlacedAddress(address); });
+    }, 500);
+    return () => {
+      isCurrent = false;
+      clearTimeout(timeoutId);
+    };
+  }, [line1, city, postalCode]);
 
   const handlePhotoUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
@@ -192,26 +113,41 @@ const NewRequestModal: React.FC<NewRequestModalProps> = ({ onClose, onSubmit })
     }
   };
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!serviceCategory || !description || !location || !selectedDate || !selectedTime) {
+    const selectedCategory = category ? getCategory(category.categoryId) : undefined;
+    if (!category || !selectedCategory || !description || !hasAddress || !hasTime) {
       alert('Please fill out all fields and select a date and time.');
       return;
     }
-    const [startHour] = selectedTime.split(':');
-    const finalDateTime = new Date(selectedDate);
-    finalDateTime.setHours(parseInt(startHour, 10), 0, 0, 0);
+    const finalDateTime = isAsap || !selectedDate || !selectedTime ? new Date() : slotToDateTime(selectedDate, selectedTime, timeZone);
+    const address = placedAddress || { line1: line1.trim(), city: city.trim(), postalCode: postalCode.trim() };
 
-    onSubmit({
-      serviceCategory,
-      description,
-      location,
-      urgency,
-      dateTime: finalDateTime.toISOString(),
-      paymentStatus: 'none',
-      photo: photo || undefined,
-    });
-    onClose();
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onSubmit({
+        serviceCategory: selectedCategory.name,
+        serviceCategoryId: selectedCategory.id,
+        ...(category.subcategoryId ? { serviceSubcategoryId: category.subcategoryId } : {}),
+        durationMinutes,
+        description,
+        location: formatAddress(address),
+        address,
+        urgency,
+        dateTime: finalDateTime.toISOString(),
+        ...(isAsap ? { asSoonAsPossible: true } : {}),
+        timeZone,
+        paymentStatus: 'none',
+        photo: photo || undefined,
+      }, preferredTechnicianUid ? { preferredTechnicianUid } : { autoDispatch });
+      onClose();
+    } catch {
+      // Keep the form open with everything the customer entered.
+      setError('Your request could not be sent. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
   };
 
   return (
@@ -227,13 +163,32 @@ const NewRequestModal: React.FC<NewRequestModalProps> = ({ onClose, onSubmit })
 
           <main className="p-6 grid grid-cols-1 lg:grid-cols-2 gap-8 overflow-y-auto flex-grow">
             <div className="space-y-5">
-              <FormInput label="Service Category" id="service-category" type="text" value={serviceCategory} onChange={(e) => setServiceCategory(e.target.value)} placeholder="e.g., Plumbing, Electrical" required />
-              <FormInput label="Service Location" id="location" type="text" value={location} onChange={(e) => setLocation(e.target.value)} placeholder="e.g., 123 Maple St, Springfield" required />
+              <CategoryPicker value={category} onChange={setCategory} />
+              <FormInput label="Street Address" id="addressLine1" type="text" value={line1} onChange={(e) => setLine1(e.target.value)} placeholder="e.g., 123 Maple St" autoComplete="address-line1" required />
+              <div className="grid grid-cols-2 gap-4">
+                <FormInput label="City" id="addressCity" type="text" value={city} onChange={(e) => setCity(e.target.value)} placeholder="e.g., Springfield" autoComplete="address-level2" required />
+                <FormInput label="Postal Code" id="addressPostalCode" type="text" value={postalCode} onChange={(e) => setPostalCode(e.target.value)} placeholder="e.g., 62701" autoComplete="postal-code" required />
+              </div>
+              <FormSelect label="Location Time Zone" id="timeZone" value={timeZone} onChange={(e) => setTimeZone(e.target.value)}>
+                {getTimeZoneOptions().map(zone => <option key={zone} value={zone}>{zone}</option>)}
+              </FormSelect>
               <FormSelect label="Urgency" id="urgency" value={urgency} onChange={(e) => setUrgency(e.target.value as Urgency)}>
                 <option>{Urgency.NORMAL}</option>
                 <option>{Urgency.HIGH}</option>
                 <option>{Urgency.EMERGENCY}</option>
               </FormSelect>
+              <TechnicianPicker serviceCategoryId={category?.categoryId || ''} address={placedAddress} value={preferredTechnicianUid} onChange={setPreferredTechnicianUid} />
+              {preferredTechnicianUid ? (
+                <p className="text-xs text-slate-500">{isAsap ? '' : "Only this technician's free times are shown. "}If they don't accept within {urgency === Urgency.EMERGENCY ? `${EMERGENCY_DISPATCH_OFFER_MINUTES} minutes` : `${PREFERRED_TECHNICIAN_OFFER_MINUTES / 60} hours`}, your request goes to every available technician.</p>
+              ) : (
+                <label className="flex items-start text-sm text-slate-700">
+                  <input type="checkbox" checked={autoDispatch} onChange={(e) => setAutoDispatch(e.target.checked)} className="mt-0.5 mr-2 rounded text-indigo-600 focus:ring-indigo-500" />
+                  <span>
+                    <span className="font-medium">Match me with the best technician</span>
+                    <span className="block text-xs text-slate-500">We'll offer the job to one technician at a time, best match first, by rating, availability and workload, instead of posting it for anyone to take.{urgency === Urgency.EMERGENCY ? ' Emergencies are passed on after a few minutes.' : ''}</span>
+                  </span>
+                </label>
+              )}
               <FormTextarea label="Description of Issue" id="description" rows={4} value={description} onChange={(e) => setDescription(e.target.value)} placeholder="Please describe the problem in detail." required />
               <div>
                 <label className="block text-sm font-medium text-slate-700 mb-1">Upload Photo (optional)</label>
@@ -267,70 +222,36 @@ const NewRequestModal: React.FC<NewRequestModalProps> = ({ onClose, onSubmit })
               </div>
             </div>
 
-            <div className="bg-slate-50 p-5 rounded-lg border border-slate-200">
-              <h3 className="text-lg font-bold text-slate-800 mb-4 flex items-center"><CalendarIcon className="w-6 h-6 mr-2 text-indigo-600" /> Select Date & Time</h3>
-              <div>
-                <div className="flex items-center justify-between mb-2">
-                  <button type="button" aria-label="Previous month" onClick={() => setDisplayDate(d => new Date(d.getFullYear(), d.getMonth() - 1, 1))} className="p-2 rounded-full hover:bg-slate-200"><ChevronLeftIcon className="w-5 h-5" /></button>
-                  <p className="font-semibold text-slate-700">{new Intl.DateTimeFormat('en-US', { month: 'long', year: 'numeric' }).format(displayDate)}</p>
-                  <button type="button" aria-label="Next month" onClick={() => setDisplayDate(d => new Date(d.getFullYear(), d.getMonth() + 1, 1))} className="p-2 rounded-full hover:bg-slate-200"><ChevronRightIcon className="w-5 h-5" /></button>
-                </div>
-                <div className="grid grid-cols-7 gap-1 text-center text-sm">
-                  {daysOfWeek.map(day => <div key={day} className="font-medium text-slate-500">{day}</div>)}
-                  {calendarDays.map((day, index) => {
-                    if (!day) return <div key={index} />;
-                    const isToday = day.toDateString() === new Date().toDateString();
-                    const isSelected = selectedDate && day.toDateString() === selectedDate.toDateString();
-                    const isPast = day < new Date(new Date().toDateString());
-                    return (
-                      <div key={index} className="flex justify-center items-center">
-                        <button type="button" aria-label={`Select date ${day.getDate()}`} disabled={isPast} onClick={() => handleDateSelect(day)} className={`w-9 h-9 rounded-full transition-colors 
-                             ${isPast ? 'text-slate-300 cursor-not-allowed' : 'hover:bg-indigo-100'}
-                             ${isSelected ? 'bg-indigo-600 text-white font-bold' : ''}
-                             ${!isSelected && isToday ? 'bg-teal-400 text-white' : ''}
-                             ${!isSelected && !isToday ? 'text-slate-700' : ''}
-                           `}>{day.getDate()}</button>
-                      </div>
-                    );
-                  })}
+            {isAsap ? (
+              <div className="self-start bg-red-50 border border-red-200 rounded-xl p-5">
+                <div className="flex items-center text-red-800">
+                  <BoltIcon className="w-6 h-6 mr-2" />
+                  <h3 className="text-lg font-bold">As soon as possible</h3>
                 </div>
+                <p className="text-sm text-red-800 mt-2">
+                  Emergency requests skip the calendar. Technicians are alerted straight away, and whoever accepts will contact you to arrange their arrival.
+                </p>
+                <p className="text-xs text-red-700 mt-2">An emergency call-out surcharge of {formatMoney(EMERGENCY_SURCHARGE.cost)} is added to the invoice.</p>
               </div>
-              {/* --- THIS IS THE UPDATED TIME SLOT SECTION --- */}
-              {selectedDate && serviceCategory ? (
-                <div className="mt-4 animate-fade-in">
-                  <h4 className="font-semibold text-slate-700 mb-2">Available Slots for {selectedDate.toLocaleDateString(undefined, { month: 'long', day: 'numeric' })}:</h4>
-                  {isLoadingSlots ? (
-                    <div className="flex items-center justify-center h-24">
-                      <SpinnerIcon className="w-8 h-8 text-indigo-600 animate-spin" />
-                    </div>
-                  ) : availableSlots.length > 0 ? (
-                    <div className="grid grid-cols-2 gap-2">
-                      {availableSlots.map(slot => (
-                        <button type="button" key={slot} onClick={() => setSelectedTime(slot)}
-                          className={`p-2 rounded-lg text-sm font-medium border-2 transition-all ${selectedTime === slot ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-slate-700 border-slate-300 hover:border-indigo-500'}`}
-                        >{slot}</button>
-                      ))}
-                    </div>
-                  ) : (
-                    <div className="text-center p-4 bg-slate-100 rounded-lg">
-                      <p className="text-sm font-medium text-slate-600">Sorry, no technicians are available on this day. Please select another date or service.</p>
-                    </div>
-                  )}
-                </div>
-              ) : selectedDate && (
-                <div className="mt-4 text-center p-4 bg-slate-100 rounded-lg">
-                  <p className="text-sm font-medium text-slate-600">Please select a service category to see availability.</p>
-                </div>
-              )}
-            </div>
+            ) : (
+              <SlotPicker
+                serviceCategoryId={category?.categoryId || ''}
+                availabilityOptions={{ durationMinutes, timeZone, technicianUid: preferredTechnicianUid || undefined, address: placedAddress }}
+                selectedDate={selectedDate}
+                selectedTime={selectedTime}
+                onDateChange={setSelectedDate}
+                onTimeChange={setSelectedTime}
+              />
+            )}
           </main>
 
+          {error && <p role="alert" className="mx-6 mb-4 text-sm font-medium text-red-700 bg-red-50 p-3 rounded-lg">{error}</p>}
           <footer className="p-6 bg-slate-50 border-t border-slate-200 rounded-b-2xl flex justify-end space-x-3 flex-shrink-0">
             <button type="button" onClick={onClose} className="px-6 py-2.5 rounded-lg font-semibold text-slate-700 bg-slate-200 hover:bg-slate-300 active:scale-95 transition-all">
               Cancel
             </button>
             <button type="submit" className="px-6 py-2.5 rounded-lg font-semibold text-white bg-indigo-600 hover:bg-indigo-700 active:scale-95 transition-all disabled:bg-slate-400 disabled:cursor-not-allowed"
-              disabled={!serviceCategory || !description || !location || !selectedDate || !selectedTime}
+              disabled={!category || !description || !hasAddress || !hasTime || isSaving}
             >
               Submit Request
             </button>
@@ -1,15 +1,23 @@
 import React, { useState } from 'react';
 import { ServiceRequest } from '@/shared/types';
 import { CloseIcon, CreditCardIcon, LockClosedIcon, SpinnerIcon, CheckBadgeIcon } from '@/components/common/icons';
+import { formatRequestTime } from '@/shared/timeZones';
+import { getInvoiceBreakdown } from '@/shared/invoices';
+import { getApprovedEstimate } from '@/shared/estimates';
+import { formatMoney } from '@/shared/money';
+import { RequestTransitionError } from '@/shared/requestLifecycle';
+import InvoiceSummary from '@/components/common/InvoiceSummary';
+import InvoiceDocumentButtons from '@/components/common/InvoiceDocumentButtons';
 
 interface PaymentModalProps {
   request: ServiceRequest;
   onClose: () => void;
-  onSubmit: () => void;
+  onSubmit: () => Promise<void>;
 }
 
 const PaymentModal: React.FC<PaymentModalProps> = ({ request, onClose, onSubmit }) => {
   const [paymentState, setPaymentState] = useState<'idle' | 'processing' | 'success'>('idle');
+  const [error, setError] = useState<string | null>(null);
   
   // Early return if there's no invoice data, preventing potential runtime errors.
   if (!request.invoice) {
@@ -20,16 +28,18 @@ const PaymentModal: React.FC<PaymentModalProps> = ({ request, onClose, onSubmit
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     setPaymentState('processing');
+    setError(null);
     
     // Simulate an API call for payment processing.
-    setTimeout(() => {
-      onSubmit(); // Update the application state to reflect payment.
-      setPaymentState('success');
-      
-      // Automatically close the modal after showing the success message.
-      setTimeout(() => {
-        onClose();
-      }, 1500);
+    setTimeout(async () => {
+      try {
+        await onSubmit(); // Update the application state to reflect payment.
+        // Stays open so the customer can print or download their receipt.
+        setPaymentState('success');
+      } catch (err) {
+        setError(err instanceof RequestTransitionError ? err.message : 'Your payment could not be recorded. Please try again.');
+        setPaymentState('idle');
+      }
     }, 2000);
   };
 
@@ -47,10 +57,12 @@ const PaymentModal: React.FC<PaymentModalProps> = ({ request, onClose, onSubmit
             );
         case 'success':
              return (
-                <div className="flex flex-col items-center justify-center h-64 text-green-700">
+                <div className="flex flex-col items-center justify-center py-10 text-green-700">
                     <CheckBadgeIcon className="w-16 h-16" />
                     <p className="mt-4 text-xl font-bold">Payment Successful!</p>
                     <p className="text-sm text-slate-500">Your invoice has been paid.</p>
+                    <InvoiceDocumentButtons request={request} invoice={request.invoice!} kind="receipt" className="mt-6" />
+                    <button type="button" onClick={onClose} className="mt-6 px-6 py-2 rounded-lg font-semibold text-white bg-green-600 hover:bg-green-700 active:scale-95 transition-all">Done</button>
                 </div>
             );
         case 'idle':
@@ -58,21 +70,15 @@ const PaymentModal: React.FC<PaymentModalProps> = ({ request, onClose, onSubmit
             return (
                 <form onSubmit={handleSubmit} className="flex-grow flex flex-col">
                     <div className="p-6 flex-grow overflow-y-auto">
+                        {error && <p role="alert" className="mb-4 text-sm font-medium text-red-700 bg-red-50 p-3 rounded-lg">{error}</p>}
                         {/* Invoice Summary Section */}
                         <div className="bg-slate-50 p-4 rounded-lg border border-slate-200 mb-6">
-                            <h3 className="font-bold text-slate-800 mb-2">Invoice Summary for #{request.id}</h3>
-                            <ul className="space-y-1 text-slate-700">
-                            {request.invoice!.items.map((item, index) => (
-                                <li key={index} className="flex justify-between">
-                                    <span>{item.description}</span>
-                                    <span className="font-medium">${item.cost.toFixed(2)}</span>
-                                </li>
-                            ))}
-                            </ul>
-                            <div className="border-t border-slate-200 mt-3 pt-3 flex justify-between font-bold text-slate-900 text-lg">
-                                <span>Total Amount</span>
-                                <span>${request.invoice!.total.toFixed(2)}</span>
-                            </div>
+                            <h3 className="font-bold text-slate-800">
+                                {request.invoice!.number ? `Invoice ${request.invoice!.number}` : 'Invoice Summary'}
+                                {request.invoice!.revises && <span className="ml-2 text-xs font-medium text-slate-500">replaces {request.invoice!.revises}</span>}
+                            </h3>
+                            <p className="text-sm text-slate-500 mb-2">{request.serviceCategory} · {formatRequestTime(request)}</p>
+                            <InvoiceSummary items={request.invoice!.items} breakdown={getInvoiceBreakdown(request.invoice!)} estimate={getApprovedEstimate(request)} totalLabel="Total Amount" className="text-base" />
                         </div>
 
                         {/* Payment Form Section */}
@@ -99,7 +105,7 @@ const PaymentModal: React.FC<PaymentModalProps> = ({ request, onClose, onSubmit
 
                     <div className="p-6 bg-gray-50 border-t border-gray-200 rounded-b-2xl">
                         <button type="submit" className="w-full px-6 py-3.5 rounded-lg font-semibold text-white bg-indigo-600 hover:bg-indigo-700 active:scale-95 transition-all flex items-center justify-center text-lg">
-                            <LockClosedIcon className="w-5 h-5 mr-2" /> Pay ${request.invoice!.total.toFixed(2)}
+                            <LockClosedIcon className="w-5 h-5 mr-2" /> Pay {formatMoney(request.invoice!.total)}
                         </button>
                     </div>
                 </form>
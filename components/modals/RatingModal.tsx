@@ -1,26 +1,37 @@
 import React, { useState } from 'react';
 import { Rating } from '@/shared/types';
+import { RequestTransitionError } from '@/shared/requestLifecycle';
 import { CloseIcon, StarIcon, CheckIcon } from '@/components/common/icons';
 
 interface RatingModalProps {
   title: string;
   onClose: () => void;
-  onSubmit: (rating: Rating) => void;
+  onSubmit: (rating: Rating) => Promise<void>;
 }
 
 const RatingModal: React.FC<RatingModalProps> = ({ title, onClose, onSubmit }) => {
   const [stars, setStars] = useState(0);
   const [hoverStars, setHoverStars] = useState(0);
   const [feedback, setFeedback] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (stars === 0) {
         // Using a more modern approach than alert for user feedback is recommended in a real app.
         alert('Please select a star rating.');
         return;
     }
-    onSubmit({ stars, feedback });
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onSubmit({ stars, feedback });
+    } catch (err) {
+      setError(err instanceof RequestTransitionError ? err.message : 'Your rating could not be saved. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
   };
 
   return (
@@ -66,10 +77,11 @@ const RatingModal: React.FC<RatingModalProps> = ({ title, onClose, onSubmit }) =
                     className="w-full bg-slate-100 border-slate-300 rounded-lg shadow-sm focus:ring-indigo-500 focus:border-indigo-500 placeholder:text-slate-400 text-slate-900"
                  />
             </div>
+            {error && <p role="alert" className="text-sm font-medium text-red-700 bg-red-50 p-3 rounded-lg">{error}</p>}
         </main>
 
         <footer className="p-6 bg-gray-50 border-t border-gray-200 rounded-b-2xl">
-          <button type="submit" className="w-full px-6 py-3 rounded-lg font-semibold text-white bg-indigo-600 hover:bg-indigo-700 active:scale-95 transition-all flex items-center justify-center text-lg disabled:bg-slate-400" disabled={stars === 0}>
+          <button type="submit" className="w-full px-6 py-3 rounded-lg font-semibold text-white bg-indigo-600 hover:bg-indigo-700 active:scale-95 transition-all flex items-center justify-center text-lg disabled:bg-slate-400" disabled={stars === 0 || isSaving}>
             <CheckIcon className="w-5 h-5 mr-2" /> Submit Feedback
           </button>
         </footer>
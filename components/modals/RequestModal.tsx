@@ -1,7 +1,12 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { ServiceRequest, RequestStatus, Urgency } from '@/shared/types';
 import { CloseIcon } from '@/components/common/icons';
 import { useAppContext } from '@/contexts/AppContext';
+import { RequestTransitionError } from '@/shared/requestLifecycle';
+import RequestTimeline from '@/components/common/RequestTimeline';
+import { useCatalog } from '@/contexts/CatalogContext';
+import CalendarDownloadButton from '@/components/common/CalendarDownloadButton';
+import { formatRequestTime, getRequestTimeZone } from '@/shared/timeZones';
 
 interface RequestModalProps {
   request: ServiceRequest;
@@ -22,17 +27,24 @@ const UrgencyBadge: React.FC<{ urgency: Urgency }> = ({ urgency }) => {
 };
 
 const RequestModal: React.FC<RequestModalProps> = ({ request, onClose }) => {
-  const { handleUpdateStatus } = useAppContext();
+  const { handleAcceptRequest, handleDeclineRequest } = useAppContext();
+  const { getCategoryName } = useCatalog();
+  const [actionError, setActionError] = useState<string | null>(null);
 
-  const handleDecline = () => {
-    handleUpdateStatus(request.id, RequestStatus.DECLINED);
-    onClose();
+  // Only close once the change has been accepted; otherwise keep the modal open with the reason.
+  const runAction = async (action: () => Promise<void>) => {
+    setActionError(null);
+    try {
+      await action();
+      onClose();
+    } catch (e) {
+      setActionError(e instanceof RequestTransitionError ? e.message : 'Something went wrong. Please try again.');
+    }
   };
 
-  const handleAccept = () => {
-    handleUpdateStatus(request.id, RequestStatus.ACCEPTED);
-    onClose();
-  };
+  const handleDecline = () => runAction(() => handleDeclineRequest(request.id));
+
+  const handleAccept = () => runAction(() => handleAcceptRequest(request.id));
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex justify-center items-center z-50 p-4 animate-fade-in" role="dialog" aria-modal="true" aria-labelledby="request-modal-title">
@@ -55,11 +67,11 @@ const RequestModal: React.FC<RequestModalProps> = ({ request, onClose }) => {
             </div>
             <div>
               <h4 className="font-semibold text-gray-700">Service Category</h4>
-              <p className="text-gray-600">{request.serviceCategory}</p>
+              <p className="text-gray-600">{request.serviceCategory}{request.serviceSubcategoryId && ` · ${getCategoryName(request.serviceSubcategoryId)}`}</p>
             </div>
             <div>
               <h4 className="font-semibold text-gray-700">Scheduled Time</h4>
-              <p className="text-gray-600">{new Date(request.dateTime).toLocaleString()}</p>
+              <p className="text-gray-600">{formatRequestTime(request)}</p>
             </div>
             <div>
               <h4 className="font-semibold text-gray-700">Urgency</h4>
@@ -75,6 +87,13 @@ const RequestModal: React.FC<RequestModalProps> = ({ request, onClose }) => {
                   <img src={request.photo} alt="Issue provided by customer" className="mt-2 rounded-lg border border-gray-200 max-h-48 w-auto" />
               </div>
             )}
+            <div>
+              <h4 className="font-semibold text-gray-700 mb-2">History</h4>
+              <RequestTimeline requestId={request.id} timeZone={getRequestTimeZone(request)} />
+            </div>
+            {actionError && (
+              <p className="text-sm font-medium text-red-700 bg-red-50 p-3 rounded-lg">{actionError}</p>
+            )}
           </div>
         </main>
 
@@ -93,9 +112,12 @@ const RequestModal: React.FC<RequestModalProps> = ({ request, onClose }) => {
               </button>
             </>
           ) : (
+            <>
+              <CalendarDownloadButton requests={[request]} name={`${request.serviceCategory} for ${request.customerName}`} viewer="technician" className="mr-auto" />
               <button onClick={onClose} className="px-6 py-2.5 rounded-lg font-semibold text-white bg-blue-600 hover:bg-blue-700 active:scale-95 transition-all">
                 Close
               </button>
+            </>
           )}
         </footer>
       </div>
@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { ServiceRequest, RequestStatus } from '@/shared/types';
+import { CloseIcon } from '@/components/common/icons';
+import SlotPicker from '@/components/common/SlotPicker';
+import { slotToDateTime } from '@/services/availability';
+import { useAppContext } from '@/contexts/AppContext';
+import { getChangePolicy, RequestTransitionError } from '@/shared/requestLifecycle';
+import { getRequestCategoryId } from '@/shared/categories';
+import { getRequestDuration } from '@/shared/workingHours';
+import { formatRequestTime, getRequestTimeZone } from '@/shared/timeZones';
+
+interface RescheduleModalProps {
+  request: ServiceRequest;
+  onClose: () => void;
+}
+
+const RescheduleModal: React.FC<RescheduleModalProps> = ({ request, onClose }) => {
+  const { handleRescheduleRequest } = useAppContext();
+  const [selectedDate, setSelectedDate] = useState<Date | null>(null);
+  const [selectedTime, setSelectedTime] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const policy = getChangePolicy(request);
+  // Once accepted, the job stays with its technician, so only their free slots are offered.
+  const technicianUid = request.status === RequestStatus.ACCEPTED ? request.assignedTechnicianUid || undefined : undefined;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedDate || !selectedTime) return;
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      await handleRescheduleRequest(request.id, slotToDateTime(selectedDate, selectedTime, getRequestTimeZone(request)).toISOString());
+      onClose();
+    } catch (err) {
+      setError(err instanceof RequestTransitionError ? err.message : 'The appointment could not be moved. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900 bg-opacity-60 flex justify-center items-center z-50 p-4 animate-fade-in" role="dialog" aria-modal="true" aria-labelledby="reschedule-modal-title">
+      <form onSubmit={handleSubmit} className="bg-white rounded-2xl shadow-2xl w-full max-w-lg max-h-[95vh] flex flex-col animate-scale-in">
+        <header className="p-6 border-b border-slate-200 flex justify-between items-center flex-shrink-0">
+          <h2 id="reschedule-modal-title" className="text-2xl font-bold text-slate-800">Reschedule {request.serviceCategory}</h2>
+          <button type="button" aria-label="Close" onClick={onClose} className="p-2 rounded-full hover:bg-slate-200 transition-colors">
+            <CloseIcon className="w-6 h-6 text-slate-600" />
+          </button>
+        </header>
+
+        <main className="p-6 space-y-4 overflow-y-auto flex-grow">
+          <p className="text-sm text-slate-600">
+            Currently booked for <span className="font-semibold text-slate-800">{formatRequestTime(request)}</span>.
+          </p>
+          <p className={`text-sm p-3 rounded-lg ${policy.isLate ? 'bg-yellow-50 text-yellow-800' : 'bg-slate-100 text-slate-600'}`}>{policy.message}</p>
+          {/* A job already accepted stays with its technician, wherever they now work. */}
+          <SlotPicker
+            serviceCategoryId={getRequestCategoryId(request)}
+            selectedDate={selectedDate}
+            selectedTime={selectedTime}
+            onDateChange={setSelectedDate}
+            onTimeChange={setSelectedTime}
+            availabilityOptions={{ technicianUid, excludeRequestId: request.id, durationMinutes: getRequestDuration(request), timeZone: getRequestTimeZone(request), address: technicianUid ? undefined : request.address }}
+          />
+          {error && <p className="text-sm font-medium text-red-700 bg-red-50 p-3 rounded-lg">{error}</p>}
+        </main>
+
+        <footer className="p-6 bg-slate-50 border-t border-slate-200 rounded-b-2xl flex justify-end space-x-3 flex-shrink-0">
+          <button type="button" onClick={onClose} className="px-6 py-2.5 rounded-lg font-semibold text-slate-700 bg-slate-200 hover:bg-slate-300 active:scale-95 transition-all">
+            Keep Current Time
+          </button>
+          <button type="submit" className="px-6 py-2.5 rounded-lg font-semibold text-white bg-indigo-600 hover:bg-indigo-700 active:scale-95 transition-all disabled:bg-slate-400 disabled:cursor-not-allowed"
+            disabled={!policy.allowed || !selectedDate || !selectedTime || isSaving}
+          >
+            Confirm New Time
+          </button>
+        </footer>
+      </form>
+    </div>
+  );
+};
+
+export default RescheduleModal;
@@ -0,0 +1,195 @@
+import React, { useState } from 'react';
+import { AvailabilityBlock, ServiceRequest } from '@/shared/types';
+import { PlusIcon, SpinnerIcon, TrashIcon } from '@/components/common/icons';
+import { NewAvailabilityBlock, scheduleRepository } from '@/services/repositories';
+import { describeBlock, findBlockConflicts, fromDateKey, parseTime } from '@/shared/workingHours';
+import { formatRequestTime, getZonedDateKey } from '@/shared/timeZones';
+
+const DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+// Monday first, matching the working hours editor.
+const DAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+const inputClassName = 'border border-slate-300 rounded-md px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500';
+
+const formatException = (dateKey: string) => fromDateKey(dateKey).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+/**
+ * Lists a technician's recurring blocks ("every Friday afternoon") and time off, and
+ * adds new ones. Before saving a block that lands on jobs they've already accepted, it
+ * shows those jobs and asks them to confirm.
+ */
+const AvailabilityBlocksPanel: React.FC<{ technicianUid: string; blocks: AvailabilityBlock[]; jobs: ServiceRequest[]; timeZone: string }> = ({ technicianUid, blocks, jobs, timeZone }) => {
+  const today = getZonedDateKey(new Date(), timeZone);
+  const [kind, setKind] = useState<AvailabilityBlock['kind']>('time-off');
+  const [startDate, setStartDate] = useState(today);
+  const [endDate, setEndDate] = useState(today);
+  const [weekdays, setWeekdays] = useState<number[]>([5]);
+  const [start, setStart] = useState('13:00');
+  const [end, setEnd] = useState('17:00');
+  const [note, setNote] = useState('');
+  const [conflicts, setConflicts] = useState<ServiceRequest[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const resetConflicts = () => setConflicts([]);
+
+  const buildBlock = (): NewAvailabilityBlock | string => {
+    const base = { technicianUid, note: note.trim(), exceptions: [] };
+    if (kind === 'time-off') {
+      if (!startDate || !endDate) return 'Choose the first and last day you are away.';
+      if (endDate < startDate) return 'The last day must not be before the first.';
+      return { ...base, kind, startDate, endDate };
+    }
+    if (weekdays.length === 0) return 'Choose at least one day of the week.';
+    if (parseTime(end) <= parseTime(start)) return 'The block must end after it starts.';
+    return { ...base, kind, weekdays: [...weekdays].sort(), start, end };
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const block = buildBlock();
+    if (typeof block === 'string') {
+      setError(block);
+      return;
+    }
+    setError(null);
+
+    // Warn once; submitting again with the warning showing means "block anyway".
+    if (conflicts.length === 0) {
+      const found = findBlockConflicts({ ...block, id: '' }, jobs, timeZone);
+      if (found.length > 0) {
+        setConflicts(found);
+        return;
+      }
+    }
+
+    setIsSaving(true);
+    try {
+      await scheduleRepository.addBlock(block);
+      setNote('');
+      setConflicts([]);
+    } catch (err) {
+      console.error("Error adding availability block (AvailabilityBlocksPanel.tsx):", err);
+      setError('Could not save the block. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const run = async (action: () => Promise<void>) => {
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      console.error("Error updating availability block (AvailabilityBlocksPanel.tsx):", err);
+      setError('Could not update the block. Please try again.');
+    }
+  };
+
+  const toggleWeekday = (day: number) => {
+    resetConflicts();
+    setWeekdays(current => current.includes(day) ? current.filter(d => d !== day) : [...current, day]);
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm">
+      <h3 className="font-bold text-slate-800 text-lg mb-4">Time Off & Recurring Blocks</h3>
+
+      {blocks.length === 0 ? (
+        <p className="text-sm text-slate-500 mb-4">Nothing blocked. Add time off or a regular block below.</p>
+      ) : (
+        <ul className="divide-y divide-slate-100 mb-4">
+          {blocks.map(block => (
+            <li key={block.id} className="py-3">
+              <div className="flex items-center justify-between">
+                <div>
+                  <p className="font-medium text-slate-700">{block.kind === 'time-off' ? 'Time off' : 'Every'} · {describeBlock(block)}</p>
+                  {block.note && <p className="text-xs text-slate-500">{block.note}</p>}
+                </div>
+                <button type="button" aria-label={`Remove ${describeBlock(block)}`} onClick={() => run(() => scheduleRepository.removeBlock(block.id))} className="p-1 text-slate-400 hover:text-red-600">
+                  <TrashIcon className="w-4 h-4" />
+                </button>
+              </div>
+              {block.exceptions.length > 0 && (
+                <div className="flex flex-wrap items-center gap-2 mt-2 text-xs">
+                  <span className="text-slate-500">Working anyway on:</span>
+                  {[...block.exceptions].sort().map(dateKey => (
+                    <button key={dateKey} type="button" aria-label={`Block ${formatException(dateKey)} again`} onClick={() => run(() => scheduleRepository.setException(block.id, dateKey, false))} className="px-2 py-0.5 rounded-full bg-green-100 text-green-700 hover:bg-green-200">
+                      {formatException(dateKey)} ✕
+                    </button>
+                  ))}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form onSubmit={handleAdd} className="border-t border-slate-200 pt-4 space-y-3">
+        <div className="flex space-x-4 text-sm">
+          <label className="flex items-center">
+            <input type="radio" name="blockKind" checked={kind === 'time-off'} onChange={() => { resetConflicts(); setKind('time-off'); }} className="mr-2 text-indigo-600 focus:ring-indigo-500" />
+            Time off
+          </label>
+          <label className="flex items-center">
+            <input type="radio" name="blockKind" checked={kind === 'recurring'} onChange={() => { resetConflicts(); setKind('recurring'); }} className="mr-2 text-indigo-600 focus:ring-indigo-500" />
+            Every week
+          </label>
+        </div>
+
+        {kind === 'time-off' ? (
+          <div className="flex items-center space-x-2 text-sm">
+            <input type="date" aria-label="First day off" value={startDate} min={today} onChange={(e) => { resetConflicts(); setStartDate(e.target.value); }} className={inputClassName} />
+            <span className="text-slate-500">to</span>
+            <input type="date" aria-label="Last day off" value={endDate} min={startDate || today} onChange={(e) => { resetConflicts(); setEndDate(e.target.value); }} className={inputClassName} />
+          </div>
+        ) : (
+          <div className="space-y-2 text-sm">
+            <div className="flex flex-wrap gap-2">
+              {DAY_ORDER.map(day => (
+                <button
+                  key={day}
+                  type="button"
+                  aria-pressed={weekdays.includes(day)}
+                  onClick={() => toggleWeekday(day)}
+                  className={`px-3 py-1 rounded-full border ${weekdays.includes(day) ? 'bg-indigo-600 text-white border-indigo-600' : 'border-slate-300 text-slate-600 hover:bg-slate-100'}`}
+                >
+                  {DAY_LABELS[day]}
+                </button>
+              ))}
+            </div>
+            <div className="flex items-center space-x-2">
+              <input type="time" aria-label="Block start" value={start} onChange={(e) => { resetConflicts(); setStart(e.target.value); }} className={inputClassName} />
+              <span className="text-slate-500">to</span>
+              <input type="time" aria-label="Block end" value={end} onChange={(e) => { resetConflicts(); setEnd(e.target.value); }} className={inputClassName} />
+            </div>
+          </div>
+        )}
+
+        <input type="text" value={note} onChange={(e) => setNote(e.target.value)} placeholder="Note (optional), e.g. Vacation" aria-label="Note" className={`${inputClassName} w-full`} />
+
+        {conflicts.length > 0 && (
+          <div role="alert" className="text-sm text-amber-800 bg-amber-50 p-3 rounded-lg">
+            <p className="font-medium">This overlaps {conflicts.length} job{conflicts.length === 1 ? '' : 's'} you've already accepted:</p>
+            <ul className="list-disc pl-5 mt-1">
+              {conflicts.map(job => (
+                <li key={job.id}>{job.serviceCategory} · {formatRequestTime(job, { weekday: 'short', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}</li>
+              ))}
+            </ul>
+            <p className="mt-1">Those jobs stay booked. Reschedule them with the customer or keep the block shorter.</p>
+          </div>
+        )}
+        {error && <p role="alert" className="text-sm font-medium text-red-700 bg-red-50 p-3 rounded-lg">{error}</p>}
+
+        <div className="flex justify-end">
+          <button type="submit" disabled={isSaving} className={`flex items-center font-semibold text-white py-2 px-5 rounded-lg transition-colors disabled:bg-slate-400 ${conflicts.length > 0 ? 'bg-amber-600 hover:bg-amber-700' : 'bg-indigo-600 hover:bg-indigo-700'}`}>
+            {isSaving ? <SpinnerIcon className="w-5 h-5 mr-2 animate-spin" /> : <PlusIcon className="w-5 h-5 mr-2" />}
+            {conflicts.length > 0 ? 'Block anyway' : 'Add block'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default AvailabilityBlocksPanel;
@@ -1,10 +1,16 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect } from 'react';
 import { motion } from 'framer-motion';
 // import { ServiceRequest, Urgency, RequestStatus } from '../../types';
 import { ServiceRequest, Urgency, RequestStatus } from '@/shared/types';
 import RequestModal from '../modals/RequestModal';
-import { DocumentPlusIcon, WrenchScrewdriverIcon, CheckBadgeIcon, ReceiptPercentIcon, StarIcon } from '../common/icons';
+import { BoltIcon, DocumentPlusIcon, WrenchScrewdriverIcon, CheckBadgeIcon, ReceiptPercentIcon, StarIcon, MapPinIcon } from '../common/icons';
 import { useAppContext } from '../../contexts/AppContext';
+import { useAuth } from '../../contexts/AuthContext';
+import { RequestTransitionError } from '@/shared/requestLifecycle';
+import { formatRequestTime } from '@/shared/timeZones';
+import { formatDistance, getDistanceKm } from '@/shared/serviceArea';
+import { formatMoney } from '@/shared/money';
+import { ESTIMATE_STATUS_LABELS } from '@/shared/estimates';
 
 const RatingDisplay: React.FC<{ rating: number }> = ({ rating }) => (
   <div className="flex justify-center items-center space-x-1">
@@ -45,16 +51,34 @@ const RequestCard: React.FC<{
   request: ServiceRequest;
   onSelect: (request: ServiceRequest) => void;
   onOpenInvoiceModal: (request: ServiceRequest) => void;
+  onOpenEstimateModal: (request: ServiceRequest) => void;
   onOpenRatingModal: (request: ServiceRequest) => void;
+  onActionError: (message: string) => void;
   delay?: number;
-}> = ({ request, onSelect, onOpenInvoiceModal, onOpenRatingModal, delay = 0 }) => {
-  const { handleUpdateStatus } = useAppContext();
+}> = ({ request, onSelect, onOpenInvoiceModal, onOpenEstimateModal, onOpenRatingModal, onActionError, delay = 0 }) => {
+  const { handleUpdateStatus, handleAcceptRequest, handleDeclineRequest } = useAppContext();
+  const { userProfile } = useAuth();
+  const offer = request.dispatch?.offer;
+  // From the technician's base; unknown until both it and the job have been placed.
+  const distanceKm = getDistanceKm(userProfile?.serviceArea, request.address);
   const urgencyBorderColor: Record<Urgency, string> = {
     [Urgency.EMERGENCY]: 'border-l-red-500',
     [Urgency.HIGH]: 'border-l-yellow-500',
     [Urgency.NORMAL]: 'border-l-blue-500',
   }
 
+  // Rejected actions are reported to the dashboard rather than the card, because the
+  // card itself may vanish (e.g. another technician took the job first).
+  const runAction = async (action: () => Promise<void>) => {
+    try {
+      await action();
+    } catch (e) {
+      onActionError(e instanceof RequestTransitionError ? e.message : 'Something went wrong. Please try again.');
+    }
+  };
+
+  const changeStatus = (status: RequestStatus) => runAction(() => handleUpdateStatus(request.id, status));
+
   // --- REPLACE THE ENTIRE renderActions FUNCTION WITH THIS ---// INSIDE the RequestCard component in DashboardView.tsx
 
 const renderActions = () => {
@@ -63,8 +87,8 @@ const renderActions = () => {
         return (
             <div className="flex items-center justify-between">
                 <div className="flex space-x-2">
-                    <button onClick={() => handleUpdateStatus(request.id, RequestStatus.ACCEPTED)} className="px-3.5 py-1.5 text-sm font-semibold text-white bg-green-500 rounded-lg hover:bg-green-600 active:scale-95 transition-all">Accept</button>
-                    <button onClick={() => handleUpdateStatus(request.id, RequestStatus.DECLINED)} className="px-3.5 py-1.5 text-sm font-semibold text-slate-700 bg-slate-200 rounded-lg hover:bg-slate-300 active:scale-95 transition-all">Decline</button>
+                    <button onClick={() => runAction(() => handleAcceptRequest(request.id))} className="px-3.5 py-1.5 text-sm font-semibold text-white bg-green-500 rounded-lg hover:bg-green-600 active:scale-95 transition-all">Accept</button>
+                    <button onClick={() => runAction(() => handleDeclineRequest(request.id))} className="px-3.5 py-1.5 text-sm font-semibold text-slate-700 bg-slate-200 rounded-lg hover:bg-slate-300 active:scale-95 transition-all">Decline</button>
                 </div>
                 <button onClick={() => onSelect(request)} className="px-3.5 py-1.5 text-sm font-semibold text-indigo-600 bg-indigo-100 rounded-lg hover:bg-indigo-200 active:scale-95 transition-all">
                     Details
@@ -73,6 +97,50 @@ const renderActions = () => {
         );
     }
 
+    // Accepted jobs are priced first; work starts once the customer approves the estimate.
+    if (request.status === RequestStatus.ACCEPTED && request.estimate?.status !== 'approved') {
+        const estimate = request.estimate;
+        return (
+            <div className="space-y-2">
+                {estimate && (
+                    <p className={`text-xs font-semibold ${estimate.status === 'sent' ? 'text-slate-600' : 'text-amber-800'}`}>
+                        Estimate {formatMoney(estimate.total)} · {ESTIMATE_STATUS_LABELS[estimate.status]}
+                        {estimate.customerNote && <span className="block font-normal">"{estimate.customerNote}"</span>}
+                    </p>
+                )}
+                <div className="flex items-center justify-between">
+                    <button
+                        onClick={() => onOpenEstimateModal(request)}
+                        className={`px-3.5 py-1.5 text-sm font-semibold rounded-lg active:scale-95 transition-all ${estimate?.status === 'sent' ? 'text-indigo-600 bg-indigo-100 hover:bg-indigo-200' : 'text-white bg-indigo-600 hover:bg-indigo-700'}`}
+                    >
+                        {estimate ? 'Revise Estimate' : 'Send Estimate'}
+                    </button>
+                    <button onClick={() => onSelect(request)} className="px-3.5 py-1.5 text-sm font-semibold text-indigo-600 bg-indigo-100 rounded-lg hover:bg-indigo-200 active:scale-95 transition-all">
+                        View Details
+                    </button>
+                </div>
+            </div>
+        );
+    }
+
+    // Handle jobs the technician is working on
+    if (request.status === RequestStatus.ACCEPTED || request.status === RequestStatus.IN_PROGRESS) {
+        const isAccepted = request.status === RequestStatus.ACCEPTED;
+        return (
+            <div className="flex items-center justify-between">
+                <button
+                    onClick={() => changeStatus(isAccepted ? RequestStatus.IN_PROGRESS : RequestStatus.COMPLETED)}
+                    className="px-3.5 py-1.5 text-sm font-semibold text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 active:scale-95 transition-all"
+                >
+                    {isAccepted ? 'Start Job' : 'Mark Completed'}
+                </button>
+                <button onClick={() => onSelect(request)} className="px-3.5 py-1.5 text-sm font-semibold text-indigo-600 bg-indigo-100 rounded-lg hover:bg-indigo-200 active:scale-95 transition-all">
+                    View Details
+                </button>
+            </div>
+        );
+    }
+
     // Handle Completed jobs
     if (request.status === RequestStatus.COMPLETED) {
         // If a customer has rated the job, this is the final state. Show the rating.
@@ -88,27 +156,32 @@ const renderActions = () => {
         if (request.paymentStatus === 'none') {
             return <button onClick={() => onOpenInvoiceModal(request)} className="w-full flex items-center justify-center px-3.5 py-1.5 text-sm font-semibold text-white bg-indigo-600 rounded-lg hover:bg-indigo-700 active:scale-95 transition-all"><ReceiptPercentIcon className="w-4 h-4 mr-2"/> Create Invoice</button>;
         }
+        // An issued invoice can't be edited, but until it's paid it can be replaced by a revised one.
         if (request.paymentStatus === 'pending') {
-            return <div className="text-sm font-semibold text-yellow-800 text-center">Awaiting Customer Payment...</div>;
+            return (
+                <div className="text-center space-y-1">
+                    <div className="text-sm font-semibold text-yellow-800">Awaiting Customer Payment...</div>
+                    <button onClick={() => onOpenInvoiceModal(request)} className="text-xs font-semibold text-indigo-600 hover:text-indigo-800">Revise Invoice</button>
+                </div>
+            );
         }
         /*if (request.paymentStatus === 'paid' && !request.technicianRating) {
             return <button onClick={() => onOpenRatingModal(request)} className="w-full flex items-center justify-center px-3.5 py-1.5 text-sm font-semibold text-white bg-teal-500 rounded-lg hover:bg-teal-600 active:scale-95 transition-all"><StarIcon className="w-4 h-4 mr-2"/> Rate Customer</button>;
         }*/
     }
 
-    // Fallback for all other statuses (e.g., ACCEPTED, DECLINED, or a completed job where the tech has also rated)
+    // Fallback for all other statuses (e.g., DECLINED, CANCELLED, or a completed job where the tech has also rated)
     const statusText: { [key: string]: string } = {
-        [RequestStatus.ACCEPTED]: 'Job Accepted',
         [RequestStatus.COMPLETED]: 'Job Closed', // This now correctly shows for a job the tech has rated
-        [RequestStatus.DECLINED]: 'Job Declined'
+        [RequestStatus.DECLINED]: 'Job Declined',
+        [RequestStatus.CANCELLED]: 'Cancelled by Customer'
     };
 
     return (
         <div className="flex items-center justify-between">
             <div className={`text-sm font-medium px-3 py-1 rounded-full
-                ${request.status === RequestStatus.ACCEPTED && 'bg-yellow-100 text-yellow-800'}
                 ${(request.status === RequestStatus.COMPLETED || request.customerRating) && 'bg-green-100 text-green-800'}
-                ${request.status === RequestStatus.DECLINED && 'bg-red-100 text-red-800'}
+                ${(request.status === RequestStatus.DECLINED || request.status === RequestStatus.CANCELLED) && 'bg-red-100 text-red-800'}
             `}>
                 {statusText[request.status] || request.status}
             </div>
@@ -137,6 +210,26 @@ const renderActions = () => {
           <UrgencyBadge urgency={request.urgency} />
         </div>
         <p className="text-slate-600 text-sm line-clamp-2 cursor-pointer" onClick={() => onSelect(request)}>{request.description}</p>
+        <p className="mt-2 flex items-center text-xs text-slate-500">
+          <MapPinIcon className="w-4 h-4 mr-1 flex-shrink-0" />
+          <span className="truncate">{request.location}</span>
+          {distanceKm !== undefined && <span className="ml-1 flex-shrink-0 font-semibold text-slate-700">· {formatDistance(distanceKm)} away</span>}
+        </p>
+        {request.asSoonAsPossible && request.status === RequestStatus.PENDING && (
+          <p className="mt-3 text-xs font-semibold text-red-800 bg-red-50 px-2 py-1 rounded-md inline-block">
+            As soon as possible · requested {formatRequestTime(request, { hour: 'numeric', minute: '2-digit' })}
+          </p>
+        )}
+        {request.status === RequestStatus.PENDING && offer && offer.technicianUid === userProfile?.uid && (
+          <p className="mt-3 text-xs font-semibold text-green-800 bg-green-50 px-2 py-1 rounded-md inline-block">
+            {request.dispatch?.preferred ? 'Requested you' : 'Matched to you'} · accept by {new Date(offer.expiresAt).toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' })}
+          </p>
+        )}
+        {request.reschedules && request.reschedules.length > 0 && request.status !== RequestStatus.CANCELLED && (
+          <p className="mt-3 text-xs font-semibold text-indigo-700 bg-indigo-50 px-2 py-1 rounded-md inline-block">
+            Rescheduled to {formatRequestTime(request, { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}
+          </p>
+        )}
       </div>
 
       <div className="px-5 py-4 bg-slate-50/70 rounded-b-xl border-t border-slate-100">
@@ -148,25 +241,51 @@ const renderActions = () => {
 
 interface DashboardViewProps {
   onOpenInvoiceModal: (request: ServiceRequest) => void;
+  onOpenEstimateModal: (request: ServiceRequest) => void;
   onOpenRatingModal: (request: ServiceRequest) => void;
+  // A request to open straight away, e.g. from a notification.
+  focusRequestId?: string | null;
+  onFocusHandled?: () => void;
 }
 
-const DashboardView: React.FC<DashboardViewProps> = ({ onOpenInvoiceModal, onOpenRatingModal }) => {
+const DashboardView: React.FC<DashboardViewProps> = ({ onOpenInvoiceModal, onOpenEstimateModal, onOpenRatingModal, focusRequestId, onFocusHandled }) => {
   const { requests } = useAppContext();
   const [urgencyFilter, setUrgencyFilter] = useState<Urgency | 'all'>('all');
   const [statusFilter, setStatusFilter] = useState<RequestStatus | 'all'>(RequestStatus.PENDING);
   const [selectedRequest, setSelectedRequest] = useState<ServiceRequest | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!focusRequestId) return;
+    const request = requests.find(r => r.id === focusRequestId);
+    if (request) {
+      setSelectedRequest(request);
+    } else {
+      setActionError('That request is no longer available to you.');
+    }
+    onFocusHandled?.();
+  }, [focusRequestId]);
+
+  // Emergencies still waiting for a technician go first, oldest first.
+  const isOpenEmergency = (request: ServiceRequest) => request.status === RequestStatus.PENDING && request.urgency === Urgency.EMERGENCY;
 
   const filteredRequests = useMemo(() => {
     return requests
       .filter(r => statusFilter === 'all' || r.status === statusFilter)
       .filter(r => urgencyFilter === 'all' || r.urgency === urgencyFilter)
-      .sort((a, b) => new Date(b.dateTime).getTime() - new Date(a.dateTime).getTime());
+      .sort((a, b) => {
+        if (isOpenEmergency(a) !== isOpenEmergency(b)) return isOpenEmergency(a) ? -1 : 1;
+        if (isOpenEmergency(a)) return new Date(a.dateTime).getTime() - new Date(b.dateTime).getTime();
+        return new Date(b.dateTime).getTime() - new Date(a.dateTime).getTime();
+      });
   }, [requests, statusFilter, urgencyFilter]);
 
+  const openEmergencies = useMemo(() => requests.filter(isOpenEmergency), [requests]);
+
   const stats = useMemo(() => ({
     new: requests.filter(r => r.status === RequestStatus.PENDING).length,
     accepted: requests.filter(r => r.status === RequestStatus.ACCEPTED).length,
+    inProgress: requests.filter(r => r.status === RequestStatus.IN_PROGRESS).length,
     completed: requests.filter(r => r.status === RequestStatus.COMPLETED && r.paymentStatus === 'paid').length,
     all: requests.length
   }), [requests]);
@@ -194,6 +313,24 @@ const DashboardView: React.FC<DashboardViewProps> = ({ onOpenInvoiceModal, onOpe
 
   return (
     <div className="p-8">
+      {openEmergencies.length > 0 && (
+        <div role="alert" className="mb-6 flex items-center justify-between bg-red-600 text-white p-4 rounded-2xl shadow-md animate-fade-in">
+          <div className="flex items-center">
+            <BoltIcon className="w-7 h-7 mr-3" />
+            <div>
+              <p className="font-bold">{openEmergencies.length === 1 ? 'An emergency needs a technician' : `${openEmergencies.length} emergencies need a technician`}</p>
+              <p className="text-sm text-red-100">{openEmergencies.map(request => request.serviceCategory).join(', ')} · needed as soon as possible</p>
+            </div>
+          </div>
+          <button
+            onClick={() => { setStatusFilter(RequestStatus.PENDING); setUrgencyFilter(Urgency.EMERGENCY); }}
+            className="px-4 py-2 text-sm font-semibold text-red-700 bg-white rounded-lg hover:bg-red-50 active:scale-95 transition-all"
+          >
+            View
+          </button>
+        </div>
+      )}
+
       <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
         <StatCard title="New Requests" value={stats.new} color="bg-blue-100 text-blue-600" icon={<DocumentPlusIcon className="w-6 h-6" />} delay={0} />
         <StatCard title="Jobs Accepted" value={stats.accepted} color="bg-yellow-100 text-yellow-700" icon={<WrenchScrewdriverIcon className="w-6 h-6" />} delay={100} />
@@ -205,6 +342,7 @@ const DashboardView: React.FC<DashboardViewProps> = ({ onOpenInvoiceModal, onOpe
           <div className="flex items-center space-x-2 border border-slate-200 rounded-lg p-1">
             <StatusFilterButton value={RequestStatus.PENDING} label="Pending" count={stats.new} />
             <StatusFilterButton value={RequestStatus.ACCEPTED} label="Accepted" count={stats.accepted} />
+            <StatusFilterButton value={RequestStatus.IN_PROGRESS} label="In Progress" count={stats.inProgress} />
             <StatusFilterButton value={RequestStatus.COMPLETED} label="Completed" count={stats.completed} />
             <StatusFilterButton value={'all'} label="All" count={stats.all} />
           </div>
@@ -216,6 +354,13 @@ const DashboardView: React.FC<DashboardViewProps> = ({ onOpenInvoiceModal, onOpe
           </div>
         </div>
 
+        {actionError && (
+          <div role="alert" className="mx-4 mb-2 flex items-center justify-between text-sm font-medium text-red-700 bg-red-50 border border-red-200 p-3 rounded-lg animate-fade-in">
+            <span>{actionError}</span>
+            <button onClick={() => setActionError(null)} className="ml-4 font-semibold text-red-800 hover:underline">Dismiss</button>
+          </div>
+        )}
+
         {filteredRequests.length > 0 ? (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 p-4">
             {filteredRequests.map((request, index) => (
@@ -224,7 +369,9 @@ const DashboardView: React.FC<DashboardViewProps> = ({ onOpenInvoiceModal, onOpe
                 request={request}
                 onSelect={setSelectedRequest}
                 onOpenInvoiceModal={onOpenInvoiceModal}
+                onOpenEstimateModal={onOpenEstimateModal}
                 onOpenRatingModal={onOpenRatingModal}
+                onActionError={setActionError}
                 delay={index * 60}
               />
             ))}
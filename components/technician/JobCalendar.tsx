@@ -0,0 +1,390 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { AvailabilityBlock, RequestStatus, ServiceRequest, Urgency, WorkingHours } from '@/shared/types';
+import { ChevronLeftIcon, ChevronRightIcon } from '@/components/common/icons';
+import { useAppContext } from '@/contexts/AppContext';
+import { scheduleRepository } from '@/services/repositories';
+import { isAvailableAt } from '@/services/availability';
+import { getRequestCategoryId } from '@/shared/categories';
+import { getChangePolicy, RequestTransitionError } from '@/shared/requestLifecycle';
+import { getUpcomingCalendarRequests } from '@/shared/icalendar';
+import CalendarDownloadButton from '@/components/common/CalendarDownloadButton';
+import {
+  describeBlock, formatTime, fromDateKey, getBlockedIntervals, getDaySlots, getRequestDuration, getWorkingPeriods,
+  parseSlotLabel, toDateKey,
+} from '@/shared/workingHours';
+import { formatAppointment, getRequestTimeZone, getZonedDateKey, getZonedMinutes, zonedTimeToUtc } from '@/shared/timeZones';
+
+type CalendarMode = 'agenda' | 'week' | 'month';
+
+const HOUR_HEIGHT = 48;
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const urgencyBorder: Record<Urgency, string> = {
+  [Urgency.EMERGENCY]: 'border-l-red-500',
+  [Urgency.HIGH]: 'border-l-yellow-500',
+  [Urgency.NORMAL]: 'border-l-blue-500',
+};
+
+const statusStyles: Partial<Record<RequestStatus, string>> = {
+  [RequestStatus.ACCEPTED]: 'bg-indigo-100 text-indigo-900',
+  [RequestStatus.IN_PROGRESS]: 'bg-green-100 text-green-900',
+  [RequestStatus.COMPLETED]: 'bg-slate-100 text-slate-500',
+};
+
+const jobClassName = (job: ServiceRequest) =>
+  `border-l-4 ${urgencyBorder[job.urgency]} ${statusStyles[job.status] || 'bg-slate-100 text-slate-700'}`;
+
+const addDays = (date: Date, days: number) => new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+const startOfWeek = (date: Date) => addDays(date, -date.getDay());
+
+// Where a job falls on the technician's own clock.
+const getJobDayKey = (job: ServiceRequest, timeZone: string) => getZonedDateKey(new Date(job.dateTime), timeZone);
+const getJobStart = (job: ServiceRequest, timeZone: string) => getZonedMinutes(new Date(job.dateTime), timeZone);
+
+const formatJobTime = (job: ServiceRequest, timeZone: string) => {
+  const start = getJobStart(job, timeZone);
+  return `${formatTime(start)} - ${formatTime(start + getRequestDuration(job))}`;
+};
+
+// Only jobs the customer could still move can be dragged; the same cutoffs apply to both sides.
+const canMove = (job: ServiceRequest) => job.status === RequestStatus.ACCEPTED && getChangePolicy(job).allowed;
+
+/**
+ * The technician's accepted jobs as an agenda, a week of hour-by-hour columns, or a
+ * month grid, drawn over their working hours and blocked time. Jobs can be dragged to
+ * a new time; the move is only made if the technician would be offered that time for
+ * the job as a customer would.
+ *
+ * Days and times are on the technician's clock (`timeZone`), the zone their working
+ * hours are in, whatever zone their device is in.
+ */
+const JobCalendar: React.FC<{
+  technicianUid: string;
+  jobs: ServiceRequest[];
+  blocks: AvailabilityBlock[];
+  workingHours: WorkingHours;
+  timeZone: string;
+  onSelectJob: (job: ServiceRequest) => void;
+}> = ({ technicianUid, jobs: allJobs, blocks, workingHours, timeZone, onSelectJob }) => {
+  const { handleRescheduleRequest } = useAppContext();
+  const [mode, setMode] = useState<CalendarMode>('week');
+  const [anchor, setAnchor] = useState(() => new Date());
+  const [blockedSlotsByDay, setBlockedSlotsByDay] = useState<Record<string, string[]>>({});
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [isMoving, setIsMoving] = useState(false);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+  // Cancelled jobs only matter to the export.
+  const jobs = useMemo(() => allJobs.filter(job => job.status !== RequestStatus.CANCELLED), [allJobs]);
+
+  const weekDays = useMemo(() => Array.from({ length: 7 }, (_, index) => addDays(startOfWeek(anchor), index)), [anchor]);
+
+  // Slots blocked one day at a time live in per-day schedule documents; fetch the week's.
+  useEffect(() => {
+    if (mode !== 'week') return;
+    let isCurrent = true;
+    Promise.all(weekDays.map(day => scheduleRepository.findForTechnicians([technicianUid], day)))
+      .then(results => {
+        if (!isCurrent) return;
+        const byDay: Record<string, string[]> = {};
+        results.forEach((schedules, index) => {
+          byDay[weekDays[index].toDateString()] = schedules.flatMap(schedule => schedule.unavailableSlots || []);
+        });
+        setBlockedSlotsByDay(byDay);
+      })
+      .catch(error => console.error("Error loading blocked slots (JobCalendar.tsx):", error));
+    return () => { isCurrent = false; };
+  }, [mode, weekDays, technicianUid]);
+
+  const isToday = (day: Date) => toDateKey(day) === getZonedDateKey(new Date(), timeZone);
+
+  const jobsOn = (day: Date) => jobs
+    .filter(job => getJobDayKey(job, timeZone) === toDateKey(day))
+    .sort((a, b) => new Date(a.dateTime).getTime() - new Date(b.dateTime).getTime());
+
+  const moveJob = async (job: ServiceRequest, newStart: Date) => {
+    setMessage(null);
+    const policy = getChangePolicy(job);
+    if (!policy.allowed) {
+      setMessage({ text: policy.message, isError: true });
+      return;
+    }
+    if (newStart.getTime() === new Date(job.dateTime).getTime()) return;
+
+    setIsMoving(true);
+    try {
+      const isFree = await isAvailableAt(getRequestCategoryId(job), newStart, {
+        technicianUid,
+        excludeRequestId: job.id,
+        durationMinutes: getRequestDuration(job),
+        timeZone: getRequestTimeZone(job),
+      });
+      const when = formatAppointment(newStart.toISOString(), getRequestTimeZone(job), { weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' }, timeZone);
+      if (!isFree) {
+        setMessage({ text: `You're not free for this job at ${when}. It needs ${getRequestDuration(job)} clear minutes within your working hours.`, isError: true });
+        return;
+      }
+      if (!window.confirm(`Move the ${job.serviceCategory} job for ${job.customerName} to ${when}? They'll be notified.`)) return;
+      await handleRescheduleRequest(job.id, newStart.toISOString());
+      setMessage({ text: `Moved to ${when}.`, isError: false });
+    } catch (err) {
+      if (err instanceof RequestTransitionError) {
+        setMessage({ text: err.message, isError: true });
+      } else {
+        console.error("Error moving job (JobCalendar.tsx):", err);
+        setMessage({ text: 'Could not move the job. Please try again.', isError: true });
+      }
+    } finally {
+      setIsMoving(false);
+    }
+  };
+
+  const draggedJob = jobs.find(job => job.id === draggingId);
+
+  // Dropping on a week column lands on the nearest slot start to where the job was let go.
+  const handleWeekDrop = (day: Date, offsetY: number, firstHour: number) => {
+    if (!draggedJob) return;
+    const dropped = firstHour * 60 + (offsetY / HOUR_HEIGHT) * 60;
+    const starts = getDaySlots(workingHours, day).map(slot => slot.start);
+    if (starts.length === 0) {
+      setMessage({ text: "You don't work on that day.", isError: true });
+      return;
+    }
+    const start = starts.reduce((best, candidate) => Math.abs(candidate - dropped) < Math.abs(best - dropped) ? candidate : best);
+    moveJob(draggedJob, zonedTimeToUtc(toDateKey(day), start, timeZone));
+  };
+
+  // Dropping on a month day keeps the job's time of day.
+  const handleMonthDrop = (day: Date) => {
+    if (!draggedJob) return;
+    moveJob(draggedJob, zonedTimeToUtc(toDateKey(day), getJobStart(draggedJob, timeZone), timeZone));
+  };
+
+  const dragProps = (job: ServiceRequest) => canMove(job) && !isMoving ? {
+    draggable: true,
+    onDragStart: (e: React.DragEvent) => { e.dataTransfer.setData('text/plain', job.id); setDraggingId(job.id); },
+    onDragEnd: () => setDraggingId(null),
+  } : {};
+
+  const shift = (direction: number) => setAnchor(current => mode === 'month'
+    ? new Date(current.getFullYear(), current.getMonth() + direction, 1)
+    : addDays(current, direction * 7));
+
+  const title = mode === 'month'
+    ? anchor.toLocaleDateString(undefined, { month: 'long', year: 'numeric' })
+    : mode === 'week'
+      ? `${weekDays[0].toLocaleDateString(undefined, { month: 'short', day: 'numeric' })} - ${weekDays[6].toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' })}`
+      : 'Upcoming jobs';
+
+  const renderAgenda = () => {
+    const todayKey = getZonedDateKey(new Date(), timeZone);
+    const upcoming = jobs
+      .filter(job => job.status !== RequestStatus.COMPLETED && getJobDayKey(job, timeZone) >= todayKey)
+      .sort((a, b) => new Date(a.dateTime).getTime() - new Date(b.dateTime).getTime());
+    if (upcoming.length === 0) {
+      return <p className="text-center text-slate-500 p-6 bg-slate-50 rounded-lg">No upcoming jobs.</p>;
+    }
+    const days = Array.from(new Set(upcoming.map(job => getJobDayKey(job, timeZone)))).map(fromDateKey);
+    return (
+      <div className="space-y-4">
+        {days.map(day => (
+          <div key={day.toDateString()}>
+            <p className="text-sm font-semibold text-slate-600 mb-2">{day.toLocaleDateString(undefined, { weekday: 'long', month: 'long', day: 'numeric' })}</p>
+            <ul className="space-y-2">
+              {getBlockedIntervals(blocks, day).map(({ block }) => (
+                <li key={block.id} className="text-xs text-amber-800 bg-amber-50 rounded px-3 py-1">Blocked · {block.note || describeBlock(block)}</li>
+              ))}
+              {upcoming.filter(job => getJobDayKey(job, timeZone) === toDateKey(day)).map(job => (
+                <li key={job.id}>
+                  <button type="button" onClick={() => onSelectJob(job)} className={`w-full text-left rounded-lg px-3 py-2 ${jobClassName(job)} hover:shadow`}>
+                    <span className="font-semibold">{formatJobTime(job, timeZone)}</span> · {job.serviceCategory} · {job.customerName}
+                    <span className="block text-xs opacity-75">{job.status} · {job.urgency}</span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  const renderWeek = () => {
+    // Show every working hour of the week, plus any job that falls outside them.
+    const minutes = weekDays.flatMap(day => [
+      ...getWorkingPeriods(workingHours, day).flatMap(period => [period.start, period.end]),
+      ...jobsOn(day).flatMap(job => {
+        const start = getJobStart(job, timeZone);
+        return [start, start + getRequestDuration(job)];
+      }),
+    ]);
+    const firstHour = minutes.length ? Math.floor(Math.min(...minutes) / 60) : 8;
+    const lastHour = minutes.length ? Math.min(24, Math.ceil(Math.max(...minutes) / 60)) : 17;
+    const hours = Array.from({ length: lastHour - firstHour }, (_, index) => firstHour + index);
+    const toTop = (minute: number) => ((minute - firstHour * 60) / 60) * HOUR_HEIGHT;
+    const clamp = (interval: { start: number; end: number }) => ({
+      start: Math.max(interval.start, firstHour * 60),
+      end: Math.min(interval.end, lastHour * 60),
+    });
+
+    return (
+      <div className="overflow-x-auto">
+        <div className="grid grid-cols-[3rem_repeat(7,minmax(6rem,1fr))] min-w-[48rem]">
+          <div />
+          {weekDays.map(day => (
+            <div key={day.toDateString()} className={`text-center text-sm pb-2 ${isToday(day) ? 'font-bold text-indigo-600' : 'text-slate-600'}`}>
+              {DAY_NAMES[day.getDay()]} {day.getDate()}
+            </div>
+          ))}
+          <div className="relative" style={{ height: hours.length * HOUR_HEIGHT }}>
+            {hours.map(hour => (
+              <div key={hour} className="absolute right-1 text-xs text-slate-400 -translate-y-2" style={{ top: (hour - firstHour) * HOUR_HEIGHT }}>{formatTime(hour * 60)}</div>
+            ))}
+          </div>
+          {weekDays.map(day => {
+            const blocked = [
+              ...getBlockedIntervals(blocks, day).map(({ start, end, block }) => ({ start, end, label: block.note || describeBlock(block) })),
+              ...(blockedSlotsByDay[day.toDateString()] || []).map(slot => ({ ...parseSlotLabel(slot), label: 'Unavailable' })),
+            ];
+            return (
+              <div
+                key={day.toDateString()}
+                className={`relative border-l border-slate-200 bg-slate-100 ${draggingId ? 'outline-dashed outline-1 outline-indigo-300' : ''}`}
+                style={{ height: hours.length * HOUR_HEIGHT }}
+                onDragOver={(e) => e.preventDefault()}
+                onDrop={(e) => { e.preventDefault(); handleWeekDrop(day, e.clientY - e.currentTarget.getBoundingClientRect().top, firstHour); }}
+              >
+                {hours.map(hour => <div key={hour} className="absolute inset-x-0 border-t border-slate-200" style={{ top: (hour - firstHour) * HOUR_HEIGHT }} />)}
+                {getWorkingPeriods(workingHours, day).map(clamp).map(period => (
+                  <div key={period.start} className="absolute inset-x-0 bg-white/80" style={{ top: toTop(period.start), height: toTop(period.end) - toTop(period.start) }} />
+                ))}
+                {blocked.map(interval => ({ ...interval, ...clamp(interval) })).filter(interval => interval.end > interval.start).map((interval, index) => (
+                  <div
+                    key={index}
+                    title={interval.label}
+                    className="absolute inset-x-0 bg-amber-100/80 bg-[repeating-linear-gradient(45deg,transparent,transparent_6px,rgba(217,119,6,0.15)_6px,rgba(217,119,6,0.15)_12px)] text-[10px] text-amber-800 px-1 overflow-hidden"
+                    style={{ top: toTop(interval.start), height: toTop(interval.end) - toTop(interval.start) }}
+                  >
+                    {interval.label}
+                  </div>
+                ))}
+                {jobsOn(day).map(job => {
+                  const start = getJobStart(job, timeZone);
+                  return (
+                    <button
+                      key={job.id}
+                      type="button"
+                      onClick={() => onSelectJob(job)}
+                      {...dragProps(job)}
+                      className={`absolute inset-x-1 rounded-md px-1.5 py-1 text-left text-xs shadow-sm overflow-hidden hover:shadow-md ${jobClassName(job)} ${canMove(job) ? 'cursor-grab' : ''} ${draggingId === job.id ? 'opacity-50' : ''}`}
+                      style={{ top: toTop(start), height: Math.max(toTop(start + getRequestDuration(job)) - toTop(start), 20) }}
+                    >
+                      <span className="font-semibold block truncate">{job.serviceCategory}</span>
+                      <span className="block truncate">{formatJobTime(job, timeZone)} · {job.customerName}</span>
+                    </button>
+                  );
+                })}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    );
+  };
+
+  const renderMonth = () => {
+    const year = anchor.getFullYear();
+    const month = anchor.getMonth();
+    const days: (Date | null)[] = Array.from({ length: new Date(year, month, 1).getDay() }, () => null);
+    for (let day = 1; day <= new Date(year, month + 1, 0).getDate(); day++) days.push(new Date(year, month, day));
+
+    return (
+      <div className="grid grid-cols-7 gap-1 text-sm">
+        {DAY_NAMES.map(day => <div key={day} className="text-center font-medium text-slate-500">{day}</div>)}
+        {days.map((day, index) => {
+          if (!day) return <div key={index} />;
+          const dayBlocks = getBlockedIntervals(blocks, day);
+          const isDayOff = dayBlocks.some(({ block }) => block.kind === 'time-off') || getWorkingPeriods(workingHours, day).length === 0;
+          const dayJobs = jobsOn(day);
+          return (
+            <div
+              key={index}
+              className={`min-h-24 rounded-lg p-1 border ${isDayOff ? 'bg-slate-100 border-slate-200' : 'bg-white border-slate-200'} ${isToday(day) ? 'ring-2 ring-indigo-400' : ''}`}
+              onDragOver={(e) => e.preventDefault()}
+              onDrop={(e) => { e.preventDefault(); handleMonthDrop(day); }}
+            >
+              <p className="text-xs font-semibold text-slate-500">{day.getDate()}</p>
+              {dayBlocks.map(({ block }) => (
+                <p key={block.id} className="text-[10px] text-amber-800 bg-amber-50 rounded px-1 truncate" title={describeBlock(block)}>{block.note || 'Blocked'}</p>
+              ))}
+              {dayJobs.map(job => (
+                <button key={job.id} type="button" onClick={() => onSelectJob(job)} {...dragProps(job)}
+                  className={`mt-0.5 w-full text-left text-[11px] rounded px-1 truncate ${jobClassName(job)} ${canMove(job) ? 'cursor-grab' : ''}`}
+                >
+                  {formatTime(getJobStart(job, timeZone))} {job.serviceCategory}
+                </button>
+              ))}
+            </div>
+          );
+        })}
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <div className="flex items-center space-x-2">
+          {mode !== 'agenda' && (
+            <button type="button" aria-label={`Previous ${mode}`} onClick={() => shift(-1)} className="p-2 rounded-full hover:bg-slate-200"><ChevronLeftIcon className="w-5 h-5" /></button>
+          )}
+          <p className="font-semibold text-slate-700 text-lg">{title}</p>
+          {mode !== 'agenda' && (
+            <button type="button" aria-label={`Next ${mode}`} onClick={() => shift(1)} className="p-2 rounded-full hover:bg-slate-200"><ChevronRightIcon className="w-5 h-5" /></button>
+          )}
+          {mode !== 'agenda' && (
+            <button type="button" onClick={() => setAnchor(new Date())} className="text-sm font-semibold text-indigo-600 hover:text-indigo-800 px-2">Today</button>
+          )}
+        </div>
+        <div className="flex items-center space-x-4">
+          <CalendarDownloadButton requests={getUpcomingCalendarRequests(allJobs)} name="My jobs" viewer="technician" timeZone={timeZone} label="Export to calendar" />
+          <div className="flex bg-slate-100 rounded-lg p-1 text-sm">
+            {(['agenda', 'week', 'month'] as CalendarMode[]).map(option => (
+              <button
+                key={option}
+                type="button"
+                aria-pressed={mode === option}
+                onClick={() => setMode(option)}
+                className={`px-3 py-1 rounded-md font-semibold capitalize ${mode === option ? 'bg-white text-indigo-700 shadow-sm' : 'text-slate-600 hover:text-slate-800'}`}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {mode === 'agenda' && renderAgenda()}
+      {mode === 'week' && renderWeek()}
+      {mode === 'month' && renderMonth()}
+
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-1 mt-4 text-xs text-slate-500">
+        <span className="flex items-center"><span className="w-3 h-3 rounded bg-indigo-100 mr-1.5" />Accepted</span>
+        <span className="flex items-center"><span className="w-3 h-3 rounded bg-green-100 mr-1.5" />In progress</span>
+        <span className="flex items-center"><span className="w-3 h-3 rounded bg-slate-100 border border-slate-200 mr-1.5" />Completed / not working</span>
+        <span className="flex items-center"><span className="w-3 h-3 rounded bg-amber-100 mr-1.5" />Blocked</span>
+        <span className="flex items-center"><span className="w-1 h-3 bg-red-500 mr-1.5" />Emergency</span>
+        <span className="flex items-center"><span className="w-1 h-3 bg-yellow-500 mr-1.5" />High</span>
+        {mode !== 'agenda' && <span>Drag an accepted job to move it.</span>}
+      </div>
+      {message && (
+        <p role={message.isError ? 'alert' : 'status'} className={`mt-4 text-sm font-medium p-3 rounded-lg ${message.isError ? 'text-red-700 bg-red-50' : 'text-green-700 bg-green-50'}`}>
+          {message.text}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default JobCalendar;
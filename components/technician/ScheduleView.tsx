@@ -1,42 +1,38 @@
 import React, { useState, useMemo, useEffect } from 'react';
-import { db } from '@/services/firebase';
 import { useAuth } from '@/contexts/AuthContext';
-import { doc, onSnapshot, setDoc, arrayUnion, arrayRemove } from 'firebase/firestore';
+import { useAppContext } from '@/contexts/AppContext';
+import { scheduleRepository } from '@/services/repositories';
+import { AvailabilityBlock, RequestStatus, ServiceRequest } from '@/shared/types';
+import { describeBlock, getBlockedIntervals, getDaySlots, getRequestDuration, getWorkingHours, overlaps, toDateKey } from '@/shared/workingHours';
+import { getDeviceTimeZone, getProfileTimeZone, getZonedDateKey, getZonedMinutes } from '@/shared/timeZones';
 import { CalendarIcon, ChevronLeftIcon, ChevronRightIcon, SpinnerIcon } from '@/components/common/icons';
+import WorkingHoursEditor from './WorkingHoursEditor';
+import AvailabilityBlocksPanel from './AvailabilityBlocksPanel';
+import JobCalendar from './JobCalendar';
+import RequestModal from '@/components/modals/RequestModal';
 
-// A helper function to format dates to "YYYY-MM-DD" for Firestore
-const formatDateForFirestore = (date: Date): string => {
-    return date.toISOString().split('T')[0];
-};
-
-const timeSlots = ['09:00 - 11:00', '11:00 - 13:00', '13:00 - 15:00', '15:00 - 17:00'];
 const daysOfWeek = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
 
 const ScheduleView: React.FC = () => {
     const { userProfile } = useAuth();
+    const { requests } = useAppContext();
     const [displayDate, setDisplayDate] = useState(new Date());
     const [selectedDate, setSelectedDate] = useState(new Date());
     const [unavailableSlots, setUnavailableSlots] = useState<string[]>([]);
     const [isLoading, setIsLoading] = useState(true);
+    const [blocks, setBlocks] = useState<AvailabilityBlock[]>([]);
+    const [selectedJobId, setSelectedJobId] = useState<string | null>(null);
 
     // This hook fetches the technician's schedule for the selected date in real-time
     useEffect(() => {
         if (!userProfile || !selectedDate) return;
 
         setIsLoading(true);
-        const formattedDate = formatDateForFirestore(selectedDate);
-        // The document ID is a combination of the user's UID and the date
-        const docId = `${userProfile.uid}_${formattedDate}`;
-        const scheduleDocRef = doc(db, 'technicianSchedules', docId);
-
-        const unsubscribe = onSnapshot(scheduleDocRef, (docSnap) => {
-            if (docSnap.exists()) {
-                // If a schedule document exists, get the unavailable slots
-                setUnavailableSlots(docSnap.data().unavailableSlots || []);
-            } else {
-                // If no document exists, it means all slots are available
-                setUnavailableSlots([]);
-            }
+        const unsubscribe = scheduleRepository.subscribeDay(userProfile.uid, selectedDate, (slots) => {
+            setUnavailableSlots(slots);
+            setIsLoading(false);
+        }, (error) => {
+            console.error("Error in schedule listener (ScheduleView.tsx):", error);
             setIsLoading(false);
         });
 
@@ -44,29 +40,62 @@ const ScheduleView: React.FC = () => {
         return () => unsubscribe();
     }, [selectedDate, userProfile]);
 
+    // Recurring blocks and time off apply across days, so they're loaded once.
+    useEffect(() => {
+        if (!userProfile) return;
+        const unsubscribe = scheduleRepository.subscribeBlocks(userProfile.uid, setBlocks, (error) => {
+            console.error("Error in availability blocks listener (ScheduleView.tsx):", error);
+        });
+        return () => unsubscribe();
+    }, [userProfile]);
+
     // This function handles clicking a time slot to make it available/unavailable
     const handleToggleSlotAvailability = async (slot: string) => {
         if (!userProfile || !selectedDate) return;
         
-        const formattedDate = formatDateForFirestore(selectedDate);
-        const docId = `${userProfile.uid}_${formattedDate}`;
-        const scheduleDocRef = doc(db, 'technicianSchedules', docId);
-
         const isCurrentlyUnavailable = unavailableSlots.includes(slot);
 
         try {
-            // Using setDoc with { merge: true } is safe. It creates the document if it
-            // doesn't exist, and just updates the field if it does.
-            await setDoc(scheduleDocRef, {
-                technicianUid: userProfile.uid,
-                date: formattedDate,
-                unavailableSlots: isCurrentlyUnavailable ? arrayRemove(slot) : arrayUnion(slot)
-            }, { merge: true });
+            await scheduleRepository.setSlotUnavailable(userProfile.uid, selectedDate, slot, !isCurrentlyUnavailable);
         } catch (error) {
             console.error("Error updating schedule:", error);
         }
     };
 
+    // Lifts a recurring block or time off for the selected day only.
+    const handleWorkAnyway = async (block: AvailabilityBlock) => {
+        try {
+            await scheduleRepository.setException(block.id, toDateKey(selectedDate), true);
+        } catch (error) {
+            console.error("Error updating availability block:", error);
+        }
+    };
+
+    const workingHours = getWorkingHours(userProfile);
+    // The technician's hours, blocks and calendar all read on their own clock.
+    const timeZone = getProfileTimeZone(userProfile);
+    const daySlots = useMemo(() => getDaySlots(workingHours, selectedDate), [workingHours, selectedDate]);
+
+    // Cancelled jobs are kept so a calendar export can tell calendar apps to drop them.
+    const myJobs = useMemo(() => requests.filter(request => request.assignedTechnicianUid === userProfile?.uid), [requests, userProfile]);
+
+    // The technician's own jobs on the selected day, as minutes since midnight.
+    const bookedTimes = useMemo(() => myJobs
+        .filter(request => request.status !== RequestStatus.CANCELLED)
+        .filter(request => getZonedDateKey(new Date(request.dateTime), timeZone) === toDateKey(selectedDate))
+        .map(request => {
+            const start = getZonedMinutes(new Date(request.dateTime), timeZone);
+            return { start, end: start + getRequestDuration(request), label: request.serviceCategory };
+        }), [myJobs, selectedDate, timeZone]);
+
+    // Looked up by id so the modal follows live updates, e.g. after the job is moved.
+    const selectedJob = myJobs.find(job => job.id === selectedJobId);
+
+    const blockedTimes = useMemo(() => getBlockedIntervals(blocks, selectedDate), [blocks, selectedDate]);
+
+    // Slots blocked under a previous template that no longer line up with the current one.
+    const otherBlockedSlots = unavailableSlots.filter(slot => !daySlots.some(daySlot => daySlot.label === slot));
+
     // This memoized value calculates the days to display in the calendar grid
     const calendarDays = useMemo(() => {
         const year = displayDate.getFullYear();
@@ -83,7 +112,23 @@ const ScheduleView: React.FC = () => {
 
     return (
         <div className="p-8">
-            <h2 className="text-3xl font-bold text-slate-800 mb-6 animate-fade-in">Manage Your Availability</h2>
+            <h2 className="text-3xl font-bold text-slate-800 mb-2 animate-fade-in">Your Schedule</h2>
+            <p className="text-sm text-slate-500 mb-6">
+                Times are shown in {timeZone}{timeZone !== getDeviceTimeZone() && `, not ${getDeviceTimeZone()} where this device is`}.
+            </p>
+            {userProfile && (
+                <div className="mb-8">
+                    <JobCalendar
+                        technicianUid={userProfile.uid}
+                        jobs={myJobs}
+                        blocks={blocks}
+                        workingHours={workingHours}
+                        timeZone={timeZone}
+                        onSelectJob={(job: ServiceRequest) => setSelectedJobId(job.id)}
+                    />
+                </div>
+            )}
+            <h3 className="text-xl font-bold text-slate-800 mb-4">Manage Your Availability</h3>
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
                 {/* Calendar Section */}
                 <div className="bg-white p-6 rounded-xl shadow-sm">
@@ -97,18 +142,30 @@ const ScheduleView: React.FC = () => {
                         {calendarDays.map((day, index) => {
                            if (!day) return <div key={index} />;
                            const isSelected = selectedDate && day.toDateString() === selectedDate.toDateString();
-                           const isToday = day.toDateString() === new Date().toDateString();
+                           const isToday = toDateKey(day) === getZonedDateKey(new Date(), timeZone);
+                           const dayBlocks = getBlockedIntervals(blocks, day);
+                           const isDayOff = dayBlocks.some(blocked => blocked.block.kind === 'time-off');
                            return (
                              <div key={index} className="flex justify-center items-center">
-                               <button type="button" onClick={() => setSelectedDate(day)} className={`w-10 h-10 rounded-full transition-colors 
+                               <button type="button" onClick={() => setSelectedDate(day)} title={dayBlocks.map(blocked => blocked.block.note || describeBlock(blocked.block)).join('\n') || undefined} className={`relative w-10 h-10 rounded-full transition-colors 
                                  ${isSelected ? 'bg-indigo-600 text-white font-bold' : ''}
                                  ${!isSelected && isToday ? 'ring-2 ring-indigo-400' : ''}
-                                 ${!isSelected ? 'text-slate-700 hover:bg-indigo-100' : ''}
-                               `}>{day.getDate()}</button>
+                                 ${!isSelected && isDayOff ? 'bg-amber-100 text-amber-800 line-through hover:bg-amber-200' : ''}
+                                 ${!isSelected && !isDayOff ? 'text-slate-700 hover:bg-indigo-100' : ''}
+                               `}>
+                                 {day.getDate()}
+                                 {!isDayOff && dayBlocks.length > 0 && <span aria-hidden="true" className="absolute bottom-1 left-1/2 -translate-x-1/2 w-1.5 h-1.5 rounded-full bg-amber-500" />}
+                               </button>
                              </div>
                            );
                         })}
                     </div>
+                    {blocks.length > 0 && (
+                        <div className="flex items-center space-x-4 mt-4 text-xs text-slate-500">
+                            <span className="flex items-center"><span className="w-3 h-3 rounded-full bg-amber-100 mr-1.5" />Time off</span>
+                            <span className="flex items-center"><span className="w-1.5 h-1.5 rounded-full bg-amber-500 mr-1.5" />Partly blocked</span>
+                        </div>
+                    )}
                 </div>
 
                 {/* Time Slots Section */}
@@ -118,9 +175,32 @@ const ScheduleView: React.FC = () => {
                          <div className="flex justify-center items-center h-32">
                              <SpinnerIcon className="w-8 h-8 text-indigo-600 animate-spin" />
                          </div>
+                    ) : daySlots.length === 0 ? (
+                        <p className="text-center text-slate-500 p-6 bg-slate-50 rounded-lg">You don't work on this day. Change your working hours below to take jobs.</p>
                     ) : (
                         <div className="grid grid-cols-2 gap-3">
-                            {timeSlots.map(slot => {
+                            {daySlots.map(({ start, end, label: slot }) => {
+                                const booking = bookedTimes.find(job => overlaps(job, { start, end }));
+                                if (booking) {
+                                    return (
+                                        <div key={slot} className="p-3 rounded-lg text-sm font-semibold border-2 bg-indigo-50 text-indigo-700 border-indigo-200 text-center">
+                                            <p>{slot}</p>
+                                            <p className="font-normal">Booked · {booking.label}</p>
+                                        </div>
+                                    );
+                                }
+                                const blocked = blockedTimes.find(interval => overlaps(interval, { start, end }));
+                                if (blocked) {
+                                    return (
+                                        <div key={slot} className="p-3 rounded-lg text-sm font-semibold border-2 bg-amber-50 text-amber-800 border-amber-200 text-center">
+                                            <p>{slot}</p>
+                                            <p className="font-normal">Blocked · {blocked.block.note || describeBlock(blocked.block)}</p>
+                                            <button type="button" onClick={() => handleWorkAnyway(blocked.block)} className="mt-1 text-xs font-semibold text-indigo-600 hover:text-indigo-800">
+                                                Work this day anyway
+                                            </button>
+                                        </div>
+                                    );
+                                }
                                 const isUnavailable = unavailableSlots.includes(slot);
                                 return (
                                     <button
@@ -140,8 +220,27 @@ const ScheduleView: React.FC = () => {
                             })}
                         </div>
                     )}
+                    {!isLoading && otherBlockedSlots.length > 0 && (
+                        <div className="mt-4">
+                            <p className="text-sm text-slate-500 mb-2">Also blocked from before you changed your hours:</p>
+                            <div className="flex flex-wrap gap-2">
+                                {otherBlockedSlots.map(slot => (
+                                    <button key={slot} type="button" aria-label={`Unblock ${slot}`} onClick={() => handleToggleSlotAvailability(slot)} className="text-sm px-3 py-1 rounded-full bg-red-100 text-red-700 hover:bg-red-200">
+                                        {slot} ✕
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                    )}
                 </div>
             </div>
+            {userProfile && (
+                <div className="mt-8 grid grid-cols-1 lg:grid-cols-2 gap-8 items-start">
+                    <WorkingHoursEditor key={userProfile.uid} technicianUid={userProfile.uid} workingHours={workingHours} timeZone={timeZone} />
+                    <AvailabilityBlocksPanel technicianUid={userProfile.uid} blocks={blocks} jobs={myJobs} timeZone={timeZone} />
+                </div>
+            )}
+            {selectedJob && <RequestModal request={selectedJob} onClose={() => setSelectedJobId(null)} />}
         </div>
     );
 };
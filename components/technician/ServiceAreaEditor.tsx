@@ -0,0 +1,119 @@
+import React, { useState } from 'react';
+import { ServiceArea } from '@/shared/types';
+import { CheckIcon, SpinnerIcon } from '@/components/common/icons';
+import { userRepository } from '@/services/repositories';
+import { geocodeAddress } from '@/services/geocoding';
+import { formatAddress, parsePostalCodes } from '@/shared/serviceArea';
+
+const inputClassName = 'w-full border border-slate-300 rounded-md px-2 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500';
+
+/**
+ * Edits where a technician takes jobs: within a radius of their base, in a list of
+ * postal codes, or both. The base is also where job distances are measured from.
+ */
+const ServiceAreaEditor: React.FC<{ technicianUid: string; serviceArea: ServiceArea | null | undefined }> = ({ technicianUid, serviceArea }) => {
+  const [line1, setLine1] = useState(serviceArea?.base?.line1 || '');
+  const [city, setCity] = useState(serviceArea?.base?.city || '');
+  const [postalCode, setPostalCode] = useState(serviceArea?.base?.postalCode || '');
+  const [radiusKm, setRadiusKm] = useState(serviceArea?.radiusKm ? String(serviceArea.radiusKm) : '');
+  const [postalCodes, setPostalCodes] = useState((serviceArea?.postalCodes || []).join(', '));
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState<string | null>(null);
+
+  // Returns whether the area was saved.
+  const save = async (area: ServiceArea | null, message: string) => {
+    setError(null);
+    setIsSaving(true);
+    try {
+      await userRepository.setServiceArea(technicianUid, area);
+      setSaved(message);
+      return true;
+    } catch (err) {
+      console.error("Error saving service area (ServiceAreaEditor.tsx):", err);
+      setError('Could not save your service area. Please try again.');
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSave = async () => {
+    const radius = radiusKm.trim() ? Number(radiusKm) : null;
+    const codes = parsePostalCodes(postalCodes);
+    const hasBase = !!line1.trim() && !!city.trim() && !!postalCode.trim();
+
+    if (radius !== null && (!Number.isFinite(radius) || radius <= 0)) {
+      setError('The radius must be a distance in kilometres greater than zero.');
+      return;
+    }
+    if (radius !== null && !hasBase) {
+      setError('Enter your base address so the radius can be measured from it.');
+      return;
+    }
+    if (radius === null && codes.length === 0) {
+      setError('Enter a radius, some postal codes, or both. To take jobs anywhere, use "Work anywhere".');
+      return;
+    }
+
+    const base = hasBase ? await geocodeAddress({ line1: line1.trim(), city: city.trim(), postalCode: postalCode.trim() }) : null;
+    if (radius !== null && !base?.coordinates) {
+      setError(`We couldn't find ${base ? formatAddress(base) : 'your base address'} on the map. Check it, or list postal codes instead.`);
+      return;
+    }
+
+    const isSaved = await save({
+      ...(base ? { base } : {}),
+      ...(radius !== null ? { radiusKm: radius } : {}),
+      ...(codes.length > 0 ? { postalCodes: codes } : {}),
+    }, "Saved. You'll only see jobs in this area.");
+    if (isSaved) setPostalCodes(codes.join(', '));
+  };
+
+  const handleClear = async () => {
+    if (await save(null, "Saved. You'll see jobs wherever they are.")) {
+      setRadiusKm('');
+      setPostalCodes('');
+    }
+  };
+
+  return (
+    <div className="bg-white p-8 rounded-xl shadow-sm max-w-2xl mx-auto mt-6">
+      <h4 className="text-lg font-semibold text-gray-700">Service Area</h4>
+      <p className="text-sm text-slate-500 mt-1 mb-4">Jobs outside your area aren't offered to you. Leave it unset to see jobs everywhere.</p>
+      <div className="space-y-4">
+        <div>
+          <span className="block text-sm font-medium text-slate-700 mb-1">Base address</span>
+          <div className="grid grid-cols-1 sm:grid-cols-4 gap-2">
+            <input aria-label="Base street address" value={line1} onChange={(e) => { setSaved(null); setLine1(e.target.value); }} placeholder="Street address" className={`${inputClassName} sm:col-span-2`} />
+            <input aria-label="Base city" value={city} onChange={(e) => { setSaved(null); setCity(e.target.value); }} placeholder="City" className={inputClassName} />
+            <input aria-label="Base postal code" value={postalCode} onChange={(e) => { setSaved(null); setPostalCode(e.target.value); }} placeholder="Postal code" className={inputClassName} />
+          </div>
+          <p className="text-xs text-slate-500 mt-1">Job distances are measured from here.</p>
+        </div>
+        <label className="block">
+          <span className="block text-sm font-medium text-slate-700 mb-1">Radius (km)</span>
+          <input type="number" min="1" step="1" value={radiusKm} onChange={(e) => { setSaved(null); setRadiusKm(e.target.value); }} placeholder="e.g., 25" className={`${inputClassName} max-w-[8rem]`} />
+        </label>
+        <label className="block">
+          <span className="block text-sm font-medium text-slate-700 mb-1">Postal codes</span>
+          <textarea rows={2} value={postalCodes} onChange={(e) => { setSaved(null); setPostalCodes(e.target.value); }} placeholder="e.g., 62701, 62702" className={inputClassName} />
+          <span className="block text-xs text-slate-500 mt-1">Separate with commas. Jobs in these postal codes are offered to you even beyond your radius.</span>
+        </label>
+      </div>
+
+      {error && <p role="alert" className="mt-4 text-sm font-medium text-red-700 bg-red-50 p-3 rounded-lg">{error}</p>}
+      <div className="mt-4 flex flex-wrap items-center justify-end gap-3">
+        {saved && <span className="text-sm text-green-700">{saved}</span>}
+        <button type="button" onClick={handleClear} disabled={isSaving} className="font-semibold text-gray-700 bg-gray-200 py-2 px-5 rounded-lg hover:bg-gray-300 transition-colors disabled:opacity-60">
+          Work anywhere
+        </button>
+        <button type="button" onClick={handleSave} disabled={isSaving} className="flex items-center font-semibold text-white bg-indigo-600 py-2 px-5 rounded-lg hover:bg-indigo-700 transition-colors disabled:bg-slate-400">
+          {isSaving ? <SpinnerIcon className="w-5 h-5 mr-2 animate-spin" /> : <CheckIcon className="w-5 h-5 mr-2" />} Save Area
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ServiceAreaEditor;
@@ -3,14 +3,21 @@ import Sidebar, { NavItemType, View } from '@/components/common/Sidebar';
 import Header from '@/components/common/Header';
 import DashboardView from '@/components/technician/DashboardView';
 import ScheduleView from '@/components/technician/ScheduleView';
+import ServiceAreaEditor from '@/components/technician/ServiceAreaEditor';
 import InvoiceModal from '@/components/modals/InvoiceModal';
 import RatingModal from '@/components/modals/RatingModal';
-import { ServiceRequest, Message, Invoice, Rating, Conversation } from '@/shared/types';
+import { ServiceRequest, Message, Rating, Conversation, Notification } from '@/shared/types';
 import { ChatIcon, ProfileIcon, PencilIcon, PaperAirplaneIcon, CheckIcon, DashboardIcon, CalendarIcon, SpinnerIcon, StarIcon } from '@/components/common/icons';
-import { useAppContext } from '@/contexts/AppContext';
-import { useAuth, UserProfile } from '@/contexts/AuthContext';
-import { doc, addDoc, collection, serverTimestamp, updateDoc, query, orderBy, onSnapshot } from 'firebase/firestore';
-import { db } from '@/services/firebase';
+import { EstimateDraft, InvoiceDraft, useAppContext } from '@/contexts/AppContext';
+import { RequestTransitionError } from '@/shared/requestLifecycle';
+import { useAuth, UserProfile, ProfileUpdate } from '@/contexts/AuthContext';
+import AvatarUpload from '@/components/common/AvatarUpload';
+import ChangeEmailForm from '@/components/common/ChangeEmailForm';
+import SkillPicker from '@/components/common/SkillPicker';
+import { useCatalog } from '@/contexts/CatalogContext';
+import { getRootCategory, matchCategory } from '@/shared/categories';
+import { useNotifications } from '@/contexts/NotificationContext';
+import { conversationRepository } from '@/services/repositories';
 
 interface TechnicianPortalProps {
     onLogout: () => void;
@@ -25,9 +32,9 @@ const TECHNICIAN_NAV_ITEMS: NavItemType[] = [
 
 
 // --- Messages View Component (UPDATED) ---
-const MessagesView: React.FC = () => {
+const MessagesView: React.FC<{ focusConversationId?: string | null; onFocusHandled?: () => void }> = ({ focusConversationId, onFocusHandled }) => {
     const { userProfile } = useAuth();
-    const { conversations } = useAppContext();
+    const { conversations, handleSendMessage: sendMessage } = useAppContext();
     const [selectedConvId, setSelectedConvId] = useState<string | null>(null);
     const [messages, setMessages] = useState<Message[]>([]);
     const [newMessage, setNewMessage] = useState('');
@@ -39,6 +46,14 @@ const MessagesView: React.FC = () => {
         }
     }, [conversations, selectedConvId]);
 
+    // Jump to the conversation a notification pointed at.
+    useEffect(() => {
+        if (focusConversationId) {
+            setSelectedConvId(focusConversationId);
+            onFocusHandled?.();
+        }
+    }, [focusConversationId]);
+
     // NEW: This effect listens for messages within the selected conversation
     useEffect(() => {
         if (!selectedConvId) {
@@ -46,18 +61,9 @@ const MessagesView: React.FC = () => {
             return;
         }
 
-        const messagesQuery = query(
-            collection(db, 'conversations', selectedConvId, 'messages'),
-            orderBy('timestamp', 'asc')
-        );
-
-        const unsubscribe = onSnapshot(messagesQuery, (querySnapshot) => {
-            const messagesData: Message[] = querySnapshot.docs.map(doc => ({
-                id: doc.id,
-                ...doc.data()
-            } as Message));
+        const unsubscribe = conversationRepository.subscribeMessages(selectedConvId, (messagesData) => {
             setMessages(messagesData);
-        });
+        }, (error) => console.error("Error in messages listener:", error));
 
         return () => unsubscribe();
     }, [selectedConvId]);
@@ -74,19 +80,8 @@ const MessagesView: React.FC = () => {
         e.preventDefault();
         if (!newMessage.trim() || !selectedConvId || !userProfile) return;
 
-        const messagesCollectionRef = collection(db, 'conversations', selectedConvId, 'messages');
-
         try {
-            await addDoc(messagesCollectionRef, {
-                senderUid: userProfile.uid,
-                text: newMessage,
-                timestamp: serverTimestamp(),
-            });
-            const conversationDocRef = doc(db, 'conversations', selectedConvId);
-            await updateDoc(conversationDocRef, {
-                lastMessageText: newMessage,
-                updatedAt: serverTimestamp(),
-            });
+            await sendMessage(selectedConvId, newMessage);
             setNewMessage('');
         } catch (error) {
             console.error("Error sending message:", error);
@@ -183,28 +178,50 @@ const RatingDisplay: React.FC<{ rating: number }> = ({ rating }) => (
 );
 
 // --- Profile View Component (No changes in this section) ---
-const ProfileView: React.FC<{ userProfile: UserProfile; onUpdate: (profileData: Partial<UserProfile>) => void }> = ({ userProfile, onUpdate }) => {
+const ProfileView: React.FC<{ userProfile: UserProfile; onUpdate: (profileData: ProfileUpdate) => Promise<void> }> = ({ userProfile, onUpdate }) => {
     const [isEditing, setIsEditing] = useState(false);
+    const [isSaving, setIsSaving] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const { categories, getCategoryName } = useCatalog();
+    // Skills saved as free text before the catalog had ids are matched up as the form opens.
+    const initialSkills = () => Array.from(new Set((userProfile.skills || []).map(skill => {
+        const match = matchCategory(categories, skill);
+        return match ? getRootCategory(categories, match).id : skill;
+    })));
     const [formData, setFormData] = useState({
         fullName: userProfile.fullName,
-        skills: userProfile.skills?.join(', ') || ''
+        skills: initialSkills()
     });
 
 
-    const handleSave = () => {
+    const handleSave = async () => {
+        if (!formData.fullName.trim()) {
+            setError('Please enter your name.');
+            return;
+        }
         const updatedProfileData = {
-            fullName: formData.fullName,
-            skills: formData.skills.split(',').map(s => s.trim()).filter(Boolean),
+            fullName: formData.fullName.trim(),
+            skills: formData.skills,
         };
-        onUpdate(updatedProfileData);
-        setIsEditing(false);
+        setIsSaving(true);
+        setError(null);
+        try {
+            await onUpdate(updatedProfileData);
+            setIsEditing(false);
+        } catch (err) {
+            console.error("Error updating profile:", err);
+            setError('Could not save your profile. Please try again.');
+        } finally {
+            setIsSaving(false);
+        }
     };
 
     const handleCancel = () => {
         setFormData({
             fullName: userProfile.fullName,
-            skills: userProfile.skills?.join(', ') || ''
+            skills: initialSkills()
         });
+        setError(null);
         setIsEditing(false);
     };
 
@@ -220,7 +237,11 @@ const ProfileView: React.FC<{ userProfile: UserProfile; onUpdate: (profileData:
             </div>
             <div className="bg-white p-8 rounded-xl shadow-sm max-w-2xl mx-auto">
                 <div className="flex items-center">
-                    <img src={userProfile.avatarUrl} alt={userProfile.fullName} className="w-24 h-24 rounded-full border-4 border-indigo-500" />
+                    {isEditing ? (
+                        <AvatarUpload className="w-24 h-24 rounded-full border-4 border-indigo-500" />
+                    ) : (
+                        <img src={userProfile.avatarUrl} alt={userProfile.fullName} className="w-24 h-24 rounded-full border-4 border-indigo-500 object-cover" />
+                    )}
                     <div className="ml-6">
                         {isEditing ? (
                             <div>
@@ -253,54 +274,94 @@ const ProfileView: React.FC<{ userProfile: UserProfile; onUpdate: (profileData:
                     <h4 className="text-lg font-semibold text-gray-700 mb-4">Skills</h4>
                     {isEditing ? (
                         <div>
-                            <label htmlFor="technicianSkills" className="sr-only">Technician Skills</label>
-                            <textarea id="technicianSkills" value={formData.skills} onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => setFormData({ ...formData, skills: e.target.value })} rows={3} className="w-full p-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-indigo-500" />
-                            <p className="text-xs text-gray-500 mt-1">Enter skills separated by commas.</p>
+                            <SkillPicker value={formData.skills} onChange={(skills) => setFormData({ ...formData, skills })} />
+                            <p className="text-xs text-gray-500 mt-2">You'll be offered jobs in the categories you choose.</p>
                         </div>
                     ) : (
                         <div className="flex flex-wrap gap-2">
                             {userProfile.skills?.map(skill => (
-                                <span key={skill} className="bg-indigo-100 text-indigo-800 text-sm font-medium px-3 py-1 rounded-full">{skill}</span>
+                                <span key={skill} className="bg-indigo-100 text-indigo-800 text-sm font-medium px-3 py-1 rounded-full">{getCategoryName(skill)}</span>
                             ))}
                         </div>
                     )}
                 </div>
                 {isEditing && (
-                    <div className="mt-8 flex justify-end space-x-3">
-                        <button onClick={handleCancel} className="font-semibold text-gray-700 bg-gray-200 py-2 px-5 rounded-lg hover:bg-gray-300 transition-colors">Cancel</button>
-                        <button onClick={handleSave} className="flex items-center font-semibold text-white bg-green-600 py-2 px-5 rounded-lg hover:bg-green-700 transition-colors">
-                            <CheckIcon className="w-5 h-5 mr-2" /> Save Changes
-                        </button>
-                    </div>
+                    <>
+                        {error && <p className="mt-6 text-sm font-medium text-red-700 bg-red-50 p-3 rounded-lg">{error}</p>}
+                        <div className="mt-8 flex justify-end space-x-3">
+                            <button onClick={handleCancel} className="font-semibold text-gray-700 bg-gray-200 py-2 px-5 rounded-lg hover:bg-gray-300 transition-colors">Cancel</button>
+                            <button onClick={handleSave} disabled={isSaving} className="flex items-center font-semibold text-white bg-green-600 py-2 px-5 rounded-lg hover:bg-green-700 transition-colors disabled:bg-slate-400">
+                                {isSaving ? <SpinnerIcon className="w-5 h-5 mr-2 animate-spin" /> : <CheckIcon className="w-5 h-5 mr-2" />} Save Changes
+                            </button>
+                        </div>
+                    </>
                 )}
             </div>
+            <ServiceAreaEditor key={userProfile.uid} technicianUid={userProfile.uid} serviceArea={userProfile.serviceArea} />
+            <div className="bg-white p-8 rounded-xl shadow-sm max-w-2xl mx-auto mt-6">
+                <h4 className="text-lg font-semibold text-gray-700 mb-4">Email Address</h4>
+                <ChangeEmailForm />
+            </div>
         </div>
     );
 };
 
 
 const TechnicianPortal: React.FC<TechnicianPortalProps> = ({ onLogout }) => {
-    const { userProfile } = useAuth();
-    const { handleCreateInvoice, handleAddRating } = useAppContext();
+    const { userProfile, updateProfile } = useAuth();
+    const { handleCreateInvoice, handleReviseInvoice, handleSendEstimate, handleAddRating } = useAppContext();
     const [activeView, setActiveView] = useState<View>('dashboard');
     const [isSidebarCollapsed, setIsSidebarCollapsed] = useState(false);
     const [invoiceRequest, setInvoiceRequest] = useState<ServiceRequest | null>(null);
+    const [estimateRequest, setEstimateRequest] = useState<ServiceRequest | null>(null);
+    const [actionError, setActionError] = useState<string | null>(null);
     const [ratingRequest, setRatingRequest] = useState<ServiceRequest | null>(null);
+    const { notifications, markAsRead, markAllAsRead } = useNotifications();
+    const [focusRequestId, setFocusRequestId] = useState<string | null>(null);
+    const [focusConversationId, setFocusConversationId] = useState<string | null>(null);
+
+    const handleNotificationClick = useCallback((notification: Notification) => {
+        if (!notification.read) markAsRead(notification.id);
+        if (notification.link?.conversationId && !notification.link.requestId) {
+            setFocusConversationId(notification.link.conversationId);
+            setActiveView('messages');
+        } else if (notification.link?.requestId) {
+            setFocusRequestId(notification.link.requestId);
+            setActiveView('dashboard');
+        }
+    }, [markAsRead]);
 
-    const handleUpdateProfile = useCallback((updatedProfileData: Partial<UserProfile>) => {
-        console.log("Profile updated with:", updatedProfileData);
-    }, []);
 
-    const handleInvoiceSubmit = (invoice: Omit<Invoice, 'issuedDate'>) => {
-        if (invoiceRequest) {
-            handleCreateInvoice(invoiceRequest.id, invoice);
+    // A job that already has an invoice gets a revised one in its place.
+    const handleInvoiceSubmit = async (invoice: InvoiceDraft, reason: string) => {
+        if (!invoiceRequest) return;
+        try {
+            if (invoiceRequest.invoice) {
+                await handleReviseInvoice(invoiceRequest.id, invoice, reason);
+            } else {
+                await handleCreateInvoice(invoiceRequest.id, invoice);
+            }
+            setInvoiceRequest(null);
+        } catch (e) {
             setInvoiceRequest(null);
+            setActionError(e instanceof RequestTransitionError ? e.message : 'The invoice could not be saved. Please try again.');
+        }
+    };
+
+    const handleEstimateSubmit = async (estimate: EstimateDraft) => {
+        if (!estimateRequest) return;
+        try {
+            await handleSendEstimate(estimateRequest.id, estimate);
+            setEstimateRequest(null);
+        } catch (e) {
+            setEstimateRequest(null);
+            setActionError(e instanceof RequestTransitionError ? e.message : 'The estimate could not be sent. Please try again.');
         }
     };
 
-    const handleRatingSubmit = (rating: Rating) => {
+    const handleRatingSubmit = async (rating: Rating) => {
         if (ratingRequest) {
-            handleAddRating(ratingRequest.id, 'technician', rating);
+            await handleAddRating(ratingRequest.id, 'technician', rating);
             setRatingRequest(null);
         }
     };
@@ -318,16 +379,19 @@ const TechnicianPortal: React.FC<TechnicianPortalProps> = ({ onLogout }) => {
             case 'dashboard':
                 return <DashboardView
                     onOpenInvoiceModal={setInvoiceRequest}
+                    onOpenEstimateModal={setEstimateRequest}
                     onOpenRatingModal={setRatingRequest}
+                    focusRequestId={focusRequestId}
+                    onFocusHandled={() => setFocusRequestId(null)}
                 />;
             case 'schedule':
                 return <ScheduleView />;
             case 'messages':
-                return <MessagesView />;
+                return <MessagesView focusConversationId={focusConversationId} onFocusHandled={() => setFocusConversationId(null)} />;
             case 'profile':
-                return <ProfileView userProfile={userProfile} onUpdate={handleUpdateProfile} />;
+                return <ProfileView userProfile={userProfile} onUpdate={updateProfile} />;
             default:
-                return <DashboardView onOpenInvoiceModal={setInvoiceRequest} onOpenRatingModal={setRatingRequest} />;
+                return <DashboardView onOpenInvoiceModal={setInvoiceRequest} onOpenEstimateModal={setEstimateRequest} onOpenRatingModal={setRatingRequest} />;
         }
     };
 
@@ -344,12 +408,19 @@ const TechnicianPortal: React.FC<TechnicianPortalProps> = ({ onLogout }) => {
             <main className="flex-1 flex flex-col overflow-y-auto">
                 <Header
                     userProfile={userProfile}
-                    notifications={[]}
-                    onClearNotifications={() => { }}
+                    notifications={notifications}
+                    onClearNotifications={markAllAsRead}
+                    onNotificationClick={handleNotificationClick}
                     onLogout={onLogout}
                     setActiveView={setActiveView}
                 />
                 <div className="flex-1 main-content-bg animate-fade-in" key={activeView}>
+                    {actionError && (
+                        <div role="alert" className="mx-8 mt-6 flex items-center justify-between text-sm font-medium text-red-700 bg-red-50 border border-red-200 p-3 rounded-lg animate-fade-in">
+                            <span>{actionError}</span>
+                            <button onClick={() => setActionError(null)} className="ml-4 font-semibold text-red-800 hover:underline">Dismiss</button>
+                        </div>
+                    )}
                     {renderView()}
                 </div>
             </main>
@@ -357,11 +428,21 @@ const TechnicianPortal: React.FC<TechnicianPortalProps> = ({ onLogout }) => {
             {invoiceRequest && (
                 <InvoiceModal
                     request={invoiceRequest}
+                    kind={invoiceRequest.invoice ? 'revision' : 'invoice'}
                     onClose={() => setInvoiceRequest(null)}
                     onSubmit={handleInvoiceSubmit}
                 />
             )}
 
+            {estimateRequest && (
+                <InvoiceModal
+                    request={estimateRequest}
+                    kind="estimate"
+                    onClose={() => setEstimateRequest(null)}
+                    onSubmit={handleEstimateSubmit}
+                />
+            )}
+
             {ratingRequest && (
                 <RatingModal
                     title={`Rate Customer: ${ratingRequest.customerName}`}
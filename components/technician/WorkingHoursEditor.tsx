@@ -0,0 +1,155 @@
+import React, { useState } from 'react';
+import { WorkingHours, WorkingDay } from '@/shared/types';
+import { CheckIcon, PlusIcon, SpinnerIcon, TrashIcon } from '@/components/common/icons';
+import { userRepository } from '@/services/repositories';
+import { parseTime } from '@/shared/workingHours';
+import { getTimeZoneOptions } from '@/shared/timeZones';
+
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+// Monday first, as most people read a working week.
+const DAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+const SLOT_LENGTHS = [30, 45, 60, 90, 120];
+
+const timeInputClassName = 'border border-slate-300 rounded-md px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-indigo-500';
+
+// Returns a message describing the first problem with the template, or null if it's usable.
+const validate = (hours: WorkingHours): string | null => {
+  for (const dayIndex of DAY_ORDER) {
+    const day = hours.days[dayIndex];
+    if (!day.isWorking) continue;
+    const start = parseTime(day.start);
+    const end = parseTime(day.end);
+    if (end <= start) return `${DAY_NAMES[dayIndex]}: the day must end after it starts.`;
+    for (const pause of day.breaks) {
+      const breakStart = parseTime(pause.start);
+      const breakEnd = parseTime(pause.end);
+      if (breakEnd <= breakStart) return `${DAY_NAMES[dayIndex]}: each break must end after it starts.`;
+      if (breakStart < start || breakEnd > end) return `${DAY_NAMES[dayIndex]}: breaks must fall within working hours.`;
+    }
+  }
+  return null;
+};
+
+/**
+ * Edits a technician's weekly template: which days they work, their hours and breaks
+ * on each, how long each bookable slot is, and the time zone it all reads in.
+ */
+const WorkingHoursEditor: React.FC<{ technicianUid: string; workingHours: WorkingHours; timeZone: string }> = ({ technicianUid, workingHours, timeZone }) => {
+  const [draft, setDraft] = useState<WorkingHours>(workingHours);
+  const [draftTimeZone, setDraftTimeZone] = useState(timeZone);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  const updateDay = (dayIndex: number, changes: Partial<WorkingDay>) => {
+    setSaved(false);
+    setDraft(current => ({
+      ...current,
+      days: current.days.map((day, index) => index === dayIndex ? { ...day, ...changes } : day),
+    }));
+  };
+
+  const handleSave = async () => {
+    const problem = validate(draft);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    setError(null);
+    setIsSaving(true);
+    try {
+      await userRepository.setWorkingHours(technicianUid, draft, draftTimeZone);
+      setSaved(true);
+    } catch (err) {
+      console.error("Error saving working hours (WorkingHoursEditor.tsx):", err);
+      setError('Could not save your working hours. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-sm">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <h3 className="font-bold text-slate-800 text-lg">Working Hours</h3>
+        <label className="flex items-center text-sm text-slate-600">
+          Time zone
+          <select
+            value={draftTimeZone}
+            onChange={(e) => { setSaved(false); setDraftTimeZone(e.target.value); }}
+            className="ml-2 max-w-[12rem] border border-slate-300 rounded-md px-2 py-1 bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          >
+            {Array.from(new Set([draftTimeZone, ...getTimeZoneOptions()])).map(zone => <option key={zone} value={zone}>{zone}</option>)}
+          </select>
+        </label>
+        <label className="flex items-center text-sm text-slate-600">
+          Slot length
+          <select
+            value={draft.slotMinutes}
+            onChange={(e) => { setSaved(false); setDraft({ ...draft, slotMinutes: Number(e.target.value) }); }}
+            className="ml-2 border border-slate-300 rounded-md px-2 py-1 bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
+          >
+            {SLOT_LENGTHS.map(minutes => <option key={minutes} value={minutes}>{minutes} minutes</option>)}
+          </select>
+        </label>
+      </div>
+
+      <div className="divide-y divide-slate-100">
+        {DAY_ORDER.map(dayIndex => {
+          const day = draft.days[dayIndex];
+          return (
+            <div key={dayIndex} className="py-3 flex flex-wrap items-start gap-x-4 gap-y-2">
+              <label className="flex items-center w-32 font-medium text-slate-700 pt-1">
+                <input type="checkbox" checked={day.isWorking} onChange={(e) => updateDay(dayIndex, { isWorking: e.target.checked })} className="mr-2 rounded text-indigo-600 focus:ring-indigo-500" />
+                {DAY_NAMES[dayIndex]}
+              </label>
+              {day.isWorking ? (
+                <div className="flex-1 space-y-2">
+                  <div className="flex items-center space-x-2">
+                    <input type="time" aria-label={`${DAY_NAMES[dayIndex]} start`} value={day.start} onChange={(e) => updateDay(dayIndex, { start: e.target.value })} className={timeInputClassName} />
+                    <span className="text-slate-500">to</span>
+                    <input type="time" aria-label={`${DAY_NAMES[dayIndex]} end`} value={day.end} onChange={(e) => updateDay(dayIndex, { end: e.target.value })} className={timeInputClassName} />
+                    <button
+                      type="button"
+                      onClick={() => updateDay(dayIndex, { breaks: [...day.breaks, { start: '12:00', end: '13:00' }] })}
+                      className="flex items-center text-xs font-semibold text-indigo-600 hover:text-indigo-800"
+                    >
+                      <PlusIcon className="w-4 h-4 mr-1" /> Break
+                    </button>
+                  </div>
+                  {day.breaks.map((pause, breakIndex) => (
+                    <div key={breakIndex} className="flex items-center space-x-2 pl-4 text-sm">
+                      <span className="text-slate-500">Break</span>
+                      <input type="time" aria-label={`${DAY_NAMES[dayIndex]} break start`} value={pause.start}
+                        onChange={(e) => updateDay(dayIndex, { breaks: day.breaks.map((b, i) => i === breakIndex ? { ...b, start: e.target.value } : b) })}
+                        className={timeInputClassName} />
+                      <span className="text-slate-500">to</span>
+                      <input type="time" aria-label={`${DAY_NAMES[dayIndex]} break end`} value={pause.end}
+                        onChange={(e) => updateDay(dayIndex, { breaks: day.breaks.map((b, i) => i === breakIndex ? { ...b, end: e.target.value } : b) })}
+                        className={timeInputClassName} />
+                      <button type="button" aria-label="Remove break" onClick={() => updateDay(dayIndex, { breaks: day.breaks.filter((_, i) => i !== breakIndex) })} className="p-1 text-slate-400 hover:text-red-600">
+                        <TrashIcon className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="flex-1 text-sm text-slate-400 pt-1">Day off</p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {error && <p role="alert" className="mt-4 text-sm font-medium text-red-700 bg-red-50 p-3 rounded-lg">{error}</p>}
+      <div className="mt-4 flex items-center justify-end space-x-3">
+        {saved && <span className="text-sm text-green-700">Saved. Customers now see these hours.</span>}
+        <button type="button" onClick={handleSave} disabled={isSaving} className="flex items-center font-semibold text-white bg-indigo-600 py-2 px-5 rounded-lg hover:bg-indigo-700 transition-colors disabled:bg-slate-400">
+          {isSaving ? <SpinnerIcon className="w-5 h-5 mr-2 animate-spin" /> : <CheckIcon className="w-5 h-5 mr-2" />} Save Hours
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default WorkingHoursEditor;
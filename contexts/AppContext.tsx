@@ -1,23 +1,147 @@
 import React, { createContext, useState, useCallback, useContext, ReactNode, useEffect } from 'react';
-import { collection, onSnapshot, addDoc, updateDoc, doc, serverTimestamp, query, where, orderBy, Query, writeBatch } from 'firebase/firestore';
-import { db } from '@/services/firebase';
-import { ServiceRequest, Conversation, RequestStatus, Invoice, Rating } from '@/shared/types';
-import { useAuth } from './AuthContext';
-import { runTransaction } from 'firebase/firestore';
+import { ServiceRequest, Conversation, RequestStatus, Urgency, Invoice, CreditNote, Money, InvoiceBreakdown, Estimate, EstimateStatus, Rating, RequestHistoryAction, HistoryChange, NotificationType, NotificationLink, DispatchOffer, DispatchState } from '@/shared/types';
+import { assertTransition, assertChangeAllowed, isEscalationDue, isPendingExpired, RequestTransitionError } from '@/shared/requestLifecycle';
+import { CREDIT_NOTE_NUMBER_PREFIX, EMERGENCY_ESCALATION_MINUTES, INVOICE_NUMBER_PREFIX, PENDING_REQUEST_TIMEOUT_HOURS } from '@/shared/constants';
+import { getRequestCategoryId } from '@/shared/categories';
+import { formatAppointment as formatZonedAppointment, getRequestTimeZone } from '@/shared/timeZones';
+import { advanceDispatch, isOfferExpired, isOfferedToSomeoneElse, startDispatch, startPreferredDispatch } from '@/shared/dispatch';
+import { coversRequest } from '@/shared/serviceArea';
+import { formatMoney, subtractMoney } from '@/shared/money';
+import { formatDocumentNumber, getCreditedAmount, getInvoiceLabel } from '@/shared/invoices';
+import { findDispatchCandidates } from '@/services/dispatch';
+import { findCoveringTechnicians } from '@/services/availability';
+import { geocodeAddress } from '@/services/geocoding';
+import { requestRepository, conversationRepository, userRepository, counterRepository, runInTransaction, createBatch, DataWriter } from '@/services/repositories';
+import { useAuth, UserProfile } from './AuthContext';
+
+export interface NewRequestOptions {
+  // Offer the job to the best-matched technicians one at a time before posting it to the board.
+  autoDispatch?: boolean;
+  // Hold the job for this technician before posting it to the board. Takes precedence
+  // over auto-dispatch.
+  preferredTechnicianUid?: string;
+}
+
+// An invoice's lines and totals, as the technician prices them. The number and date are
+// added when it's issued.
+export type InvoiceDraft = Omit<Invoice, 'number' | 'revises' | 'creditedBy' | 'issuedDate'>;
+
+// An estimate's lines and totals, as the technician prices them.
+export type EstimateDraft = Pick<Estimate, 'items' | keyof InvoiceBreakdown>;
+
+export type EstimateResponse = Exclude<EstimateStatus, 'sent'>;
 
 interface AppContextState {
   requests: ServiceRequest[];
   conversations: Conversation[];
-  handleNewRequest: (newRequestData: Omit<ServiceRequest, 'id' | 'status' | 'paymentStatus' | 'assignedTechnicianUid'>) => void;
-  handleUpdateStatus: (id: string, status: RequestStatus) => void;
-  handleCreateInvoice: (requestId: string, invoice: Omit<Invoice, 'issuedDate'>) => void;
-  handleMarkAsPaid: (requestId: string) => void;
-  handleAddRating: (requestId: string, ratingBy: 'customer' | 'technician', rating: Rating) => void;
+  handleNewRequest: (newRequestData: Omit<ServiceRequest, 'id' | 'status' | 'paymentStatus' | 'assignedTechnicianUid'>, options?: NewRequestOptions) => Promise<void>;
+  handleUpdateStatus: (id: string, status: RequestStatus) => Promise<void>;
+  handleAcceptRequest: (id: string) => Promise<void>;
+  handleDeclineRequest: (id: string) => Promise<void>;
+  handleCancelRequest: (id: string, reason?: string) => Promise<void>;
+  handleRescheduleRequest: (id: string, newDateTime: string) => Promise<void>;
+  handleSendEstimate: (requestId: string, estimate: EstimateDraft) => Promise<void>;
+  handleRespondToEstimate: (requestId: string, response: EstimateResponse, note?: string) => Promise<void>;
+  handleCreateInvoice: (requestId: string, invoice: InvoiceDraft) => Promise<void>;
+  handleReviseInvoice: (requestId: string, invoice: InvoiceDraft, reason: string) => Promise<void>;
+  handleIssueCreditNote: (requestId: string, amount: Money, reason: string) => Promise<void>;
+  handleMarkAsPaid: (requestId: string) => Promise<void>;
+  handleAddRating: (requestId: string, ratingBy: 'customer' | 'technician', rating: Rating) => Promise<void>;
+  handleSendMessage: (conversationId: string, text: string) => Promise<void>;
+  handleAssignTechnician: (id: string, technicianUid: string) => Promise<void>;
+  handleResolvePayment: (requestId: string, resolution: 'paid' | 'void') => Promise<void>;
   setConversations: React.Dispatch<React.SetStateAction<Conversation[]>>;
 }
 
 const AppContext = createContext<AppContextState | undefined>(undefined);
 
+// Appends an entry to the request's audit trail as part of the same transaction as the
+// change it describes, so the history can never disagree with the request.
+const recordHistory = (writer: DataWriter, requestId: string, actor: UserProfile, action: RequestHistoryAction, changes: HistoryChange[]) => {
+  requestRepository.recordHistory(writer, requestId, {
+    action,
+    actorUid: actor.uid,
+    actorRole: actor.role,
+    actorName: actor.fullName,
+    changes,
+  });
+};
+
+// Adds a message to a request's conversation as part of a transaction, so the other
+// party sees the change alongside their chat. Does nothing if there's no conversation
+// yet (i.e. no technician has accepted the job).
+const postConversationMessage = (writer: DataWriter, conversationId: string, conversationExists: boolean, senderUid: string, text: string) => {
+  if (!conversationExists) return;
+  conversationRepository.addMessage(writer, conversationId, senderUid, text);
+};
+
+// Queues a notification for another user in the same write as the event it announces.
+// Users are never notified about their own actions.
+const queueNotification = (writer: DataWriter, actor: UserProfile, recipientUid: string | null | undefined, type: NotificationType, message: string, link: NotificationLink) => {
+  if (!recipientUid || recipientUid === actor.uid) return;
+  userRepository.addNotification(writer, recipientUid, { type, message, link });
+};
+
+// Written alongside every status change or reassignment, so calendar exports can tell the
+// updated event is newer than the one already imported.
+const countStatusChange = (request: Pick<ServiceRequest, 'statusChanges'>) => ({ statusChanges: (request.statusChanges || 0) + 1 });
+
+// Cancels the whole of `invoice` when it's withdrawn or replaced.
+const creditInFull = (invoice: Invoice, number: string, reason: string, issuedDate: string): CreditNote => ({
+  number,
+  invoiceNumber: invoice.number ?? null,
+  amount: invoice.total,
+  reason,
+  issuedDate,
+});
+
+// Messages and notifications are stored as text and read by people in other zones, so
+// times are written as they read at the job's location, with the zone named.
+const formatAppointment = (request: Pick<ServiceRequest, 'timeZone'>, dateTime: string) => {
+  const timeZone = getRequestTimeZone(request);
+  return formatZonedAppointment(dateTime, timeZone, { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' }, timeZone);
+};
+
+// "Plumbing job on Mar 8, 2:30 PM CST", or "Plumbing job needed as soon as possible".
+const describeJob = (request: Pick<ServiceRequest, 'serviceCategory' | 'dateTime' | 'asSoonAsPossible' | 'timeZone'>) => request.asSoonAsPossible
+  ? `${request.serviceCategory} job needed as soon as possible`
+  : `${request.serviceCategory} job on ${formatAppointment(request, request.dateTime)}`;
+
+// "15 minutes", "2 hours".
+const formatOfferWindow = (offer: DispatchOffer) => {
+  const minutes = Math.round((new Date(offer.expiresAt).getTime() - new Date(offer.offeredAt).getTime()) / 60000);
+  if (minutes % 60 === 0) return `${minutes / 60} hour${minutes === 60 ? '' : 's'}`;
+  return `${minutes} minutes`;
+};
+
+// Tells whoever should see a pending job next: the one technician it's offered to, or,
+// with no offer, every qualified technician who hasn't already declined it.
+const queueJobNotifications = (
+  writer: DataWriter,
+  actor: UserProfile,
+  requestId: string,
+  request: Pick<ServiceRequest, 'serviceCategory' | 'dateTime' | 'asSoonAsPossible' | 'timeZone' | 'urgency' | 'declinedBy' | 'customerName'>,
+  dispatch: DispatchState | null,
+  qualifiedTechUids: string[],
+) => {
+  const job = describeJob(request);
+  const prefix = request.urgency === Urgency.EMERGENCY ? 'Emergency: ' : '';
+  const offer = dispatch?.offer;
+  if (offer) {
+    const message = dispatch.preferred
+      ? `${prefix}${request.customerName} asked for you for a ${job}. Accept within ${formatOfferWindow(offer)} before it goes on the job board.`
+      : `${prefix}You've been matched to a ${job}. Accept within ${formatOfferWindow(offer)} before it's offered to someone else.`;
+    queueNotification(writer, actor, offer.technicianUid, 'job-offered', message, { requestId });
+    return;
+  }
+  qualifiedTechUids
+    .filter(uid => !request.declinedBy?.includes(uid))
+    .forEach(uid => queueNotification(writer, actor, uid, 'new-job', `${prefix}New ${job} posted.`, { requestId }));
+};
+
+// Shown in the history as who the job went to; 'Job board' once nobody holds it.
+const describeOffer = (offer: DispatchOffer | null | undefined) => offer ? offer.technicianName : 'Job board';
+
 export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
   const { userProfile } = useAuth();
   const [requests, setRequests] = useState<ServiceRequest[]>([]);
@@ -35,34 +159,33 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       return;
     }
 
-    const requestsCollection = collection(db, 'requests');
     let unsubscribeRequests: (() => void) | null = null;
     let unsubscribePending: (() => void) | null = null;
     let unsubscribeAssigned: (() => void) | null = null;
 
     if (userProfile.role === 'customer') {
       // Customer logic remains the same: fetch all requests where they are the customer.
-      const requestsQuery = query(requestsCollection, where("customerId", "==", userProfile.uid), orderBy('dateTime', 'desc'));
-      unsubscribeRequests = onSnapshot(requestsQuery, (snapshot) => {
-        const requestsData = snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as ServiceRequest));
+      unsubscribeRequests = requestRepository.subscribeForCustomer(userProfile.uid, (requestsData) => {
         setRequests(requestsData);
       }, (error) => console.error("Error in customer requests listener:", error));
 
     } else if (userProfile.role === 'technician') {
       // --- NEW TECHNICIAN LOGIC ---
       // Query 1: Get all PENDING jobs for the public job board.
-      const pendingQuery = query(requestsCollection, where("status", "==", RequestStatus.PENDING));
-      unsubscribePending = onSnapshot(pendingQuery, (snapshot) => {
-        const pendingData = snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as ServiceRequest));
-        setPendingRequests(pendingData);
+      unsubscribePending = requestRepository.subscribePending((requestsData) => {
+        setPendingRequests(requestsData);
       }, (error) => console.error("Error in pending requests listener:", error));
 
       // Query 2: Get all jobs ASSIGNED to this specific technician.
-      const assignedQuery = query(requestsCollection, where("assignedTechnicianUid", "==", userProfile.uid));
-      unsubscribeAssigned = onSnapshot(assignedQuery, (snapshot) => {
-        const assignedData = snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as ServiceRequest));
+      unsubscribeAssigned = requestRepository.subscribeAssignedTo(userProfile.uid, (assignedData) => {
         setAssignedRequests(assignedData);
       }, (error) => console.error("Error in assigned requests listener:", error));
+
+    } else if (userProfile.role === 'admin') {
+      // Staff oversee every request on the platform.
+      unsubscribeRequests = requestRepository.subscribeAll((requestsData) => {
+        setRequests(requestsData);
+      }, (error) => console.error("Error in all requests listener:", error));
     }
 
     // This is the cleanup function. It will stop listening to the database when the component unmounts.
@@ -84,12 +207,19 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       combinedRequestsMap.set(request.id, request);
     });
 
-    // Then, add any pending jobs that are not already in the list.
-    pendingRequests.forEach(request => {
-      if (!combinedRequestsMap.has(request.id)) {
-        combinedRequestsMap.set(request.id, request);
-      }
-    });
+    // Then, add any pending jobs that are not already in the list. Jobs this technician
+    // has declined stay pending for everyone else, auto-dispatched jobs are held for one
+    // technician at a time, jobs outside their service area are for others nearer, and
+    // expired jobs can no longer be accepted, so hide all four here.
+    pendingRequests
+      .filter(request => !request.declinedBy?.includes(userProfile.uid) && !isOfferedToSomeoneElse(request, userProfile.uid))
+      .filter(request => !isPendingExpired(request))
+      .filter(request => coversRequest(userProfile, request))
+      .forEach(request => {
+        if (!combinedRequestsMap.has(request.id)) {
+          combinedRequestsMap.set(request.id, request);
+        }
+      });
 
     const finalRequests = Array.from(combinedRequestsMap.values())
       .sort((a, b) => new Date(b.dateTime).getTime() - new Date(a.dateTime).getTime());
@@ -107,18 +237,8 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     }
 
     // This query is universal. It works perfectly for both customers and technicians.
-    // It fetches all conversation documents where the user's ID is in the participants list.
-    const conversationsQuery = query(
-      collection(db, 'conversations'),
-      where("participantUids", "array-contains", userProfile.uid),
-      orderBy('updatedAt', 'desc')
-    );
-
-    const unsubscribe = onSnapshot(conversationsQuery, (querySnapshot) => {
-      const conversationsData: Conversation[] = querySnapshot.docs.map(doc => ({
-        id: doc.id,
-        ...(doc.data() as Omit<Conversation, 'id'>)
-      }));
+    // It fetches all conversations where the user's ID is in the participants list.
+    const unsubscribe = conversationRepository.subscribeForUser(userProfile.uid, (conversationsData) => {
       setConversations(conversationsData);
     }, (error) => {
       console.error("Error in conversations snapshot listener (AppContext.tsx):", error);
@@ -130,112 +250,641 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   }, [userProfile]); // This hook re-runs whenever the user logs in or out.
 
 
-  const handleNewRequest = useCallback(async (newRequestData: Omit<ServiceRequest, 'id' | 'status' | 'paymentStatus' | 'assignedTechnicianUid'>) => {
+  const handleNewRequest = useCallback(async (newRequestData: Omit<ServiceRequest, 'id' | 'status' | 'paymentStatus' | 'assignedTechnicianUid'>, options: NewRequestOptions = {}) => {
+    if (!userProfile) {
+      console.error("Cannot create request, no user is logged in.");
+      return;
+    }
+
+    // The job board window ends after the timeout, or at the appointment itself if that's
+    // sooner. "As soon as possible" requests have no appointment to wait for.
+    const timeoutAt = Date.now() + PENDING_REQUEST_TIMEOUT_HOURS * 60 * 60 * 1000;
+    const appointmentAt = newRequestData.asSoonAsPossible ? Infinity : new Date(newRequestData.dateTime).getTime();
+    const pendingExpiresAt = new Date(Math.min(timeoutAt, appointmentAt)).toISOString();
+    const escalatesAt = newRequestData.urgency === Urgency.EMERGENCY
+      ? new Date(Date.now() + EMERGENCY_ESCALATION_MINUTES * 60 * 1000).toISOString()
+      : null;
+
     try {
-      await addDoc(collection(db, 'requests'), {
-        ...newRequestData,
-        status: RequestStatus.PENDING,
-        paymentStatus: 'none',
-        assignedTechnicianUid: null,
-        createdAt: serverTimestamp(),
+      // The form places the address as it's typed, but may be sent before that finishes.
+      const address = newRequestData.address ? await geocodeAddress(newRequestData.address) : undefined;
+      const placedRequest = { ...newRequestData, ...(address ? { address } : {}) };
+
+      // Let every technician who could take the job know it's on the board, or, when
+      // it's held for one technician, just them. A preferred technician who no longer
+      // offers the service or works there is skipped, and with nobody to match the job
+      // goes on the board.
+      const qualifiedTechnicians = await findCoveringTechnicians(getRequestCategoryId(placedRequest), address);
+      const qualifiedTechUids = qualifiedTechnicians.map(technician => technician.uid);
+      const preferredTechnician = qualifiedTechnicians.find(technician => technician.uid === options.preferredTechnicianUid);
+      const dispatch = preferredTechnician
+        ? startPreferredDispatch(preferredTechnician, placedRequest.urgency)
+        : options.autoDispatch ? startDispatch(await findDispatchCandidates(placedRequest), placedRequest.urgency) : null;
+
+      const requestId = requestRepository.newId();
+      await runInTransaction(async (transaction) => {
+        requestRepository.create(transaction, requestId, {
+          ...placedRequest,
+          status: RequestStatus.PENDING,
+          paymentStatus: 'none',
+          assignedTechnicianUid: null,
+          declinedBy: [],
+          pendingExpiresAt,
+          ...(escalatesAt ? { escalatesAt } : {}),
+          ...(dispatch ? { dispatch } : {}),
+        });
+        recordHistory(transaction, requestId, userProfile, 'created', [
+          { field: 'status', before: null, after: RequestStatus.PENDING },
+          { field: 'dateTime', before: null, after: newRequestData.dateTime },
+          ...(dispatch ? [{ field: 'offeredTo', before: null, after: describeOffer(dispatch.offer) }] : []),
+        ]);
+        queueJobNotifications(transaction, userProfile, requestId, newRequestData, dispatch, qualifiedTechUids);
       });
     } catch (e) {
       console.error("Error adding document in AppContext.tsx: ", e);
+      throw e;
     }
-  }, []);
+  }, [userProfile]);
 
-  // PASTE THIS NEW FUNCTION IN ITS PLACE
-  const handleUpdateStatus = useCallback(async (id: string, status: RequestStatus) => {
+  // Claims a pending job for exactly one technician. Two technicians clicking Accept at
+  // the same time both read the request inside a transaction; Firestore retries the loser,
+  // who then sees it already assigned and gets an 'already-taken' error instead of
+  // silently overwriting the winner. The conversation uses the request id as its document
+  // id, so there can only ever be one per request.
+  const handleAcceptRequest = useCallback(async (id: string) => {
     if (!userProfile) {
-      console.error("Cannot update status, no user is logged in.");
+      console.error("Cannot accept request, no user is logged in.");
       return;
     }
 
-    const requestDocRef = doc(db, 'requests', id);
-    const updatedRequest = requests.find(r => r.id === id);
-
-    if (!updatedRequest) {
-      console.error("Could not find the request to update.");
-      return;
-    }
+    const actor = { uid: userProfile.uid, role: userProfile.role };
 
     try {
-      // Use a batch to ensure all database changes happen at once or not at all.
-      const batch = writeBatch(db);
-
-      // Logic for when a Technician accepts a job
-      if (status === RequestStatus.ACCEPTED && userProfile.role === 'technician') {
+      await runInTransaction(async (transaction) => {
+        const currentRequest = await requestRepository.get(id, transaction);
+        const conversation = await conversationRepository.get(id, transaction);
+        if (!currentRequest) {
+          throw new RequestTransitionError('not-found', 'This request no longer exists.');
+        }
+        if (isPendingExpired(currentRequest)) {
+          throw new RequestTransitionError('too-late', 'This job has been on the board too long and is now closed.', currentRequest.status, RequestStatus.ACCEPTED);
+        }
 
-        console.log(`Technician ${userProfile.fullName} is accepting job ${id}. Creating conversation...`);
+        if (currentRequest.assignedTechnicianUid && currentRequest.assignedTechnicianUid !== userProfile.uid) {
+          throw new RequestTransitionError('already-taken', 'Sorry, another technician has already taken this job.', currentRequest.status, RequestStatus.ACCEPTED);
+        }
+        if (isOfferedToSomeoneElse(currentRequest, userProfile.uid)) {
+          throw new RequestTransitionError('already-taken', 'This job is being offered to another technician right now.', currentRequest.status, RequestStatus.ACCEPTED);
+        }
+        assertTransition(currentRequest, RequestStatus.ACCEPTED, actor);
 
-        // 1. Prepare the data to update the service request with technician details
-        const requestUpdateData = {
+        requestRepository.update(transaction, id, {
           status: RequestStatus.ACCEPTED,
+          ...countStatusChange(currentRequest),
           assignedTechnicianUid: userProfile.uid,
           technicianName: userProfile.fullName,
           technicianAvatar: userProfile.avatarUrl,
           technicianSkills: userProfile.skills || [],
-        };
-        batch.update(requestDocRef, requestUpdateData);
-
-        // 2. Prepare the new conversation document
-        const conversationRef = doc(collection(db, 'conversations'));
-        batch.set(conversationRef, {
-          participantUids: [updatedRequest.customerId, userProfile.uid],
-          participantInfo: {
-            [updatedRequest.customerId]: {
-              fullName: updatedRequest.customerName,
-              avatarUrl: updatedRequest.customerAvatar,
+          ...(currentRequest.dispatch?.offer ? { 'dispatch.offer': null } : {}),
+        });
+        recordHistory(transaction, id, userProfile, 'accepted', [
+          { field: 'status', before: currentRequest.status, after: RequestStatus.ACCEPTED },
+          { field: 'assignedTechnicianUid', before: currentRequest.assignedTechnicianUid, after: userProfile.uid },
+        ]);
+        queueNotification(transaction, userProfile, currentRequest.customerId, 'job-accepted',
+          `${userProfile.fullName} accepted your ${currentRequest.serviceCategory} request.`, { requestId: id, conversationId: id });
+
+        if (!conversation) {
+          conversationRepository.create(transaction, id, {
+            requestId: id,
+            participantUids: [currentRequest.customerId, userProfile.uid],
+            participantInfo: {
+              [currentRequest.customerId]: {
+                fullName: currentRequest.customerName,
+                avatarUrl: currentRequest.customerAvatar,
+              },
+              [userProfile.uid]: {
+                fullName: userProfile.fullName,
+                avatarUrl: userProfile.avatarUrl,
+              }
             },
-            [userProfile.uid]: {
-              fullName: userProfile.fullName,
-              avatarUrl: userProfile.avatarUrl,
-            }
+          }, {
+            senderUid: userProfile.uid,
+            text: 'Service request accepted. Feel free to ask any questions.',
+          });
+        }
+      });
+    } catch (e) {
+      if (!(e instanceof RequestTransitionError)) {
+        console.error("Error in handleAcceptRequest (AppContext.tsx): ", e);
+      }
+      throw e;
+    }
+  }, [userProfile]);
+
+  // Every status change runs through the lifecycle table in a transaction, so the
+  // guard is checked against the status currently in the database rather than our
+  // possibly-stale local copy. Illegal transitions throw a RequestTransitionError
+  // for the calling component to display.
+  const handleUpdateStatus = useCallback(async (id: string, status: RequestStatus) => {
+    if (!userProfile) {
+      console.error("Cannot update status, no user is logged in.");
+      return;
+    }
+
+    // Accepting also claims the job and opens the conversation, so it has its own path.
+    if (status === RequestStatus.ACCEPTED) {
+      return handleAcceptRequest(id);
+    }
+
+    const actor = { uid: userProfile.uid, role: userProfile.role };
+
+    try {
+      await runInTransaction(async (transaction) => {
+        // 1. Re-read the request so two clients can't both act on the same old status.
+        const currentRequest = await requestRepository.get(id, transaction);
+        if (!currentRequest) {
+          throw new RequestTransitionError('not-found', 'This request no longer exists.');
+        }
+
+        // 2. Check the transition against the lifecycle table.
+        assertTransition(currentRequest, status, actor);
+
+        requestRepository.update(transaction, id, { status, ...countStatusChange(currentRequest) });
+        recordHistory(transaction, id, userProfile, 'status-changed', [
+          { field: 'status', before: currentRequest.status, after: status },
+        ]);
+        if (userProfile.role === 'technician') {
+          queueNotification(transaction, userProfile, currentRequest.customerId, 'status-changed',
+            `Your ${currentRequest.serviceCategory} request is now ${status.toLowerCase()}.`, { requestId: id });
+        } else if (userProfile.role === 'admin') {
+          [currentRequest.customerId, currentRequest.assignedTechnicianUid].forEach(uid => queueNotification(transaction, userProfile, uid, 'status-changed',
+            `Support marked the ${currentRequest.serviceCategory} job on ${formatAppointment(currentRequest, currentRequest.dateTime)} as ${status.toLowerCase()}.`, { requestId: id }));
+        }
+      });
+    } catch (e) {
+      if (!(e instanceof RequestTransitionError)) {
+        console.error("Error in handleUpdateStatus (AppContext.tsx): ", e);
+      }
+      throw e;
+    }
+  }, [userProfile, handleAcceptRequest]);
+
+  // A decline only removes the job from this technician's board. Once every technician
+  // qualified for the category has declined, the request is closed for the customer.
+  // Declining an offered job passes it straight to the next technician, or the board.
+  const handleDeclineRequest = useCallback(async (id: string) => {
+    if (!userProfile) {
+      console.error("Cannot decline request, no user is logged in.");
+      return;
+    }
+
+    try {
+      // Queries can't run inside a transaction, so look up the qualified technicians first.
+      // Once everyone who covers the address has declined, nobody is left to take it.
+      const request = await requestRepository.get(id);
+      if (!request) {
+        throw new RequestTransitionError('not-found', 'This request no longer exists.');
+      }
+      const qualifiedTechUids = (await findCoveringTechnicians(getRequestCategoryId(request), request.address)).map(technician => technician.uid);
+
+      await runInTransaction(async (transaction) => {
+        const currentRequest = await requestRepository.get(id, transaction);
+        if (!currentRequest) {
+          throw new RequestTransitionError('not-found', 'This request no longer exists.');
+        }
+        if (currentRequest.status !== RequestStatus.PENDING) {
+          throw new RequestTransitionError('illegal-transition', 'This request is no longer open.', currentRequest.status);
+        }
+
+        // If this technician no longer counts as qualified (their skills or service area
+        // changed), their decline says nothing about whether anyone else can take the job.
+        const declinedBy = new Set([...(currentRequest.declinedBy || []), userProfile.uid]);
+        const everyoneDeclined = qualifiedTechUids.includes(userProfile.uid)
+          && qualifiedTechUids.every(uid => declinedBy.has(uid));
+
+        const declineChange = { field: 'declinedBy', before: currentRequest.declinedBy || [], after: Array.from(declinedBy) };
+        if (everyoneDeclined) {
+          requestRepository.update(transaction, id, {
+            declinedBy: Array.from(declinedBy),
+            status: RequestStatus.NO_TECHNICIAN_AVAILABLE,
+            ...countStatusChange(currentRequest),
+            ...(currentRequest.dispatch?.offer ? { 'dispatch.offer': null } : {}),
+          });
+          recordHistory(transaction, id, userProfile, 'declined', [
+            declineChange,
+            { field: 'status', before: currentRequest.status, after: RequestStatus.NO_TECHNICIAN_AVAILABLE },
+          ]);
+          queueNotification(transaction, userProfile, currentRequest.customerId, 'status-changed',
+            `No technician was available for your ${currentRequest.serviceCategory} request.`, { requestId: id });
+        } else if (currentRequest.dispatch?.offer?.technicianUid === userProfile.uid) {
+          const dispatch = advanceDispatch(currentRequest.dispatch, currentRequest.urgency, Array.from(declinedBy));
+          requestRepository.update(transaction, id, { declinedBy: Array.from(declinedBy), dispatch });
+          recordHistory(transaction, id, userProfile, 'declined', [
+            declineChange,
+            { field: 'offeredTo', before: describeOffer(currentRequest.dispatch.offer), after: describeOffer(dispatch.offer) },
+          ]);
+          queueJobNotifications(transaction, userProfile, id, { ...currentRequest, declinedBy: Array.from(declinedBy) }, dispatch, qualifiedTechUids);
+        } else {
+          requestRepository.update(transaction, id, { declinedBy: Array.from(declinedBy) });
+          recordHistory(transaction, id, userProfile, 'declined', [declineChange]);
+        }
+      });
+    } catch (e) {
+      if (!(e instanceof RequestTransitionError)) {
+        console.error("Error in handleDeclineRequest (AppContext.tsx): ", e);
+      }
+      throw e;
+    }
+  }, [userProfile]);
+
+  const handleCancelRequest = useCallback(async (id: string, reason?: string) => {
+    if (!userProfile) {
+      console.error("Cannot cancel request, no user is logged in.");
+      return;
+    }
+
+    const actor = { uid: userProfile.uid, role: userProfile.role };
+
+    try {
+      await runInTransaction(async (transaction) => {
+        const currentRequest = await requestRepository.get(id, transaction);
+        const conversation = await conversationRepository.get(id, transaction);
+        if (!currentRequest) {
+          throw new RequestTransitionError('not-found', 'This request no longer exists.');
+        }
+
+        assertTransition(currentRequest, RequestStatus.CANCELLED, actor);
+        const policy = assertChangeAllowed(currentRequest);
+
+        requestRepository.update(transaction, id, {
+          status: RequestStatus.CANCELLED,
+          ...countStatusChange(currentRequest),
+          cancellation: {
+            changedAt: new Date().toISOString(),
+            isLate: policy.isLate,
+            ...(reason ? { reason } : {}),
           },
-          lastMessageText: 'Service request accepted. Feel free to ask any questions.',
-          updatedAt: serverTimestamp(),
         });
+        recordHistory(transaction, id, userProfile, 'cancelled', [
+          { field: 'status', before: currentRequest.status, after: RequestStatus.CANCELLED },
+        ]);
+
+        const when = formatAppointment(currentRequest, currentRequest.dateTime);
+        postConversationMessage(transaction, id, !!conversation, userProfile.uid,
+          `${userProfile.fullName} cancelled the ${currentRequest.serviceCategory} appointment on ${when}.${reason ? ` Reason: ${reason}` : ''}`);
+        queueNotification(transaction, userProfile, currentRequest.assignedTechnicianUid, 'status-changed',
+          `${userProfile.fullName} cancelled the ${currentRequest.serviceCategory} appointment on ${when}.`, { requestId: id });
+      });
+    } catch (e) {
+      if (!(e instanceof RequestTransitionError)) {
+        console.error("Error in handleCancelRequest (AppContext.tsx): ", e);
+      }
+      throw e;
+    }
+  }, [userProfile]);
+
+  // Moves the appointment without changing its status. An accepted job keeps its
+  // technician, so the caller should only offer slots that technician has free.
+  const handleRescheduleRequest = useCallback(async (id: string, newDateTime: string) => {
+    if (!userProfile) {
+      console.error("Cannot reschedule request, no user is logged in.");
+      return;
+    }
+
+    try {
+      await runInTransaction(async (transaction) => {
+        const currentRequest = await requestRepository.get(id, transaction);
+        const conversation = await conversationRepository.get(id, transaction);
+        if (!currentRequest) {
+          throw new RequestTransitionError('not-found', 'This request no longer exists.');
+        }
+
+        // The assigned technician can move the job too, e.g. from their calendar.
+        const isOwner = userProfile.role === 'customer' && currentRequest.customerId === userProfile.uid;
+        const isAssignedTechnician = userProfile.role === 'technician' && currentRequest.assignedTechnicianUid === userProfile.uid;
+        if (!isOwner && !isAssignedTechnician) {
+          throw new RequestTransitionError('not-authorized', 'Only the customer who made this request or its technician can reschedule it.', currentRequest.status);
+        }
+        const policy = assertChangeAllowed(currentRequest);
+
+        const update: Partial<ServiceRequest> = {
+          dateTime: newDateTime,
+          reschedules: [
+            ...(currentRequest.reschedules || []),
+            { changedAt: new Date().toISOString(), isLate: policy.isLate, fromDateTime: currentRequest.dateTime, toDateTime: newDateTime },
+          ],
+          // Picking a time turns an "as soon as possible" request into a booked one.
+          ...(currentRequest.asSoonAsPossible ? { asSoonAsPossible: false } : {}),
+        };
+        // A pending request can't stay on the job board past its new appointment time.
+        if (currentRequest.status === RequestStatus.PENDING) {
+          const timeoutAt = Date.now() + PENDING_REQUEST_TIMEOUT_HOURS * 60 * 60 * 1000;
+          update.pendingExpiresAt = new Date(Math.min(timeoutAt, new Date(newDateTime).getTime())).toISOString();
+        }
+        requestRepository.update(transaction, id, update);
+        recordHistory(transaction, id, userProfile, 'rescheduled', [
+          { field: 'dateTime', before: currentRequest.dateTime, after: newDateTime },
+        ]);
+
+        const from = formatAppointment(currentRequest, currentRequest.dateTime);
+        const to = formatAppointment(currentRequest, newDateTime);
+        postConversationMessage(transaction, id, !!conversation, userProfile.uid,
+          `${userProfile.fullName} rescheduled the ${currentRequest.serviceCategory} appointment from ${from} to ${to}.`);
+        // Whoever didn't make the change hears about it.
+        [currentRequest.customerId, currentRequest.assignedTechnicianUid].forEach(recipientUid => queueNotification(transaction, userProfile, recipientUid, 'rescheduled',
+          `${userProfile.fullName} moved the ${currentRequest.serviceCategory} appointment to ${to}.`, { requestId: id }));
+      });
+    } catch (e) {
+      if (!(e instanceof RequestTransitionError)) {
+        console.error("Error in handleRescheduleRequest (AppContext.tsx): ", e);
+      }
+      throw e;
+    }
+  }, [userProfile]);
+
+  // The assigned technician prices an accepted job before starting. Sending again replaces
+  // the previous estimate, which then needs approving afresh.
+  const handleSendEstimate = useCallback(async (requestId: string, estimateData: EstimateDraft) => {
+    if (!userProfile) {
+      console.error("Cannot send estimate, no user is logged in.");
+      return;
+    }
+
+    try {
+      await runInTransaction(async (transaction) => {
+        const currentRequest = await requestRepository.get(requestId, transaction);
+        if (!currentRequest) {
+          throw new RequestTransitionError('not-found', 'This request no longer exists.');
+        }
+        if (userProfile.role !== 'technician' || currentRequest.assignedTechnicianUid !== userProfile.uid) {
+          throw new RequestTransitionError('not-authorized', 'Only the assigned technician can send an estimate.', currentRequest.status);
+        }
+        if (currentRequest.status !== RequestStatus.ACCEPTED) {
+          throw new RequestTransitionError('illegal-transition', `This job is ${currentRequest.status.toLowerCase()}, so its estimate can no longer change.`, currentRequest.status);
+        }
+
+        const estimate: Estimate = { ...estimateData, status: 'sent', sentDate: new Date().toISOString() };
+        requestRepository.update(transaction, requestId, { estimate });
+        recordHistory(transaction, requestId, userProfile, 'estimate-sent', [
+          { field: 'estimate.total', before: currentRequest.estimate?.total, after: estimate.total },
+        ]);
+        queueNotification(transaction, userProfile, currentRequest.customerId, 'estimate-sent',
+          `${userProfile.fullName} sent you an estimate of ${formatMoney(estimate.total)} for your ${currentRequest.serviceCategory} job. Work starts once you approve it.`, { requestId });
+      });
+    } catch (e) {
+      if (!(e instanceof RequestTransitionError)) {
+        console.error("Error in handleSendEstimate (AppContext.tsx): ", e);
+      }
+      throw e;
+    }
+  }, [userProfile]);
+
+  // The customer approves the estimate, which lets work start, or turns it down. A note
+  // explaining a rejection or the changes wanted is also posted to the job's conversation.
+  const handleRespondToEstimate = useCallback(async (requestId: string, response: EstimateResponse, note?: string) => {
+    if (!userProfile) {
+      console.error("Cannot respond to estimate, no user is logged in.");
+      return;
+    }
+
+    try {
+      await runInTransaction(async (transaction) => {
+        const currentRequest = await requestRepository.get(requestId, transaction);
+        const conversation = await conversationRepository.get(requestId, transaction);
+        if (!currentRequest) {
+          throw new RequestTransitionError('not-found', 'This request no longer exists.');
+        }
+        if (currentRequest.customerId !== userProfile.uid) {
+          throw new RequestTransitionError('not-authorized', 'Only the customer can respond to this estimate.', currentRequest.status);
+        }
+        if (currentRequest.status !== RequestStatus.ACCEPTED || currentRequest.estimate?.status !== 'sent') {
+          throw new RequestTransitionError('illegal-transition', 'This estimate is no longer waiting for your answer.', currentRequest.status);
+        }
 
-        // 3. Prepare the initial message inside the new conversation
-        const messageRef = doc(collection(conversationRef, 'messages'));
-        batch.set(messageRef, {
-          senderUid: userProfile.uid,
-          text: 'Service request accepted. Feel free to ask any questions.',
-          timestamp: serverTimestamp(),
+        const customerNote = note?.trim() || null;
+        requestRepository.update(transaction, requestId, {
+          'estimate.status': response,
+          'estimate.respondedDate': new Date().toISOString(),
+          'estimate.customerNote': customerNote,
         });
-      } else {
-        // For all other status updates (e.g., customer marking as complete), just update the status field.
-        batch.update(requestDocRef, { status });
+        recordHistory(transaction, requestId, userProfile, 'estimate-responded', [
+          { field: 'estimate.status', before: currentRequest.estimate.status, after: response },
+        ]);
+
+        const total = formatMoney(currentRequest.estimate.total);
+        const message = response === 'approved'
+          ? `${userProfile.fullName} approved your ${total} estimate for the ${describeJob(currentRequest)}. You can start work.`
+          : response === 'rejected'
+            ? `${userProfile.fullName} rejected your ${total} estimate for the ${describeJob(currentRequest)}.`
+            : `${userProfile.fullName} asked for changes to your ${total} estimate for the ${describeJob(currentRequest)}.`;
+        queueNotification(transaction, userProfile, currentRequest.assignedTechnicianUid, 'estimate-responded', message, { requestId });
+        if (customerNote) {
+          postConversationMessage(transaction, requestId, !!conversation, userProfile.uid,
+            `${response === 'rejected' ? 'Estimate rejected' : 'Changes requested to the estimate'}: ${customerNote}`);
+        }
+      });
+    } catch (e) {
+      if (!(e instanceof RequestTransitionError)) {
+        console.error("Error in handleRespondToEstimate (AppContext.tsx): ", e);
       }
+      throw e;
+    }
+  }, [userProfile]);
 
-      // 4. Commit all the changes to the database
-      await batch.commit();
+  // The assigned technician invoices a finished job. Each invoice takes the next number in
+  // the business's sequence and is never changed once issued; see handleReviseInvoice.
+  const handleCreateInvoice = useCallback(async (requestId: string, invoiceData: InvoiceDraft) => {
+    if (!userProfile) {
+      console.error("Cannot create invoice, no user is logged in.");
+      return;
+    }
+
+    try {
+      await runInTransaction(async (transaction) => {
+        const currentRequest = await requestRepository.get(requestId, transaction);
+        if (!currentRequest) {
+          throw new RequestTransitionError('not-found', 'This request no longer exists.');
+        }
+        if (userProfile.role !== 'technician' || currentRequest.assignedTechnicianUid !== userProfile.uid) {
+          throw new RequestTransitionError('not-authorized', 'Only the assigned technician can invoice this job.', currentRequest.status);
+        }
+        if (currentRequest.invoice) {
+          throw new RequestTransitionError('illegal-transition', `This job already has ${getInvoiceLabel(currentRequest.invoice).toLowerCase()}, which can't be changed once issued.`, currentRequest.status);
+        }
+        const sequence = await counterRepository.readNext(transaction, 'invoices');
+
+        // Invoicing again after support withdrew an invoice links back to the withdrawn one.
+        const withdrawn = currentRequest.previousInvoices?.[currentRequest.previousInvoices.length - 1];
+        const invoice: Invoice = {
+          ...invoiceData,
+          number: formatDocumentNumber(INVOICE_NUMBER_PREFIX, sequence),
+          ...(withdrawn?.number ? { revises: withdrawn.number } : {}),
+          issuedDate: new Date().toISOString(),
+        };
+
+        counterRepository.advance(transaction, 'invoices', sequence);
+        requestRepository.update(transaction, requestId, {
+          invoice,
+          paymentStatus: 'pending'
+        });
+        recordHistory(transaction, requestId, userProfile, 'invoice-created', [
+          { field: 'invoice.number', before: null, after: invoice.number },
+          { field: 'invoice.total', before: null, after: invoice.total },
+          { field: 'paymentStatus', before: currentRequest.paymentStatus, after: 'pending' },
+        ]);
+        queueNotification(transaction, userProfile, currentRequest.customerId, 'invoice-issued',
+          `${userProfile.fullName} sent you invoice ${invoice.number} for ${formatMoney(invoice.total)}.`, { requestId });
+      });
+    } catch (e) {
+      if (!(e instanceof RequestTransitionError)) {
+        console.error("Error in handleCreateInvoice (AppContext.tsx): ", e);
+      }
+      throw e;
+    }
+  }, [userProfile]);
+
+  // The assigned technician corrects an unpaid invoice. The original is left as issued: a
+  // credit note cancels it in full, it moves to the request's previous invoices, and a new
+  // invoice with the next number takes its place, pointing back at it.
+  const handleReviseInvoice = useCallback(async (requestId: string, invoiceData: InvoiceDraft, reason: string) => {
+    if (!userProfile) {
+      console.error("Cannot revise invoice, no user is logged in.");
+      return;
+    }
+
+    try {
+      await runInTransaction(async (transaction) => {
+        const currentRequest = await requestRepository.get(requestId, transaction);
+        if (!currentRequest) {
+          throw new RequestTransitionError('not-found', 'This request no longer exists.');
+        }
+        if (userProfile.role !== 'technician' || currentRequest.assignedTechnicianUid !== userProfile.uid) {
+          throw new RequestTransitionError('not-authorized', 'Only the assigned technician can revise this invoice.', currentRequest.status);
+        }
+        if (!currentRequest.invoice || currentRequest.paymentStatus !== 'pending') {
+          throw new RequestTransitionError('illegal-transition', 'Only an unpaid invoice can be revised. Ask support to issue a credit note instead.', currentRequest.status);
+        }
+        const creditNoteSequence = await counterRepository.readNext(transaction, 'creditNotes');
+        const invoiceSequence = await counterRepository.readNext(transaction, 'invoices');
+
+        const original = currentRequest.invoice;
+        const issuedDate = new Date().toISOString();
+        const creditNote = creditInFull(original, formatDocumentNumber(CREDIT_NOTE_NUMBER_PREFIX, creditNoteSequence), reason.trim() || 'Invoice revised', issuedDate);
+        const invoice: Invoice = {
+          ...invoiceData,
+          number: formatDocumentNumber(INVOICE_NUMBER_PREFIX, invoiceSequence),
+          ...(original.number ? { revises: original.number } : {}),
+          issuedDate,
+        };
 
+        counterRepository.advance(transaction, 'creditNotes', creditNoteSequence);
+        counterRepository.advance(transaction, 'invoices', invoiceSequence);
+        requestRepository.voidInvoice(transaction, requestId, original, creditNote, invoice);
+        recordHistory(transaction, requestId, userProfile, 'invoice-revised', [
+          { field: 'invoice.number', before: original.number, after: invoice.number },
+          { field: 'invoice.total', before: original.total, after: invoice.total },
+          { field: 'creditNote.number', before: null, after: creditNote.number },
+        ]);
+        queueNotification(transaction, userProfile, currentRequest.customerId, 'invoice-issued',
+          `${userProfile.fullName} replaced ${getInvoiceLabel(original).toLowerCase()} (${formatMoney(original.total)}) with invoice ${invoice.number} for ${formatMoney(invoice.total)}: ${creditNote.reason}`, { requestId });
+      });
     } catch (e) {
-      console.error("Error in handleUpdateStatus (AppContext.tsx): ", e);
+      if (!(e instanceof RequestTransitionError)) {
+        console.error("Error in handleReviseInvoice (AppContext.tsx): ", e);
+      }
+      throw e;
+    }
+  }, [userProfile]);
+
+  // Staff credit part or all of a paid invoice, e.g. for a refund. The invoice itself is
+  // left as issued, and the credits against it can never exceed its total.
+  const handleIssueCreditNote = useCallback(async (requestId: string, amount: Money, reason: string) => {
+    if (!userProfile) {
+      console.error("Cannot issue credit note, no user is logged in.");
+      return;
     }
-  }, [requests, userProfile]);
 
-  const handleCreateInvoice = useCallback(async (requestId: string, invoiceData: Omit<Invoice, 'issuedDate'>) => {
-    const requestDocRef = doc(db, 'requests', requestId);
     try {
-      await updateDoc(requestDocRef, {
-        invoice: { ...invoiceData, issuedDate: new Date().toISOString() },
-        paymentStatus: 'pending'
+      await runInTransaction(async (transaction) => {
+        const currentRequest = await requestRepository.get(requestId, transaction);
+        if (!currentRequest) {
+          throw new RequestTransitionError('not-found', 'This request no longer exists.');
+        }
+        if (userProfile.role !== 'admin') {
+          throw new RequestTransitionError('not-authorized', 'Only staff can issue credit notes.', currentRequest.status);
+        }
+        const { invoice } = currentRequest;
+        if (!invoice || currentRequest.paymentStatus !== 'paid') {
+          throw new RequestTransitionError('illegal-transition', 'Only a paid invoice can be credited. Withdraw an unpaid invoice instead.', currentRequest.status);
+        }
+        const remaining = subtractMoney(invoice.total, getCreditedAmount(invoice, currentRequest.creditNotes));
+        if (amount.currency !== invoice.total.currency || amount.amount <= 0 || amount.amount > remaining.amount) {
+          throw new RequestTransitionError('illegal-transition', `A credit note for ${getInvoiceLabel(invoice).toLowerCase()} must be more than nothing and at most ${formatMoney(remaining)}.`, currentRequest.status);
+        }
+        if (!reason.trim()) {
+          throw new RequestTransitionError('illegal-transition', 'Say why the credit note is being issued.', currentRequest.status);
+        }
+        const sequence = await counterRepository.readNext(transaction, 'creditNotes');
+
+        const creditNote: CreditNote = {
+          number: formatDocumentNumber(CREDIT_NOTE_NUMBER_PREFIX, sequence),
+          invoiceNumber: invoice.number ?? null,
+          amount,
+          reason: reason.trim(),
+          issuedDate: new Date().toISOString(),
+        };
+        counterRepository.advance(transaction, 'creditNotes', sequence);
+        requestRepository.addCreditNote(transaction, requestId, creditNote);
+        recordHistory(transaction, requestId, userProfile, 'credit-note-issued', [
+          { field: 'creditNote.number', before: null, after: creditNote.number },
+          { field: 'creditNote.amount', before: null, after: creditNote.amount },
+        ]);
+        const message = `Credit note ${creditNote.number} for ${formatMoney(amount)} was issued against ${getInvoiceLabel(invoice).toLowerCase()} for ${currentRequest.serviceCategory}: ${creditNote.reason}`;
+        queueNotification(transaction, userProfile, currentRequest.customerId, 'credit-note-issued', message, { requestId });
+        queueNotification(transaction, userProfile, currentRequest.assignedTechnicianUid, 'credit-note-issued', message, { requestId });
       });
     } catch (e) {
-      console.error("Error creating invoice: ", e);
+      if (!(e instanceof RequestTransitionError)) {
+        console.error("Error in handleIssueCreditNote (AppContext.tsx): ", e);
+      }
+      throw e;
     }
-  }, []);
+  }, [userProfile]);
 
   const handleMarkAsPaid = useCallback(async (requestId: string) => {
-    const requestDocRef = doc(db, 'requests', requestId);
+    if (!userProfile) {
+      console.error("Cannot mark as paid, no user is logged in.");
+      return;
+    }
+
     try {
-      await updateDoc(requestDocRef, { paymentStatus: 'paid' });
+      await runInTransaction(async (transaction) => {
+        const currentRequest = await requestRepository.get(requestId, transaction);
+        if (!currentRequest) {
+          throw new RequestTransitionError('not-found', 'This request no longer exists.');
+        }
+        if (currentRequest.customerId !== userProfile.uid && userProfile.role !== 'admin') {
+          throw new RequestTransitionError('not-authorized', 'Only the customer can pay this invoice.', currentRequest.status);
+        }
+        if (currentRequest.paymentStatus !== 'pending' || !currentRequest.invoice) {
+          throw new RequestTransitionError('illegal-transition', 'This request has no unpaid invoice.', currentRequest.status);
+        }
+
+        requestRepository.update(transaction, requestId, { paymentStatus: 'paid' });
+        recordHistory(transaction, requestId, userProfile, 'payment', [
+          { field: 'paymentStatus', before: currentRequest.paymentStatus, after: 'paid' },
+        ]);
+        queueNotification(transaction, userProfile, currentRequest.assignedTechnicianUid, 'payment-received',
+          `${userProfile.fullName} paid the invoice for ${currentRequest.serviceCategory} (${formatMoney(currentRequest.invoice.total)}).`, { requestId });
+      });
     } catch (e) {
-      console.error("Error marking as paid: ", e);
+      if (!(e instanceof RequestTransitionError)) {
+        console.error("Error marking as paid: ", e);
+      }
+      throw e;
     }
-  }, []);
+  }, [userProfile]);
 
   // const handleAddRating = useCallback(async (requestId: string, ratingBy: 'customer' | 'technician', rating: Rating) => {
   //   const requestDocRef = doc(db, 'requests', requestId);
@@ -252,41 +901,61 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
   // ... inside the AppProvider component ...
 
   const handleAddRating = useCallback(async (requestId: string, ratingBy: 'customer' | 'technician', rating: Rating) => {
-    const requestDocRef = doc(db, 'requests', requestId);
-    const request = requests.find(r => r.id === requestId);
-    if (!request) {
-      console.error("Cannot add rating: request not found");
+    if (!userProfile) {
+      console.error("Cannot add rating, no user is logged in.");
       return;
     }
 
-    // Determine who is being rated
-    const ratedUserUid = ratingBy === 'customer' ? request.assignedTechnicianUid : request.customerId;
-    if (!ratedUserUid) {
-      console.error("Cannot add rating: rated user's UID is missing");
-      return;
-    }
-    const ratedUserDocRef = doc(db, 'users', ratedUserUid);
+    const ratingField = ratingBy === 'customer' ? 'customerRating' : 'technicianRating';
 
     try {
-      await runTransaction(db, async (transaction) => {
-        // 1. Read the rated user's current profile from the database
-        const ratedUserDoc = await transaction.get(ratedUserDocRef);
-        if (!ratedUserDoc.exists()) {
-          throw "Rated user's profile does not exist!";
+      await runInTransaction(async (transaction) => {
+        // 1. Re-read the request, so each side rates a finished job once, and only their own side.
+        const currentRequest = await requestRepository.get(requestId, transaction);
+        if (!currentRequest) {
+          throw new RequestTransitionError('not-found', 'This request no longer exists.');
+        }
+        const isRater = ratingBy === 'customer'
+          ? userProfile.role === 'customer' && currentRequest.customerId === userProfile.uid
+          : userProfile.role === 'technician' && currentRequest.assignedTechnicianUid === userProfile.uid;
+        if (!isRater) {
+          throw new RequestTransitionError('not-authorized', 'You are not allowed to rate this job.', currentRequest.status);
+        }
+        if (currentRequest.status !== RequestStatus.COMPLETED) {
+          throw new RequestTransitionError('illegal-transition', 'Jobs can only be rated once they are completed.', currentRequest.status);
+        }
+        if (currentRequest[ratingField]) {
+          throw new RequestTransitionError('illegal-transition', 'You have already rated this job.', currentRequest.status);
+        }
+
+        // Determine who is being rated
+        const ratedUserUid = ratingBy === 'customer' ? currentRequest.assignedTechnicianUid : currentRequest.customerId;
+        if (!ratedUserUid) {
+          throw new RequestTransitionError('illegal-transition', 'There is nobody to rate on this request yet.', currentRequest.status);
+        }
+
+        // 2. Read the rated user's current profile from the database
+        const ratedUser = await userRepository.get(ratedUserUid, transaction);
+        if (!ratedUser) {
+          throw new Error("Rated user's profile does not exist!");
         }
 
-        // 2. Calculate the new average rating
-        const oldRatingCount = ratedUserDoc.data().ratingCount || 0;
-        const oldAverageRating = ratedUserDoc.data().averageRating || 0;
+        // 3. Calculate the new average rating
+        const oldRatingCount = ratedUser.ratingCount || 0;
+        const oldAverageRating = ratedUser.averageRating || 0;
         const newRatingCount = oldRatingCount + 1;
         const newAverageRating = ((oldAverageRating * oldRatingCount) + rating.stars) / newRatingCount;
 
-        // 3. Update the Service Request document with the new rating
-        const ratingField = ratingBy === 'customer' ? 'customerRating' : 'technicianRating';
-        transaction.update(requestDocRef, { [ratingField]: rating });
+        // 4. Update the Service Request document with the new rating
+        requestRepository.update(transaction, requestId, { [ratingField]: rating });
+        recordHistory(transaction, requestId, userProfile, 'rating', [
+          { field: ratingField, before: null, after: rating },
+        ]);
+        queueNotification(transaction, userProfile, ratedUserUid, 'rating-received',
+          `${userProfile.fullName} rated you ${rating.stars}★ for the ${currentRequest.serviceCategory} job.`, { requestId });
 
-        // 4. Update the User's profile with the new aggregated rating
-        transaction.update(ratedUserDocRef, {
+        // 5. Update the User's profile with the new aggregated rating
+        userRepository.update(transaction, ratedUserUid, {
           ratingCount: newRatingCount,
           averageRating: newAverageRating
         });
@@ -295,18 +964,332 @@ export const AppProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
       console.log("Rating submitted and user profile updated successfully!");
 
     } catch (e) {
-      console.error("Rating transaction failed: ", e);
+      if (!(e instanceof RequestTransitionError)) {
+        console.error("Rating transaction failed: ", e);
+      }
+      throw e;
+    }
+  }, [userProfile]);
+
+  const handleSendMessage = useCallback(async (conversationId: string, text: string) => {
+    if (!userProfile) {
+      console.error("Cannot send message, no user is logged in.");
+      return;
+    }
+
+    const conversation = conversations.find(c => c.id === conversationId);
+    const batch = createBatch();
+    conversationRepository.addMessage(batch, conversationId, userProfile.uid, text);
+    conversation?.participantUids.forEach(uid => queueNotification(batch, userProfile, uid, 'new-message',
+      `${userProfile.fullName}: ${text.length > 80 ? `${text.slice(0, 80)}…` : text}`, { conversationId }));
+
+    try {
+      await batch.commit();
+    } catch (e) {
+      console.error("Error sending message: ", e);
+      throw e;
+    }
+  }, [conversations, userProfile]);
+
+  // Staff give a job to a technician of their choosing, whether it's still on the board,
+  // closed for lack of takers, or already with someone else. The conversation follows
+  // the job, so the previous technician loses access to it.
+  const handleAssignTechnician = useCallback(async (id: string, technicianUid: string) => {
+    if (!userProfile) {
+      console.error("Cannot assign request, no user is logged in.");
+      return;
+    }
+
+    const actor = { uid: userProfile.uid, role: userProfile.role };
+
+    try {
+      await runInTransaction(async (transaction) => {
+        const currentRequest = await requestRepository.get(id, transaction);
+        const conversation = await conversationRepository.get(id, transaction);
+        const technician = await userRepository.get(technicianUid, transaction);
+        if (!currentRequest) {
+          throw new RequestTransitionError('not-found', 'This request no longer exists.');
+        }
+        if (!technician || technician.role !== 'technician' || technician.suspended) {
+          throw new RequestTransitionError('not-authorized', "That technician can't take jobs right now.", currentRequest.status, RequestStatus.ACCEPTED);
+        }
+        if (currentRequest.assignedTechnicianUid === technicianUid && currentRequest.status === RequestStatus.ACCEPTED) {
+          throw new RequestTransitionError('illegal-transition', `This job is already assigned to ${technician.fullName}.`, currentRequest.status, RequestStatus.ACCEPTED);
+        }
+        assertTransition(currentRequest, RequestStatus.ACCEPTED, actor);
+
+        const previousTechnicianUid = currentRequest.assignedTechnicianUid || null;
+        requestRepository.update(transaction, id, {
+          status: RequestStatus.ACCEPTED,
+          ...countStatusChange(currentRequest),
+          assignedTechnicianUid: technician.uid,
+          technicianName: technician.fullName,
+          technicianAvatar: technician.avatarUrl,
+          technicianSkills: technician.skills || [],
+          ...(currentRequest.dispatch?.offer ? { 'dispatch.offer': null } : {}),
+        });
+        recordHistory(transaction, id, userProfile, 'assigned', [
+          { field: 'status', before: currentRequest.status, after: RequestStatus.ACCEPTED },
+          { field: 'technician', before: currentRequest.technicianName, after: technician.fullName },
+          { field: 'assignedTechnicianUid', before: previousTechnicianUid, after: technician.uid },
+        ]);
+
+        const technicianInfo = { [technician.uid]: { fullName: technician.fullName, avatarUrl: technician.avatarUrl } };
+        const assignedMessage = `${technician.fullName} has been assigned to this job by our support team.`;
+        if (conversation) {
+          conversationRepository.setParticipants(transaction, id, [currentRequest.customerId, technician.uid], technicianInfo);
+          postConversationMessage(transaction, id, true, userProfile.uid, assignedMessage);
+        } else {
+          conversationRepository.create(transaction, id, {
+            requestId: id,
+            participantUids: [currentRequest.customerId, technician.uid],
+            participantInfo: {
+              [currentRequest.customerId]: {
+                fullName: currentRequest.customerName,
+                avatarUrl: currentRequest.customerAvatar,
+              },
+              ...technicianInfo,
+            },
+          }, {
+            senderUid: userProfile.uid,
+            text: assignedMessage,
+          });
+        }
+
+        const when = formatAppointment(currentRequest, currentRequest.dateTime);
+        queueNotification(transaction, userProfile, technician.uid, 'job-assigned',
+          `You've been assigned the ${currentRequest.serviceCategory} job on ${when}.`, { requestId: id });
+        queueNotification(transaction, userProfile, currentRequest.customerId, 'job-accepted',
+          `${technician.fullName} will handle your ${currentRequest.serviceCategory} request.`, { requestId: id, conversationId: id });
+        if (previousTechnicianUid !== technician.uid) {
+          queueNotification(transaction, userProfile, previousTechnicianUid, 'status-changed',
+            `The ${currentRequest.serviceCategory} job on ${when} has been reassigned to another technician.`, {});
+        }
+      });
+    } catch (e) {
+      if (!(e instanceof RequestTransitionError)) {
+        console.error("Error in handleAssignTechnician (AppContext.tsx): ", e);
+      }
+      throw e;
+    }
+  }, [userProfile]);
+
+  // Staff settle invoices that are stuck unpaid: either record a payment made outside
+  // the portal, or withdraw the invoice so the technician can issue a corrected one.
+  const handleResolvePayment = useCallback(async (requestId: string, resolution: 'paid' | 'void') => {
+    if (!userProfile) {
+      console.error("Cannot resolve payment, no user is logged in.");
+      return;
+    }
+
+    try {
+      await runInTransaction(async (transaction) => {
+        const currentRequest = await requestRepository.get(requestId, transaction);
+        if (!currentRequest) {
+          throw new RequestTransitionError('not-found', 'This request no longer exists.');
+        }
+        if (userProfile.role !== 'admin') {
+          throw new RequestTransitionError('not-authorized', 'Only staff can resolve payments.', currentRequest.status);
+        }
+        if (currentRequest.paymentStatus !== 'pending' || !currentRequest.invoice) {
+          throw new RequestTransitionError('illegal-transition', 'This request has no unpaid invoice.', currentRequest.status);
+        }
+
+        // Withdrawing cancels the invoice with a credit note, which takes the next number.
+        const creditNoteSequence = resolution === 'void' ? await counterRepository.readNext(transaction, 'creditNotes') : null;
+
+        const total = formatMoney(currentRequest.invoice.total);
+        if (creditNoteSequence === null) {
+          requestRepository.update(transaction, requestId, { paymentStatus: 'paid' });
+          recordHistory(transaction, requestId, userProfile, 'payment', [
+            { field: 'paymentStatus', before: currentRequest.paymentStatus, after: 'paid' },
+          ]);
+          queueNotification(transaction, userProfile, currentRequest.assignedTechnicianUid, 'payment-received',
+            `Support recorded payment of the ${total} invoice for ${currentRequest.serviceCategory}.`, { requestId });
+          queueNotification(transaction, userProfile, currentRequest.customerId, 'status-changed',
+            `Your ${total} invoice for ${currentRequest.serviceCategory} has been marked as paid.`, { requestId });
+        } else {
+          const creditNote = creditInFull(currentRequest.invoice, formatDocumentNumber(CREDIT_NOTE_NUMBER_PREFIX, creditNoteSequence), 'Invoice withdrawn by support', new Date().toISOString());
+          counterRepository.advance(transaction, 'creditNotes', creditNoteSequence);
+          requestRepository.voidInvoice(transaction, requestId, currentRequest.invoice, creditNote);
+          recordHistory(transaction, requestId, userProfile, 'invoice-voided', [
+            { field: 'invoice.number', before: currentRequest.invoice.number, after: null },
+            { field: 'invoice.total', before: currentRequest.invoice.total, after: null },
+            { field: 'creditNote.number', before: null, after: creditNote.number },
+            { field: 'paymentStatus', before: currentRequest.paymentStatus, after: 'none' },
+          ]);
+          queueNotification(transaction, userProfile, currentRequest.assignedTechnicianUid, 'status-changed',
+            `Support withdrew your ${total} invoice for ${currentRequest.serviceCategory}. Please issue a new one.`, { requestId });
+          queueNotification(transaction, userProfile, currentRequest.customerId, 'status-changed',
+            `The ${total} invoice for your ${currentRequest.serviceCategory} request has been withdrawn.`, { requestId });
+        }
+      });
+    } catch (e) {
+      if (!(e instanceof RequestTransitionError)) {
+        console.error("Error in handleResolvePayment (AppContext.tsx): ", e);
+      }
+      throw e;
+    }
+  }, [userProfile]);
+
+  // Moves an auto-dispatched job on once its technician has run out of time to accept.
+  // Every client watching the job tries; the transaction re-checks the offer, so only
+  // the first one to get there moves it, and only once.
+  const advanceExpiredOffer = useCallback(async (request: ServiceRequest) => {
+    if (!userProfile) return;
+
+    try {
+      const qualifiedTechUids = (await findCoveringTechnicians(getRequestCategoryId(request), request.address)).map(technician => technician.uid);
+
+      await runInTransaction(async (transaction) => {
+        const currentRequest = await requestRepository.get(request.id, transaction);
+        if (!currentRequest?.dispatch?.offer || currentRequest.status !== RequestStatus.PENDING || !isOfferExpired(currentRequest)) return;
+
+        const lapsedOffer = currentRequest.dispatch.offer;
+        const dispatch = advanceDispatch(currentRequest.dispatch, currentRequest.urgency, currentRequest.declinedBy);
+        requestRepository.update(transaction, request.id, { dispatch });
+        recordHistory(transaction, request.id, userProfile, 'offered', [
+          { field: 'offeredTo', before: describeOffer(lapsedOffer), after: describeOffer(dispatch.offer) },
+        ]);
+        queueNotification(transaction, userProfile, lapsedOffer.technicianUid, 'status-changed',
+          `Your offer of the ${currentRequest.serviceCategory} job on ${formatAppointment(currentRequest, currentRequest.dateTime)} expired.`, {});
+        queueJobNotifications(transaction, userProfile, request.id, currentRequest, dispatch, qualifiedTechUids);
+      });
+    } catch (e) {
+      console.error("Error in advanceExpiredOffer (AppContext.tsx): ", e);
+    }
+  }, [userProfile]);
+
+  // Escalates an emergency nobody has accepted in time: staff are alerted, and any offer
+  // to a single technician is dropped so every qualified technician is asked at once.
+  const escalateEmergency = useCallback(async (request: ServiceRequest) => {
+    if (!userProfile) return;
+
+    try {
+      // Queries can't run inside a transaction, so look up who to tell first.
+      const [qualifiedTechnicians, staff] = await Promise.all([
+        findCoveringTechnicians(getRequestCategoryId(request), request.address),
+        userRepository.findStaff(),
+      ]);
+
+      await runInTransaction(async (transaction) => {
+        const currentRequest = await requestRepository.get(request.id, transaction);
+        if (!currentRequest || !isEscalationDue(currentRequest)) return;
+
+        const escalatedAt = new Date().toISOString();
+        const heldOffer = currentRequest.dispatch?.offer;
+        requestRepository.update(transaction, request.id, {
+          escalatedAt,
+          ...(heldOffer ? { 'dispatch.offer': null } : {}),
+        });
+        recordHistory(transaction, request.id, userProfile, 'escalated', heldOffer
+          ? [{ field: 'offeredTo', before: describeOffer(heldOffer), after: describeOffer(null) }]
+          : []);
+
+        staff.forEach(member => queueNotification(transaction, userProfile, member.uid, 'job-escalated',
+          `Emergency ${currentRequest.serviceCategory} request from ${currentRequest.customerName} hasn't been accepted after ${EMERGENCY_ESCALATION_MINUTES} minutes.`, { requestId: request.id }));
+        qualifiedTechnicians
+          .filter(technician => !currentRequest.declinedBy?.includes(technician.uid))
+          .forEach(technician => queueNotification(transaction, userProfile, technician.uid, 'job-escalated',
+            `Emergency: a ${describeJob(currentRequest)} still has no technician. Can you take it?`, { requestId: request.id }));
+      });
+    } catch (e) {
+      console.error("Error in escalateEmergency (AppContext.tsx): ", e);
+    }
+  }, [userProfile]);
+
+  // Closes a request whose job-board window has passed without anyone accepting. Every
+  // client watching the job tries; the transaction re-checks the window, so a job that
+  // can still be taken is never closed and only the first client to get there closes it.
+  const expireRequest = useCallback(async (id: string) => {
+    if (!userProfile) {
+      console.error("Cannot close request, no user is logged in.");
+      return;
+    }
+
+    try {
+      await runInTransaction(async (transaction) => {
+        const currentRequest = await requestRepository.get(id, transaction);
+        if (!currentRequest) {
+          throw new RequestTransitionError('not-found', 'This request no longer exists.');
+        }
+        if (!isPendingExpired(currentRequest)) {
+          throw new RequestTransitionError('illegal-transition', 'This request is still open to technicians.', currentRequest.status, RequestStatus.NO_TECHNICIAN_AVAILABLE);
+        }
+
+        requestRepository.update(transaction, id, {
+          status: RequestStatus.NO_TECHNICIAN_AVAILABLE,
+          ...countStatusChange(currentRequest),
+          ...(currentRequest.dispatch?.offer ? { 'dispatch.offer': null } : {}),
+        });
+        recordHistory(transaction, id, userProfile, 'status-changed', [
+          { field: 'status', before: currentRequest.status, after: RequestStatus.NO_TECHNICIAN_AVAILABLE },
+        ]);
+        queueNotification(transaction, userProfile, currentRequest.customerId, 'status-changed',
+          `No technician was available for your ${currentRequest.serviceCategory} request.`, { requestId: id });
+      });
+    } catch (e) {
+      // A rejected transition just means another client got there first.
+      if (!(e instanceof RequestTransitionError)) {
+        console.error("Error in expireRequest (AppContext.tsx): ", e);
+      }
     }
-  }, [requests]);
+  }, [userProfile]);
+
+  // Offers lapse and emergencies escalate with time rather than anyone's action, so every
+  // client watching pending jobs checks for due ones every minute while the portal is open.
+  useEffect(() => {
+    if (!userProfile) return;
+    // Technicians check the whole board, including jobs held for someone else.
+    const watched = userProfile.role === 'technician' ? pendingRequests : requests;
+
+    const runDueChecks = () => {
+      const pending = watched.filter(request => request.status === RequestStatus.PENDING);
+      pending.filter(request => isEscalationDue(request)).forEach(request => escalateEmergency(request));
+      pending.filter(request => !isEscalationDue(request) && isOfferExpired(request)).forEach(request => advanceExpiredOffer(request));
+    };
+
+    runDueChecks();
+    const intervalId = setInterval(runDueChecks, 60 * 1000);
+    return () => clearInterval(intervalId);
+  }, [requests, pendingRequests, userProfile, advanceExpiredOffer, escalateEmergency]);
+
+  // Requests are closed once the job-board window has passed without anyone accepting,
+  // by whichever client notices first: the customer's, a technician's or staff's.
+  // Re-checked every minute while the portal is open.
+  useEffect(() => {
+    if (!userProfile) return;
+    // Technicians check the whole board, including jobs held for someone else.
+    const watched = userProfile.role === 'technician' ? pendingRequests : requests;
+
+    const expireStaleRequests = () => {
+      watched.filter(request => isPendingExpired(request)).forEach(request => expireRequest(request.id));
+    };
+
+    expireStaleRequests();
+    const intervalId = setInterval(expireStaleRequests, 60 * 1000);
+    return () => clearInterval(intervalId);
+  }, [requests, pendingRequests, userProfile, expireRequest]);
 
   const value = {
     requests,
     conversations,
     handleNewRequest,
     handleUpdateStatus,
+    handleAcceptRequest,
+    handleDeclineRequest,
+    handleCancelRequest,
+    handleRescheduleRequest,
     handleCreateInvoice,
+    handleReviseInvoice,
+    handleIssueCreditNote,
     handleMarkAsPaid,
     handleAddRating,
+    handleSendMessage,
+    handleAssignTechnician,
+    handleResolvePayment,
+    handleSendEstimate,
+    handleRespondToEstimate,
     setConversations,
   };
 
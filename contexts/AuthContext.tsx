@@ -1,76 +1,151 @@
-import React, { createContext, useState, useEffect, useContext, ReactNode } from 'react';
-import { User, onAuthStateChanged } from 'firebase/auth';
-import { doc, getDoc } from 'firebase/firestore';
-import { auth, db } from '@/services/firebase';
-
-// Step 1: Define the shape of our user profile data from Firestore.
-// This should match the structure we defined in Phase 1.
-export interface UserProfile {
-  uid: string;
-  fullName: string;
-  email: string;
-  role: 'customer' | 'technician';
-  avatarUrl: string;
-  skills?: string[]; // Optional, only for technicians
-}
+import React, { createContext, useState, useEffect, useContext, useCallback, ReactNode } from 'react';
+import { authBackend, AuthUser } from '@/services/backend';
+import { UserProfile } from '@/shared/types';
+import { userRepository, requestRepository, conversationRepository, createBatch, commitInBatches, DataWriter } from '@/services/repositories';
+
+// Step 1: The user profile type lives with the other shared types; re-exported here
+// because most components reach for it alongside useAuth.
+export type { UserProfile };
+
+// The profile fields a user may edit themselves.
+export type ProfileUpdate = Partial<Pick<UserProfile, 'fullName' | 'avatarUrl' | 'skills'>>;
 
 // Step 2: Define the shape of the data our context will provide.
 interface AuthContextType {
-  user: User | null; // The raw user object from Firebase Auth
+  user: AuthUser | null; // The signed-in account from the auth backend
   userProfile: UserProfile | null; // The user's profile data from Firestore
   loading: boolean; // A flag to know when we are checking for authentication
+  updateProfile: (updates: ProfileUpdate) => Promise<void>;
+  requestEmailChange: (newEmail: string, currentPassword: string) => Promise<void>;
 }
 
 // Step 3: Create the actual context with a default value.
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+// Rewrites every denormalized copy of the user's public details. Requests that are
+// still in play carry a copy of each party's name and avatar; finished requests keep
+// the details they had at the time. A busy user can have more copies than fit in one
+// batch, so they're written in as many as it takes.
+const updateProfileCopies = async (profile: UserProfile) => {
+  const writes: ((writer: DataWriter) => void)[] = [];
+  const conversations = await conversationRepository.findForUser(profile.uid);
+  conversations.forEach(conversation => {
+    writes.push(writer => conversationRepository.updateParticipantInfo(writer, conversation.id, profile.uid, { fullName: profile.fullName, avatarUrl: profile.avatarUrl }));
+  });
+
+  // Staff are never a party to a request.
+  if (profile.role !== 'admin') {
+    const openRequests = await requestRepository.findOpenForUser(profile.uid, profile.role);
+    openRequests.forEach(request => {
+      writes.push(writer => requestRepository.update(writer, request.id, profile.role === 'technician'
+        ? { technicianName: profile.fullName, technicianAvatar: profile.avatarUrl, technicianSkills: profile.skills || [] }
+        : { customerName: profile.fullName, customerAvatar: profile.avatarUrl }));
+    });
+  }
+
+  await commitInBatches(writes);
+};
+
+const AUTH_ERROR_MESSAGES: Record<string, string> = {
+  'auth/wrong-password': 'Your current password is incorrect.',
+  'auth/invalid-credential': 'Your current password is incorrect.',
+  'auth/email-already-in-use': 'That email address is already in use by another account.',
+  'auth/invalid-email': 'Please enter a valid email address.',
+  'auth/too-many-requests': 'Too many attempts. Please wait a moment and try again.',
+};
+
 // Step 4: Create the Provider component. This is the component that will wrap our app.
 export const AuthProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
-  const [user, setUser] = useState<User | null>(null);
+  const [user, setUser] = useState<AuthUser | null>(null);
   const [userProfile, setUserProfile] = useState<UserProfile | null>(null);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
-    // onAuthStateChanged is a real-time listener from Firebase.
+    let unsubscribeProfile: (() => void) | null = null;
+
+    // onAuthStateChanged is a real-time listener from the auth backend.
     // It runs once on initial load, and then every time the user logs in or out.
-    const unsubscribe = onAuthStateChanged(auth, async (firebaseUser) => {
+    const unsubscribe = authBackend.onAuthStateChanged((firebaseUser) => {
+      if (unsubscribeProfile) {
+        unsubscribeProfile();
+        unsubscribeProfile = null;
+      }
+
       if (firebaseUser) {
         // User is logged in.
         setUser(firebaseUser);
-        
-        // Now, fetch their profile from the 'users' collection in Firestore.
-        const userDocRef = doc(db, 'users', firebaseUser.uid);
-        try {
-          const userDoc = await getDoc(userDocRef);
-          if (userDoc.exists()) {
+
+        // Listen to their profile so edits show up immediately.
+        unsubscribeProfile = userRepository.subscribe(firebaseUser.uid, (profile) => {
+          if (profile) {
             // The profile document was found.
-            setUserProfile(userDoc.data() as UserProfile);
+            // A changed email only reaches Firebase Auth once the user clicks the
+            // verification link, so bring the profile up to date when we see it.
+            if (firebaseUser.email && profile.email !== firebaseUser.email) {
+              userRepository.confirmEmail(firebaseUser.uid, firebaseUser.email)
+                .catch(error => console.error("AuthContext.tsx: Error syncing verified email:", error));
+            }
+            setUserProfile(profile);
           } else {
             // This is a debuggable error case. It means the user is authenticated
             // but their profile document is missing in Firestore.
             console.error(`AuthContext.tsx: No profile document found for user with UID: ${firebaseUser.uid}`);
             setUserProfile(null); // Ensure no stale profile data
           }
-        } catch (error) {
-            console.error("AuthContext.tsx: Error fetching user profile:", error);
-            setUserProfile(null);
-        }
-
+          // Finished the initial check.
+          setLoading(false);
+        }, (error) => {
+          console.error("AuthContext.tsx: Error fetching user profile:", error);
+          setUserProfile(null);
+          setLoading(false);
+        });
       } else {
         // User is logged out. Reset all states.
         setUser(null);
         setUserProfile(null);
+        setLoading(false);
       }
-      // Finished the initial check.
-      setLoading(false);
     });
 
-    // Cleanup the listener when the component unmounts to prevent memory leaks.
-    return () => unsubscribe();
+    // Cleanup the listeners when the component unmounts to prevent memory leaks.
+    return () => {
+      unsubscribe();
+      if (unsubscribeProfile) unsubscribeProfile();
+    };
   }, []); // The empty dependency array means this effect runs only once on mount.
 
+  // Saves the user's own edits first, so they're never lost, then the copies of their
+  // name and avatar held on conversations and open requests. If the copies fail, the
+  // edits still stand and saving again catches the copies up.
+  const updateProfile = useCallback(async (updates: ProfileUpdate) => {
+    if (!userProfile) {
+      throw new Error('You must be signed in to update your profile.');
+    }
+
+    const batch = createBatch();
+    userRepository.update(batch, userProfile.uid, updates);
+    await batch.commit();
+    await updateProfileCopies({ ...userProfile, ...updates });
+  }, [userProfile]);
+
+  // Firebase requires a recent sign-in to change the email, and only switches to the
+  // new address once the user clicks the link sent to it.
+  const requestEmailChange = useCallback(async (newEmail: string, currentPassword: string) => {
+    if (!user || !user.email) {
+      throw new Error('You must be signed in to change your email.');
+    }
+
+    try {
+      await authBackend.reauthenticate(currentPassword);
+      await authBackend.requestEmailChange(newEmail);
+      await userRepository.setPendingEmail(user.uid, newEmail);
+    } catch (err: any) {
+      throw new Error(AUTH_ERROR_MESSAGES[err.code] || err.message.replace('Firebase: ', '').replace('auth/', '').replace(/-/g, ' '));
+    }
+  }, [user]);
+
   // The value that will be available to all children components.
-  const value = { user, userProfile, loading };
+  const value = { user, userProfile, loading, updateProfile, requestEmailChange };
 
   return (
     <AuthContext.Provider value={value}>
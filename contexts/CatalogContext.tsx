@@ -0,0 +1,61 @@
+import React, { createContext, useState, useContext, ReactNode, useEffect, useMemo } from 'react';
+import { categoryRepository } from '@/services/repositories';
+import { ServiceCategory } from '@/shared/types';
+import { DEFAULT_SERVICE_CATEGORIES } from '@/shared/constants';
+import { matchCategory } from '@/shared/categories';
+
+interface CatalogContextState {
+  // Every category and subcategory, including inactive ones, sorted by name.
+  categories: ServiceCategory[];
+  // The categories offered to technicians and customers.
+  activeCategories: ServiceCategory[];
+  // True until staff set up the catalog; the built-in list is used in the meantime.
+  isUsingDefaults: boolean;
+  getCategory: (id: string) => ServiceCategory | undefined;
+  // The display name for a category id. Skills saved as free text are shown as they are.
+  getCategoryName: (id: string) => string;
+}
+
+const DEFAULT_CATEGORIES: ServiceCategory[] = DEFAULT_SERVICE_CATEGORIES
+  .map(category => ({ ...category, active: true }))
+  .sort((a, b) => a.name.localeCompare(b.name));
+
+const CatalogContext = createContext<CatalogContextState | undefined>(undefined);
+
+/**
+ * Streams the service-category catalog. Available before sign-in, since sign-up
+ * asks technicians for their skills.
+ */
+export const CatalogProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const [storedCategories, setStoredCategories] = useState<ServiceCategory[] | null>(null);
+
+  useEffect(() => {
+    const unsubscribe = categoryRepository.subscribeAll(setStoredCategories, (error) => {
+      console.error("Error in service categories listener (CatalogContext.tsx):", error);
+    });
+    return () => unsubscribe();
+  }, []);
+
+  const value = useMemo(() => {
+    const isUsingDefaults = !storedCategories || storedCategories.length === 0;
+    const categories = isUsingDefaults ? DEFAULT_CATEGORIES : storedCategories;
+    const getCategory = (id: string) => categories.find(category => category.id === id);
+    return {
+      categories,
+      activeCategories: categories.filter(category => category.active),
+      isUsingDefaults,
+      getCategory,
+      getCategoryName: (id: string) => (getCategory(id) || matchCategory(categories, id))?.name || id,
+    };
+  }, [storedCategories]);
+
+  return <CatalogContext.Provider value={value}>{children}</CatalogContext.Provider>;
+};
+
+export const useCatalog = () => {
+  const context = useContext(CatalogContext);
+  if (context === undefined) {
+    throw new Error('useCatalog must be used within a CatalogProvider');
+  }
+  return context;
+};
@@ -0,0 +1,74 @@
+import React, { createContext, useState, useCallback, useContext, ReactNode, useEffect } from 'react';
+import { userRepository } from '@/services/repositories';
+import { Notification } from '@/shared/types';
+import { useAuth } from './AuthContext';
+
+// Older notifications are kept but aren't shown in the bell.
+const NOTIFICATION_LIMIT = 50;
+
+interface NotificationContextState {
+  notifications: Notification[];
+  unreadCount: number;
+  markAsRead: (id: string) => Promise<void>;
+  markAllAsRead: () => Promise<void>;
+}
+
+const NotificationContext = createContext<NotificationContextState | undefined>(undefined);
+
+/**
+ * Streams the signed-in user's notifications.
+ * Notifications are written by AppContext alongside the changes they announce.
+ */
+export const NotificationProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const { userProfile } = useAuth();
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+
+  useEffect(() => {
+    if (!userProfile) {
+      setNotifications([]);
+      return;
+    }
+
+    const unsubscribe = userRepository.subscribeNotifications(userProfile.uid, NOTIFICATION_LIMIT, setNotifications, (error) => {
+      console.error("Error in notifications listener (NotificationContext.tsx):", error);
+    });
+
+    return () => unsubscribe();
+  }, [userProfile]);
+
+  const markAsRead = useCallback(async (id: string) => {
+    if (!userProfile) return;
+    try {
+      await userRepository.markNotificationsRead(userProfile.uid, [id]);
+    } catch (e) {
+      console.error("Error marking notification as read: ", e);
+    }
+  }, [userProfile]);
+
+  const markAllAsRead = useCallback(async () => {
+    if (!userProfile) return;
+    const unreadIds = notifications.filter(n => !n.read).map(n => n.id);
+    try {
+      await userRepository.markNotificationsRead(userProfile.uid, unreadIds);
+    } catch (e) {
+      console.error("Error marking all notifications as read: ", e);
+    }
+  }, [notifications, userProfile]);
+
+  const value = {
+    notifications,
+    unreadCount: notifications.filter(n => !n.read).length,
+    markAsRead,
+    markAllAsRead,
+  };
+
+  return <NotificationContext.Provider value={value}>{children}</NotificationContext.Provider>;
+};
+
+export const useNotifications = () => {
+  const context = useContext(NotificationContext);
+  if (context === undefined) {
+    throw new Error('useNotifications must be used within a NotificationProvider');
+  }
+  return context;
+};
@@ -0,0 +1,138 @@
+import { RequestStatus, ServiceAddress, TechnicianSchedule, UserProfile } from '@/shared/types';
+import { DEFAULT_JOB_DURATION_MINUTES } from '@/shared/constants';
+import { fromDateKey, getBlockedIntervals, getOpenStarts, getRequestDuration, getWorkingHours, parseSlotLabel, toDateKey, toSlotLabel } from '@/shared/workingHours';
+import { coversAddress } from '@/shared/serviceArea';
+import { getDeviceTimeZone, getProfileTimeZone, getZonedDateKey, getZonedMinutes, zonedTimeToUtc } from '@/shared/timeZones';
+import { requestRepository, scheduleRepository, userRepository } from './repositories';
+
+export interface AvailabilityOptions {
+    // Only consider this technician (e.g. rescheduling a job that's already been accepted).
+    technicianUid?: string;
+    // Ignore this request when working out who is busy, so a job doesn't block its own slot.
+    excludeRequestId?: string;
+    // How long the job will take. Defaults to DEFAULT_JOB_DURATION_MINUTES.
+    durationMinutes?: number;
+    // The zone of the service location, which `date` and the returned labels are in.
+    // Defaults to the device's zone.
+    timeZone?: string;
+    // Where the job is. Only technicians whose service area covers it are considered.
+    address?: ServiceAddress;
+}
+
+/**
+ * The technicians qualified for a category who take jobs at `address`. Without an
+ * address, everyone qualified.
+ */
+export async function findCoveringTechnicians(serviceCategoryId: string, address?: ServiceAddress): Promise<UserProfile[]> {
+    const technicians = await userRepository.findTechniciansWithSkill(serviceCategoryId);
+    return technicians.filter(technician => coversAddress(technician.serviceArea, address));
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Returns the appointment windows on `date`, as labels like '09:00 - 11:00', that at
+ * least one technician with the category among their skills and the job's address in
+ * their service area can fit into their working hours around the jobs they already
+ * have, the slots they've blocked off, and their recurring blocks and time off.
+ *
+ * `date` is a calendar day at the service location, and the labels read in its zone.
+ * Each technician's hours and blocks are read in their own zone, so a technician an
+ * hour ahead who starts at 09:00 is offered from 08:00 location time.
+ */
+export async function getAvailableSlots(serviceCategoryId: string, date: Date, options: AvailabilityOptions = {}): Promise<string[]> {
+    const durationMinutes = options.durationMinutes || DEFAULT_JOB_DURATION_MINUTES;
+    const timeZone = options.timeZone || getDeviceTimeZone();
+
+    // 1. Find all technicians qualified for the job who work where it is.
+    const technicians = (await findCoveringTechnicians(serviceCategoryId, options.address))
+        .filter(technician => !options.technicianUid || technician.uid === options.technicianUid);
+
+    if (technicians.length === 0) {
+        return []; // No technicians have this skill in the area
+    }
+
+    // 2. The requested day at the location, as a span of real time, and the days it
+    // touches in each technician's own zone.
+    const dayKey = toDateKey(date);
+    const dayStart = zonedTimeToUtc(dayKey, 0, timeZone);
+    const dayEnd = zonedTimeToUtc(dayKey, 24 * 60, timeZone);
+    const technicianDays = new Map(technicians.map(technician => {
+        const technicianZone = getProfileTimeZone(technician);
+        const keys = new Set([getZonedDateKey(dayStart, technicianZone), getZonedDateKey(new Date(dayEnd.getTime() - 1), technicianZone)]);
+        return [technician.uid, Array.from(keys)];
+    }));
+
+    const technicianUids = technicians.map(technician => technician.uid);
+    const scheduleKeys = Array.from(new Set(Array.from(technicianDays.values()).flat()));
+
+    // A day either side covers jobs that started the evening before in another zone.
+    const [jobs, schedulesByDay, blocks] = await Promise.all([
+        requestRepository.findAssignedBetween(technicianUids, new Date(dayStart.getTime() - DAY_MS), new Date(dayEnd.getTime() + DAY_MS)),
+        Promise.all(scheduleKeys.map(key => scheduleRepository.findForTechnicians(technicianUids, fromDateKey(key)))),
+        scheduleRepository.findBlocksForTechnicians(technicianUids),
+    ]);
+    const schedules: TechnicianSchedule[] = schedulesByDay.flat();
+
+    // 3. Work out each technician's open start times in their own zone, as instants.
+    const now = Date.now();
+    const starts = new Set<number>();
+    technicians.forEach(technician => {
+        const technicianZone = getProfileTimeZone(technician);
+        const ownJobs = jobs.filter(request => request.assignedTechnicianUid === technician.uid
+            && request.id !== options.excludeRequestId
+            && request.status !== RequestStatus.CANCELLED);
+        const ownBlocks = blocks.filter(block => block.technicianUid === technician.uid);
+
+        technicianDays.get(technician.uid)!.forEach(key => {
+            const localDay = fromDateKey(key);
+            const localMidnight = zonedTimeToUtc(key, 0, technicianZone).getTime();
+
+            // Everything already taking their time that day, in minutes since their midnight.
+            const busy = [
+                // A) Jobs they have already accepted.
+                ...ownJobs.map(request => {
+                    const start = Math.round((new Date(request.dateTime).getTime() - localMidnight) / 60000);
+                    return { start, end: start + getRequestDuration(request) };
+                }),
+                // B) Their manually blocked-off slots.
+                ...schedules
+                    .filter(schedule => schedule.technicianUid === technician.uid && schedule.date === key)
+                    .flatMap(schedule => (schedule.unavailableSlots || []).map(parseSlotLabel)),
+                // C) Recurring blocks and time off that cover the day.
+                ...getBlockedIntervals(ownBlocks, localDay).map(({ start, end }) => ({ start, end })),
+            ];
+
+            getOpenStarts(getWorkingHours(technician), localDay, durationMinutes, busy)
+                .map(start => zonedTimeToUtc(key, start, technicianZone).getTime())
+                // Keep starts on the requested day at the location, and not already passed.
+                .filter(instant => instant >= dayStart.getTime() && instant < dayEnd.getTime() && instant >= now)
+                .forEach(instant => starts.add(instant));
+        });
+    });
+
+    // 4. A window is available if at least one qualified technician can fit the job in.
+    return Array.from(starts)
+        .sort((a, b) => a - b)
+        .map(instant => getZonedMinutes(new Date(instant), timeZone))
+        .map(start => toSlotLabel(start, start + durationMinutes));
+}
+
+/**
+ * Combines a calendar day and a slot label like '09:30 - 11:30' into the slot's start
+ * time, reading the label in `timeZone` (the device's zone if not given).
+ */
+export const slotToDateTime = (date: Date, slot: string, timeZone: string = getDeviceTimeZone()): Date =>
+    zonedTimeToUtc(toDateKey(date), parseSlotLabel(slot).start, timeZone);
+
+/**
+ * Whether a job could start at exactly `dateTime`, by the same rules customers are
+ * offered slots under.
+ */
+export const isAvailableAt = async (serviceCategoryId: string, dateTime: Date, options: AvailabilityOptions = {}): Promise<boolean> => {
+    const timeZone = options.timeZone || getDeviceTimeZone();
+    const start = getZonedMinutes(dateTime, timeZone);
+    const label = toSlotLabel(start, start + (options.durationMinutes || DEFAULT_JOB_DURATION_MINUTES));
+    const day = fromDateKey(getZonedDateKey(dateTime, timeZone));
+    return (await getAvailableSlots(serviceCategoryId, day, { ...options, timeZone })).includes(label);
+};
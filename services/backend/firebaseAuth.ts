@@ -0,0 +1,43 @@
+import {
+  Auth,
+  User,
+  onAuthStateChanged,
+  createUserWithEmailAndPassword,
+  signInWithEmailAndPassword,
+  signOut,
+  sendPasswordResetEmail,
+  EmailAuthProvider,
+  reauthenticateWithCredential,
+  verifyBeforeUpdateEmail,
+} from 'firebase/auth';
+import { AuthBackend, AuthUser } from './types';
+
+const toAuthUser = (user: User): AuthUser => ({ uid: user.uid, email: user.email });
+
+/**
+ * The production auth backend: a thin adapter from AuthBackend onto Firebase Auth.
+ */
+export const createFirebaseAuthBackend = (auth: Auth): AuthBackend => {
+  const requireUser = () => {
+    if (!auth.currentUser) {
+      throw Object.assign(new Error('You must be signed in.'), { code: 'auth/no-current-user' });
+    }
+    return auth.currentUser;
+  };
+
+  return {
+    onAuthStateChanged: (onChange) =>
+      onAuthStateChanged(auth, user => onChange(user ? toAuthUser(user) : null)),
+
+    signUp: async (email, password) => toAuthUser((await createUserWithEmailAndPassword(auth, email, password)).user),
+    signIn: async (email, password) => toAuthUser((await signInWithEmailAndPassword(auth, email, password)).user),
+    signOut: () => signOut(auth),
+    sendPasswordReset: (email) => sendPasswordResetEmail(auth, email),
+
+    reauthenticate: async (password) => {
+      const user = requireUser();
+      await reauthenticateWithCredential(user, EmailAuthProvider.credential(user.email || '', password));
+    },
+    requestEmailChange: (newEmail) => verifyBeforeUpdateEmail(requireUser(), newEmail),
+  };
+};
@@ -0,0 +1,78 @@
+import {
+  Firestore,
+  DocumentSnapshot,
+  QuerySnapshot,
+  collection,
+  doc,
+  getDoc,
+  getDocs,
+  setDoc,
+  updateDoc,
+  onSnapshot,
+  query,
+  where,
+  orderBy,
+  limit,
+  runTransaction,
+  writeBatch,
+  serverTimestamp,
+  arrayUnion,
+  arrayRemove,
+  deleteField,
+  QueryConstraint,
+} from 'firebase/firestore';
+import { DataBackend, QueryOptions, StoredDoc } from './types';
+
+const toStoredDoc = (snapshot: DocumentSnapshot): StoredDoc | null =>
+  snapshot.exists() ? { id: snapshot.id, data: snapshot.data() } : null;
+
+const toStoredDocs = (snapshot: QuerySnapshot): StoredDoc[] =>
+  snapshot.docs.map(d => ({ id: d.id, data: d.data() }));
+
+/**
+ * The production backend: a thin adapter from DataBackend onto the Firestore SDK.
+ */
+export const createFirestoreBackend = (db: Firestore): DataBackend => {
+  const buildQuery = (collectionPath: string, options: QueryOptions = {}) => {
+    const constraints: QueryConstraint[] = (options.where || []).map(f => where(f.field, f.op, f.value));
+    if (options.orderBy) constraints.push(orderBy(options.orderBy.field, options.orderBy.direction || 'asc'));
+    if (options.limit) constraints.push(limit(options.limit));
+    return query(collection(db, collectionPath), ...constraints);
+  };
+
+  return {
+    fieldValues: {
+      serverTimestamp: () => serverTimestamp(),
+      arrayUnion: (...elements) => arrayUnion(...elements),
+      arrayRemove: (...elements) => arrayRemove(...elements),
+      deleteField: () => deleteField(),
+    },
+
+    newId: (collectionPath) => doc(collection(db, collectionPath)).id,
+
+    get: async (path) => toStoredDoc(await getDoc(doc(db, path))),
+    query: async (collectionPath, options) => toStoredDocs(await getDocs(buildQuery(collectionPath, options))),
+    set: (path, data, options) => setDoc(doc(db, path), data, options || {}),
+    update: (path, data) => updateDoc(doc(db, path), data),
+
+    subscribe: (path, onNext, onError) =>
+      onSnapshot(doc(db, path), snapshot => onNext(toStoredDoc(snapshot)), onError),
+    subscribeQuery: (collectionPath, options, onNext, onError) =>
+      onSnapshot(buildQuery(collectionPath, options), snapshot => onNext(toStoredDocs(snapshot)), onError),
+
+    runTransaction: (updateFunction) => runTransaction(db, transaction => updateFunction({
+      get: async (path) => toStoredDoc(await transaction.get(doc(db, path))),
+      set: (path, data, options) => { transaction.set(doc(db, path), data, options || {}); },
+      update: (path, data) => { transaction.update(doc(db, path), data); },
+    })),
+
+    batch: () => {
+      const batch = writeBatch(db);
+      return {
+        set: (path, data, options) => { batch.set(doc(db, path), data, options || {}); },
+        update: (path, data) => { batch.update(doc(db, path), data); },
+        commit: () => batch.commit(),
+      };
+    },
+  };
+};
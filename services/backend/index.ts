@@ -0,0 +1,41 @@
+import { getFirebase } from '@/services/firebase';
+import { createFirestoreBackend } from './firestoreBackend';
+import { createFirebaseAuthBackend } from './firebaseAuth';
+import { createLocalBackend } from './localBackend';
+import { createLocalAuthBackend } from './localAuth';
+import { createSeedData, SEED_ACCOUNTS } from './seed';
+import { AuthBackend, DataBackend } from './types';
+
+export * from './types';
+
+/**
+ * Picks the backend from the DATA_BACKEND environment variable:
+ * - `firebase` (the default): Firestore and Firebase Auth, configured in services/firebase.ts.
+ * - `local`: seeded demo data kept in the browser's localStorage, so changes survive a reload.
+ * - `memory`: the same demo data held in memory, starting fresh on every page load.
+ */
+const selectBackends = (): { data: DataBackend; auth: AuthBackend } => {
+  const kind = process.env.DATA_BACKEND || 'firebase';
+  if (kind === 'local' || kind === 'memory') {
+    const storage = kind === 'local' ? window.localStorage : null;
+    const data = createLocalBackend({ storage, seed: () => createSeedData() });
+    return { data, auth: createLocalAuthBackend({ storage, seedAccounts: SEED_ACCOUNTS, newId: () => data.newId('users') }) };
+  }
+  if (kind !== 'firebase') {
+    console.error(`services/backend: Unknown DATA_BACKEND "${kind}", falling back to Firebase.`);
+  }
+  const { auth, db } = getFirebase();
+  return { data: createFirestoreBackend(db), auth: createFirebaseAuthBackend(auth) };
+};
+
+const selected = selectBackends();
+
+/**
+ * The backend every repository uses.
+ */
+export const backend: DataBackend = selected.data;
+
+/**
+ * Sign-up, sign-in and account changes, from the same provider as `backend`.
+ */
+export const authBackend: AuthBackend = selected.auth;
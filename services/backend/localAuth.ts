@@ -0,0 +1,119 @@
+import { AuthBackend, AuthUser } from './types';
+import { KeyValueStorage } from './localBackend';
+
+export interface LocalAccount {
+  uid: string;
+  email: string;
+  // Kept in plain text: this backend is for demos and tests on a single machine only.
+  password: string;
+}
+
+interface AuthState {
+  accounts: LocalAccount[];
+  currentUid: string | null;
+}
+
+export interface LocalAuthOptions {
+  storage?: KeyValueStorage | null;
+  // Accounts to create when the storage holds none yet.
+  seedAccounts?: LocalAccount[];
+  newId: () => string;
+}
+
+const STORAGE_KEY = 'e-service-portal:auth';
+const MIN_PASSWORD_LENGTH = 6;
+
+// Same codes and wording Firebase uses, so the app's error handling works unchanged.
+const authError = (code: string, message: string) => Object.assign(new Error(`Firebase: ${message} (${code}).`), { code });
+
+const normalizeEmail = (email: string) => email.trim().toLowerCase();
+const isValidEmail = (email: string) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email);
+
+/**
+ * An AuthBackend over a local account list, paired with the local data backend.
+ * Email verification can't happen offline, so email changes apply immediately.
+ */
+export const createLocalAuthBackend = ({ storage = null, seedAccounts = [], newId }: LocalAuthOptions): AuthBackend => {
+  const saved = storage?.getItem(STORAGE_KEY);
+  const state: AuthState = saved ? JSON.parse(saved) : { accounts: seedAccounts.map(account => ({ ...account })), currentUid: null };
+  const listeners = new Set<(user: AuthUser | null) => void>();
+
+  const currentAccount = () => state.accounts.find(account => account.uid === state.currentUid) || null;
+  const currentUser = (): AuthUser | null => {
+    const account = currentAccount();
+    return account ? { uid: account.uid, email: account.email } : null;
+  };
+
+  const save = () => {
+    storage?.setItem(STORAGE_KEY, JSON.stringify(state));
+  };
+
+  const signInAs = (account: LocalAccount | null) => {
+    state.currentUid = account ? account.uid : null;
+    save();
+    const user = currentUser();
+    setTimeout(() => listeners.forEach(listener => listener(user)), 0);
+    return user;
+  };
+
+  const requireAccount = () => {
+    const account = currentAccount();
+    if (!account) throw authError('auth/no-current-user', 'No user is signed in');
+    return account;
+  };
+
+  if (!saved) save();
+
+  return {
+    onAuthStateChanged: (onChange) => {
+      listeners.add(onChange);
+      setTimeout(() => {
+        if (listeners.has(onChange)) onChange(currentUser());
+      }, 0);
+      return () => { listeners.delete(onChange); };
+    },
+
+    signUp: async (email, password) => {
+      const normalized = normalizeEmail(email);
+      if (!isValidEmail(normalized)) throw authError('auth/invalid-email', 'Error');
+      if (password.length < MIN_PASSWORD_LENGTH) {
+        throw authError('auth/weak-password', `Password should be at least ${MIN_PASSWORD_LENGTH} characters`);
+      }
+      if (state.accounts.some(account => account.email === normalized)) throw authError('auth/email-already-in-use', 'Error');
+
+      const account = { uid: newId(), email: normalized, password };
+      state.accounts.push(account);
+      return signInAs(account) as AuthUser;
+    },
+
+    signIn: async (email, password) => {
+      const account = state.accounts.find(candidate => candidate.email === normalizeEmail(email));
+      if (!account || account.password !== password) throw authError('auth/invalid-credential', 'Error');
+      return signInAs(account) as AuthUser;
+    },
+
+    signOut: async () => {
+      signInAs(null);
+    },
+
+    // There's no mail server; like Firebase, don't reveal whether the account exists.
+    sendPasswordReset: async (email) => {
+      if (!isValidEmail(normalizeEmail(email))) throw authError('auth/invalid-email', 'Error');
+    },
+
+    reauthenticate: async (password) => {
+      if (requireAccount().password !== password) throw authError('auth/invalid-credential', 'Error');
+    },
+
+    requestEmailChange: async (newEmail) => {
+      const account = requireAccount();
+      const normalized = normalizeEmail(newEmail);
+      if (!isValidEmail(normalized)) throw authError('auth/invalid-email', 'Error');
+      if (state.accounts.some(other => other.email === normalized && other.uid !== account.uid)) {
+        throw authError('auth/email-already-in-use', 'Error');
+      }
+      account.email = normalized;
+      signInAs(account);
+    },
+  };
+};
@@ -0,0 +1,379 @@
+import { DataBackend, DataTransaction, DocumentData, Filter, QueryOptions, SetOptions, StoredDoc, Unsubscribe } from './types';
+
+/**
+ * Stands in for Firestore's Timestamp. The app only ever calls `toDate()`.
+ */
+export class LocalTimestamp {
+  constructor(readonly millis: number) {}
+
+  static fromDate(date: Date): LocalTimestamp {
+    return new LocalTimestamp(date.getTime());
+  }
+
+  toDate(): Date {
+    return new Date(this.millis);
+  }
+}
+
+type FieldValueOp =
+  | { kind: 'serverTimestamp' }
+  | { kind: 'arrayUnion'; elements: unknown[] }
+  | { kind: 'arrayRemove'; elements: unknown[] }
+  | { kind: 'deleteField' };
+
+class FieldValueSentinel {
+  constructor(readonly op: FieldValueOp) {}
+}
+
+type PendingWrite =
+  | { kind: 'set'; path: string; data: DocumentData; options?: SetOptions }
+  | { kind: 'update'; path: string; data: DocumentData };
+
+// The subset of the Web Storage API the backend persists through.
+export interface KeyValueStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+}
+
+export interface LocalBackendOptions {
+  // Where to keep the data between page loads. Without one, everything lives in memory.
+  storage?: KeyValueStorage | null;
+  // Documents keyed by path, loaded when the storage holds nothing yet.
+  seed?: () => Record<string, DocumentData>;
+}
+
+const STORAGE_KEY = 'e-service-portal:data';
+const MAX_TRANSACTION_ATTEMPTS = 5;
+const ID_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+
+const backendError = (code: string, message: string) => Object.assign(new Error(message), { code });
+
+const isPlainObject = (value: unknown): value is DocumentData =>
+  value !== null && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype;
+
+const parentOf = (path: string) => path.split('/').slice(0, -1).join('/');
+const idOf = (path: string) => path.split('/').pop() as string;
+
+// Timestamps are immutable, so only arrays and maps need copying.
+const clone = (value: any): any => {
+  if (Array.isArray(value)) return value.map(clone);
+  if (isPlainObject(value)) return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, clone(v)]));
+  return value;
+};
+
+// JSON can't hold timestamps, so they are tagged on the way out and rebuilt on the way in.
+const serialize = (value: any): any => {
+  if (value instanceof LocalTimestamp) return { __timestamp: value.millis };
+  if (Array.isArray(value)) return value.map(serialize);
+  if (isPlainObject(value)) return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, serialize(v)]));
+  return value;
+};
+
+const revive = (value: any): any => {
+  if (Array.isArray(value)) return value.map(revive);
+  if (isPlainObject(value)) {
+    if (typeof value.__timestamp === 'number') return new LocalTimestamp(value.__timestamp);
+    return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, revive(v)]));
+  }
+  return value;
+};
+
+const isEqual = (a: unknown, b: unknown) => JSON.stringify(serialize(a)) === JSON.stringify(serialize(b));
+
+const getField = (data: DocumentData, fieldPath: string): any =>
+  fieldPath.split('.').reduce<any>((value, key) => (isPlainObject(value) ? value[key] : undefined), data);
+
+const compare = (a: any, b: any): number => {
+  const left = a instanceof LocalTimestamp ? a.millis : a;
+  const right = b instanceof LocalTimestamp ? b.millis : b;
+  if (typeof left !== typeof right) return String(typeof left).localeCompare(typeof right);
+  return left < right ? -1 : left > right ? 1 : 0;
+};
+
+const matches = (data: DocumentData, filter: Filter): boolean => {
+  const value = getField(data, filter.field);
+  switch (filter.op) {
+    case '==':
+      return isEqual(value, filter.value);
+    case 'in':
+      return Array.isArray(filter.value) && filter.value.some(candidate => isEqual(value, candidate));
+    case 'array-contains':
+      return Array.isArray(value) && value.some(element => isEqual(element, filter.value));
+    default: {
+      if (value === undefined || value === null) return false;
+      const order = compare(value, filter.value);
+      if (filter.op === '<') return order < 0;
+      if (filter.op === '<=') return order <= 0;
+      if (filter.op === '>') return order > 0;
+      return order >= 0;
+    }
+  }
+};
+
+// Resolves any field-value sentinels in `value`, given the value currently stored there.
+const resolve = (value: any, current: any): any => {
+  if (value instanceof FieldValueSentinel) {
+    const { op } = value;
+    switch (op.kind) {
+      case 'serverTimestamp':
+        return new LocalTimestamp(Date.now());
+      case 'arrayUnion': {
+        const existing: unknown[] = Array.isArray(current) ? clone(current) : [];
+        op.elements.forEach(element => {
+          if (!existing.some(item => isEqual(item, element))) existing.push(clone(element));
+        });
+        return existing;
+      }
+      case 'arrayRemove':
+        return (Array.isArray(current) ? current : []).filter(item => !op.elements.some(element => isEqual(item, element))).map(clone);
+      case 'deleteField':
+        return undefined;
+    }
+  }
+  if (Array.isArray(value)) return value.map(element => resolve(element, undefined));
+  if (isPlainObject(value)) {
+    const resolved: DocumentData = {};
+    Object.entries(value).forEach(([key, field]) => {
+      const next = resolve(field, isPlainObject(current) ? current[key] : undefined);
+      if (next !== undefined) resolved[key] = next;
+    });
+    return resolved;
+  }
+  return value;
+};
+
+const isDelete = (value: unknown) => value instanceof FieldValueSentinel && value.op.kind === 'deleteField';
+
+// Like Firestore's `set(..., { merge: true })`: nested maps are merged rather than replaced.
+const merge = (existing: DocumentData, data: DocumentData): DocumentData => {
+  const merged = clone(existing);
+  Object.entries(data).forEach(([key, value]) => {
+    if (isDelete(value)) {
+      delete merged[key];
+    } else if (isPlainObject(value) && isPlainObject(merged[key])) {
+      merged[key] = merge(merged[key], value);
+    } else {
+      merged[key] = resolve(value, merged[key]);
+    }
+  });
+  return merged;
+};
+
+// Like Firestore's `update`: keys may be dotted paths into nested maps.
+const applyUpdate = (existing: DocumentData, data: DocumentData): DocumentData => {
+  const updated = clone(existing);
+  Object.entries(data).forEach(([fieldPath, value]) => {
+    const keys = fieldPath.split('.');
+    const last = keys.pop() as string;
+    let target = updated;
+    keys.forEach(key => {
+      if (!isPlainObject(target[key])) target[key] = {};
+      target = target[key];
+    });
+    if (isDelete(value)) {
+      delete target[last];
+    } else {
+      target[last] = resolve(value, target[last]);
+    }
+  });
+  return updated;
+};
+
+const generateId = () =>
+  Array.from({ length: 20 }, () => ID_ALPHABET[Math.floor(Math.random() * ID_ALPHABET.length)]).join('');
+
+/**
+ * A DataBackend that keeps every document in memory, optionally persisted to
+ * localStorage, so the app can run without a Firebase project or a network.
+ *
+ * It follows Firestore's semantics where the app relies on them: writes in a batch or
+ * transaction land together, transactions re-run when a document they read changes
+ * underneath them, and listeners fire asynchronously after every change. Tabs sharing
+ * the storage see each other's changes the same way.
+ */
+export const createLocalBackend = ({ storage = null, seed }: LocalBackendOptions = {}): DataBackend => {
+  const docs = new Map<string, DocumentData>();
+  // Bumped on every write, so transactions can tell whether what they read is stale.
+  const versions = new Map<string, number>();
+  const listeners = new Set<() => void>();
+  // What the storage held when this tab last read or wrote it.
+  let lastSaved: string | null = null;
+
+  const notifyListeners = () => setTimeout(() => Array.from(listeners).forEach(listener => listener()), 0);
+
+  const load = () => {
+    const saved = storage?.getItem(STORAGE_KEY);
+    const initial: Record<string, DocumentData> = saved ? revive(JSON.parse(saved)) : (seed ? seed() : {});
+    Object.entries(initial).forEach(([path, data]) => docs.set(path, data));
+    lastSaved = saved ?? null;
+    if (!saved) persist();
+  };
+
+  const persist = () => {
+    if (!storage) return;
+    try {
+      const saved = JSON.stringify(serialize(Object.fromEntries(docs)));
+      storage.setItem(STORAGE_KEY, saved);
+      lastSaved = saved;
+    } catch (error) {
+      // Most likely the storage quota; the data is still held in memory for this session.
+      console.error("localBackend.ts: Error saving data to storage:", error);
+    }
+  };
+
+  const readDoc = (path: string): StoredDoc | null => {
+    const data = docs.get(path);
+    return data ? { id: idOf(path), data: clone(data) } : null;
+  };
+
+  const runQuery = (collectionPath: string, options: QueryOptions = {}): StoredDoc[] => {
+    let results = Array.from(docs.entries())
+      .filter(([path, data]) => parentOf(path) === collectionPath && (options.where || []).every(filter => matches(data, filter)));
+
+    if (options.orderBy) {
+      const { field, direction = 'asc' } = options.orderBy;
+      // Firestore leaves out documents that don't have the field being ordered on.
+      results = results
+        .filter(([, data]) => getField(data, field) !== undefined)
+        .sort(([, a], [, b]) => compare(getField(a, field), getField(b, field)) * (direction === 'desc' ? -1 : 1));
+    }
+    if (options.limit) results = results.slice(0, options.limit);
+
+    return results.map(([path, data]) => ({ id: idOf(path), data: clone(data) }));
+  };
+
+  // Every tab writes the whole database, so before writing, take in whatever other tabs
+  // have saved since. Documents they changed get a new version, so transactions that
+  // read them re-run instead of overwriting the other tab's change.
+  const syncFromStorage = () => {
+    const saved = storage?.getItem(STORAGE_KEY);
+    if (!saved || saved === lastSaved) return;
+    lastSaved = saved;
+    const latest: Record<string, DocumentData> = revive(JSON.parse(saved));
+    let changed = false;
+    new Set([...docs.keys(), ...Object.keys(latest)]).forEach(path => {
+      if (isEqual(docs.get(path), latest[path])) return;
+      if (latest[path]) {
+        docs.set(path, latest[path]);
+      } else {
+        docs.delete(path);
+      }
+      versions.set(path, (versions.get(path) ?? 0) + 1);
+      changed = true;
+    });
+    if (changed) notifyListeners();
+  };
+
+  // Applies the writes all-or-nothing: if any fails, none of them land.
+  const commit = (writes: PendingWrite[]) => {
+    syncFromStorage();
+    const changed = new Map<string, DocumentData>();
+    writes.forEach(write => {
+      const current = changed.get(write.path) ?? docs.get(write.path);
+      if (write.kind === 'set') {
+        changed.set(write.path, write.options?.merge && current ? merge(current, write.data) : resolve(write.data, undefined));
+      } else {
+        if (!current) throw backendError('not-found', `No document to update: ${write.path}`);
+        changed.set(write.path, applyUpdate(current, write.data));
+      }
+    });
+
+    changed.forEach((data, path) => {
+      docs.set(path, data);
+      versions.set(path, (versions.get(path) ?? 0) + 1);
+    });
+    persist();
+    notifyListeners();
+  };
+
+  // Re-reads on every change and calls `onNext` when the result differs from last time.
+  const listen = <T>(read: () => T, onNext: (value: T) => void): Unsubscribe => {
+    let active = true;
+    let last: string | null = null;
+    const emit = () => {
+      if (!active) return;
+      const value = read();
+      const key = JSON.stringify(serialize(value));
+      if (key === last) return;
+      last = key;
+      onNext(value);
+    };
+    listeners.add(emit);
+    // Like Firestore, the first snapshot arrives asynchronously.
+    setTimeout(emit, 0);
+    return () => {
+      active = false;
+      listeners.delete(emit);
+    };
+  };
+
+  const batchWriter = (writes: PendingWrite[]) => ({
+    set: (path: string, data: DocumentData, options?: SetOptions) => { writes.push({ kind: 'set', path, data, options }); },
+    update: (path: string, data: DocumentData) => { writes.push({ kind: 'update', path, data }); },
+  });
+
+  load();
+  // The browser tells every other tab when one of them writes the storage.
+  if (storage && typeof window !== 'undefined') {
+    window.addEventListener('storage', event => {
+      if (event.key === STORAGE_KEY) syncFromStorage();
+    });
+  }
+
+  return {
+    fieldValues: {
+      serverTimestamp: () => new FieldValueSentinel({ kind: 'serverTimestamp' }),
+      arrayUnion: (...elements) => new FieldValueSentinel({ kind: 'arrayUnion', elements }),
+      arrayRemove: (...elements) => new FieldValueSentinel({ kind: 'arrayRemove', elements }),
+      deleteField: () => new FieldValueSentinel({ kind: 'deleteField' }),
+    },
+
+    newId: () => generateId(),
+
+    get: async (path) => readDoc(path),
+    query: async (collectionPath, options) => runQuery(collectionPath, options),
+    set: async (path, data, options) => commit([{ kind: 'set', path, data, options }]),
+    update: async (path, data) => commit([{ kind: 'update', path, data }]),
+
+    // Nothing here can fail after the first read, so `onError` is never called.
+    subscribe: (path, onNext) => listen(() => readDoc(path), onNext),
+    subscribeQuery: (collectionPath, options, onNext) => listen(() => runQuery(collectionPath, options), onNext),
+
+    runTransaction: async (updateFunction) => {
+      for (let attempt = 1; ; attempt++) {
+        const readVersions = new Map<string, number>();
+        const writes: PendingWrite[] = [];
+        const transaction: DataTransaction = {
+          get: async (path) => {
+            if (writes.length > 0) {
+              throw backendError('invalid-argument', 'Transactions must perform all reads before any writes.');
+            }
+            readVersions.set(path, versions.get(path) ?? 0);
+            return readDoc(path);
+          },
+          ...batchWriter(writes),
+        };
+
+        const result = await updateFunction(transaction);
+
+        syncFromStorage();
+        const isStale = Array.from(readVersions).some(([path, version]) => (versions.get(path) ?? 0) !== version);
+        if (!isStale) {
+          commit(writes);
+          return result;
+        }
+        if (attempt >= MAX_TRANSACTION_ATTEMPTS) {
+          throw backendError('aborted', 'Transaction failed after too many attempts.');
+        }
+      }
+    },
+
+    batch: () => {
+      const writes: PendingWrite[] = [];
+      return {
+        ...batchWriter(writes),
+        commit: async () => commit(writes),
+      };
+    },
+  };
+};
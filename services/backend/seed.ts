@@ -0,0 +1,335 @@
+import { Estimate, EstimateStatus, Invoice, InvoiceDiscount, InvoiceItem, RequestStatus, ServiceAddress, ServiceArea, Urgency, WorkingHours } from '@/shared/types';
+import { DEFAULT_CURRENCY, INVOICE_NUMBER_PREFIX, PENDING_REQUEST_TIMEOUT_HOURS, DEFAULT_SERVICE_CATEGORIES } from '@/shared/constants';
+import { formatAddress } from '@/shared/serviceArea';
+import { calculateInvoice, formatDocumentNumber, toInvoiceItem } from '@/shared/invoices';
+import { toMoney } from '@/shared/money';
+import { placeOffline } from '@/services/geocoding';
+import { DocumentData } from './types';
+import { LocalTimestamp } from './localBackend';
+import { LocalAccount } from './localAuth';
+
+/**
+ * Demo data for the local backend: two customers, three technicians, a member of staff,
+ * the category catalog, and requests in every stage of their life. Appointments are placed
+ * relative to today so the job board and schedules always have something current to show.
+ *
+ * Every account's password is SEED_PASSWORD.
+ */
+export const SEED_PASSWORD = 'password123';
+
+interface SeedUser {
+  uid: string;
+  fullName: string;
+  email: string;
+  role: 'customer' | 'technician' | 'admin';
+  color: string;
+  skills?: string[]; // Category ids
+  workingHours?: WorkingHours;
+  serviceArea?: ServiceArea;
+}
+
+// Placed where the offline geocoder would put them, so distances match new requests.
+const seedAddress = (line1: string, postalCode: string): ServiceAddress => {
+  const address = { line1, city: 'Springfield', postalCode };
+  return { ...address, coordinates: placeOffline(address)! };
+};
+
+type SeedItem = Omit<InvoiceItem, 'cost' | 'unitPrice'> & { unitPrice: number };
+
+// Unit prices are in dollars here to keep the data readable.
+const seedPricing = (items: SeedItem[], discount: InvoiceDiscount | null) => {
+  const pricedItems = items.map(item => toInvoiceItem({ ...item, unitPrice: toMoney(item.unitPrice, DEFAULT_CURRENCY) }));
+  return { items: pricedItems, ...calculateInvoice(pricedItems, discount, DEFAULT_CURRENCY) };
+};
+
+const seedInvoice = (sequence: number, items: SeedItem[], issuedAt: Date, discount: InvoiceDiscount | null = null): Invoice =>
+  ({ number: formatDocumentNumber(INVOICE_NUMBER_PREFIX, sequence), ...seedPricing(items, discount), issuedDate: issuedAt.toISOString() });
+
+const seedEstimate = (items: SeedItem[], status: EstimateStatus, sentAt: Date): Estimate => ({
+  ...seedPricing(items, null),
+  status,
+  sentDate: sentAt.toISOString(),
+  ...(status !== 'sent' ? { respondedDate: new Date(sentAt.getTime() + 60 * 60 * 1000).toISOString() } : {}),
+});
+
+const ELM_STREET = seedAddress('12 Elm Street', '62701');
+const OAK_AVENUE = seedAddress('48 Oak Avenue', '62704');
+
+const SEED_USERS: SeedUser[] = [
+  { uid: 'customer-maria', fullName: 'Maria Lopez', email: 'maria@example.com', role: 'customer', color: '#16a34a' },
+  { uid: 'customer-james', fullName: 'James Carter', email: 'james@example.com', role: 'customer', color: '#0891b2' },
+  {
+    uid: 'tech-sam', fullName: 'Sam Patel', email: 'sam@example.com', role: 'technician', color: '#4f46e5', skills: ['plumbing', 'hvac'],
+    // Weekdays only, starting early, with a half-hour lunch.
+    workingHours: {
+      days: Array.from({ length: 7 }, (_, day) => ({ isWorking: day >= 1 && day <= 5, start: '08:00', end: '16:00', breaks: [{ start: '12:00', end: '12:30' }] })),
+      slotMinutes: 60,
+    },
+    serviceArea: { base: seedAddress('5 Mill Road', '62702'), radiusKm: 35 },
+  },
+  { uid: 'tech-dana', fullName: 'Dana Kim', email: 'dana@example.com', role: 'technician', color: '#db2777', skills: ['electrical', 'appliance-repair'] },
+  {
+    uid: 'tech-leo', fullName: 'Leo Novak', email: 'leo@example.com', role: 'technician', color: '#ea580c', skills: ['carpentry', 'painting', 'landscaping'],
+    serviceArea: { base: seedAddress('230 Lake Drive', '62707'), postalCodes: ['62701', '62703', '62704'] },
+  },
+  { uid: 'admin-olivia', fullName: 'Olivia Grant', email: 'ops@example.com', role: 'admin', color: '#7c3aed' },
+];
+
+export const SEED_ACCOUNTS: LocalAccount[] = SEED_USERS.map(({ uid, email }) => ({ uid, email, password: SEED_PASSWORD }));
+
+const avatarFor = (user: SeedUser) => {
+  const initials = user.fullName.split(' ').map(part => part[0]).join('');
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 100 100"><rect width="100" height="100" fill="${user.color}"/>`
+    + `<text x="50" y="50" dy=".35em" text-anchor="middle" font-family="sans-serif" font-size="40" fill="#fff">${initials}</text></svg>`;
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+};
+
+const user = (uid: string) => SEED_USERS.find(candidate => candidate.uid === uid) as SeedUser;
+
+const seedCategory = (id: string) => DEFAULT_SERVICE_CATEGORIES.find(candidate => candidate.id === id)!;
+
+export const createSeedData = (now: Date = new Date()): Record<string, DocumentData> => {
+  const docs: Record<string, DocumentData> = {};
+  const stamp = (date: Date) => LocalTimestamp.fromDate(date);
+  const hoursAgo = (hours: number) => new Date(now.getTime() - hours * 60 * 60 * 1000);
+  // An appointment `days` from today, starting at the top of `hour`.
+  const appointment = (days: number, hour: number) => {
+    const date = new Date(now);
+    date.setDate(date.getDate() + days);
+    date.setHours(hour, 0, 0, 0);
+    return date;
+  };
+
+  SEED_USERS.forEach(seedUser => {
+    docs[`users/${seedUser.uid}`] = {
+      uid: seedUser.uid,
+      fullName: seedUser.fullName,
+      email: seedUser.email,
+      role: seedUser.role,
+      avatarUrl: avatarFor(seedUser),
+      ...(seedUser.skills ? { skills: seedUser.skills } : {}),
+      ...(seedUser.workingHours ? { workingHours: seedUser.workingHours } : {}),
+      ...(seedUser.serviceArea ? { serviceArea: seedUser.serviceArea } : {}),
+      createdAt: stamp(hoursAgo(24 * 30)),
+    };
+  });
+
+  interface SeedRequest {
+    id: string;
+    customerUid: string;
+    technicianUid?: string;
+    serviceCategoryId: string;
+    serviceSubcategoryId?: string;
+    description: string;
+    address: ServiceAddress;
+    urgency: Urgency;
+    status: RequestStatus;
+    dateTime: Date;
+    createdAt: Date;
+    extra?: DocumentData;
+    messages?: [string, string][]; // [senderUid, text]
+  }
+
+  const requests: SeedRequest[] = [
+    {
+      id: 'seed-request-1', customerUid: 'customer-maria', serviceCategoryId: 'plumbing', serviceSubcategoryId: 'plumbing-blocked-drain',
+      description: 'Kitchen sink drains very slowly and gurgles.', address: ELM_STREET,
+      urgency: Urgency.NORMAL, status: RequestStatus.PENDING, dateTime: appointment(2, 9), createdAt: hoursAgo(3),
+    },
+    {
+      id: 'seed-request-2', customerUid: 'customer-james', serviceCategoryId: 'electrical',
+      description: 'Two outlets in the living room stopped working.', address: OAK_AVENUE,
+      urgency: Urgency.NORMAL, status: RequestStatus.PENDING, dateTime: appointment(3, 13), createdAt: hoursAgo(1),
+    },
+    {
+      id: 'seed-request-3', customerUid: 'customer-james', technicianUid: 'tech-dana', serviceCategoryId: 'appliance-repair',
+      description: 'Dishwasher leaves standing water after every cycle.', address: OAK_AVENUE,
+      urgency: Urgency.HIGH, status: RequestStatus.ACCEPTED, dateTime: appointment(1, 11), createdAt: hoursAgo(20),
+      extra: {
+        // Waiting for James to approve before Dana can start.
+        estimate: seedEstimate([
+          { description: 'Drain pump', type: 'parts', quantity: 1, unitPrice: 64 },
+          { description: 'Labour', type: 'labour', quantity: 1.5, unitPrice: 80 },
+        ], 'sent', hoursAgo(2)),
+      },
+      messages: [
+        ['tech-dana', 'Service request accepted. Feel free to ask any questions.'],
+        ['customer-james', 'Thanks! The model number is on the inside of the door if you need it.'],
+      ],
+    },
+    {
+      id: 'seed-request-4', customerUid: 'customer-maria', technicianUid: 'tech-sam', serviceCategoryId: 'hvac', serviceSubcategoryId: 'hvac-furnace',
+      description: 'Furnace runs but only blows cold air.', address: ELM_STREET,
+      urgency: Urgency.EMERGENCY, status: RequestStatus.IN_PROGRESS, dateTime: appointment(0, 13), createdAt: hoursAgo(6),
+      extra: {
+        estimate: seedEstimate([
+          { description: 'Emergency call-out surcharge', type: 'trip-fee', quantity: 1, unitPrice: 75 },
+          { description: 'Diagnosis and repair', type: 'labour', quantity: 1, unitPrice: 120 },
+        ], 'approved', hoursAgo(5)),
+      },
+      messages: [
+        ['tech-sam', 'Service request accepted. Feel free to ask any questions.'],
+        ['tech-sam', 'On my way, should be there in 20 minutes.'],
+      ],
+    },
+    {
+      id: 'seed-request-5', customerUid: 'customer-james', technicianUid: 'tech-sam', serviceCategoryId: 'plumbing',
+      description: 'Replace leaking shut-off valve under the bathroom sink.', address: OAK_AVENUE,
+      urgency: Urgency.NORMAL, status: RequestStatus.COMPLETED, dateTime: appointment(-5, 9), createdAt: hoursAgo(24 * 7),
+      extra: {
+        paymentStatus: 'pending',
+        // The labour ran longer than estimated, which the invoice shows.
+        estimate: seedEstimate([
+          { description: 'Shut-off valve', type: 'parts', quantity: 1, unitPrice: 18 },
+          { description: 'Labour', type: 'labour', quantity: 1, unitPrice: 70 },
+        ], 'approved', appointment(-6, 10)),
+        invoice: seedInvoice(2, [
+          { description: 'Shut-off valve', type: 'parts', quantity: 1, unitPrice: 18 },
+          { description: 'Labour', type: 'labour', quantity: 1, unitPrice: 85 },
+        ], appointment(-5, 11)),
+      },
+      messages: [['tech-sam', 'Service request accepted. Feel free to ask any questions.']],
+    },
+    {
+      id: 'seed-request-6', customerUid: 'customer-maria', technicianUid: 'tech-leo', serviceCategoryId: 'carpentry',
+      description: 'Back deck has two rotten boards that need replacing.', address: ELM_STREET,
+      urgency: Urgency.NORMAL, status: RequestStatus.COMPLETED, dateTime: appointment(-12, 15), createdAt: hoursAgo(24 * 15),
+      extra: {
+        paymentStatus: 'paid',
+        invoice: seedInvoice(1, [
+          { description: 'Decking boards', type: 'parts', quantity: 4, unitPrice: 16 },
+          { description: 'Labour', type: 'labour', quantity: 2, unitPrice: 75 },
+        ], appointment(-12, 17), { kind: 'percentage', percent: 10, description: 'Returning customer' }),
+        customerRating: { stars: 5, feedback: 'Quick, tidy and friendly.' },
+        technicianRating: { stars: 5, feedback: 'Clear instructions and easy access to the deck.' },
+      },
+      messages: [
+        ['tech-leo', 'Service request accepted. Feel free to ask any questions.'],
+        ['customer-maria', 'The side gate is unlocked, just come round the back.'],
+      ],
+    },
+  ];
+
+  requests.forEach(request => {
+    const customer = user(request.customerUid);
+    const technician = request.technicianUid ? user(request.technicianUid) : null;
+    const pendingExpiresAt = Math.min(request.createdAt.getTime() + PENDING_REQUEST_TIMEOUT_HOURS * 60 * 60 * 1000, request.dateTime.getTime());
+
+    docs[`requests/${request.id}`] = {
+      customerId: customer.uid,
+      customerName: customer.fullName,
+      customerAvatar: avatarFor(customer),
+      serviceCategory: seedCategory(request.serviceCategoryId).name,
+      serviceCategoryId: request.serviceCategoryId,
+      ...(request.serviceSubcategoryId ? { serviceSubcategoryId: request.serviceSubcategoryId } : {}),
+      durationMinutes: (request.serviceSubcategoryId && seedCategory(request.serviceSubcategoryId).durationMinutes) || seedCategory(request.serviceCategoryId).durationMinutes,
+      description: request.description,
+      location: formatAddress(request.address),
+      address: request.address,
+      dateTime: request.dateTime.toISOString(),
+      urgency: request.urgency,
+      status: request.status,
+      paymentStatus: 'none',
+      assignedTechnicianUid: technician ? technician.uid : null,
+      ...(technician ? { technicianName: technician.fullName, technicianAvatar: avatarFor(technician), technicianSkills: technician.skills || [] } : {}),
+      declinedBy: [],
+      pendingExpiresAt: new Date(pendingExpiresAt).toISOString(),
+      createdAt: stamp(request.createdAt),
+      ...request.extra,
+    };
+
+    docs[`requests/${request.id}/history/created`] = {
+      action: 'created',
+      actorUid: customer.uid,
+      actorRole: 'customer',
+      actorName: customer.fullName,
+      changes: [{ field: 'status', before: null, after: RequestStatus.PENDING }],
+      timestamp: stamp(request.createdAt),
+    };
+
+    if (technician) {
+      const acceptedAt = new Date(request.createdAt.getTime() + 30 * 60 * 1000);
+      docs[`requests/${request.id}/history/accepted`] = {
+        action: 'accepted',
+        actorUid: technician.uid,
+        actorRole: 'technician',
+        actorName: technician.fullName,
+        changes: [
+          { field: 'status', before: RequestStatus.PENDING, after: RequestStatus.ACCEPTED },
+          { field: 'assignedTechnicianUid', before: null, after: technician.uid },
+        ],
+        timestamp: stamp(acceptedAt),
+      };
+
+      // One conversation per request, sharing its id.
+      const messages = request.messages || [];
+      messages.forEach(([senderUid, text], index) => {
+        docs[`conversations/${request.id}/messages/message-${index + 1}`] = {
+          senderUid,
+          text,
+          timestamp: stamp(new Date(acceptedAt.getTime() + index * 10 * 60 * 1000)),
+        };
+      });
+      docs[`conversations/${request.id}`] = {
+        requestId: request.id,
+        participantUids: [customer.uid, technician.uid],
+        participantInfo: {
+          [customer.uid]: { fullName: customer.fullName, avatarUrl: avatarFor(customer) },
+          [technician.uid]: { fullName: technician.fullName, avatarUrl: avatarFor(technician) },
+        },
+        lastMessageText: messages.length > 0 ? messages[messages.length - 1][1] : '',
+        updatedAt: stamp(new Date(acceptedAt.getTime() + Math.max(messages.length - 1, 0) * 10 * 60 * 1000)),
+      };
+    }
+  });
+
+  DEFAULT_SERVICE_CATEGORIES.forEach(({ id, ...category }) => {
+    docs[`serviceCategories/${id}`] = { ...category, parentId: category.parentId || null, active: true };
+  });
+
+  // Ratings from the completed carpentry job above.
+  Object.assign(docs['users/tech-leo'], { averageRating: 5, ratingCount: 1 });
+  Object.assign(docs['users/customer-maria'], { averageRating: 5, ratingCount: 1 });
+
+  // Sam has blocked off the last slot tomorrow.
+  const tomorrow = appointment(1, 0);
+  const dateKey = `${tomorrow.getFullYear()}-${String(tomorrow.getMonth() + 1).padStart(2, '0')}-${String(tomorrow.getDate()).padStart(2, '0')}`;
+  docs[`technicianSchedules/tech-sam_${dateKey}`] = {
+    technicianUid: 'tech-sam',
+    date: dateKey,
+    unavailableSlots: ['14:30 - 15:30'],
+  };
+
+  // Leo keeps Friday afternoons for his workshop.
+  docs['availabilityBlocks/seed-block-1'] = {
+    technicianUid: 'tech-leo',
+    kind: 'recurring',
+    weekdays: [5],
+    start: '13:00',
+    end: '17:00',
+    note: 'Workshop',
+    exceptions: [],
+    active: true,
+    createdAt: stamp(hoursAgo(24 * 14)),
+  };
+
+  // Two invoices have been issued so far (requests 6 and 5).
+  docs['counters/invoices'] = { next: 3 };
+
+  docs['users/customer-maria/notifications/welcome-status'] = {
+    type: 'status-changed',
+    message: 'Sam Patel started work on your HVAC request.',
+    link: { requestId: 'seed-request-4' },
+    read: false,
+    timestamp: stamp(hoursAgo(1)),
+  };
+  docs['users/customer-james/notifications/welcome-invoice'] = {
+    type: 'invoice-issued',
+    message: 'Sam Patel sent an invoice for your Plumbing request.',
+    link: { requestId: 'seed-request-5' },
+    read: false,
+    timestamp: stamp(appointment(-5, 11)),
+  };
+
+  return docs;
+};
@@ -0,0 +1,111 @@
+/**
+ * The storage operations the app needs, expressed without reference to any particular
+ * database. Repositories are written against this interface, so the backend behind
+ * them (Firestore, or an in-memory store) can be swapped without touching app code.
+ *
+ * Documents are addressed by slash-separated paths such as `requests/{id}` or
+ * `requests/{id}/history/{entryId}`; collections by paths such as `requests`.
+ */
+
+export type DocumentData = Record<string, any>;
+
+export type Unsubscribe = () => void;
+
+export type FilterOp = '==' | 'in' | 'array-contains' | '<' | '<=' | '>' | '>=';
+
+export interface Filter {
+  field: string;
+  op: FilterOp;
+  value: unknown;
+}
+
+export interface QueryOptions {
+  where?: Filter[];
+  orderBy?: { field: string; direction?: 'asc' | 'desc' };
+  limit?: number;
+}
+
+export interface StoredDoc {
+  id: string;
+  data: DocumentData;
+}
+
+export interface SetOptions {
+  // Only overwrite the given fields, creating the document if needed.
+  merge?: boolean;
+}
+
+/**
+ * Writes that can be grouped atomically, either in a transaction or a batch.
+ * `update` accepts dotted field paths (e.g. `participantInfo.{uid}`).
+ */
+export interface DataWriter {
+  set(path: string, data: DocumentData, options?: SetOptions): void;
+  update(path: string, data: DocumentData): void;
+}
+
+/**
+ * All reads must happen before any writes, as in Firestore. The backend may retry
+ * the transaction function if the documents it read change before it commits.
+ */
+export interface DataTransaction extends DataWriter {
+  get(path: string): Promise<StoredDoc | null>;
+}
+
+export interface DataBatch extends DataWriter {
+  commit(): Promise<void>;
+}
+
+/**
+ * Placeholder values resolved by the backend when a write is applied.
+ */
+export interface FieldValues {
+  // A timestamp object exposing `toDate()`, set when the write reaches the backend.
+  serverTimestamp(): unknown;
+  arrayUnion(...elements: unknown[]): unknown;
+  arrayRemove(...elements: unknown[]): unknown;
+  deleteField(): unknown;
+}
+
+export interface DataBackend {
+  fieldValues: FieldValues;
+
+  // Generates an id for a new document in the collection without writing anything.
+  newId(collectionPath: string): string;
+
+  get(path: string): Promise<StoredDoc | null>;
+  query(collectionPath: string, options?: QueryOptions): Promise<StoredDoc[]>;
+  set(path: string, data: DocumentData, options?: SetOptions): Promise<void>;
+  update(path: string, data: DocumentData): Promise<void>;
+
+  // Live listeners. `onNext` fires once with the current state, then on every change.
+  subscribe(path: string, onNext: (doc: StoredDoc | null) => void, onError?: (error: Error) => void): Unsubscribe;
+  subscribeQuery(collectionPath: string, options: QueryOptions, onNext: (docs: StoredDoc[]) => void, onError?: (error: Error) => void): Unsubscribe;
+
+  runTransaction<T>(updateFunction: (transaction: DataTransaction) => Promise<T>): Promise<T>;
+  batch(): DataBatch;
+}
+
+export interface AuthUser {
+  uid: string;
+  email: string | null;
+}
+
+/**
+ * The account operations the app needs. Failures reject with an error carrying a
+ * Firebase-style `code` such as `auth/invalid-credential`, whichever backend is in use.
+ */
+export interface AuthBackend {
+  // Fires once with the signed-in user (or null), then on every sign-in and sign-out.
+  onAuthStateChanged(onChange: (user: AuthUser | null) => void): Unsubscribe;
+
+  signUp(email: string, password: string): Promise<AuthUser>;
+  signIn(email: string, password: string): Promise<AuthUser>;
+  signOut(): Promise<void>;
+  sendPasswordReset(email: string): Promise<void>;
+
+  // Confirms the signed-in user's password before a sensitive change.
+  reauthenticate(password: string): Promise<void>;
+  // Moves the signed-in user to `newEmail` once the address is verified.
+  requestEmailChange(newEmail: string): Promise<void>;
+}
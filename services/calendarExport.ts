@@ -0,0 +1,24 @@
+import { ServiceRequest } from '@/shared/types';
+import { buildCalendar, CalendarEventOptions, toCalendarFileName } from '@/shared/icalendar';
+import { getRequestTimeZone } from '@/shared/timeZones';
+
+/**
+ * Saves the requests as an .ics file the user can open in their calendar app. Opening
+ * a newer download of the same jobs updates the events in place. The calendar is named
+ * as being in `timeZone`, the zone the portal shows the jobs in, or else the first job's.
+ */
+export function downloadCalendar(requests: ServiceRequest[], name: string, viewer: CalendarEventOptions['viewer'], timeZone?: string): void {
+    const contents = buildCalendar(requests, {
+        name,
+        viewer,
+        timeZone: timeZone || (requests.length > 0 ? getRequestTimeZone(requests[0]) : undefined),
+    });
+    const url = URL.createObjectURL(new Blob([contents], { type: 'text/calendar;charset=utf-8' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = toCalendarFileName(name);
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+}
@@ -0,0 +1,72 @@
+import { ServiceCategory } from '@/shared/types';
+import { getRootCategory, matchCategory } from '@/shared/categories';
+import { commitInBatches, DataWriter, requestRepository, userRepository } from './repositories';
+
+export interface CategoryMigrationResult {
+    updatedTechnicians: number;
+    updatedRequests: number;
+    // Values that didn't match any category or synonym and were left as they are.
+    unmatched: string[];
+}
+
+/**
+ * Rewrites technician skills and request categories saved as free text (e.g. "plumbing")
+ * to reference catalog ids. Values that already hold an id are left alone, so it is
+ * safe to run more than once.
+ */
+export async function migrateLegacyCategories(categories: ServiceCategory[]): Promise<CategoryMigrationResult> {
+    const ids = new Set(categories.map(category => category.id));
+    const unmatched = new Set<string>();
+
+    // Maps a stored value to the id of its top-level category, or null if nothing matches.
+    const resolve = (value: string): string | null => {
+        if (ids.has(value)) return value;
+        const match = matchCategory(categories, value);
+        if (!match) {
+            unmatched.add(value);
+            return null;
+        }
+        return getRootCategory(categories, match).id;
+    };
+    const resolveSkills = (skills: string[]) => Array.from(new Set(skills.map(skill => resolve(skill) || skill)));
+    const isSameList = (a: string[], b: string[]) => a.length === b.length && a.every((value, index) => value === b[index]);
+
+    const [technicians, requests] = await Promise.all([userRepository.findTechnicians(), requestRepository.findAll()]);
+    const writes: ((writer: DataWriter) => void)[] = [];
+    let updatedTechnicians = 0;
+    let updatedRequests = 0;
+
+    technicians.forEach(technician => {
+        const skills = technician.skills || [];
+        const migrated = resolveSkills(skills);
+        if (isSameList(skills, migrated)) return;
+        updatedTechnicians++;
+        writes.push(writer => userRepository.update(writer, technician.uid, { skills: migrated }));
+    });
+
+    requests.forEach(request => {
+        const changes: Record<string, unknown> = {};
+        if (!request.serviceCategoryId) {
+            const match = matchCategory(categories, request.serviceCategory);
+            if (match) {
+                const root = getRootCategory(categories, match);
+                changes.serviceCategoryId = root.id;
+                changes.serviceCategory = root.name;
+                if (root.id !== match.id) changes.serviceSubcategoryId = match.id;
+            } else {
+                unmatched.add(request.serviceCategory);
+            }
+        }
+        if (request.technicianSkills) {
+            const skills = resolveSkills(request.technicianSkills);
+            if (!isSameList(request.technicianSkills, skills)) changes.technicianSkills = skills;
+        }
+        if (Object.keys(changes).length === 0) return;
+        updatedRequests++;
+        writes.push(writer => requestRepository.update(writer, request.id, changes));
+    });
+
+    await commitInBatches(writes);
+
+    return { updatedTechnicians, updatedRequests, unmatched: Array.from(unmatched).sort() };
+}
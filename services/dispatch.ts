@@ -0,0 +1,43 @@
+import { DispatchCandidate, RequestStatus, ServiceRequest } from '@/shared/types';
+import { DISPATCH_WORKLOAD_DAYS } from '@/shared/constants';
+import { getRequestCategoryId } from '@/shared/categories';
+import { getRequestDuration } from '@/shared/workingHours';
+import { getRequestTimeZone } from '@/shared/timeZones';
+import { DispatchFactors, rankCandidates } from '@/shared/dispatch';
+import { getDistanceKm } from '@/shared/serviceArea';
+import { findCoveringTechnicians, isAvailableAt } from './availability';
+import { requestRepository } from './repositories';
+
+type DispatchableRequest = Pick<ServiceRequest, 'serviceCategory' | 'serviceCategoryId' | 'dateTime' | 'durationMinutes' | 'timeZone' | 'urgency' | 'address'>;
+
+/**
+ * Ranks the technicians qualified for a new request who cover its address, best first,
+ * by how well they match, whether they're free at the requested time, their rating, how
+ * busy they already are and how far they'd travel from their base.
+ */
+export async function findDispatchCandidates(request: DispatchableRequest, now: Date = new Date()): Promise<DispatchCandidate[]> {
+    const categoryId = getRequestCategoryId(request);
+    const technicians = await findCoveringTechnicians(categoryId, request.address);
+    if (technicians.length === 0) return [];
+
+    const workloadEnd = new Date(now.getTime() + DISPATCH_WORKLOAD_DAYS * 24 * 60 * 60 * 1000);
+    const [upcomingJobs, availability] = await Promise.all([
+        requestRepository.findAssignedBetween(technicians.map(technician => technician.uid), now, workloadEnd),
+        Promise.all(technicians.map(technician => isAvailableAt(categoryId, new Date(request.dateTime), {
+            technicianUid: technician.uid,
+            durationMinutes: getRequestDuration(request),
+            timeZone: getRequestTimeZone(request),
+            address: request.address,
+        }))),
+    ]);
+
+    const factors: DispatchFactors[] = technicians.map((technician, index) => ({
+        technician,
+        isAvailable: availability[index],
+        workload: upcomingJobs.filter(job => job.assignedTechnicianUid === technician.uid
+            && (job.status === RequestStatus.ACCEPTED || job.status === RequestStatus.IN_PROGRESS)).length,
+        distanceKm: getDistanceKm(technician.serviceArea, request.address),
+    }));
+
+    return rankCandidates(factors, categoryId, request.urgency);
+}
@@ -1,7 +1,7 @@
 //services>firebase.ts
 import { initializeApp } from 'firebase/app';
-import { getAuth } from 'firebase/auth';
-import { getFirestore } from 'firebase/firestore';
+import { Auth, getAuth } from 'firebase/auth';
+import { Firestore, getFirestore } from 'firebase/firestore';
 
 // --- This is the corrected section ---
 // It now uses import.meta.env to correctly read your .env.local file in Vite.
@@ -19,9 +19,15 @@ const firebaseConfig = {
 // This line is for debugging. We will remove it later.
 console.log("API Key being used by the app:", firebaseConfig.apiKey);
 
-// Initialize Firebase
-const app = initializeApp(firebaseConfig);
+// Firebase is only initialized when the Firebase backend is selected, so the app can
+// run on the local backend without any of the config above.
+let services: { auth: Auth; db: Firestore } | null = null;
 
 // Export the services you'll need
-export const auth = getAuth(app);
-export const db = getFirestore(app);
+export const getFirebase = () => {
+  if (!services) {
+    const app = initializeApp(firebaseConfig);
+    services = { auth: getAuth(app), db: getFirestore(app) };
+  }
+  return services;
+};
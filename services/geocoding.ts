@@ -0,0 +1,90 @@
+import { GeoPoint, ServiceAddress } from '@/shared/types';
+import { formatAddress, normalizePostalCode } from '@/shared/serviceArea';
+
+export interface Geocoder {
+    // The position of `address`, or null if it can't be found.
+    geocode(address: Pick<ServiceAddress, 'line1' | 'city' | 'postalCode'>): Promise<GeoPoint | null>;
+}
+
+// The middle of the demo data's Springfield.
+const OFFLINE_CENTRE: GeoPoint = { lat: 39.7817, lng: -89.6501 };
+// How far from the centre the offline geocoder spreads postal codes, in degrees (about 25 km).
+const OFFLINE_SPREAD = 0.22;
+
+// A stable number in [0, 1) from `text`, so the same postal code always lands in the same place.
+const hashToUnit = (text: string, seed: number) => {
+    let hash = seed;
+    for (let i = 0; i < text.length; i++) {
+        hash = Math.imul(hash ^ text.charCodeAt(i), 2654435761) >>> 0;
+    }
+    return (hash % 100000) / 100000;
+};
+
+/**
+ * Where the offline geocoder puts `address`. Positions are made up, not looked up: each
+ * postal code (or, without one, each address) is placed at a fixed point near the demo
+ * city, so addresses sharing a postal code are close together and distances stay the
+ * same from one session to the next. Also used to place the seed data.
+ */
+export const placeOffline = (address: Pick<ServiceAddress, 'line1' | 'city' | 'postalCode'>): GeoPoint | null => {
+    const key = normalizePostalCode(address.postalCode || formatAddress(address));
+    if (!key) return null;
+    return {
+        lat: OFFLINE_CENTRE.lat + (hashToUnit(key, 17) * 2 - 1) * OFFLINE_SPREAD,
+        lng: OFFLINE_CENTRE.lng + (hashToUnit(key, 31) * 2 - 1) * OFFLINE_SPREAD,
+    };
+};
+
+// Works without a network, for development, demos and the local backends.
+export const createOfflineGeocoder = (): Geocoder => ({
+    geocode: async (address) => placeOffline(address),
+});
+
+/**
+ * Looks addresses up with OpenStreetMap's Nominatim service. Its usage policy allows
+ * about one request a second, which suits booking forms but not bulk imports.
+ */
+export const createNominatimGeocoder = (endpoint = 'https://nominatim.openstreetmap.org/search'): Geocoder => ({
+    geocode: async (address) => {
+        const params = new URLSearchParams({
+            street: address.line1, city: address.city, postalcode: address.postalCode, format: 'json', limit: '1',
+        });
+        const response = await fetch(`${endpoint}?${params}`, { headers: { Accept: 'application/json' } });
+        if (!response.ok) {
+            throw new Error(`Geocoding failed with status ${response.status}.`);
+        }
+        const [match] = await response.json() as { lat: string; lon: string }[];
+        return match ? { lat: parseFloat(match.lat), lng: parseFloat(match.lon) } : null;
+    },
+});
+
+/**
+ * Picks the geocoder from the GEOCODER environment variable:
+ * - `offline` (the default): made-up but stable positions, with no network needed.
+ * - `nominatim`: real positions from OpenStreetMap.
+ */
+const selectGeocoder = (): Geocoder => {
+    const kind = process.env.GEOCODER || 'offline';
+    if (kind === 'nominatim') return createNominatimGeocoder();
+    if (kind !== 'offline') {
+        console.error(`services/geocoding: Unknown GEOCODER "${kind}", falling back to the offline geocoder.`);
+    }
+    return createOfflineGeocoder();
+};
+
+export const geocoder: Geocoder = selectGeocoder();
+
+/**
+ * `address` with its position filled in. A geocoder that fails or finds nothing leaves
+ * the address without coordinates rather than losing the request.
+ */
+export async function geocodeAddress(address: ServiceAddress): Promise<ServiceAddress> {
+    if (address.coordinates) return address;
+    try {
+        const coordinates = await geocoder.geocode(address);
+        return coordinates ? { ...address, coordinates } : address;
+    } catch (error) {
+        console.error("Error geocoding address (geocoding.ts):", error);
+        return address;
+    }
+}
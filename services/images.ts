@@ -0,0 +1,50 @@
+// Avatars are stored inline on the user document (and copied onto requests and
+// conversations), so they're kept small.
+const AVATAR_SIZE = 256;
+const AVATAR_QUALITY = 0.85;
+const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+
+const loadImage = (file: File): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+        URL.revokeObjectURL(url);
+        resolve(image);
+    };
+    image.onerror = () => {
+        URL.revokeObjectURL(url);
+        reject(new Error('That file could not be read as an image.'));
+    };
+    image.src = url;
+});
+
+/**
+ * Crops an uploaded image to a centred square and scales it down to a JPEG data URL
+ * suitable for use as an avatar. Rejects with a user-facing message on bad input.
+ */
+export async function createAvatarDataUrl(file: File): Promise<string> {
+    if (!file.type.startsWith('image/')) {
+        throw new Error('Please choose an image file (JPG, PNG or GIF).');
+    }
+    if (file.size > MAX_UPLOAD_BYTES) {
+        throw new Error('That image is too large. Please choose one under 10MB.');
+    }
+
+    const image = await loadImage(file);
+    const side = Math.min(image.naturalWidth, image.naturalHeight);
+    const size = Math.min(AVATAR_SIZE, side);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = size;
+    canvas.height = size;
+    const context = canvas.getContext('2d');
+    if (!context) {
+        throw new Error('Your browser could not process this image.');
+    }
+    context.drawImage(
+        image,
+        (image.naturalWidth - side) / 2, (image.naturalHeight - side) / 2, side, side,
+        0, 0, size, size
+    );
+    return canvas.toDataURL('image/jpeg', AVATAR_QUALITY);
+}
@@ -0,0 +1,37 @@
+import { InvoiceDocument, renderInvoiceHtml, renderInvoicePdf } from '@/shared/invoiceDocument';
+
+/**
+ * Opens the browser's print dialog for the document, from which it can also be saved as
+ * a PDF. It's printed from a hidden frame, so the page behind it is left alone.
+ */
+export function printInvoiceDocument(invoiceDocument: InvoiceDocument): void {
+    const frame = document.createElement('iframe');
+    frame.title = invoiceDocument.title;
+    frame.style.position = 'fixed';
+    frame.style.width = '0';
+    frame.style.height = '0';
+    frame.style.border = '0';
+    frame.onload = () => {
+        const view = frame.contentWindow;
+        if (!view) return;
+        view.addEventListener('afterprint', () => frame.remove());
+        view.focus();
+        view.print();
+    };
+    frame.srcdoc = renderInvoiceHtml(invoiceDocument);
+    document.body.appendChild(frame);
+}
+
+/**
+ * Saves the document as a PDF file. Generated on the device, so it works offline.
+ */
+export function downloadInvoicePdf(invoiceDocument: InvoiceDocument): void {
+    const url = URL.createObjectURL(new Blob([renderInvoicePdf(invoiceDocument)], { type: 'application/pdf' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = invoiceDocument.fileName;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+}
@@ -0,0 +1,21 @@
+import { DEFAULT_CURRENCY } from '@/shared/constants';
+import { upgradeInvoice } from '@/shared/invoices';
+import { commitInBatches, requestRepository } from './repositories';
+
+export interface InvoiceMigrationResult {
+    updatedInvoices: number;
+}
+
+/**
+ * Rewrites invoices stored with dollar amounts as floats to Money in whole cents of
+ * `currency`. Amounts are converted as they were issued, not worked out again, so
+ * nobody's total changes. Invoices already in Money are left alone, so it is safe to
+ * run more than once.
+ */
+export async function migrateLegacyInvoices(currency: string = DEFAULT_CURRENCY): Promise<InvoiceMigrationResult> {
+    const legacy = await requestRepository.findLegacyInvoices();
+    await commitInBatches(legacy.map(({ requestId, invoice }) =>
+        writer => requestRepository.update(writer, requestId, { invoice: upgradeInvoice(invoice, currency) })));
+
+    return { updatedInvoices: legacy.length };
+}
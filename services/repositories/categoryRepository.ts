@@ -0,0 +1,57 @@
+import { DataBackend, StoredDoc, Unsubscribe } from '@/services/backend';
+import { ServiceCategory } from '@/shared/types';
+import { toCategoryId } from '@/shared/categories';
+
+const CATEGORIES = 'serviceCategories';
+
+export type NewServiceCategory = Omit<ServiceCategory, 'id' | 'active'>;
+
+export type ServiceCategoryChanges = Partial<Pick<ServiceCategory, 'name' | 'icon' | 'synonyms' | 'durationMinutes'>>;
+
+// Categories added before icons and synonyms existed are missing them.
+const toCategory = (doc: StoredDoc): ServiceCategory => {
+    const { icon = '🛠️', synonyms = [], parentId = null, ...data } = doc.data;
+    return { ...data, icon, synonyms, parentId, id: doc.id } as ServiceCategory;
+};
+
+export interface CategoryRepository {
+    subscribeAll(onChange: (categories: ServiceCategory[]) => void, onError?: (error: Error) => void): Unsubscribe;
+    // Adds an active category. The id is derived from the name (and the parent's id, for
+    // subcategories), so the same name can't be added twice in one place.
+    create(category: NewServiceCategory): Promise<ServiceCategory>;
+    // Ids never change, so renaming is safe for skills and requests that reference it.
+    update(id: string, changes: ServiceCategoryChanges): Promise<void>;
+    setActive(id: string, active: boolean): Promise<void>;
+    // Writes the given categories as the starting catalog.
+    importDefaults(categories: Omit<ServiceCategory, 'active'>[]): Promise<void>;
+}
+
+export const createCategoryRepository = (backend: DataBackend): CategoryRepository => {
+    const path = (id: string) => `${CATEGORIES}/${id}`;
+
+    return {
+        subscribeAll: (onChange, onError) => backend.subscribeQuery(CATEGORIES, {
+            orderBy: { field: 'name', direction: 'asc' },
+        }, docs => onChange(docs.map(toCategory)), onError),
+
+        create: async ({ name, icon, synonyms, parentId, durationMinutes }) => {
+            const slug = toCategoryId(name);
+            if (!slug) throw new Error('Please enter a category name.');
+            const id = parentId ? `${parentId}-${slug}` : slug;
+            if (await backend.get(path(id))) throw new Error(`"${name.trim()}" is already in the catalog.`);
+            const category = { name: name.trim(), icon, synonyms, parentId: parentId || null, durationMinutes: durationMinutes || 0, active: true };
+            await backend.set(path(id), category);
+            return { id, ...category };
+        },
+
+        update: (id, changes) => backend.update(path(id), changes),
+
+        setActive: (id, active) => backend.update(path(id), { active }),
+
+        importDefaults: async (categories) => {
+            const batch = backend.batch();
+            categories.forEach(({ id, ...category }) => batch.set(path(id), { ...category, parentId: category.parentId || null, active: true }));
+            await batch.commit();
+        },
+    };
+};
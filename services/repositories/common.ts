@@ -0,0 +1,6 @@
+import { StoredDoc } from '@/services/backend';
+
+export { toDateKey } from '@/shared/workingHours';
+
+// Most collections keep the document id out of the stored data; put it back.
+export const withId = <T>(doc: StoredDoc): T => ({ id: doc.id, ...doc.data } as T);
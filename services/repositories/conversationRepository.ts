@@ -0,0 +1,83 @@
+import { DataBackend, DataTransaction, DataWriter, Unsubscribe } from '@/services/backend';
+import { Conversation, Message } from '@/shared/types';
+import { withId } from './common';
+
+const CONVERSATIONS = 'conversations';
+
+export type NewConversation = Omit<Conversation, 'id' | 'updatedAt' | 'lastMessageText'>;
+
+export interface ConversationRepository {
+    get(id: string, transaction?: DataTransaction): Promise<Conversation | null>;
+    // Opens the conversation with its first message.
+    create(writer: DataWriter, id: string, conversation: NewConversation, firstMessage: { senderUid: string; text: string }): void;
+    addMessage(writer: DataWriter, conversationId: string, senderUid: string, text: string): void;
+    updateParticipantInfo(writer: DataWriter, conversationId: string, uid: string, info: { fullName: string; avatarUrl: string }): void;
+    // Replaces who can see the conversation, adding details for anyone new.
+    setParticipants(writer: DataWriter, conversationId: string, participantUids: string[], newParticipantInfo: Conversation['participantInfo']): void;
+
+    subscribeForUser(uid: string, onChange: (conversations: Conversation[]) => void, onError?: (error: Error) => void): Unsubscribe;
+    subscribeMessages(conversationId: string, onChange: (messages: Message[]) => void, onError?: (error: Error) => void): Unsubscribe;
+    findForUser(uid: string): Promise<Conversation[]>;
+}
+
+export const createConversationRepository = (backend: DataBackend): ConversationRepository => {
+    const path = (id: string) => `${CONVERSATIONS}/${id}`;
+    const messagesPath = (id: string) => `${path(id)}/messages`;
+
+    const setMessage = (writer: DataWriter, conversationId: string, senderUid: string, text: string) => {
+        writer.set(`${messagesPath(conversationId)}/${backend.newId(messagesPath(conversationId))}`, {
+            senderUid,
+            text,
+            timestamp: backend.fieldValues.serverTimestamp(),
+        });
+    };
+
+    return {
+        get: async (id, transaction) => {
+            const doc = transaction ? await transaction.get(path(id)) : await backend.get(path(id));
+            return doc ? withId<Conversation>(doc) : null;
+        },
+
+        create: (writer, id, conversation, firstMessage) => {
+            writer.set(path(id), {
+                ...conversation,
+                lastMessageText: firstMessage.text,
+                updatedAt: backend.fieldValues.serverTimestamp(),
+            });
+            setMessage(writer, id, firstMessage.senderUid, firstMessage.text);
+        },
+
+        addMessage: (writer, conversationId, senderUid, text) => {
+            setMessage(writer, conversationId, senderUid, text);
+            writer.update(path(conversationId), {
+                lastMessageText: text,
+                updatedAt: backend.fieldValues.serverTimestamp(),
+            });
+        },
+
+        updateParticipantInfo: (writer, conversationId, uid, info) => {
+            writer.update(path(conversationId), { [`participantInfo.${uid}`]: info });
+        },
+
+        setParticipants: (writer, conversationId, participantUids, newParticipantInfo) => {
+            const infoUpdates = Object.fromEntries(Object.entries(newParticipantInfo).map(([uid, info]) => [`participantInfo.${uid}`, info]));
+            writer.update(path(conversationId), { participantUids, ...infoUpdates });
+        },
+
+        subscribeForUser: (uid, onChange, onError) => backend.subscribeQuery(CONVERSATIONS, {
+            where: [{ field: 'participantUids', op: 'array-contains', value: uid }],
+            orderBy: { field: 'updatedAt', direction: 'desc' },
+        }, docs => onChange(docs.map(doc => withId<Conversation>(doc))), onError),
+
+        subscribeMessages: (conversationId, onChange, onError) => backend.subscribeQuery(messagesPath(conversationId), {
+            orderBy: { field: 'timestamp', direction: 'asc' },
+        }, docs => onChange(docs.map(doc => withId<Message>(doc))), onError),
+
+        findForUser: async (uid) => {
+            const docs = await backend.query(CONVERSATIONS, {
+                where: [{ field: 'participantUids', op: 'array-contains', value: uid }],
+            });
+            return docs.map(doc => withId<Conversation>(doc));
+        },
+    };
+};
@@ -0,0 +1,30 @@
+import { DataBackend, DataTransaction, DataWriter } from '@/services/backend';
+
+const COUNTERS = 'counters';
+
+// Each sequence is one document holding the next number to hand out.
+export type CounterName = 'invoices' | 'creditNotes';
+
+export interface CounterRepository {
+    // The next number in the sequence, starting at 1. Read it in the same transaction
+    // that uses it, alongside the transaction's other reads.
+    readNext(transaction: DataTransaction, name: CounterName): Promise<number>;
+    // Marks `value` as used. If the transaction fails the number is never used either,
+    // so the sequence stays gap-free.
+    advance(writer: DataWriter, name: CounterName, value: number): void;
+}
+
+export const createCounterRepository = (backend: DataBackend): CounterRepository => {
+    const path = (name: CounterName) => `${COUNTERS}/${name}`;
+
+    return {
+        readNext: async (transaction, name) => {
+            const doc = await transaction.get(path(name));
+            return typeof doc?.data.next === 'number' ? doc.data.next : 1;
+        },
+
+        advance: (writer, name, value) => {
+            writer.set(path(name), { next: value + 1 });
+        },
+    };
+};
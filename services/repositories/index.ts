@@ -0,0 +1,49 @@
+import { backend, DataBatch, DataTransaction, DataWriter } from '@/services/backend';
+import { createRequestRepository } from './requestRepository';
+import { createUserRepository } from './userRepository';
+import { createConversationRepository } from './conversationRepository';
+import { createScheduleRepository } from './scheduleRepository';
+import { createCategoryRepository } from './categoryRepository';
+import { createCounterRepository } from './counterRepository';
+
+export type { RequestRepository, NewServiceRequest, HistoryEntryInput } from './requestRepository';
+export type { UserRepository, NewNotification } from './userRepository';
+export type { ConversationRepository, NewConversation } from './conversationRepository';
+export type { ScheduleRepository, NewAvailabilityBlock } from './scheduleRepository';
+export type { CategoryRepository, NewServiceCategory, ServiceCategoryChanges } from './categoryRepository';
+export type { CounterRepository, CounterName } from './counterRepository';
+export type { DataWriter, DataTransaction, DataBatch, Unsubscribe } from '@/services/backend';
+export { toDateKey } from './common';
+
+export const requestRepository = createRequestRepository(backend);
+export const userRepository = createUserRepository(backend);
+export const conversationRepository = createConversationRepository(backend);
+export const scheduleRepository = createScheduleRepository(backend);
+export const categoryRepository = createCategoryRepository(backend);
+export const counterRepository = createCounterRepository(backend);
+
+/**
+ * Runs `updateFunction` atomically. Pass the transaction to repository reads and
+ * writes; reads must come before writes.
+ */
+export const runInTransaction = <T>(updateFunction: (transaction: DataTransaction) => Promise<T>): Promise<T> =>
+    backend.runTransaction(updateFunction);
+
+// Groups writes that don't depend on reads.
+export const createBatch = (): DataBatch => backend.batch();
+
+// Firestore caps a batch at 500 writes.
+const BATCH_SIZE = 400;
+
+/**
+ * Commits any number of independent writes, in as many batches as it takes. Each batch
+ * lands whole, but an earlier one stays in place if a later one fails, so only use this
+ * for writes that are safe to re-run.
+ */
+export const commitInBatches = async (writes: ((writer: DataWriter) => void)[]): Promise<void> => {
+    for (let start = 0; start < writes.length; start += BATCH_SIZE) {
+        const batch = createBatch();
+        writes.slice(start, start + BATCH_SIZE).forEach(write => write(batch));
+        await batch.commit();
+    }
+};
@@ -0,0 +1,148 @@
+import { DataBackend, DataTransaction, DataWriter, DocumentData, StoredDoc, Unsubscribe } from '@/services/backend';
+import { CreditNote, Invoice, ServiceRequest, RequestStatus, RequestHistoryEntry } from '@/shared/types';
+import { isLegacyInvoice, LegacyInvoice, upgradeInvoice } from '@/shared/invoices';
+import { withId } from './common';
+
+const REQUESTS = 'requests';
+
+export type NewServiceRequest = Omit<ServiceRequest, 'id'>;
+
+export type HistoryEntryInput = Omit<RequestHistoryEntry, 'id' | 'timestamp'>;
+
+export interface RequestRepository {
+    newId(): string;
+    get(id: string, transaction?: DataTransaction): Promise<ServiceRequest | null>;
+    create(writer: DataWriter, id: string, request: NewServiceRequest): void;
+    // Accepts dotted paths and field values as well as plain ServiceRequest fields.
+    update(writer: DataWriter, id: string, changes: Partial<ServiceRequest> | DocumentData): void;
+    recordHistory(writer: DataWriter, requestId: string, entry: HistoryEntryInput): void;
+    // Withdraws `invoice`, cancelled by `creditNote`, into the request's previous invoices,
+    // and issues `replacement` in its place if given. Without one a new invoice can be issued.
+    voidInvoice(writer: DataWriter, id: string, invoice: Invoice, creditNote: CreditNote, replacement?: Invoice): void;
+    // Credits part or all of the current invoice, which stays as it was issued.
+    addCreditNote(writer: DataWriter, id: string, creditNote: CreditNote): void;
+
+    // Every request on the platform, for staff.
+    subscribeAll(onChange: (requests: ServiceRequest[]) => void, onError?: (error: Error) => void): Unsubscribe;
+    subscribeForCustomer(customerId: string, onChange: (requests: ServiceRequest[]) => void, onError?: (error: Error) => void): Unsubscribe;
+    subscribePending(onChange: (requests: ServiceRequest[]) => void, onError?: (error: Error) => void): Unsubscribe;
+    subscribeAssignedTo(technicianUid: string, onChange: (requests: ServiceRequest[]) => void, onError?: (error: Error) => void): Unsubscribe;
+    subscribeHistory(requestId: string, onChange: (entries: RequestHistoryEntry[]) => void, onError?: (error: Error) => void): Unsubscribe;
+
+    // Every request on the platform, read once.
+    findAll(): Promise<ServiceRequest[]>;
+    // Jobs assigned to any of the technicians with an appointment between `start` and `end`.
+    findAssignedBetween(technicianUids: string[], start: Date, end: Date): Promise<ServiceRequest[]>;
+    // Requests still in play, which carry a copy of each party's name and avatar.
+    findOpenForUser(uid: string, role: 'customer' | 'technician'): Promise<ServiceRequest[]>;
+    // Invoices still stored with dollar amounts rather than Money, as they were saved.
+    findLegacyInvoices(): Promise<{ requestId: string; invoice: LegacyInvoice }[]>;
+}
+
+const OPEN_REQUEST_STATUSES = [RequestStatus.PENDING, RequestStatus.ACCEPTED, RequestStatus.IN_PROGRESS];
+
+// Invoices stored before amounts were Money are read as Money, so the app never sees the
+// old dollar numbers whether or not the migration has run.
+const toRequest = (doc: StoredDoc): ServiceRequest => {
+    const request = withId<ServiceRequest>(doc);
+    const invoice = doc.data.invoice as LegacyInvoice | undefined;
+    return invoice && isLegacyInvoice(invoice) ? { ...request, invoice: upgradeInvoice(invoice) } : request;
+};
+
+export const createRequestRepository = (backend: DataBackend): RequestRepository => {
+    const path = (id: string) => `${REQUESTS}/${id}`;
+
+    return {
+        newId: () => backend.newId(REQUESTS),
+
+        get: async (id, transaction) => {
+            const doc = transaction ? await transaction.get(path(id)) : await backend.get(path(id));
+            return doc ? toRequest(doc) : null;
+        },
+
+        create: (writer, id, request) => {
+            writer.set(path(id), { ...request, createdAt: backend.fieldValues.serverTimestamp() });
+        },
+
+        update: (writer, id, changes) => {
+            writer.update(path(id), changes);
+        },
+
+        recordHistory: (writer, requestId, entry) => {
+            writer.set(`${path(requestId)}/history/${backend.newId(`${path(requestId)}/history`)}`, {
+                ...entry,
+                // Firestore rejects undefined, so missing values are stored as null.
+                changes: entry.changes.map(({ field, before, after }) => ({ field, before: before ?? null, after: after ?? null })),
+                timestamp: backend.fieldValues.serverTimestamp(),
+            });
+        },
+
+        voidInvoice: (writer, id, invoice, creditNote, replacement) => {
+            writer.update(path(id), {
+                invoice: replacement ?? backend.fieldValues.deleteField(),
+                paymentStatus: replacement ? 'pending' : 'none',
+                previousInvoices: backend.fieldValues.arrayUnion({ ...invoice, creditedBy: creditNote.number }),
+                creditNotes: backend.fieldValues.arrayUnion(creditNote),
+            });
+        },
+
+        addCreditNote: (writer, id, creditNote) => {
+            writer.update(path(id), { creditNotes: backend.fieldValues.arrayUnion(creditNote) });
+        },
+
+        subscribeAll: (onChange, onError) => backend.subscribeQuery(REQUESTS, {
+            orderBy: { field: 'dateTime', direction: 'desc' },
+        }, docs => onChange(docs.map(doc => toRequest(doc))), onError),
+
+        subscribeForCustomer: (customerId, onChange, onError) => backend.subscribeQuery(REQUESTS, {
+            where: [{ field: 'customerId', op: '==', value: customerId }],
+            orderBy: { field: 'dateTime', direction: 'desc' },
+        }, docs => onChange(docs.map(doc => toRequest(doc))), onError),
+
+        subscribePending: (onChange, onError) => backend.subscribeQuery(REQUESTS, {
+            where: [{ field: 'status', op: '==', value: RequestStatus.PENDING }],
+        }, docs => onChange(docs.map(doc => toRequest(doc))), onError),
+
+        subscribeAssignedTo: (technicianUid, onChange, onError) => backend.subscribeQuery(REQUESTS, {
+            where: [{ field: 'assignedTechnicianUid', op: '==', value: technicianUid }],
+        }, docs => onChange(docs.map(doc => toRequest(doc))), onError),
+
+        subscribeHistory: (requestId, onChange, onError) => backend.subscribeQuery(`${path(requestId)}/history`, {
+            orderBy: { field: 'timestamp', direction: 'asc' },
+        }, docs => onChange(docs.map(doc => withId<RequestHistoryEntry>(doc))), onError),
+
+        findAll: async () => {
+            const docs = await backend.query(REQUESTS);
+            return docs.map(doc => toRequest(doc));
+        },
+
+        findAssignedBetween: async (technicianUids, start, end) => {
+            if (technicianUids.length === 0) return [];
+            const docs = await backend.query(REQUESTS, {
+                where: [
+                    { field: 'assignedTechnicianUid', op: 'in', value: technicianUids },
+                    { field: 'dateTime', op: '>=', value: start.toISOString() },
+                    { field: 'dateTime', op: '<=', value: end.toISOString() },
+                ],
+            });
+            return docs.map(doc => toRequest(doc));
+        },
+
+        findOpenForUser: async (uid, role) => {
+            const docs = await backend.query(REQUESTS, {
+                where: [
+                    { field: role === 'technician' ? 'assignedTechnicianUid' : 'customerId', op: '==', value: uid },
+                    { field: 'status', op: 'in', value: OPEN_REQUEST_STATUSES },
+                ],
+            });
+            return docs.map(doc => toRequest(doc));
+        },
+
+        findLegacyInvoices: async () => {
+            const docs = await backend.query(REQUESTS);
+            return docs
+                .map(doc => ({ requestId: doc.id, invoice: doc.data.invoice as LegacyInvoice | undefined }))
+                .filter((entry): entry is { requestId: string; invoice: LegacyInvoice } => !!entry.invoice && isLegacyInvoice(entry.invoice));
+        },
+    };
+};
@@ -0,0 +1,83 @@
+import { DataBackend, Unsubscribe } from '@/services/backend';
+import { AvailabilityBlock, RecurringBlock, TechnicianSchedule, TimeOffBlock } from '@/shared/types';
+import { toDateKey, withId } from './common';
+
+const SCHEDULES = 'technicianSchedules';
+const BLOCKS = 'availabilityBlocks';
+
+// Blocks are stored without an id; recurring and time-off blocks share the collection.
+export type NewAvailabilityBlock = Omit<RecurringBlock, 'id'> | Omit<TimeOffBlock, 'id'>;
+
+export interface ScheduleRepository {
+    subscribeDay(technicianUid: string, date: Date, onChange: (unavailableSlots: string[]) => void, onError?: (error: Error) => void): Unsubscribe;
+    setSlotUnavailable(technicianUid: string, date: Date, slot: string, unavailable: boolean): Promise<void>;
+    findForTechnicians(technicianUids: string[], date: Date): Promise<TechnicianSchedule[]>;
+
+    // Recurring blocks and time off. Removed blocks are kept, marked inactive, and never returned.
+    subscribeBlocks(technicianUid: string, onChange: (blocks: AvailabilityBlock[]) => void, onError?: (error: Error) => void): Unsubscribe;
+    findBlocksForTechnicians(technicianUids: string[]): Promise<AvailabilityBlock[]>;
+    addBlock(block: NewAvailabilityBlock): Promise<string>;
+    removeBlock(blockId: string): Promise<void>;
+    // An exception lifts the block for one day ("YYYY-MM-DD") without touching the rest.
+    setException(blockId: string, dateKey: string, excepted: boolean): Promise<void>;
+}
+
+export const createScheduleRepository = (backend: DataBackend): ScheduleRepository => {
+    // The document ID is a combination of the user's UID and the date
+    const path = (technicianUid: string, date: Date) => `${SCHEDULES}/${technicianUid}_${toDateKey(date)}`;
+
+    return {
+        subscribeDay: (technicianUid, date, onChange, onError) => backend.subscribe(path(technicianUid, date), doc => {
+            // If no document exists, it means all slots are available
+            onChange(doc?.data.unavailableSlots || []);
+        }, onError),
+
+        // Merging creates the document if it doesn't exist, and just updates the field if it does.
+        setSlotUnavailable: (technicianUid, date, slot, unavailable) => backend.set(path(technicianUid, date), {
+            technicianUid,
+            date: toDateKey(date),
+            unavailableSlots: unavailable ? backend.fieldValues.arrayUnion(slot) : backend.fieldValues.arrayRemove(slot),
+        }, { merge: true }),
+
+        findForTechnicians: async (technicianUids, date) => {
+            if (technicianUids.length === 0) return [];
+            const docs = await backend.query(SCHEDULES, {
+                where: [
+                    { field: 'technicianUid', op: 'in', value: technicianUids },
+                    { field: 'date', op: '==', value: toDateKey(date) },
+                ],
+            });
+            return docs.map(doc => doc.data as TechnicianSchedule);
+        },
+
+        subscribeBlocks: (technicianUid, onChange, onError) => backend.subscribeQuery(BLOCKS, {
+            where: [
+                { field: 'technicianUid', op: '==', value: technicianUid },
+                { field: 'active', op: '==', value: true },
+            ],
+        }, docs => onChange(docs.map(doc => withId<AvailabilityBlock>(doc))), onError),
+
+        findBlocksForTechnicians: async (technicianUids) => {
+            if (technicianUids.length === 0) return [];
+            const docs = await backend.query(BLOCKS, {
+                where: [
+                    { field: 'technicianUid', op: 'in', value: technicianUids },
+                    { field: 'active', op: '==', value: true },
+                ],
+            });
+            return docs.map(doc => withId<AvailabilityBlock>(doc));
+        },
+
+        addBlock: async (block) => {
+            const id = backend.newId(BLOCKS);
+            await backend.set(`${BLOCKS}/${id}`, { ...block, active: true, createdAt: backend.fieldValues.serverTimestamp() });
+            return id;
+        },
+
+        removeBlock: (blockId) => backend.update(`${BLOCKS}/${blockId}`, { active: false }),
+
+        setException: (blockId, dateKey, excepted) => backend.update(`${BLOCKS}/${blockId}`, {
+            exceptions: excepted ? backend.fieldValues.arrayUnion(dateKey) : backend.fieldValues.arrayRemove(dateKey),
+        }),
+    };
+};
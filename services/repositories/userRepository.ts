@@ -0,0 +1,117 @@
+import { DataBackend, DataTransaction, DataWriter, StoredDoc, Unsubscribe } from '@/services/backend';
+import { UserProfile, Notification, ServiceArea, WorkingHours } from '@/shared/types';
+import { withId } from './common';
+
+const USERS = 'users';
+
+const toProfile = (doc: StoredDoc): UserProfile => ({ ...doc.data, uid: doc.id } as UserProfile);
+
+export type NewNotification = Omit<Notification, 'id' | 'timestamp' | 'read'>;
+
+export interface UserRepository {
+    get(uid: string, transaction?: DataTransaction): Promise<UserProfile | null>;
+    subscribe(uid: string, onChange: (profile: UserProfile | null) => void, onError?: (error: Error) => void): Unsubscribe;
+    create(profile: UserProfile): Promise<void>;
+    update(writer: DataWriter, uid: string, changes: Partial<UserProfile>): void;
+    setPendingEmail(uid: string, email: string): Promise<void>;
+    // Called once Firebase Auth reports the verified address.
+    confirmEmail(uid: string, email: string): Promise<void>;
+    setSuspended(uid: string, suspended: boolean): Promise<void>;
+    // The template is read in `timeZone`, so the two are saved together.
+    setWorkingHours(uid: string, workingHours: WorkingHours, timeZone: string): Promise<void>;
+    // Null lets the technician take jobs anywhere again.
+    setServiceArea(uid: string, serviceArea: ServiceArea | null): Promise<void>;
+    // Technicians who can currently take jobs in the category; suspended ones are left out.
+    findTechniciansWithSkill(categoryId: string): Promise<UserProfile[]>;
+    // Every technician, suspended or not.
+    findTechnicians(): Promise<UserProfile[]>;
+    // Staff who can act on the platform, e.g. to be alerted about escalations.
+    findStaff(): Promise<UserProfile[]>;
+    // Every user on the platform, for staff.
+    subscribeAll(onChange: (profiles: UserProfile[]) => void, onError?: (error: Error) => void): Unsubscribe;
+
+    addNotification(writer: DataWriter, recipientUid: string, notification: NewNotification): void;
+    subscribeNotifications(uid: string, max: number, onChange: (notifications: Notification[]) => void, onError?: (error: Error) => void): Unsubscribe;
+    markNotificationsRead(uid: string, notificationIds: string[]): Promise<void>;
+}
+
+export const createUserRepository = (backend: DataBackend): UserRepository => {
+    const path = (uid: string) => `${USERS}/${uid}`;
+    const notificationsPath = (uid: string) => `${path(uid)}/notifications`;
+
+    return {
+        get: async (uid, transaction) => {
+            const doc = transaction ? await transaction.get(path(uid)) : await backend.get(path(uid));
+            return doc ? toProfile(doc) : null;
+        },
+
+        subscribe: (uid, onChange, onError) =>
+            backend.subscribe(path(uid), doc => onChange(doc ? toProfile(doc) : null), onError),
+
+        create: (profile) => backend.set(path(profile.uid), {
+            ...profile,
+            createdAt: backend.fieldValues.serverTimestamp(),
+        }),
+
+        update: (writer, uid, changes) => {
+            writer.update(path(uid), changes);
+        },
+
+        setPendingEmail: (uid, email) => backend.update(path(uid), { pendingEmail: email }),
+
+        confirmEmail: (uid, email) => backend.update(path(uid), {
+            email,
+            pendingEmail: backend.fieldValues.deleteField(),
+        }),
+
+        findTechniciansWithSkill: async (categoryId) => {
+            const docs = await backend.query(USERS, {
+                where: [
+                    { field: 'skills', op: 'array-contains', value: categoryId },
+                    { field: 'role', op: '==', value: 'technician' },
+                ],
+            });
+            return docs.map(toProfile).filter(profile => !profile.suspended);
+        },
+
+        findTechnicians: async () => {
+            const docs = await backend.query(USERS, { where: [{ field: 'role', op: '==', value: 'technician' }] });
+            return docs.map(toProfile);
+        },
+
+        findStaff: async () => {
+            const docs = await backend.query(USERS, { where: [{ field: 'role', op: '==', value: 'admin' }] });
+            return docs.map(toProfile).filter(profile => !profile.suspended);
+        },
+
+        setSuspended: (uid, suspended) => backend.update(path(uid), { suspended }),
+
+        setWorkingHours: (uid, workingHours, timeZone) => backend.update(path(uid), { workingHours, timeZone }),
+
+        setServiceArea: (uid, serviceArea) => backend.update(path(uid), { serviceArea }),
+
+        subscribeAll: (onChange, onError) => backend.subscribeQuery(USERS, {
+            orderBy: { field: 'fullName', direction: 'asc' },
+        }, docs => onChange(docs.map(toProfile)), onError),
+
+        addNotification: (writer, recipientUid, notification) => {
+            writer.set(`${notificationsPath(recipientUid)}/${backend.newId(notificationsPath(recipientUid))}`, {
+                ...notification,
+                read: false,
+                timestamp: backend.fieldValues.serverTimestamp(),
+            });
+        },
+
+        subscribeNotifications: (uid, max, onChange, onError) => backend.subscribeQuery(notificationsPath(uid), {
+            orderBy: { field: 'timestamp', direction: 'desc' },
+            limit: max,
+        }, docs => onChange(docs.map(doc => withId<Notification>(doc))), onError),
+
+        markNotificationsRead: async (uid, notificationIds) => {
+            if (notificationIds.length === 0) return;
+            const batch = backend.batch();
+            notificationIds.forEach(id => batch.update(`${notificationsPath(uid)}/${id}`, { read: true }));
+            await batch.commit();
+        },
+    };
+};
@@ -0,0 +1,67 @@
+import { ServiceCategory, ServiceRequest } from './types';
+import { DEFAULT_JOB_DURATION_MINUTES } from './constants';
+
+// Turns a category name into the slug used as its id, e.g. "Appliance Repair" -> "appliance-repair".
+export const toCategoryId = (name: string) => name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+const normalize = (text: string) => text.trim().toLowerCase();
+
+export const getTopLevelCategories = (categories: ServiceCategory[]) => categories.filter(category => !category.parentId);
+
+export const getSubcategories = (categories: ServiceCategory[], parentId: string) =>
+  categories.filter(category => category.parentId === parentId);
+
+/**
+ * Finds the category a piece of free text refers to, by id, name or synonym, ignoring
+ * case. Used to turn values typed before the catalog existed into catalog ids.
+ */
+export const matchCategory = (categories: ServiceCategory[], text: string): ServiceCategory | undefined => {
+  const term = normalize(text);
+  if (!term) return undefined;
+  return categories.find(category => category.id === term || normalize(category.name) === term || category.id === toCategoryId(term))
+    || categories.find(category => category.synonyms.some(synonym => normalize(synonym) === term));
+};
+
+// The top-level category technicians are matched on, for a category or one of its subcategories.
+export const getRootCategory = (categories: ServiceCategory[], category: ServiceCategory): ServiceCategory =>
+  (category.parentId && categories.find(candidate => candidate.id === category.parentId)) || category;
+
+const hasWordStartingWith = (text: string, query: string) => normalize(text).split(/\s+/).some(word => word.startsWith(query));
+
+/**
+ * How long a job in the category takes. A subcategory's own length wins, then its
+ * parent's, then DEFAULT_JOB_DURATION_MINUTES.
+ */
+export const getJobDuration = (categories: ServiceCategory[], categoryId: string, subcategoryId?: string): number => {
+  const find = (id?: string) => id ? categories.find(category => category.id === id) : undefined;
+  return find(subcategoryId)?.durationMinutes || find(categoryId)?.durationMinutes || DEFAULT_JOB_DURATION_MINUTES;
+};
+
+/**
+ * Active categories matching a search term, best matches first: a word of the name
+ * starting with the term, then a word of a synonym, then the term anywhere in either.
+ * An empty term matches nothing.
+ */
+export const searchCategories = (categories: ServiceCategory[], term: string): ServiceCategory[] => {
+  const query = normalize(term);
+  if (!query) return [];
+  const rank = (category: ServiceCategory) => {
+    if (hasWordStartingWith(category.name, query)) return 0;
+    if (category.synonyms.some(synonym => hasWordStartingWith(synonym, query))) return 1;
+    if ([category.name, ...category.synonyms].some(text => normalize(text).includes(query))) return 2;
+    return -1;
+  };
+  return categories
+    .filter(category => category.active)
+    .map(category => ({ category, score: rank(category) }))
+    .filter(({ score }) => score >= 0)
+    .sort((a, b) => a.score - b.score || a.category.name.localeCompare(b.category.name))
+    .map(({ category }) => category);
+};
+
+/**
+ * The category id to match technicians against. Requests made before the catalog had
+ * ids only carry the name, whose slug is the id of the matching built-in category.
+ */
+export const getRequestCategoryId = (request: Pick<ServiceRequest, 'serviceCategory' | 'serviceCategoryId'>) =>
+  request.serviceCategoryId || toCategoryId(request.serviceCategory);
@@ -2,17 +2,100 @@
 // All mock data has been removed as the application is now fully data-driven.
 // It can be used in the future for any true, app-wide constants.
 
-import { ServiceRequest, Urgency, RequestStatus, TechnicianProfile, Notification, Conversation } from './types';
+import { ServiceRequest, Urgency, RequestStatus, TechnicianProfile, Notification, Conversation, ServiceCategory, WorkingHours, InvoiceItem, InvoiceItemType } from './types';
 
 
 
-export const TECHNICIAN_SKILLS_OPTIONS = [
-  'Plumbing',
-  'HVAC',
-  'Electrical',
-  'Appliance Repair',
-  'Carpentry',
-  'Painting',
-  'Landscaping',
-  'Other'
+// The starting service-category catalog, offered until staff set up their own.
+// Subcategories point at their parent with `parentId`.
+export const DEFAULT_SERVICE_CATEGORIES: Omit<ServiceCategory, 'active'>[] = [
+  { id: 'plumbing', name: 'Plumbing', icon: '🚰', synonyms: ['plumber', 'pipe', 'leak', 'water', 'toilet', 'faucet', 'tap'], durationMinutes: 60 },
+  { id: 'plumbing-blocked-drain', parentId: 'plumbing', name: 'Blocked drain', icon: '🚰', synonyms: ['clog', 'clogged', 'slow drain', 'sink'], durationMinutes: 60 },
+  { id: 'plumbing-water-heater', parentId: 'plumbing', name: 'Water heater', icon: '🚰', synonyms: ['boiler', 'hot water', 'tank'], durationMinutes: 120 },
+  { id: 'hvac', name: 'HVAC', icon: '❄️', synonyms: ['heating', 'air conditioning', 'ac', 'furnace', 'heat pump', 'ventilation'], durationMinutes: 120 },
+  { id: 'hvac-furnace', parentId: 'hvac', name: 'Furnace repair', icon: '❄️', synonyms: ['no heat', 'heater'], durationMinutes: 120 },
+  { id: 'hvac-air-conditioning', parentId: 'hvac', name: 'Air conditioning', icon: '❄️', synonyms: ['ac', 'cooling', 'aircon'], durationMinutes: 120 },
+  { id: 'electrical', name: 'Electrical', icon: '⚡', synonyms: ['electrician', 'wiring', 'outlet', 'socket', 'power', 'breaker'], durationMinutes: 60 },
+  { id: 'electrical-lighting', parentId: 'electrical', name: 'Lighting', icon: '⚡', synonyms: ['light', 'lamp', 'fixture', 'switch'], durationMinutes: 60 },
+  { id: 'appliance-repair', name: 'Appliance Repair', icon: '🔌', synonyms: ['appliance', 'dishwasher', 'washing machine', 'dryer', 'fridge', 'oven'], durationMinutes: 60 },
+  { id: 'carpentry', name: 'Carpentry', icon: '🪚', synonyms: ['carpenter', 'wood', 'door', 'deck', 'cabinet', 'joinery'], durationMinutes: 120 },
+  { id: 'painting', name: 'Painting', icon: '🎨', synonyms: ['painter', 'decorating', 'paint', 'wall'], durationMinutes: 240 },
+  { id: 'landscaping', name: 'Landscaping', icon: '🌳', synonyms: ['garden', 'gardener', 'lawn', 'yard', 'hedge', 'tree'], durationMinutes: 120 },
+  { id: 'other', name: 'Other', icon: '🛠️', synonyms: ['handyman', 'general'], durationMinutes: 60 },
 ];
+
+// How long a job takes when neither the request nor its category says; the length of
+// the fixed windows every job was booked into before working hours were configurable.
+export const DEFAULT_JOB_DURATION_MINUTES = 120;
+
+// Offered to technicians who haven't set their own hours: every day, 9 to 5, in hour slots.
+export const DEFAULT_WORKING_HOURS: WorkingHours = {
+  days: Array.from({ length: 7 }, () => ({ isWorking: true, start: '09:00', end: '17:00', breaks: [] })),
+  slotMinutes: 60,
+};
+
+// How long a request may sit on the job board before it is closed as
+// "no technician available". A request also closes once its appointment time passes.
+export const PENDING_REQUEST_TIMEOUT_HOURS = 24;
+
+// Auto-dispatch gives each technician this long to accept before offering the job to
+// the next, and only considers technicians based within the radius. Emergencies move
+// down the list faster and look further afield.
+export const DISPATCH_OFFER_MINUTES = 15;
+export const EMERGENCY_DISPATCH_OFFER_MINUTES = 5;
+export const DISPATCH_RADIUS_KM = 30;
+export const EMERGENCY_DISPATCH_RADIUS_KM = 80;
+// A job booked with a particular technician is held for them this long (or the
+// emergency offer time, if that's shorter) before it goes on the open board.
+export const PREFERRED_TECHNICIAN_OFFER_MINUTES = 120;
+// Accepted jobs in this many days ahead count towards a technician's workload.
+export const DISPATCH_WORKLOAD_DAYS = 7;
+
+// An emergency nobody has accepted this long after it was made is escalated: staff are
+// alerted and it's opened up to every qualified technician.
+export const EMERGENCY_ESCALATION_MINUTES = 10;
+
+// The currency invoices are issued in. Amounts are stored in its minor units (cents).
+export const DEFAULT_CURRENCY = 'USD';
+
+// Added to every emergency invoice to start with; the technician can still remove it.
+export const EMERGENCY_SURCHARGE: InvoiceItem = {
+  description: 'Emergency call-out surcharge',
+  type: 'trip-fee',
+  quantity: 1,
+  unitPrice: { amount: 7500, currency: DEFAULT_CURRENCY },
+  cost: { amount: 7500, currency: DEFAULT_CURRENCY },
+};
+
+// Printed at the top of every invoice, receipt and estimate. Set these to the business's
+// own details.
+export const BUSINESS_DETAILS = {
+  name: 'E-Service Portal',
+  address: ['100 Main Street', 'Springfield, IL 62701'],
+  email: 'billing@e-service-portal.example',
+  phone: '(217) 555-0100',
+};
+
+// Invoices and credit notes each get the next number in their own business-wide
+// sequence when issued, with no gaps, e.g. INV-000042 and CN-000007.
+export const INVOICE_NUMBER_PREFIX = 'INV-';
+export const CREDIT_NOTE_NUMBER_PREFIX = 'CN-';
+export const DOCUMENT_NUMBER_DIGITS = 6;
+
+// Sales tax charged on each type of invoice line. Set these to the rates where the
+// business operates; issued invoices keep the rates they were issued with.
+export const INVOICE_TAX_RATES: Record<InvoiceItemType, number> = {
+  labour: 0.05,
+  parts: 0.08,
+  'trip-fee': 0,
+};
+
+// Customers may cancel or reschedule an accepted job up until this many hours before
+// the appointment. Inside LATE_CHANGE_HOURS the change is allowed but flagged as late.
+export const CHANGE_CUTOFF_HOURS = 2;
+export const LATE_CHANGE_HOURS = 24;
+
+// Staff are prompted to step in when a job has been in progress this long past its
+// appointment, or an invoice has gone unpaid this many days.
+export const STUCK_IN_PROGRESS_HOURS = 24;
+export const STUCK_INVOICE_DAYS = 14;
@@ -0,0 +1,136 @@
+import { DispatchCandidate, DispatchOffer, DispatchState, ServiceRequest, Urgency, UserProfile } from './types';
+import { DISPATCH_OFFER_MINUTES, DISPATCH_RADIUS_KM, EMERGENCY_DISPATCH_OFFER_MINUTES, EMERGENCY_DISPATCH_RADIUS_KM, PREFERRED_TECHNICIAN_OFFER_MINUTES } from './constants';
+
+/**
+ * Ranking and offer rules for auto-dispatch and for jobs booked with a particular
+ * technician. Pure: the caller looks up availability, workload and distance, and this
+ * decides who gets the job first and what happens when they don't take it.
+ */
+
+// How much each factor counts towards a technician's score. They add up to 1.
+export const DISPATCH_WEIGHTS = {
+  skill: 0.15,
+  availability: 0.3,
+  rating: 0.25,
+  workload: 0.15,
+  distance: 0.15,
+};
+
+// Technicians nobody has rated yet score as if they had this many stars.
+const UNRATED_STARS = 3.5;
+
+export interface DispatchSearch {
+  offerMinutes: number;
+  radiusKm: number;
+  // Whether technicians who aren't free at the requested time may be offered the job.
+  includeBusy: boolean;
+}
+
+// Emergencies can't wait for the ideal technician: anyone qualified nearby is asked,
+// and each gets less time to answer.
+export const getDispatchSearch = (urgency: Urgency): DispatchSearch => urgency === Urgency.EMERGENCY
+  ? { offerMinutes: EMERGENCY_DISPATCH_OFFER_MINUTES, radiusKm: EMERGENCY_DISPATCH_RADIUS_KM, includeBusy: true }
+  : { offerMinutes: DISPATCH_OFFER_MINUTES, radiusKm: DISPATCH_RADIUS_KM, includeBusy: false };
+
+export interface DispatchFactors {
+  technician: Pick<UserProfile, 'uid' | 'fullName' | 'skills' | 'averageRating' | 'ratingCount'>;
+  // Free for the whole job at the requested time.
+  isAvailable: boolean;
+  // Accepted jobs coming up in the next DISPATCH_WORKLOAD_DAYS.
+  workload: number;
+  // Undefined when either end has no known position; counted as neither near nor far.
+  distanceKm?: number;
+}
+
+/**
+ * Scores a technician from 0 to 1 for a job in `categoryId`. Everyone who lists the
+ * category is qualified; those with fewer other trades count as more specialised.
+ */
+export const scoreTechnician = (factors: DispatchFactors, categoryId: string, search: DispatchSearch): number => {
+  const skills = factors.technician.skills || [];
+  if (!skills.includes(categoryId)) return 0;
+
+  const skill = 1 / Math.min(skills.length, 5) ** 0.5;
+  const availability = factors.isAvailable ? 1 : 0;
+  const stars = factors.technician.ratingCount ? factors.technician.averageRating || 0 : UNRATED_STARS;
+  const rating = stars / 5;
+  const workload = 1 / (1 + factors.workload);
+  const distance = factors.distanceKm === undefined ? 0.5 : Math.max(0, 1 - factors.distanceKm / search.radiusKm);
+
+  return DISPATCH_WEIGHTS.skill * skill
+    + DISPATCH_WEIGHTS.availability * availability
+    + DISPATCH_WEIGHTS.rating * rating
+    + DISPATCH_WEIGHTS.workload * workload
+    + DISPATCH_WEIGHTS.distance * distance;
+};
+
+/**
+ * The technicians to offer a job to, best first. Technicians who are out of range, or
+ * busy at the requested time outside an emergency, are left out.
+ */
+export const rankCandidates = (factors: DispatchFactors[], categoryId: string, urgency: Urgency): DispatchCandidate[] => {
+  const search = getDispatchSearch(urgency);
+  return factors
+    .filter(candidate => (candidate.technician.skills || []).includes(categoryId))
+    .filter(candidate => candidate.isAvailable || search.includeBusy)
+    .filter(candidate => candidate.distanceKm === undefined || candidate.distanceKm <= search.radiusKm)
+    .map(candidate => ({
+      technicianUid: candidate.technician.uid,
+      technicianName: candidate.technician.fullName,
+      score: Math.round(scoreTechnician(candidate, categoryId, search) * 1000) / 1000,
+    }))
+    // Ties go to the same technician every time rather than whoever loaded first.
+    .sort((a, b) => b.score - a.score || a.technicianUid.localeCompare(b.technicianUid));
+};
+
+const makeOffer = (candidate: DispatchCandidate, offerMinutes: number, now: Date): DispatchOffer => ({
+  ...candidate,
+  offeredAt: now.toISOString(),
+  expiresAt: new Date(now.getTime() + offerMinutes * 60 * 1000).toISOString(),
+});
+
+/**
+ * Starts dispatching to the ranked candidates, or returns null if there's nobody to
+ * offer the job to and it should go straight to the board.
+ */
+export const startDispatch = (candidates: DispatchCandidate[], urgency: Urgency, now: Date = new Date()): DispatchState | null => {
+  if (candidates.length === 0) return null;
+  const [first, ...queue] = candidates;
+  return { offer: makeOffer(first, getDispatchSearch(urgency).offerMinutes, now), queue, passedUids: [] };
+};
+
+/**
+ * Holds a job for the technician the customer asked for. If they don't take it in
+ * time it goes to the open board rather than to whoever ranks next.
+ */
+export const startPreferredDispatch = (technician: Pick<UserProfile, 'uid' | 'fullName'>, urgency: Urgency, now: Date = new Date()): DispatchState => {
+  const offerMinutes = urgency === Urgency.EMERGENCY
+    ? Math.min(PREFERRED_TECHNICIAN_OFFER_MINUTES, EMERGENCY_DISPATCH_OFFER_MINUTES)
+    : PREFERRED_TECHNICIAN_OFFER_MINUTES;
+  // Chosen by the customer rather than ranked, so the score is simply the top one.
+  const candidate = { technicianUid: technician.uid, technicianName: technician.fullName, score: 1 };
+  return { offer: makeOffer(candidate, offerMinutes, now), queue: [], passedUids: [], preferred: true };
+};
+
+/**
+ * Moves the offer on from the current technician to the next one in the queue who
+ * hasn't declined the job, or to the open board if nobody is left.
+ */
+export const advanceDispatch = (dispatch: DispatchState, urgency: Urgency, declinedBy: string[] = [], now: Date = new Date()): DispatchState => {
+  const passedUids = dispatch.offer ? [...dispatch.passedUids, dispatch.offer.technicianUid] : dispatch.passedUids;
+  const remaining = dispatch.queue.filter(candidate => !passedUids.includes(candidate.technicianUid) && !declinedBy.includes(candidate.technicianUid));
+  const [next, ...queue] = remaining;
+  return { offer: next ? makeOffer(next, getDispatchSearch(urgency).offerMinutes, now) : null, queue, passedUids, preferred: false };
+};
+
+/**
+ * True once the technician holding an auto-dispatched job has run out of time to accept it.
+ */
+export const isOfferExpired = (request: Pick<ServiceRequest, 'dispatch'>, now: Date = new Date()): boolean =>
+  !!request.dispatch?.offer && new Date(request.dispatch.offer.expiresAt).getTime() <= now.getTime();
+
+/**
+ * Whether a pending request is held for another technician, and so hidden from `uid`'s board.
+ */
+export const isOfferedToSomeoneElse = (request: Pick<ServiceRequest, 'dispatch'>, uid: string): boolean =>
+  !!request.dispatch?.offer && request.dispatch.offer.technicianUid !== uid;
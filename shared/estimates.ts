@@ -0,0 +1,49 @@
+import { Estimate, EstimateStatus, InvoiceItem, Money, ServiceRequest } from './types';
+import { getItemType, getLineAmount } from './invoices';
+import { subtractMoney } from './money';
+
+/**
+ * Estimates: the price a technician proposes before starting, which the customer must
+ * approve, and how the final invoice compares with it. Pure, like shared/invoices.ts.
+ */
+
+export const ESTIMATE_STATUS_LABELS: Record<EstimateStatus, string> = {
+  sent: 'Awaiting approval',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  'changes-requested': 'Changes requested',
+};
+
+// The estimate the customer approved, which the invoice is compared against.
+export const getApprovedEstimate = (request: Pick<ServiceRequest, 'estimate'>): Estimate | undefined =>
+  request.estimate?.status === 'approved' ? request.estimate : undefined;
+
+// How an invoice line compares with the approved estimate.
+export type LineChange = 'unchanged' | 'changed' | 'added';
+
+export interface EstimateComparison {
+  // One entry per invoice line, in the same order.
+  lines: { change: LineChange; estimated?: Money }[];
+  // Estimate lines that aren't on the invoice.
+  removed: InvoiceItem[];
+  // Invoice total minus estimate total: positive when the invoice comes to more.
+  totalDifference: Money;
+}
+
+const lineKey = (item: InvoiceItem) => `${getItemType(item)}|${item.description.trim().toLowerCase()}`;
+
+/**
+ * Matches invoice lines to estimate lines by type and description, each estimate line at
+ * most once, so the technician and the customer can see what moved between the two.
+ */
+export const compareToEstimate = (items: InvoiceItem[], total: Money, estimate: Estimate): EstimateComparison => {
+  const unmatched = [...estimate.items];
+  const lines = items.map(item => {
+    const index = unmatched.findIndex(estimated => lineKey(estimated) === lineKey(item));
+    if (index === -1) return { change: 'added' as const };
+    const [estimated] = unmatched.splice(index, 1);
+    const estimatedAmount = getLineAmount(estimated);
+    return { change: getLineAmount(item).amount === estimatedAmount.amount ? 'unchanged' as const : 'changed' as const, estimated: estimatedAmount };
+  });
+  return { lines, removed: unmatched, totalDifference: subtractMoney(total, estimate.total) };
+};
@@ -0,0 +1,147 @@
+import { RequestStatus, ServiceRequest } from './types';
+import { getRequestDuration } from './workingHours';
+
+/**
+ * Builds iCalendar (RFC 5545) files for appointments. Pure: no Firebase and no DOM, so
+ * it runs the same in the browser and in tests.
+ *
+ * Every request keeps the same UID for its whole life and bumps SEQUENCE each time it
+ * is rescheduled, changes status or is reassigned, so calendar apps that import an
+ * updated file replace the event instead of adding a second one.
+ */
+
+const PRODID = '-//E-Service Portal//Appointments//EN';
+const UID_DOMAIN = 'e-service-portal';
+const MAX_LINE_OCTETS = 75;
+
+export interface CalendarEventOptions {
+  // Who the event is for, which decides the summary ("Plumbing with Sam Patel").
+  viewer: 'customer' | 'technician';
+  // A link back to the request in the portal.
+  url?: string;
+}
+
+export interface CalendarOptions extends CalendarEventOptions {
+  name: string;
+  // IANA name shown to calendar apps as the feed's zone. Event times are always UTC.
+  timeZone?: string;
+  now?: Date;
+}
+
+// Backslashes, semicolons, commas and newlines are special in TEXT values.
+export const escapeText = (text: string) =>
+  text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+/**
+ * Splits a content line into lines of at most 75 octets, each continuation starting
+ * with a space. Never splits a multi-byte character.
+ */
+export const foldLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+  for (const char of line) {
+    const octets = encoder.encode(char).length;
+    // Continuation lines lose one octet to the leading space.
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + octets > limit) {
+      parts.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+// 2024-03-08T14:30:00.000Z -> 20240308T143000Z
+export const formatDateTime = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// The number of times the appointment has changed since it was first published. Requests
+// from before status changes were counted only bump it for a cancellation.
+const getSequence = (request: Pick<ServiceRequest, 'reschedules' | 'status' | 'statusChanges'>) =>
+  (request.reschedules?.length || 0) + (request.statusChanges ?? (request.status === RequestStatus.CANCELLED ? 1 : 0));
+
+const getStatus = (request: Pick<ServiceRequest, 'status'>) => {
+  switch (request.status) {
+    case RequestStatus.CANCELLED:
+    case RequestStatus.DECLINED:
+    case RequestStatus.NO_TECHNICIAN_AVAILABLE:
+      return 'CANCELLED';
+    case RequestStatus.PENDING:
+      return 'TENTATIVE';
+    default:
+      return 'CONFIRMED';
+  }
+};
+
+const getSummary = (request: ServiceRequest, viewer: CalendarEventOptions['viewer']) => {
+  if (viewer === 'technician') return `${request.serviceCategory} for ${request.customerName}`;
+  return request.technicianName ? `${request.serviceCategory} with ${request.technicianName}` : request.serviceCategory;
+};
+
+const getDescription = (request: ServiceRequest, viewer: CalendarEventOptions['viewer']) => [
+  request.description,
+  viewer === 'technician' ? `Customer: ${request.customerName}` : request.technicianName && `Technician: ${request.technicianName}`,
+  `Urgency: ${request.urgency}`,
+  `Status: ${request.status}`,
+].filter(Boolean).join('\n');
+
+/**
+ * The VEVENT lines for one request, unfolded. `now` is when the file is generated.
+ */
+export const buildEventLines = (request: ServiceRequest, options: CalendarEventOptions, now: Date = new Date()): string[] => {
+  const start = new Date(request.dateTime);
+  const end = new Date(start.getTime() + getRequestDuration(request) * 60 * 1000);
+  return [
+    'BEGIN:VEVENT',
+    `UID:${request.id}@${UID_DOMAIN}`,
+    `SEQUENCE:${getSequence(request)}`,
+    `DTSTAMP:${formatDateTime(now)}`,
+    `DTSTART:${formatDateTime(start)}`,
+    `DTEND:${formatDateTime(end)}`,
+    `SUMMARY:${escapeText(getSummary(request, options.viewer))}`,
+    `DESCRIPTION:${escapeText(getDescription(request, options.viewer))}`,
+    `LOCATION:${escapeText(request.location)}`,
+    `STATUS:${getStatus(request)}`,
+    ...(options.url ? [`URL:${options.url}`] : []),
+    'END:VEVENT',
+  ];
+};
+
+/**
+ * A complete calendar file holding the given requests, with CRLF line endings and
+ * folded lines as the format requires.
+ */
+export const buildCalendar = (requests: ServiceRequest[], options: CalendarOptions): string => {
+  const now = options.now || new Date();
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(options.name)}`,
+    ...(options.timeZone ? [`X-WR-TIMEZONE:${options.timeZone}`] : []),
+    ...requests.flatMap(request => buildEventLines(request, options, now)),
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+/**
+ * What goes in a user's full export: their upcoming jobs, plus upcoming ones that were
+ * cancelled, declined or never taken, so a re-import removes them from the calendar
+ * rather than leaving them behind.
+ */
+export const getUpcomingCalendarRequests = (requests: ServiceRequest[], now: Date = new Date()): ServiceRequest[] =>
+  requests
+    .filter(request => new Date(request.dateTime) >= now)
+    .filter(request => request.assignedTechnicianUid || getStatus(request) !== 'CONFIRMED')
+    .sort((a, b) => new Date(a.dateTime).getTime() - new Date(b.dateTime).getTime());
+
+// "Plumbing for Maria" -> "plumbing-for-maria.ics", safe for every file system.
+export const toCalendarFileName = (name: string) => `${name.replace(/[^a-z0-9]+/gi, '-').replace(/^-|-$/g, '').toLowerCase() || 'appointments'}.ics`;
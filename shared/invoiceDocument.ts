@@ -0,0 +1,326 @@
+import { Invoice, ServiceRequest } from './types';
+import { BUSINESS_DETAILS } from './constants';
+import { describeDiscount, describeTax, getCreditedAmount, getInvoiceBreakdown, getItemType, getLineAmount, INVOICE_ITEM_TYPE_LABELS } from './invoices';
+import { ESTIMATE_STATUS_LABELS } from './estimates';
+import { formatMoney, subtractMoney } from './money';
+import { formatRequestTime, getRequestTimeZone, getZonedDateKey } from './timeZones';
+import { buildPdf, measureText, PAGE_HEIGHT, PAGE_WIDTH, PdfColor, PdfElement, PdfFont, wrapText } from './pdf';
+
+/**
+ * Printable invoices, receipts and estimates. A document is laid out once from the request
+ * and the invoice, then rendered as HTML to print or as a PDF to download. Pure: no
+ * Firebase, no DOM and no network, so documents can be made offline.
+ */
+
+// A receipt is a paid invoice; an estimate is priced on the same lines before work starts.
+export type InvoiceDocumentKind = 'invoice' | 'receipt' | 'estimate';
+
+export interface InvoiceDocumentLine {
+  description: string;
+  // "Parts · 2 × $16.00", on lines that have a unit price.
+  detail?: string;
+  amount: string;
+}
+
+export interface InvoiceDocumentTotal {
+  label: string;
+  amount: string;
+  emphasis?: boolean;
+}
+
+// Everything the renderers need, already formatted.
+export interface InvoiceDocument {
+  kind: InvoiceDocumentKind;
+  title: string;
+  draft: boolean;
+  business: { name: string; lines: string[] };
+  details: { label: string; value: string }[];
+  parties: { label: string; lines: string[] }[];
+  lines: InvoiceDocumentLine[];
+  totals: InvoiceDocumentTotal[];
+  status: string;
+  notes: string[];
+  fileName: string;
+}
+
+export interface InvoiceDocumentOptions {
+  // Priced but not issued or sent yet, e.g. from the technician's form.
+  draft?: boolean;
+  now?: Date;
+}
+
+// "Invoice INV-000002" -> "invoice-inv-000002.pdf", safe for every file system.
+const toDocumentFileName = (name: string) => `${name.replace(/[^a-z0-9]+/gi, '-').replace(/^-|-$/g, '').toLowerCase() || 'invoice'}.pdf`;
+
+const getStatus = (request: ServiceRequest, invoice: Invoice, kind: InvoiceDocumentKind, draft: boolean) => {
+  if (kind === 'estimate') {
+    if (draft) return 'Draft, not yet sent';
+    return request.estimate ? ESTIMATE_STATUS_LABELS[request.estimate.status] : 'Estimate';
+  }
+  if (draft) return 'Draft, not yet issued';
+  if (invoice.creditedBy) return `Cancelled by credit note ${invoice.creditedBy}`;
+  return kind === 'receipt' || request.paymentStatus === 'paid' ? 'Paid' : 'Unpaid';
+};
+
+const getTitle = (invoice: Invoice, kind: InvoiceDocumentKind, draft: boolean) => {
+  if (kind === 'estimate') return draft ? 'Draft estimate' : 'Estimate';
+  if (draft) return 'Draft invoice';
+  if (kind === 'receipt') return invoice.number ? `Receipt for ${invoice.number}` : 'Receipt';
+  return invoice.number ? `Invoice ${invoice.number}` : 'Invoice';
+};
+
+/**
+ * Lays out `invoice` for `request` as an invoice, a receipt or an estimate. Dates and the
+ * appointment read in the job's time zone. Amounts are taken from the invoice as issued,
+ * never worked out again, so the document always matches what the customer was charged.
+ */
+export const buildInvoiceDocument = (
+  request: ServiceRequest,
+  invoice: Invoice,
+  kind: InvoiceDocumentKind,
+  options: InvoiceDocumentOptions = {}
+): InvoiceDocument => {
+  const draft = !!options.draft;
+  const timeZone = getRequestTimeZone(request);
+  const formatDate = (date: string | Date) => new Date(date).toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric', timeZone });
+  const breakdown = getInvoiceBreakdown(invoice);
+  const title = getTitle(invoice, kind, draft);
+  const documentDate = draft ? options.now || new Date() : invoice.issuedDate;
+  const status = getStatus(request, invoice, kind, draft);
+
+  const details = [
+    ...(invoice.number && !draft ? [{ label: kind === 'receipt' ? 'Invoice number' : 'Number', value: invoice.number }] : []),
+    { label: kind === 'estimate' ? 'Date' : draft ? 'Prepared' : 'Issued', value: formatDate(documentDate) },
+    { label: 'Job reference', value: request.id },
+    ...(invoice.revises && !draft ? [{ label: 'Replaces', value: invoice.revises }] : []),
+    { label: kind === 'estimate' ? 'Status' : 'Payment status', value: status },
+  ];
+
+  const customerAddress = request.address
+    ? [request.address.line1, `${request.address.city} ${request.address.postalCode}`.trim()]
+    : [request.location];
+  const parties = [
+    { label: kind === 'estimate' ? 'Prepared for' : 'Billed to', lines: [request.customerName, ...customerAddress] },
+    { label: 'Technician', lines: [request.technicianName || 'Not yet assigned'] },
+    { label: 'Job', lines: [request.serviceCategory, formatRequestTime(request)] },
+  ];
+
+  const lines = invoice.items.map(item => ({
+    description: item.description,
+    ...(item.unitPrice !== undefined ? { detail: `${INVOICE_ITEM_TYPE_LABELS[getItemType(item)]} · ${item.quantity ?? 1} × ${formatMoney(item.unitPrice)}` } : {}),
+    amount: formatMoney(getLineAmount(item)),
+  }));
+
+  const totals: InvoiceDocumentTotal[] = [
+    ...(breakdown.discountTotal.amount > 0 || breakdown.taxTotal.amount > 0 ? [{ label: 'Subtotal', amount: formatMoney(breakdown.subtotal) }] : []),
+    ...(breakdown.discount && breakdown.discountTotal.amount > 0 ? [{ label: describeDiscount(breakdown.discount), amount: `−${formatMoney(breakdown.discountTotal)}` }] : []),
+    ...breakdown.taxes.map(line => ({ label: describeTax(line), amount: formatMoney(line.amount) })),
+    { label: kind === 'receipt' ? 'Amount paid' : kind === 'estimate' ? 'Estimated total' : 'Total', amount: formatMoney(breakdown.total), emphasis: true },
+  ];
+
+  // Credits against the invoice as issued, e.g. a refund after payment.
+  const creditNotes = draft || kind === 'estimate' ? [] : (request.creditNotes || []).filter(note => note.invoiceNumber === (invoice.number ?? null));
+  if (creditNotes.length > 0 && !invoice.creditedBy) {
+    const credited = getCreditedAmount(invoice, creditNotes);
+    totals.push({ label: 'Credited', amount: `−${formatMoney(credited)}` });
+    totals.push({ label: kind === 'receipt' ? 'Net paid' : 'Net total', amount: formatMoney(subtractMoney(breakdown.total, credited)), emphasis: true });
+  }
+
+  const notes = [
+    ...creditNotes.map(note => `Credit note ${note.number} for ${formatMoney(note.amount)}, issued ${formatDate(note.issuedDate)}: ${note.reason}`),
+    kind === 'estimate'
+      ? 'This is an estimate, not a bill. Work starts once it is approved.'
+      : kind === 'receipt'
+        ? 'Thank you for your payment.'
+        : !draft && status === 'Unpaid' ? 'Payment is due on receipt and can be made from the request in the portal.' : '',
+  ].filter(Boolean);
+
+  return {
+    kind,
+    title,
+    draft,
+    business: { name: BUSINESS_DETAILS.name, lines: [...BUSINESS_DETAILS.address, BUSINESS_DETAILS.email, BUSINESS_DETAILS.phone] },
+    details,
+    parties,
+    lines,
+    totals,
+    status,
+    notes,
+    // Numbered documents are named by their number; the rest by what and when.
+    fileName: toDocumentFileName(invoice.number && !draft ? title : `${title} ${request.serviceCategory} ${getZonedDateKey(new Date(documentDate), timeZone)}`),
+  };
+};
+
+// --- HTML, for printing ---
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const HTML_STYLES = `
+  * { box-sizing: border-box; }
+  body { font-family: Helvetica, Arial, sans-serif; color: #1e293b; margin: 0; padding: 40px; font-size: 13px; }
+  header { display: flex; justify-content: space-between; gap: 24px; }
+  h1 { font-size: 24px; margin: 0 0 8px; text-align: right; }
+  .business strong { font-size: 18px; }
+  .muted { color: #64748b; }
+  .draft { color: #b91c1c; font-weight: bold; text-align: right; letter-spacing: 0.1em; }
+  dl { display: grid; grid-template-columns: auto auto; gap: 2px 12px; margin: 0; justify-content: end; }
+  dt { color: #64748b; text-align: right; }
+  dd { margin: 0; text-align: right; }
+  .parties { display: grid; grid-template-columns: repeat(3, 1fr); gap: 24px; margin: 32px 0; }
+  .parties h2 { font-size: 11px; text-transform: uppercase; color: #64748b; margin: 0 0 4px; }
+  table { width: 100%; border-collapse: collapse; }
+  th { text-align: left; background: #f1f5f9; padding: 8px; font-size: 11px; text-transform: uppercase; color: #475569; }
+  td { padding: 8px; border-bottom: 1px solid #e2e8f0; vertical-align: top; }
+  .amount { text-align: right; white-space: nowrap; }
+  .totals { margin-left: auto; width: 280px; margin-top: 16px; }
+  .totals div { display: flex; justify-content: space-between; padding: 2px 0; }
+  .totals .emphasis { font-weight: bold; font-size: 15px; border-top: 1px solid #cbd5e1; padding-top: 6px; margin-top: 4px; }
+  .status { display: inline-block; margin-top: 24px; padding: 4px 10px; border: 1px solid #cbd5e1; border-radius: 999px; font-weight: bold; }
+  .notes { margin-top: 16px; }
+  @page { margin: 12mm; }
+  @media print { body { padding: 0; } }
+`;
+
+/**
+ * A standalone HTML page for the document, styled for printing. It loads nothing from
+ * the network.
+ */
+export const renderInvoiceHtml = (invoiceDocument: InvoiceDocument): string => `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(invoiceDocument.title)}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+<header>
+  <div class="business">
+    <strong>${escapeHtml(invoiceDocument.business.name)}</strong>
+    ${invoiceDocument.business.lines.map(line => `<div class="muted">${escapeHtml(line)}</div>`).join('')}
+  </div>
+  <div>
+    <h1>${escapeHtml(invoiceDocument.title)}</h1>
+    ${invoiceDocument.draft ? '<div class="draft">DRAFT</div>' : ''}
+    <dl>${invoiceDocument.details.map(({ label, value }) => `<dt>${escapeHtml(label)}</dt><dd>${escapeHtml(value)}</dd>`).join('')}</dl>
+  </div>
+</header>
+<section class="parties">
+  ${invoiceDocument.parties.map(party => `<div><h2>${escapeHtml(party.label)}</h2>${party.lines.map(line => `<div>${escapeHtml(line)}</div>`).join('')}</div>`).join('')}
+</section>
+<table>
+  <thead><tr><th>Description</th><th class="amount">Amount</th></tr></thead>
+  <tbody>
+    ${invoiceDocument.lines.map(line => `<tr><td>${escapeHtml(line.description)}${line.detail ? `<div class="muted">${escapeHtml(line.detail)}</div>` : ''}</td><td class="amount">${escapeHtml(line.amount)}</td></tr>`).join('')}
+  </tbody>
+</table>
+<section class="totals">
+  ${invoiceDocument.totals.map(total => `<div${total.emphasis ? ' class="emphasis"' : ''}><span>${escapeHtml(total.label)}</span><span>${escapeHtml(total.amount)}</span></div>`).join('')}
+</section>
+<div class="status">${escapeHtml(invoiceDocument.status)}</div>
+${invoiceDocument.notes.map(note => `<p class="notes muted">${escapeHtml(note)}</p>`).join('')}
+</body>
+</html>
+`;
+
+// --- PDF, for downloading ---
+
+const MARGIN = 50;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const TEXT: PdfColor = [0.12, 0.16, 0.23];
+const MUTED: PdfColor = [0.39, 0.45, 0.55];
+const RULE: PdfColor = [0.8, 0.84, 0.88];
+const SHADE: PdfColor = [0.95, 0.96, 0.98];
+const ALERT: PdfColor = [0.73, 0.11, 0.11];
+
+/**
+ * The document as a PDF file, flowing onto further pages when the lines run long.
+ */
+export const renderInvoicePdf = (invoiceDocument: InvoiceDocument, now: Date = new Date()): Uint8Array => {
+  const pages: PdfElement[][] = [[]];
+  let y = MARGIN;
+  const page = () => pages[pages.length - 1];
+  // Starts a new page if the next `height` points won't fit on this one.
+  const reserve = (height: number) => {
+    if (y + height <= PAGE_HEIGHT - MARGIN) return;
+    pages.push([]);
+    y = MARGIN;
+  };
+  const text = (value: string, x: number, baseline: number, size: number, font: PdfFont = 'regular', color: PdfColor = TEXT) =>
+    page().push({ kind: 'text', x, y: baseline, text: value, size, font, color });
+  const textRight = (value: string, right: number, baseline: number, size: number, font: PdfFont = 'regular', color: PdfColor = TEXT) =>
+    text(value, right - measureText(value, size, font), baseline, size, font, color);
+  const right = MARGIN + CONTENT_WIDTH;
+
+  // Business on the left; title, draft marker and details on the right.
+  text(invoiceDocument.business.name, MARGIN, y + 16, 16, 'bold');
+  invoiceDocument.business.lines.forEach((line, index) => text(line, MARGIN, y + 32 + index * 12, 9, 'regular', MUTED));
+  textRight(invoiceDocument.title, right, y + 18, 18, 'bold');
+  let detailsY = y + 34;
+  if (invoiceDocument.draft) {
+    textRight('DRAFT', right, detailsY, 10, 'bold', ALERT);
+    detailsY += 14;
+  }
+  invoiceDocument.details.forEach(({ label, value }) => {
+    textRight(value, right, detailsY, 9);
+    textRight(label, right - measureText(value, 9) - 10, detailsY, 9, 'regular', MUTED);
+    detailsY += 12;
+  });
+  y = Math.max(y + 32 + invoiceDocument.business.lines.length * 12, detailsY) + 20;
+
+  // Customer, technician and job side by side.
+  const columnWidth = CONTENT_WIDTH / invoiceDocument.parties.length;
+  const partyLines = invoiceDocument.parties.map(party => party.lines.flatMap(line => wrapText(line, 10, 'regular', columnWidth - 12)));
+  invoiceDocument.parties.forEach((party, index) => {
+    const x = MARGIN + index * columnWidth;
+    text(party.label.toUpperCase(), x, y, 8, 'bold', MUTED);
+    partyLines[index].forEach((line, lineIndex) => text(line, x, y + 14 + lineIndex * 12, 10));
+  });
+  y += 14 + Math.max(...partyLines.map(lines => lines.length)) * 12 + 18;
+
+  // The lines, with a shaded header row.
+  page().push({ kind: 'box', x: MARGIN, y, width: CONTENT_WIDTH, height: 20, color: SHADE });
+  text('DESCRIPTION', MARGIN + 8, y + 13, 8, 'bold', MUTED);
+  textRight('AMOUNT', right - 8, y + 13, 8, 'bold', MUTED);
+  y += 20;
+  invoiceDocument.lines.forEach(line => {
+    const descriptionLines = wrapText(line.description, 10, 'regular', CONTENT_WIDTH - 120);
+    const height = 10 + descriptionLines.length * 12 + (line.detail ? 11 : 0);
+    reserve(height);
+    descriptionLines.forEach((descriptionLine, index) => text(descriptionLine, MARGIN + 8, y + 16 + index * 12, 10));
+    if (line.detail) text(line.detail, MARGIN + 8, y + 16 + descriptionLines.length * 12, 8, 'regular', MUTED);
+    textRight(line.amount, right - 8, y + 16, 10);
+    y += height;
+    page().push({ kind: 'rule', x1: MARGIN, x2: right, y, color: RULE });
+  });
+
+  // Totals, right-aligned under the amounts.
+  y += 10;
+  const totalsLeft = right - 240;
+  invoiceDocument.totals.forEach(total => {
+    const size = total.emphasis ? 12 : 10;
+    reserve(size + 10);
+    if (total.emphasis) {
+      page().push({ kind: 'rule', x1: totalsLeft, x2: right, y: y + 2, color: RULE });
+      y += 4;
+    }
+    const font: PdfFont = total.emphasis ? 'bold' : 'regular';
+    text(total.label, totalsLeft, y + size + 2, size, font);
+    textRight(total.amount, right - 8, y + size + 2, size, font);
+    y += size + 6;
+  });
+
+  // Status and notes.
+  y += 16;
+  reserve(20);
+  text(invoiceDocument.status, MARGIN, y + 10, 11, 'bold');
+  y += 18;
+  invoiceDocument.notes.forEach(note => {
+    const noteLines = wrapText(note, 9, 'regular', CONTENT_WIDTH);
+    reserve(noteLines.length * 12 + 4);
+    noteLines.forEach((line, index) => text(line, MARGIN, y + 10 + index * 12, 9, 'regular', MUTED));
+    y += noteLines.length * 12 + 4;
+  });
+
+  return buildPdf(pages, { title: invoiceDocument.title, now });
+};
@@ -0,0 +1,167 @@
+import { CreditNote, Invoice, InvoiceBreakdown, InvoiceDiscount, InvoiceItem, InvoiceItemType, InvoiceTaxLine, Money } from './types';
+import { DEFAULT_CURRENCY, DOCUMENT_NUMBER_DIGITS, INVOICE_TAX_RATES } from './constants';
+import { allocateMoney, formatMoney, isMoney, minMoney, multiplyMoney, subtractMoney, sumMoney, toMoney, zeroMoney } from './money';
+
+/**
+ * Invoice arithmetic: line amounts, discounts, tax per item type and the total. Pure,
+ * so the technician's form, the stored invoice and every place that shows it agree.
+ * Amounts are Money in whole minor units; see shared/money.ts.
+ */
+
+export const INVOICE_ITEM_TYPES: InvoiceItemType[] = ['labour', 'parts', 'trip-fee'];
+
+export const INVOICE_ITEM_TYPE_LABELS: Record<InvoiceItemType, string> = {
+  labour: 'Labour',
+  parts: 'Parts',
+  'trip-fee': 'Trip fee',
+};
+
+// A line's amount: quantity × unit price, or its cost on invoices issued before lines
+// had either.
+export const getLineAmount = (item: InvoiceItem): Money =>
+  item.unitPrice === undefined ? item.cost : multiplyMoney(item.unitPrice, item.quantity ?? 1);
+
+// Lines from before item types default to labour, which is what most of them were.
+export const getItemType = (item: InvoiceItem): InvoiceItemType => item.type || 'labour';
+
+// An item ready to store, with its cost worked out from quantity and unit price.
+export const toInvoiceItem = (item: Omit<InvoiceItem, 'cost' | 'unitPrice'> & { unitPrice: Money }): InvoiceItem => ({
+  ...item,
+  cost: multiplyMoney(item.unitPrice, item.quantity ?? 1),
+});
+
+/**
+ * Works out what a set of lines comes to, in `currency`. The discount comes off before
+ * tax, split across item types in proportion to their amounts so the shares add up to
+ * the cent, and a fixed discount never takes the subtotal below zero. Tax is charged
+ * per item type at `taxRates`.
+ */
+export const calculateInvoice = (
+  items: InvoiceItem[],
+  discount: InvoiceDiscount | null = null,
+  currency: string = DEFAULT_CURRENCY,
+  taxRates: Record<InvoiceItemType, number> = INVOICE_TAX_RATES,
+): InvoiceBreakdown => {
+  const subtotal = sumMoney(items.map(getLineAmount), currency);
+  const requestedDiscount = !discount ? zeroMoney(currency)
+    : discount.kind === 'percentage' ? multiplyMoney(subtotal, Math.min(Math.max(discount.percent, 0), 100) / 100)
+    : discount.amount;
+  const discountTotal = requestedDiscount.amount > 0 ? minMoney(requestedDiscount, subtotal) : zeroMoney(currency);
+
+  const typeAmounts = INVOICE_ITEM_TYPES.map(type =>
+    sumMoney(items.filter(item => getItemType(item) === type).map(getLineAmount), currency));
+  const discountShares = allocateMoney(discountTotal, typeAmounts.map(amount => amount.amount));
+  const taxes: InvoiceTaxLine[] = INVOICE_ITEM_TYPES
+    .map((type, index) => {
+      const taxableAmount = subtractMoney(typeAmounts[index], discountShares[index]);
+      return { type, rate: taxRates[type], taxableAmount, amount: multiplyMoney(taxableAmount, taxRates[type]) };
+    })
+    .filter(line => line.taxableAmount.amount > 0 && line.rate > 0);
+  const taxTotal = sumMoney(taxes.map(line => line.amount), currency);
+
+  return {
+    subtotal,
+    discount: discountTotal.amount > 0 ? discount : null,
+    discountTotal,
+    taxes,
+    taxTotal,
+    total: sumMoney([subtractMoney(subtotal, discountTotal), taxTotal], currency),
+  };
+};
+
+/**
+ * The breakdown of an issued invoice. Invoices from before tax and discounts are shown
+ * as a plain sum of their items, untaxed.
+ */
+export const getInvoiceBreakdown = (invoice: Invoice): InvoiceBreakdown => {
+  const zero = zeroMoney(invoice.total.currency);
+  return invoice.subtotal === undefined
+    ? { subtotal: invoice.total, discount: null, discountTotal: zero, taxes: [], taxTotal: zero, total: invoice.total }
+    : {
+      subtotal: invoice.subtotal,
+      discount: invoice.discount || null,
+      discountTotal: invoice.discountTotal || zero,
+      taxes: invoice.taxes || [],
+      taxTotal: invoice.taxTotal || zero,
+      total: invoice.total,
+    };
+};
+
+// "10% off" or "$25.00 off", with the reason if one was given.
+export const describeDiscount = (discount: InvoiceDiscount) => {
+  const amount = discount.kind === 'percentage' ? `${discount.percent}% off` : `${formatMoney(discount.amount)} off`;
+  return discount.description ? `${discount.description} (${amount})` : `Discount (${amount})`;
+};
+
+// "Parts tax (8%)"
+export const describeTax = (line: InvoiceTaxLine) =>
+  `${INVOICE_ITEM_TYPE_LABELS[line.type]} tax (${Math.round(line.rate * 10000) / 100}%)`;
+
+// --- Numbering and credit notes ---
+
+// "INV-000042" from the prefix and the number's place in its sequence.
+export const formatDocumentNumber = (prefix: string, sequence: number) =>
+  `${prefix}${String(sequence).padStart(DOCUMENT_NUMBER_DIGITS, '0')}`;
+
+// "Invoice INV-000042", or just "Invoice" for one issued before numbering.
+export const getInvoiceLabel = (invoice: Pick<Invoice, 'number'>) =>
+  invoice.number ? `Invoice ${invoice.number}` : 'Invoice';
+
+// How much of `invoice` has been credited so far.
+export const getCreditedAmount = (invoice: Invoice, creditNotes: CreditNote[] = []): Money =>
+  sumMoney(creditNotes.filter(note => note.invoiceNumber === (invoice.number ?? null)).map(note => note.amount), invoice.total.currency);
+
+// --- Invoices stored before amounts were Money ---
+
+type LegacyAmount = number | Money;
+
+// An invoice as it may have been stored before amounts were whole minor units: the same
+// shape with plain dollar numbers in place of Money, and a fixed discount's dollars in `value`.
+export interface LegacyInvoice {
+  items: (Omit<InvoiceItem, 'unitPrice' | 'cost'> & { unitPrice?: LegacyAmount; cost: LegacyAmount })[];
+  total: LegacyAmount;
+  subtotal?: LegacyAmount;
+  discount?: { kind: 'percentage' | 'fixed'; value?: number; percent?: number; amount?: Money; description?: string } | null;
+  discountTotal?: LegacyAmount;
+  taxes?: (Omit<InvoiceTaxLine, 'taxableAmount' | 'amount'> & { taxableAmount: LegacyAmount; amount: LegacyAmount })[];
+  taxTotal?: LegacyAmount;
+  issuedDate: string;
+}
+
+// Whether any amount on a stored invoice is still a plain number.
+export const isLegacyInvoice = (invoice: LegacyInvoice): boolean =>
+  [invoice.total, invoice.subtotal, invoice.discountTotal, invoice.taxTotal,
+    ...invoice.items.flatMap(item => [item.cost, item.unitPrice]),
+    ...(invoice.taxes || []).flatMap(line => [line.taxableAmount, line.amount])]
+    .some(amount => amount !== undefined && !isMoney(amount))
+  || (!!invoice.discount && invoice.discount.value !== undefined);
+
+/**
+ * Converts a stored invoice's dollar amounts to Money in `currency`, keeping every amount
+ * as it was issued rather than working the totals out again. Invoices already in Money
+ * come back unchanged.
+ */
+export const upgradeInvoice = (invoice: LegacyInvoice, currency: string = DEFAULT_CURRENCY): Invoice => {
+  const money = (amount: LegacyAmount): Money => isMoney(amount) ? amount : toMoney(amount, currency);
+  const { discount } = invoice;
+
+  return {
+    issuedDate: invoice.issuedDate,
+    items: invoice.items.map(({ unitPrice, cost, ...item }) => ({
+      ...item,
+      ...(unitPrice !== undefined ? { unitPrice: money(unitPrice) } : {}),
+      cost: money(cost),
+    })),
+    total: money(invoice.total),
+    ...(invoice.subtotal !== undefined ? { subtotal: money(invoice.subtotal) } : {}),
+    ...(discount !== undefined ? {
+      discount: !discount ? null
+        : discount.kind === 'percentage'
+          ? { kind: 'percentage', percent: discount.percent ?? discount.value ?? 0, ...(discount.description ? { description: discount.description } : {}) }
+          : { kind: 'fixed', amount: discount.amount ?? toMoney(discount.value ?? 0, currency), ...(discount.description ? { description: discount.description } : {}) },
+    } : {}),
+    ...(invoice.discountTotal !== undefined ? { discountTotal: money(invoice.discountTotal) } : {}),
+    ...(invoice.taxes ? { taxes: invoice.taxes.map(line => ({ ...line, taxableAmount: money(line.taxableAmount), amount: money(line.amount) })) } : {}),
+    ...(invoice.taxTotal !== undefined ? { taxTotal: money(invoice.taxTotal) } : {}),
+  };
+};
@@ -0,0 +1,114 @@
+import { Money } from './types';
+
+/**
+ * Amounts of money as whole minor units (cents for USD, yen for JPY) with their ISO 4217
+ * currency code. Sums stay exact, and rounding happens once, where an amount is
+ * multiplied by a rate or split between lines, instead of creeping into every total.
+ */
+
+const minorDigitsCache = new Map<string, number>();
+
+// How many decimal places `currency` has: 2 for USD, 0 for JPY, 3 for KWD.
+export const getMinorUnitDigits = (currency: string): number => {
+  let digits = minorDigitsCache.get(currency);
+  if (digits === undefined) {
+    digits = new Intl.NumberFormat('en', { style: 'currency', currency }).resolvedOptions().maximumFractionDigits ?? 2;
+    minorDigitsCache.set(currency, digits);
+  }
+  return digits;
+};
+
+const minorFactor = (currency: string) => 10 ** getMinorUnitDigits(currency);
+
+export const zeroMoney = (currency: string): Money => ({ amount: 0, currency });
+
+// Rounds half away from zero, so -0.5 cents and 0.5 cents both move a whole cent.
+const roundHalfAway = (value: number) => Math.sign(value) * Math.round(Math.abs(value));
+
+/**
+ * Converts an amount in major units (dollars) to Money. Only for numbers that were
+ * already floats, such as invoices stored before amounts were whole cents; values typed
+ * by people go through `parseMoney`.
+ */
+export const toMoney = (major: number, currency: string): Money =>
+  // toPrecision drops float noise first, so 19.999999999 becomes 2000 cents and 1.005 becomes 101.
+  ({ amount: roundHalfAway(Number((major * minorFactor(currency)).toPrecision(12))), currency });
+
+// The amount in major units, e.g. for a number input's value.
+export const toMajor = (money: Money): number => money.amount / minorFactor(money.currency);
+
+/**
+ * Reads a typed amount such as "12", "12.5", "1,234.56" or "$12.50" without going
+ * through floating point. Returns null for anything that isn't an amount, or that has
+ * more decimal places than the currency allows.
+ */
+export const parseMoney = (text: string, currency: string): Money | null => {
+  const cleaned = text.replace(/[\s,]/g, '').replace(/^[^\d.-]+/, '');
+  const match = /^(-)?(\d*)(?:\.(\d*))?$/.exec(cleaned);
+  if (!match || (!match[2] && !match[3])) return null;
+  const [, sign, whole, fraction = ''] = match;
+  const digits = getMinorUnitDigits(currency);
+  if (fraction.length > digits) return null;
+  const amount = parseInt(`${whole || '0'}${fraction.padEnd(digits, '0')}`, 10);
+  return { amount: sign && amount !== 0 ? -amount : amount, currency };
+};
+
+const assertSameCurrency = (a: Money, b: Money) => {
+  if (a.currency !== b.currency) {
+    throw new Error(`Can't combine ${a.currency} and ${b.currency} amounts.`);
+  }
+};
+
+export const addMoney = (a: Money, b: Money): Money => {
+  assertSameCurrency(a, b);
+  return { amount: a.amount + b.amount, currency: a.currency };
+};
+
+export const subtractMoney = (a: Money, b: Money): Money => {
+  assertSameCurrency(a, b);
+  return { amount: a.amount - b.amount, currency: a.currency };
+};
+
+export const sumMoney = (amounts: Money[], currency: string): Money =>
+  amounts.reduce(addMoney, zeroMoney(currency));
+
+// `money` times `factor` (a quantity or a rate), rounded to the nearest minor unit.
+export const multiplyMoney = (money: Money, factor: number): Money =>
+  ({ amount: roundHalfAway(Number((money.amount * factor).toPrecision(12))), currency: money.currency });
+
+export const minMoney = (a: Money, b: Money): Money => {
+  assertSameCurrency(a, b);
+  return a.amount <= b.amount ? a : b;
+};
+
+/**
+ * Splits `total` in proportion to `weights` so the parts add up to exactly `total`.
+ * Each part is rounded down and the leftover minor units go to the parts that lost the
+ * most in rounding, earliest first on ties.
+ */
+export const allocateMoney = (total: Money, weights: number[]): Money[] => {
+  const weightTotal = weights.reduce((sum, weight) => sum + weight, 0);
+  if (weightTotal <= 0) return weights.map(() => zeroMoney(total.currency));
+
+  const exact = weights.map(weight => total.amount * weight / weightTotal);
+  const parts = exact.map(Math.floor);
+  let leftover = total.amount - parts.reduce((sum, part) => sum + part, 0);
+  exact
+    .map((value, index) => ({ index, remainder: value - parts[index] }))
+    .sort((a, b) => b.remainder - a.remainder || a.index - b.index)
+    .forEach(({ index }) => {
+      if (leftover > 0) {
+        parts[index]++;
+        leftover--;
+      }
+    });
+  return parts.map(amount => ({ amount, currency: total.currency }));
+};
+
+// "$1,234.50", in the viewer's locale unless one is given.
+export const formatMoney = (money: Money, locale?: string): string =>
+  new Intl.NumberFormat(locale, { style: 'currency', currency: money.currency }).format(toMajor(money));
+
+// Whether a stored value is Money rather than a number saved before amounts were whole minor units.
+export const isMoney = (value: unknown): value is Money =>
+  typeof value === 'object' && value !== null && typeof (value as Money).amount === 'number' && typeof (value as Money).currency === 'string';
@@ -0,0 +1,158 @@
+/**
+ * A small PDF (1.4) writer for plain text documents: text in the standard Helvetica faces,
+ * rules and filled boxes on US Letter pages. Pure and dependency-free, so documents are
+ * generated on the device with no network connection, the same in the browser and in tests.
+ *
+ * Coordinates are in points from the top-left corner of the page; text is placed by its
+ * baseline. The standard fonts only cover Windows-1252, so other characters are replaced.
+ */
+
+export const PAGE_WIDTH = 612;
+export const PAGE_HEIGHT = 792;
+
+export type PdfFont = 'regular' | 'bold';
+
+// Red, green and blue, each 0–1.
+export type PdfColor = [number, number, number];
+
+export type PdfElement =
+  | { kind: 'text'; x: number; y: number; text: string; size: number; font?: PdfFont; color?: PdfColor }
+  | { kind: 'rule'; x1: number; x2: number; y: number; width?: number; color?: PdfColor }
+  | { kind: 'box'; x: number; y: number; width: number; height: number; color: PdfColor };
+
+const FONT_NAMES: Record<PdfFont, string> = { regular: 'Helvetica', bold: 'Helvetica-Bold' };
+const FONT_RESOURCES: Record<PdfFont, string> = { regular: 'F1', bold: 'F2' };
+
+// Advance widths of the printable ASCII characters (space to tilde), in 1/1000 em, from
+// the fonts' Adobe metrics. Everything else is measured as a digit.
+const WIDTHS: Record<PdfFont, number[]> = {
+  regular: [
+    278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+    1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+    333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+    556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+  ],
+  bold: [
+    278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+    975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+    333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+    611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+  ],
+};
+const DEFAULT_WIDTH = 556;
+
+// Characters outside Latin-1 that Windows-1252 has, or that have a close stand-in.
+const WIN_ANSI: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, '„': 0x84, '…': 0x85, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94,
+  '•': 0x95, '–': 0x96, '—': 0x97, '™': 0x99,
+  '−': 0x2d, '\u2009': 0x20, '\u202f': 0x20,
+};
+
+// The character's code in the fonts' encoding, or "?" if it has none.
+const toCode = (char: string): number => {
+  const code = char.charCodeAt(0);
+  if ((code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff)) return code;
+  return WIN_ANSI[char] ?? 0x3f;
+};
+
+/**
+ * The width of `text` in points when set in `font` at `size`.
+ */
+export const measureText = (text: string, size: number, font: PdfFont = 'regular'): number =>
+  Array.from(text).reduce((width, char) => {
+    const code = toCode(char);
+    return width + (code >= 0x20 && code <= 0x7e ? WIDTHS[font][code - 0x20] : DEFAULT_WIDTH);
+  }, 0) * size / 1000;
+
+/**
+ * Breaks `text` into lines no wider than `maxWidth`, between words where it can. A word
+ * too long for a line on its own is split.
+ */
+export const wrapText = (text: string, size: number, font: PdfFont, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  text.split(/\r?\n/).forEach(paragraph => {
+    let line = '';
+    paragraph.split(/\s+/).filter(Boolean).forEach(word => {
+      const candidate = line ? `${line} ${word}` : word;
+      if (measureText(candidate, size, font) <= maxWidth) {
+        line = candidate;
+        return;
+      }
+      if (line) lines.push(line);
+      line = '';
+      for (const char of word) {
+        if (line && measureText(line + char, size, font) > maxWidth) {
+          lines.push(line);
+          line = '';
+        }
+        line += char;
+      }
+    });
+    lines.push(line);
+  });
+  return lines;
+};
+
+const formatNumber = (value: number) => String(Math.round(value * 100) / 100);
+
+const formatColor = ([r, g, b]: PdfColor) => [r, g, b].map(formatNumber).join(' ');
+
+// Strings are written as hex, so nothing in them needs escaping.
+const toHexString = (text: string) =>
+  `<${Array.from(text).map(char => toCode(char).toString(16).padStart(2, '0')).join('')}>`;
+
+const renderElement = (element: PdfElement): string => {
+  switch (element.kind) {
+    case 'text':
+      return `BT /${FONT_RESOURCES[element.font || 'regular']} ${formatNumber(element.size)} Tf ${formatColor(element.color || [0, 0, 0])} rg `
+        + `${formatNumber(element.x)} ${formatNumber(PAGE_HEIGHT - element.y)} Td ${toHexString(element.text)} Tj ET`;
+    case 'rule':
+      return `${formatColor(element.color || [0, 0, 0])} RG ${formatNumber(element.width ?? 0.5)} w `
+        + `${formatNumber(element.x1)} ${formatNumber(PAGE_HEIGHT - element.y)} m ${formatNumber(element.x2)} ${formatNumber(PAGE_HEIGHT - element.y)} l S`;
+    case 'box':
+      return `${formatColor(element.color)} rg ${formatNumber(element.x)} ${formatNumber(PAGE_HEIGHT - element.y - element.height)} `
+        + `${formatNumber(element.width)} ${formatNumber(element.height)} re f`;
+  }
+};
+
+/**
+ * A complete PDF file with one page per entry in `pages`. Every byte of the file is below
+ * 0x100, so it's built as a string and converted at the end.
+ */
+export const buildPdf = (pages: PdfElement[][], info: { title: string; now?: Date }): Uint8Array => {
+  const objects: string[] = [];
+  const addObject = (body: string) => objects.push(body);
+
+  // 1: catalog, 2: page tree, 3 and 4: fonts, 5: document info, then a page and its
+  // content stream for each page.
+  const pageIds = pages.map((_, index) => 6 + index * 2);
+  addObject('<< /Type /Catalog /Pages 2 0 R >>');
+  addObject(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+  (['regular', 'bold'] as PdfFont[]).forEach(font =>
+    addObject(`<< /Type /Font /Subtype /Type1 /BaseFont /${FONT_NAMES[font]} /Encoding /WinAnsiEncoding >>`));
+  const created = (info.now || new Date()).toISOString().replace(/[-:T]/g, '').slice(0, 14);
+  addObject(`<< /Title ${toHexString(info.title)} /CreationDate (D:${created}Z) >>`);
+  pages.forEach((elements, index) => {
+    const content = elements.map(renderElement).join('\n');
+    addObject(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] `
+      + `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[index] + 1} 0 R >>`);
+    addObject(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+  });
+
+  let file = '%PDF-1.4\n%\xe2\xe3\xcf\xd3\n';
+  const offsets = objects.map((body, index) => {
+    const offset = file.length;
+    file += `${index + 1} 0 obj\n${body}\nendobj\n`;
+    return offset;
+  });
+  const xrefOffset = file.length;
+  file += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`
+    + offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('')
+    + `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Uint8Array.from(file, char => char.charCodeAt(0));
+};
@@ -0,0 +1,251 @@
+import { ServiceRequest, RequestStatus, UserRole } from './types';
+import { CHANGE_CUTOFF_HOURS, EMERGENCY_ESCALATION_MINUTES, LATE_CHANGE_HOURS, STUCK_IN_PROGRESS_HOURS, STUCK_INVOICE_DAYS } from './constants';
+
+/**
+ * The user attempting to move a request between states.
+ */
+export interface RequestActor {
+  uid: string;
+  role: UserRole;
+}
+
+/**
+ * Who, relative to the request, may perform a transition.
+ * - 'owner': the customer who created the request.
+ * - 'assigned': the technician currently assigned to the request.
+ * - 'any': any user holding one of the allowed roles, e.g. staff.
+ */
+type ActorRelation = 'owner' | 'assigned' | 'any';
+
+interface TransitionRule {
+  from: RequestStatus;
+  to: RequestStatus;
+  role: UserRole;
+  relation: ActorRelation;
+}
+
+/**
+ * The single source of truth for how a request may move through its lifecycle.
+ * Any transition not listed here is illegal.
+ */
+export const REQUEST_TRANSITIONS: TransitionRule[] = [
+  // A technician picks a job off the public board. Nobody marks a job as having no
+  // technician directly: that happens only once every qualified technician has declined
+  // or the job-board window has run out, each checked on its own path.
+  { from: RequestStatus.PENDING, to: RequestStatus.ACCEPTED, role: 'technician', relation: 'any' },
+
+  // Only the assigned technician can move the work forward, and work only starts once
+  // the customer has approved an estimate (see assertTransition).
+  { from: RequestStatus.ACCEPTED, to: RequestStatus.IN_PROGRESS, role: 'technician', relation: 'assigned' },
+  { from: RequestStatus.IN_PROGRESS, to: RequestStatus.COMPLETED, role: 'technician', relation: 'assigned' },
+
+  // Only the customer who owns the request can cancel it, and only before work starts.
+  { from: RequestStatus.PENDING, to: RequestStatus.CANCELLED, role: 'customer', relation: 'owner' },
+  { from: RequestStatus.ACCEPTED, to: RequestStatus.CANCELLED, role: 'customer', relation: 'owner' },
+
+  // Staff can assign or reassign a job to a technician of their choosing, which always
+  // leaves it Accepted by the new technician.
+  { from: RequestStatus.PENDING, to: RequestStatus.ACCEPTED, role: 'admin', relation: 'any' },
+  { from: RequestStatus.NO_TECHNICIAN_AVAILABLE, to: RequestStatus.ACCEPTED, role: 'admin', relation: 'any' },
+  { from: RequestStatus.ACCEPTED, to: RequestStatus.ACCEPTED, role: 'admin', relation: 'any' },
+  { from: RequestStatus.IN_PROGRESS, to: RequestStatus.ACCEPTED, role: 'admin', relation: 'any' },
+
+  // Staff can unstick jobs: close work that was finished but never marked complete,
+  // or call off a job at any point before it's done.
+  { from: RequestStatus.IN_PROGRESS, to: RequestStatus.COMPLETED, role: 'admin', relation: 'any' },
+  { from: RequestStatus.PENDING, to: RequestStatus.CANCELLED, role: 'admin', relation: 'any' },
+  { from: RequestStatus.ACCEPTED, to: RequestStatus.CANCELLED, role: 'admin', relation: 'any' },
+  { from: RequestStatus.IN_PROGRESS, to: RequestStatus.CANCELLED, role: 'admin', relation: 'any' },
+  { from: RequestStatus.NO_TECHNICIAN_AVAILABLE, to: RequestStatus.CANCELLED, role: 'admin', relation: 'any' },
+];
+
+export type RequestTransitionErrorCode =
+  | 'not-found'
+  | 'illegal-transition'
+  | 'not-authorized'
+  | 'already-taken'
+  | 'too-late'
+  | 'awaiting-approval';
+
+/**
+ * Thrown when a status change is rejected. The message is safe to show to users.
+ */
+export class RequestTransitionError extends Error {
+  code: RequestTransitionErrorCode;
+  from?: RequestStatus;
+  to?: RequestStatus;
+
+  constructor(code: RequestTransitionErrorCode, message: string, from?: RequestStatus, to?: RequestStatus) {
+    super(message);
+    this.name = 'RequestTransitionError';
+    this.code = code;
+    this.from = from;
+    this.to = to;
+  }
+}
+
+const isRelated = (request: Pick<ServiceRequest, 'customerId' | 'assignedTechnicianUid'>, actor: RequestActor, relation: ActorRelation): boolean => {
+  switch (relation) {
+    case 'owner':
+      return request.customerId === actor.uid;
+    case 'assigned':
+      return request.assignedTechnicianUid === actor.uid;
+    case 'any':
+    default:
+      return true;
+  }
+};
+
+/**
+ * Validates that `actor` may move `request` to `to`, throwing a
+ * RequestTransitionError if not. Starting work also needs an estimate the customer has
+ * approved. Call this against freshly-read data.
+ */
+export const assertTransition = (
+  request: Pick<ServiceRequest, 'status' | 'customerId' | 'assignedTechnicianUid' | 'estimate'>,
+  to: RequestStatus,
+  actor: RequestActor
+): void => {
+  const from = request.status;
+  const candidates = REQUEST_TRANSITIONS.filter(rule => rule.from === from && rule.to === to);
+
+  if (candidates.length === 0) {
+    throw new RequestTransitionError(
+      'illegal-transition',
+      `This request is ${from.toLowerCase()} and can no longer be marked ${to.toLowerCase()}.`,
+      from,
+      to
+    );
+  }
+
+  const allowed = candidates.some(rule => rule.role === actor.role && isRelated(request, actor, rule.relation));
+  if (!allowed) {
+    throw new RequestTransitionError(
+      'not-authorized',
+      `You are not allowed to mark this request ${to.toLowerCase()}.`,
+      from,
+      to
+    );
+  }
+
+  if (from === RequestStatus.ACCEPTED && to === RequestStatus.IN_PROGRESS && request.estimate?.status !== 'approved') {
+    throw new RequestTransitionError(
+      'awaiting-approval',
+      request.estimate?.status === 'sent'
+        ? "The customer hasn't approved your estimate yet."
+        : 'Send the customer an estimate and wait for their approval before starting work.',
+      from,
+      to
+    );
+  }
+};
+
+/**
+ * Returns true if `actor` may move `request` to `to`. Useful for deciding which buttons to show.
+ */
+export const canTransition = (
+  request: Pick<ServiceRequest, 'status' | 'customerId' | 'assignedTechnicianUid' | 'estimate'>,
+  to: RequestStatus,
+  actor: RequestActor
+): boolean => {
+  try {
+    assertTransition(request, to, actor);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * True once a pending request has waited too long for a technician.
+ */
+export const isPendingExpired = (request: Pick<ServiceRequest, 'status' | 'pendingExpiresAt'>, now: Date = new Date()): boolean => {
+  return request.status === RequestStatus.PENDING
+    && !!request.pendingExpiresAt
+    && new Date(request.pendingExpiresAt).getTime() <= now.getTime();
+};
+
+/**
+ * True once an emergency has waited too long for a technician and hasn't been escalated yet.
+ */
+export const isEscalationDue = (request: Pick<ServiceRequest, 'status' | 'escalatesAt' | 'escalatedAt'>, now: Date = new Date()): boolean => {
+  return request.status === RequestStatus.PENDING
+    && !!request.escalatesAt
+    && !request.escalatedAt
+    && new Date(request.escalatesAt).getTime() <= now.getTime();
+};
+
+export interface ChangePolicy {
+  allowed: boolean;
+  // True when the change is allowed but falls inside the late-change window.
+  isLate: boolean;
+  // A customer-facing explanation of the decision.
+  message: string;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Decides whether the customer may still cancel or reschedule a request.
+ * Pending requests can change freely until the appointment. Once a technician has
+ * accepted, changes close CHANGE_CUTOFF_HOURS before the appointment and are
+ * flagged as late inside LATE_CHANGE_HOURS.
+ */
+export const getChangePolicy = (request: Pick<ServiceRequest, 'status' | 'dateTime' | 'asSoonAsPossible'>, now: Date = new Date()): ChangePolicy => {
+  const hoursUntil = (new Date(request.dateTime).getTime() - now.getTime()) / HOUR_MS;
+
+  if (request.status !== RequestStatus.PENDING && request.status !== RequestStatus.ACCEPTED) {
+    return { allowed: false, isLate: false, message: `This request is ${request.status.toLowerCase()} and can no longer be changed.` };
+  }
+  // An "as soon as possible" request starts as soon as it's made, but nobody is on their
+  // way until a technician accepts.
+  if (hoursUntil <= 0 && !(request.status === RequestStatus.PENDING && request.asSoonAsPossible)) {
+    return { allowed: false, isLate: false, message: 'This appointment has already started.' };
+  }
+  if (request.status === RequestStatus.PENDING) {
+    return { allowed: true, isLate: false, message: 'No technician has accepted yet, so you can change this request freely.' };
+  }
+  if (hoursUntil < CHANGE_CUTOFF_HOURS) {
+    return { allowed: false, isLate: false, message: `Changes must be made at least ${CHANGE_CUTOFF_HOURS} hours before the appointment. Please message your technician.` };
+  }
+  if (hoursUntil < LATE_CHANGE_HOURS) {
+    return { allowed: true, isLate: true, message: `Your technician has already accepted and the appointment is less than ${LATE_CHANGE_HOURS} hours away. This will be recorded as a late change.` };
+  }
+  return { allowed: true, isLate: false, message: 'Your technician will be notified of this change.' };
+};
+
+/**
+ * Throws a 'too-late' RequestTransitionError if the customer may no longer change the request.
+ */
+export const assertChangeAllowed = (request: Pick<ServiceRequest, 'status' | 'dateTime' | 'asSoonAsPossible'>, now: Date = new Date()): ChangePolicy => {
+  const policy = getChangePolicy(request, now);
+  if (!policy.allowed) {
+    throw new RequestTransitionError('too-late', policy.message, request.status);
+  }
+  return policy;
+};
+
+/**
+ * Explains why a request looks stuck and needs staff to step in, or returns null if
+ * it's moving along normally.
+ */
+export const getAttentionReason = (request: Pick<ServiceRequest, 'status' | 'dateTime' | 'paymentStatus' | 'invoice' | 'escalatedAt'>, now: Date = new Date()): string | null => {
+  const hoursSinceAppointment = (now.getTime() - new Date(request.dateTime).getTime()) / HOUR_MS;
+
+  if (request.status === RequestStatus.PENDING && request.escalatedAt) {
+    return `Emergency not accepted within ${EMERGENCY_ESCALATION_MINUTES} minutes. Assign a technician.`;
+  }
+  if (request.status === RequestStatus.NO_TECHNICIAN_AVAILABLE && hoursSinceAppointment < 0) {
+    return 'No technician took this job. Assign one manually.';
+  }
+  if (request.status === RequestStatus.IN_PROGRESS && hoursSinceAppointment >= STUCK_IN_PROGRESS_HOURS) {
+    return `In progress for over ${STUCK_IN_PROGRESS_HOURS} hours since the appointment.`;
+  }
+  if (request.paymentStatus === 'pending' && request.invoice) {
+    const daysSinceInvoice = (now.getTime() - new Date(request.invoice.issuedDate).getTime()) / (24 * HOUR_MS);
+    if (daysSinceInvoice >= STUCK_INVOICE_DAYS) {
+      return `Invoice unpaid for over ${STUCK_INVOICE_DAYS} days.`;
+    }
+  }
+  return null;
+};
@@ -0,0 +1,68 @@
+import { GeoPoint, ServiceAddress, ServiceArea, ServiceRequest, UserProfile } from './types';
+
+/**
+ * Rules for which technicians cover which addresses, and how far away a job is. Pure:
+ * addresses arrive already geocoded, or without coordinates if they couldn't be placed.
+ */
+
+const EARTH_RADIUS_KM = 6371;
+
+// The great-circle distance between two points.
+export const haversineKm = (from: GeoPoint, to: GeoPoint): number => {
+  const toRadians = (degrees: number) => degrees * Math.PI / 180;
+  const dLat = toRadians(to.lat - from.lat);
+  const dLng = toRadians(to.lng - from.lng);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+};
+
+// Postal codes compare without case or spaces, so "sw1a 1aa" matches "SW1A1AA".
+export const normalizePostalCode = (postalCode: string) => postalCode.replace(/\s+/g, '').toUpperCase();
+
+// Splits a typed list such as "62701, 62702 62703" into postal codes, without repeats.
+export const parsePostalCodes = (text: string): string[] =>
+  Array.from(new Set(text.split(/[,;\n]+/).map(code => code.trim()).filter(Boolean).map(normalizePostalCode)));
+
+// "12 Elm Street, Springfield 62701", the one-line form kept in `ServiceRequest.location`.
+export const formatAddress = (address: Pick<ServiceAddress, 'line1' | 'city' | 'postalCode'>) =>
+  [address.line1.trim(), [address.city.trim(), address.postalCode.trim()].filter(Boolean).join(' ')].filter(Boolean).join(', ');
+
+// Whether a technician has limited where they work at all.
+export const hasServiceArea = (area: ServiceArea | null | undefined): boolean =>
+  !!area && (!!area.radiusKm || (area.postalCodes || []).length > 0);
+
+/**
+ * How far a job is from the technician's base, or undefined if either end has no
+ * known position.
+ */
+export const getDistanceKm = (area: ServiceArea | null | undefined, address: ServiceAddress | undefined): number | undefined =>
+  area?.base?.coordinates && address?.coordinates ? haversineKm(area.base.coordinates, address.coordinates) : undefined;
+
+/**
+ * Whether a technician with `area` takes jobs at `address`: its postal code is on
+ * their list, or it's within their radius. Technicians without an area cover
+ * everywhere. Jobs whose position can't be checked against a rule, such as requests
+ * made before addresses were structured, are treated as covered rather than hidden
+ * from everyone.
+ */
+export const coversAddress = (area: ServiceArea | null | undefined, address: ServiceAddress | undefined): boolean => {
+  if (!hasServiceArea(area) || !address) return true;
+
+  const postalCodes = (area!.postalCodes || []).map(normalizePostalCode);
+  if (postalCodes.length > 0 && postalCodes.includes(normalizePostalCode(address.postalCode))) return true;
+
+  const distanceKm = getDistanceKm(area, address);
+  if (area!.radiusKm && distanceKm !== undefined) return distanceKm <= area!.radiusKm;
+
+  // Neither rule could say yes: a postal-code list alone is a firm no, while a radius
+  // that couldn't be measured gives the job the benefit of the doubt.
+  return !!area!.radiusKm && postalCodes.length === 0;
+};
+
+// Shorthand for whether a technician covers a request's address.
+export const coversRequest = (technician: Pick<UserProfile, 'serviceArea'>, request: Pick<ServiceRequest, 'address'>) =>
+  coversAddress(technician.serviceArea, request.address);
+
+// "800 m" or "12.4 km" for job cards.
+export const formatDistance = (distanceKm: number) =>
+  distanceKm < 1 ? `${Math.round(distanceKm * 1000 / 50) * 50} m` : `${distanceKm < 10 ? distanceKm.toFixed(1) : Math.round(distanceKm)} km`;
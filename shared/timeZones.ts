@@ -0,0 +1,126 @@
+import { ServiceRequest } from './types';
+
+/**
+ * Helpers for showing and booking appointments in the time zone of the place the work
+ * happens, whatever zone the person looking at them is in. Zones are IANA names such
+ * as "America/Chicago". Stored times stay UTC ISO strings; the zone travels alongside.
+ */
+
+// The zone of the device the app is running on.
+export const getDeviceTimeZone = (): string => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+// Requests made before zones were recorded were booked in whatever zone the customer was in;
+// the best guess left is the viewer's own.
+export const getRequestTimeZone = (request: Pick<ServiceRequest, 'timeZone'>) => request.timeZone || getDeviceTimeZone();
+
+export const getProfileTimeZone = (profile: { timeZone?: string } | null | undefined) => profile?.timeZone || getDeviceTimeZone();
+
+export const isValidTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat(undefined, { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Every zone the browser knows, for pickers.
+export const getTimeZoneOptions = (): string[] => {
+  const zones = typeof Intl.supportedValuesOf === 'function' ? Intl.supportedValuesOf('timeZone') : [];
+  return zones.length > 0 ? zones : [getDeviceTimeZone()];
+};
+
+export interface ZonedParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  weekday: number; // 0 = Sunday
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// The wall-clock date and time `date` shows in `timeZone`.
+export const getZonedParts = (date: Date, timeZone: string): ZonedParts => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone, hourCycle: 'h23', year: 'numeric', month: 'numeric', day: 'numeric', hour: 'numeric', minute: 'numeric', weekday: 'short',
+  }).formatToParts(date);
+  const get = (type: Intl.DateTimeFormatPartTypes) => parts.find(part => part.type === type)?.value || '';
+  return {
+    year: parseInt(get('year'), 10),
+    month: parseInt(get('month'), 10),
+    day: parseInt(get('day'), 10),
+    hour: parseInt(get('hour'), 10) % 24,
+    minute: parseInt(get('minute'), 10),
+    weekday: WEEKDAYS.indexOf(get('weekday')),
+  };
+};
+
+// "YYYY-MM-DD" of the day `date` falls on in `timeZone`.
+export const getZonedDateKey = (date: Date, timeZone: string) => {
+  const { year, month, day } = getZonedParts(date, timeZone);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+// Minutes since midnight in `timeZone`.
+export const getZonedMinutes = (date: Date, timeZone: string) => {
+  const { hour, minute } = getZonedParts(date, timeZone);
+  return hour * 60 + minute;
+};
+
+// How far ahead of UTC `timeZone` is at `date`, in minutes (e.g. -300 for New York in winter).
+export const getTimeZoneOffset = (date: Date, timeZone: string) => {
+  const { year, month, day, hour, minute } = getZonedParts(date, timeZone);
+  const asUtc = Date.UTC(year, month - 1, day, hour, minute);
+  return Math.round((asUtc - Math.floor(date.getTime() / 60000) * 60000) / 60000);
+};
+
+/**
+ * The instant at which the clock in `timeZone` reads `minutes` past midnight on
+ * `dateKey` ("YYYY-MM-DD"). Minutes past 1440 roll into the next day. In the hour
+ * skipped when clocks go forward, the time is read with the offset from after the change,
+ * so 02:30 on that night lands on 01:30 standard time.
+ */
+export const zonedTimeToUtc = (dateKey: string, minutes: number, timeZone: string): Date => {
+  const [year, month, day] = dateKey.split('-').map(part => parseInt(part, 10));
+  const wallClock = Date.UTC(year, month - 1, day, 0, minutes);
+  // Guess with the offset at the wall-clock time read as UTC, then correct once for a
+  // change of offset between the guess and the answer.
+  const firstGuess = wallClock - getTimeZoneOffset(new Date(wallClock), timeZone) * 60000;
+  return new Date(wallClock - getTimeZoneOffset(new Date(firstGuess), timeZone) * 60000);
+};
+
+// "CST", "GMT+1" and so on, as the viewer's locale would abbreviate the zone at `date`.
+export const getTimeZoneLabel = (date: Date, timeZone: string) =>
+  new Intl.DateTimeFormat(undefined, { timeZone, timeZoneName: 'short' })
+    .formatToParts(date)
+    .find(part => part.type === 'timeZoneName')?.value || timeZone;
+
+const DEFAULT_FORMAT: Intl.DateTimeFormatOptions = { month: 'short', day: 'numeric', year: 'numeric', hour: 'numeric', minute: '2-digit' };
+
+/**
+ * An appointment time as it reads where the job is, with the zone named. When the viewer
+ * is somewhere whose clocks differ, their own time is added, e.g.
+ * "Mar 8, 2024, 2:30 PM CST (3:30 PM your time)".
+ */
+export const formatAppointment = (
+  dateTime: string,
+  timeZone: string,
+  options: Intl.DateTimeFormatOptions = DEFAULT_FORMAT,
+  viewerTimeZone: string = getDeviceTimeZone(),
+): string => {
+  const date = new Date(dateTime);
+  const local = `${date.toLocaleString(undefined, { ...options, timeZone })} ${getTimeZoneLabel(date, timeZone)}`;
+  if (getTimeZoneOffset(date, timeZone) === getTimeZoneOffset(date, viewerTimeZone)) return local;
+
+  const sameDay = getZonedDateKey(date, timeZone) === getZonedDateKey(date, viewerTimeZone);
+  const viewerTime = date.toLocaleString(undefined, sameDay
+    ? { hour: 'numeric', minute: '2-digit', timeZone: viewerTimeZone }
+    : { weekday: 'short', hour: 'numeric', minute: '2-digit', timeZone: viewerTimeZone });
+  return `${local} (${viewerTime} your time)`;
+};
+
+// Shorthand for a request's own appointment time.
+export const formatRequestTime = (request: Pick<ServiceRequest, 'dateTime' | 'timeZone'>, options?: Intl.DateTimeFormatOptions) =>
+  formatAppointment(request.dateTime, getRequestTimeZone(request), options);
@@ -9,20 +9,127 @@ export enum RequestStatus {
   ACCEPTED = 'Accepted',
   IN_PROGRESS = 'In Progress',
   COMPLETED = 'Completed',
-  DECLINED = 'Declined',
+  DECLINED = 'Declined', // Legacy: declines are now recorded per technician in `declinedBy`.
+  CANCELLED = 'Cancelled',
+  NO_TECHNICIAN_AVAILABLE = 'No Technician Available',
 }
 
+export type UserRole = 'customer' | 'technician' | 'admin';
+
+// An amount in whole minor units of its currency (cents for USD), so sums stay exact.
+export interface Money {
+  amount: number; // An integer, e.g. 1999 for $19.99
+  currency: string; // ISO 4217 code, e.g. "USD"
+}
+
+// What a line on an invoice charges for; each type has its own tax rate.
+export type InvoiceItemType = 'labour' | 'parts' | 'trip-fee';
+
 export interface InvoiceItem {
   description: string;
-  cost: number;
+  // Invoices issued before line items were itemised only have a description and cost.
+  type?: InvoiceItemType;
+  quantity?: number;
+  unitPrice?: Money;
+  cost: Money; // The line's amount before discount and tax: quantity × unit price
+}
+
+export type InvoiceDiscount =
+  | { kind: 'percentage'; percent: number; description?: string }
+  | { kind: 'fixed'; amount: Money; description?: string };
+
+// Tax charged on one item type, after its share of any discount.
+export interface InvoiceTaxLine {
+  type: InvoiceItemType;
+  rate: number; // e.g. 0.08 for 8%, as it was when the invoice was issued
+  taxableAmount: Money;
+  amount: Money;
+}
+
+// How an invoice's total is made up. Missing on invoices issued before tax and
+// discounts, whose total is simply the sum of their items.
+export interface InvoiceBreakdown {
+  subtotal: Money;
+  discount: InvoiceDiscount | null;
+  discountTotal: Money;
+  taxes: InvoiceTaxLine[];
+  taxTotal: Money;
+  total: Money;
 }
 
-export interface Invoice {
+export interface Invoice extends Partial<Omit<InvoiceBreakdown, 'total'>> {
+  number?: string; // e.g. "INV-000042"; missing on invoices issued before numbering
+  revises?: string; // The number of the invoice this one replaces
+  creditedBy?: string; // Set on a withdrawn invoice: the credit note that cancelled it
   items: InvoiceItem[];
-  total: number;
+  total: Money;
   issuedDate: string;
 }
 
+// Credits all or part of an issued invoice, which is never edited once issued.
+export interface CreditNote {
+  number: string; // e.g. "CN-000007"
+  invoiceNumber: string | null; // Null when crediting an invoice issued before numbering
+  amount: Money;
+  reason: string;
+  issuedDate: string;
+}
+
+// Where an estimate stands with the customer. Work can't start until it's approved.
+export type EstimateStatus = 'sent' | 'approved' | 'rejected' | 'changes-requested';
+
+// The price a technician proposes after accepting a job, on the same lines as an invoice.
+export interface Estimate extends InvoiceBreakdown {
+  items: InvoiceItem[];
+  status: EstimateStatus;
+  sentDate: string;
+  respondedDate?: string;
+  customerNote?: string | null; // Why the customer rejected it, or what they'd like changed
+}
+
+export interface RequestChange {
+  changedAt: string;
+  isLate: boolean; // Made inside the late-change window after a technician accepted
+  reason?: string;
+}
+
+export type RequestHistoryAction =
+  | 'created'
+  | 'accepted'
+  | 'declined'
+  | 'status-changed'
+  | 'cancelled'
+  | 'rescheduled'
+  | 'invoice-created'
+  | 'payment'
+  | 'rating'
+  | 'assigned'
+  | 'invoice-voided'
+  | 'offered'
+  | 'escalated'
+  | 'estimate-sent'
+  | 'estimate-responded'
+  | 'invoice-revised'
+  | 'credit-note-issued';
+
+// Values are stored as they were written, so readers narrow them by `field`.
+export interface HistoryChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+// One immutable entry in `requests/{id}/history`. Entries are only ever appended.
+export interface RequestHistoryEntry {
+  id: string;
+  action: RequestHistoryAction;
+  actorUid: string;
+  actorRole: UserRole;
+  actorName: string;
+  changes: HistoryChange[];
+  timestamp: any;
+}
+
 export interface Rating {
   stars: number;
   feedback: string;
@@ -53,10 +160,34 @@ export interface TechnicianProfile {
   skills: string[];
 }
 
+export type NotificationType =
+  | 'new-job'
+  | 'job-offered'
+  | 'job-accepted'
+  | 'job-assigned'
+  | 'job-escalated'
+  | 'status-changed'
+  | 'rescheduled'
+  | 'estimate-sent'
+  | 'estimate-responded'
+  | 'invoice-issued'
+  | 'credit-note-issued'
+  | 'payment-received'
+  | 'new-message'
+  | 'rating-received';
+
+// Where a notification takes the user when clicked.
+export interface NotificationLink {
+  requestId?: string;
+  conversationId?: string;
+}
+
 export interface Notification {
   id: string;
+  type: NotificationType;
   message: string;
-  timestamp: string;
+  link: NotificationLink | null;
+  timestamp: any;
   read: boolean;
 }
 
@@ -69,6 +200,7 @@ export interface Message {
 
 export interface Conversation {
   id: string;
+  requestId?: string; // The service request this conversation belongs to
   participantUids: string[];
   participantInfo: {
     [uid: string]: {
@@ -86,30 +218,164 @@ export interface ServiceRequest {
   customerId: string; // UPDATED: Changed from customerUid to customerId for consistency
   customerName: string;
   customerAvatar: string;
-  serviceCategory: string;
+  serviceCategory: string; // The category's name when the request was made
+  serviceCategoryId?: string; // Missing on requests made before the catalog had ids
+  serviceSubcategoryId?: string;
+  durationMinutes?: number; // Fixed when booked; older requests took DEFAULT_JOB_DURATION_MINUTES
+  timeZone?: string; // IANA zone of the service location; `dateTime` reads in this zone
   description: string;
-  location: string;
+  location: string; // The address as one line; the only record of it on older requests
+  address?: ServiceAddress; // Missing on requests made before addresses were structured
   dateTime: string;
+  asSoonAsPossible?: boolean; // Emergencies: `dateTime` is when the customer asked rather than a booked slot
   urgency: Urgency;
   status: RequestStatus;
   paymentStatus: 'none' | 'pending' | 'paid';
   photo?: string;
-  invoice?: Invoice;
+  estimate?: Estimate; // The latest estimate; each new one replaces the last
+  invoice?: Invoice; // The current invoice; issued invoices are never changed
+  previousInvoices?: Invoice[]; // Invoices withdrawn or replaced, oldest first
+  creditNotes?: CreditNote[];
   customerRating?: Rating;
   technicianRating?: Rating;
 
   // --- NEW FIELDS TO ADD ---
-  assignedTechnicianUid?: string;
+  assignedTechnicianUid?: string | null;
   technicianName?: string;
   technicianAvatar?: string;
   technicianSkills?: string[];
   // -------------------------
+
+  declinedBy?: string[]; // UIDs of technicians who passed on this job
+  cancellation?: RequestChange;
+  reschedules?: (RequestChange & { fromDateTime: string; toDateTime: string })[];
+  statusChanges?: number; // Status changes and reassignments since the request was made; missing on older requests
+  pendingExpiresAt?: string; // ISO time after which an unclaimed request is closed
+  escalatesAt?: string; // Emergencies: ISO time after which an unclaimed request is escalated
+  escalatedAt?: string;
+  dispatch?: DispatchState; // Only on requests the customer asked to have matched automatically
+}
+
+// A position on the globe in decimal degrees.
+export interface GeoPoint {
+  lat: number;
+  lng: number;
+}
+
+// A street address, with its position once geocoded.
+export interface ServiceAddress {
+  line1: string; // Street and number
+  city: string;
+  postalCode: string;
+  coordinates?: GeoPoint; // Missing if the geocoder couldn't place it
+}
+
+// Where a technician takes jobs: within `radiusKm` of `base`, in any of `postalCodes`,
+// or both. Technicians who haven't set one are offered jobs anywhere.
+export interface ServiceArea {
+  base?: ServiceAddress; // Where distances are measured from, usually home or the workshop
+  radiusKm?: number;
+  postalCodes?: string[];
+}
+
+// A technician ranked for an auto-dispatched job, best first.
+export interface DispatchCandidate {
+  technicianUid: string;
+  technicianName: string;
+  score: number; // 0 to 1
+}
+
+// The technician who currently has the job to themselves, until `expiresAt`.
+export interface DispatchOffer extends DispatchCandidate {
+  offeredAt: string;
+  expiresAt: string;
+}
+
+// Auto-dispatched requests are offered to one technician at a time instead of going
+// straight to the job board. Once the queue runs out, `offer` is null and the request
+// is on the board like any other.
+export interface DispatchState {
+  offer: DispatchOffer | null;
+  queue: DispatchCandidate[]; // Still to be offered, best first
+  passedUids: string[]; // Declined or let their offer lapse
+  preferred?: boolean; // The customer asked for the offered technician by name
 }
-// in the UserProfile interface
 export interface UserProfile {
-  // ... existing fields: uid, fullName, etc. ...
-  
-  // --- NEW FIELDS TO ADD ---
-  averageRating?: number;
+  uid: string;
+  fullName: string;
+  email: string;
+  role: UserRole;
+  avatarUrl: string;
+  skills?: string[]; // Category ids, only for technicians
+  averageRating?: number; // Maintained when ratings are added
   ratingCount?: number;
+  pendingEmail?: string; // Set while a new email address awaits verification
+  suspended?: boolean; // Set by staff; suspended users can sign in but can't use the portal
+  workingHours?: WorkingHours; // Technicians only; DEFAULT_WORKING_HOURS until they set their own
+  timeZone?: string; // IANA zone their working hours and blocks are in; the device's until set
+  serviceArea?: ServiceArea | null; // Technicians only; jobs anywhere when unset
+}
+
+// One entry in the service-category catalog, managed by staff in `serviceCategories`.
+// Technician skills and `ServiceRequest.serviceCategoryId` hold top-level category ids;
+// subcategories only narrow down what a customer is asking for.
+export interface ServiceCategory {
+  id: string;
+  name: string;
+  icon: string; // An emoji shown next to the name
+  synonyms: string[]; // Other words customers search for, e.g. "plumber" or "leak"
+  parentId?: string | null; // Set on subcategories
+  durationMinutes?: number; // How long a job takes; subcategories inherit their parent's if unset
+  active: boolean; // Inactive categories are hidden from new sign-ups and requests
+}
+
+// A span of time within a day, as "HH:MM" in 24-hour local time.
+export interface TimeRange {
+  start: string;
+  end: string;
+}
+
+export interface WorkingDay {
+  isWorking: boolean; // false on days off
+  start: string; // "HH:MM"
+  end: string;
+  breaks: TimeRange[];
+}
+
+// A technician's repeating weekly template, from which bookable slots are cut.
+export interface WorkingHours {
+  days: WorkingDay[]; // Seven entries indexed like Date.getDay(), Sunday first
+  slotMinutes: number; // Jobs start on slot boundaries; longer jobs take consecutive slots
+}
+
+interface AvailabilityBlockBase {
+  id: string;
+  technicianUid: string;
+  note?: string; // Shown to the technician, e.g. "School run" or "Vacation"
+  exceptions: string[]; // YYYY-MM-DD days the block is lifted for
+}
+
+// Repeats every week on the given days, e.g. every Friday from 13:00 to 17:00.
+export interface RecurringBlock extends AvailabilityBlockBase {
+  kind: 'recurring';
+  weekdays: number[]; // Indexed like Date.getDay(), Sunday = 0
+  start: string; // "HH:MM"
+  end: string;
+}
+
+// Whole days away, from startDate to endDate inclusive.
+export interface TimeOffBlock extends AvailabilityBlockBase {
+  kind: 'time-off';
+  startDate: string; // YYYY-MM-DD
+  endDate: string;
+}
+
+// A rule that takes time out of a technician's working hours, stored in `availabilityBlocks`.
+export type AvailabilityBlock = RecurringBlock | TimeOffBlock;
+
+// A technician's manually blocked-off slots for one day, keyed `{uid}_{YYYY-MM-DD}`.
+export interface TechnicianSchedule {
+  technicianUid: string;
+  date: string; // YYYY-MM-DD
+  unavailableSlots: string[];
 }
@@ -0,0 +1,155 @@
+import { AvailabilityBlock, RequestStatus, ServiceRequest, TimeRange, WorkingHours } from './types';
+import { DEFAULT_JOB_DURATION_MINUTES, DEFAULT_WORKING_HOURS } from './constants';
+import { getZonedDateKey, getZonedMinutes } from './timeZones';
+
+/**
+ * A bookable slot on a particular day, in minutes since midnight. `label` is the
+ * "HH:MM - HH:MM" form stored in schedules and shown to users.
+ */
+export interface Slot {
+  start: number;
+  end: number;
+  label: string;
+}
+
+// "09:30" -> 570
+export const parseTime = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(part => parseInt(part, 10));
+  return hours * 60 + (minutes || 0);
+};
+
+// 570 -> "09:30"
+export const formatTime = (minutes: number): string =>
+  `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+
+export const toSlotLabel = (start: number, end: number) => `${formatTime(start)} - ${formatTime(end)}`;
+
+// '09:00 - 11:00' -> { start: 540, end: 660 }
+export const parseSlotLabel = (label: string): { start: number; end: number } => {
+  const [start, end] = label.split('-').map(part => part.trim());
+  return { start: parseTime(start), end: parseTime(end) };
+};
+
+/**
+ * Formats a calendar day as "YYYY-MM-DD" in the user's local time zone, matching
+ * how schedule documents and time-off ranges are keyed.
+ */
+export const toDateKey = (date: Date): string => {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+};
+
+// "2024-03-08" -> local midnight on that day
+export const fromDateKey = (key: string): Date => {
+  const [year, month, day] = key.split('-').map(part => parseInt(part, 10));
+  return new Date(year, month - 1, day);
+};
+
+export const minutesSinceMidnight = (date: Date) => date.getHours() * 60 + date.getMinutes();
+
+export const overlaps = (a: { start: number; end: number }, b: { start: number; end: number }) => a.start < b.end && b.start < a.end;
+
+export const getWorkingHours = (profile: { workingHours?: WorkingHours } | null | undefined): WorkingHours =>
+  profile?.workingHours || DEFAULT_WORKING_HOURS;
+
+export const getRequestDuration = (request: Pick<ServiceRequest, 'durationMinutes'>) =>
+  request.durationMinutes || DEFAULT_JOB_DURATION_MINUTES;
+
+/**
+ * The stretches of a day a technician is working, with breaks cut out, in minutes.
+ * Empty on days off.
+ */
+export const getWorkingPeriods = (hours: WorkingHours, date: Date): { start: number; end: number }[] => {
+  const day = hours.days[date.getDay()];
+  if (!day || !day.isWorking) return [];
+
+  let periods = [{ start: parseTime(day.start), end: parseTime(day.end) }];
+  day.breaks.forEach((pause: TimeRange) => {
+    const breakStart = parseTime(pause.start);
+    const breakEnd = parseTime(pause.end);
+    periods = periods.flatMap(period => {
+      if (!overlaps(period, { start: breakStart, end: breakEnd })) return [period];
+      return [
+        { start: period.start, end: breakStart },
+        { start: breakEnd, end: period.end },
+      ].filter(part => part.end > part.start);
+    });
+  });
+  return periods.filter(period => period.end > period.start);
+};
+
+/**
+ * Cuts a day into slots of the template's length. A slot never straddles a break or
+ * runs past the end of the day; any leftover minutes at the end of a period are unused.
+ */
+export const getDaySlots = (hours: WorkingHours, date: Date): Slot[] =>
+  getWorkingPeriods(hours, date).flatMap(period => {
+    const slots: Slot[] = [];
+    for (let start = period.start; start + hours.slotMinutes <= period.end; start += hours.slotMinutes) {
+      slots.push({ start, end: start + hours.slotMinutes, label: toSlotLabel(start, start + hours.slotMinutes) });
+    }
+    return slots;
+  });
+
+/**
+ * The slot start times at which a job of `durationMinutes` fits: entirely inside one
+ * working period and clear of everything in `busy`. A job longer than a slot takes the
+ * following slots too, so a two-hour job needs two consecutive free one-hour slots.
+ */
+export const getOpenStarts = (hours: WorkingHours, date: Date, durationMinutes: number, busy: { start: number; end: number }[]): number[] => {
+  const periods = getWorkingPeriods(hours, date);
+  return getDaySlots(hours, date)
+    .map(slot => ({ start: slot.start, end: slot.start + durationMinutes }))
+    .filter(job => periods.some(period => job.start >= period.start && job.end <= period.end))
+    .filter(job => !busy.some(interval => overlaps(job, interval)))
+    .map(job => job.start);
+};
+
+const WHOLE_DAY = { start: 0, end: 24 * 60 };
+
+// Whether the block takes any time out of `date`, ignoring its exceptions.
+const blockCoversDay = (block: AvailabilityBlock, dateKey: string, weekday: number) =>
+  block.kind === 'recurring'
+    ? block.weekdays.includes(weekday)
+    : dateKey >= block.startDate && dateKey <= block.endDate;
+
+/**
+ * The parts of `date` taken out by the technician's blocks, in minutes since midnight.
+ * A block lifted for the day by one of its exceptions doesn't count.
+ */
+export const getBlockedIntervals = (blocks: AvailabilityBlock[], date: Date): { start: number; end: number; block: AvailabilityBlock }[] => {
+  const dateKey = toDateKey(date);
+  return blocks
+    .filter(block => blockCoversDay(block, dateKey, date.getDay()) && !block.exceptions.includes(dateKey))
+    .map(block => block.kind === 'recurring'
+      ? { start: parseTime(block.start), end: parseTime(block.end), block }
+      : { ...WHOLE_DAY, block });
+};
+
+const WEEKDAY_NAMES = ['Sundays', 'Mondays', 'Tuesdays', 'Wednesdays', 'Thursdays', 'Fridays', 'Saturdays'];
+
+// "Fridays, 13:00 - 17:00" or "Mar 4 - Mar 8"
+export const describeBlock = (block: AvailabilityBlock): string => {
+  if (block.kind === 'recurring') {
+    return `${block.weekdays.map(day => WEEKDAY_NAMES[day]).join(', ')}, ${block.start} - ${block.end}`;
+  }
+  const format = (key: string) => fromDateKey(key).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+  return block.startDate === block.endDate ? format(block.startDate) : `${format(block.startDate)} - ${format(block.endDate)}`;
+};
+
+/**
+ * The jobs `block` would land on top of. Only jobs still ahead of the technician count:
+ * accepted or in progress, and not yet started. The block reads in `timeZone`, the
+ * technician's zone.
+ */
+export const findBlockConflicts = <T extends Pick<ServiceRequest, 'status' | 'dateTime' | 'durationMinutes'>>(block: AvailabilityBlock, jobs: T[], timeZone: string, now = new Date()): T[] =>
+  jobs
+    .filter(job => (job.status === RequestStatus.ACCEPTED || job.status === RequestStatus.IN_PROGRESS) && new Date(job.dateTime) > now)
+    .filter(job => {
+      const startsAt = new Date(job.dateTime);
+      const start = getZonedMinutes(startsAt, timeZone);
+      return getBlockedIntervals([block], fromDateKey(getZonedDateKey(startsAt, timeZone)))
+        .some(interval => overlaps(interval, { start, end: start + getRequestDuration(job) }));
+    });
@@ -19,6 +19,10 @@ export default defineConfig({
     'process.env.FIREBASE_APP_ID': JSON.stringify(process.env.FIREBASE_APP_ID),
     'process.env.FIREBASE_MEASUREMENT_ID': JSON.stringify(process.env.FIREBASE_MEASUREMENT_ID),
     'process.env.GEMINI_API_KEY': JSON.stringify(process.env.GEMINI_API_KEY),
+    // Which data and auth backend to use: 'firebase' (default), 'local' or 'memory'.
+    'process.env.DATA_BACKEND': JSON.stringify(process.env.DATA_BACKEND || 'firebase'),
+    // Where addresses are placed on the map: 'offline' (default, made-up positions) or 'nominatim'.
+    'process.env.GEOCODER': JSON.stringify(process.env.GEOCODER || 'offline'),
   },
   resolve: {
     alias: {